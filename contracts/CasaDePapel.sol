@@ -20,6 +20,8 @@ import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
 
 import "./lib/Math.sol";
 
+import "./interfaces/IPauseGuardian.sol";
+
 import "./tokens/InterestToken.sol";
 
 /**
@@ -34,6 +36,7 @@ import "./tokens/InterestToken.sol";
  * @notice Only the current {devAccount} can update the developer account, which gets 10% of all new minted tokens as they are harvested.
  * @notice The {CasaDePapel} needs to get the ownership of both {InterestToken} and {StakedInterestToken} before the {startBlock}.
  * @notice New {InterestToken} are minted based on block and not on timestamps.
+ * @notice The {pauseGuardian} can stop new deposits in an emergency. Withdrawals remain open.
  */
 contract CasaDePapel is Initializable, OwnableUpgradeable, UUPSUpgradeable {
     /*///////////////////////////////////////////////////////////////
@@ -87,6 +90,8 @@ contract CasaDePapel is Initializable, OwnableUpgradeable, UUPSUpgradeable {
 
     event NewInterestTokenRatePerBlock(uint256 rate);
 
+    event PauseGuardian(address indexed guardian);
+
     /*///////////////////////////////////////////////////////////////
                                 STRUCTS
     //////////////////////////////////////////////////////////////*/
@@ -133,6 +138,9 @@ contract CasaDePapel is Initializable, OwnableUpgradeable, UUPSUpgradeable {
     // Time when the minting of INT starts
     uint256 public startBlock;
 
+    // If set and it pauses this contract, {deposit} and {stake} are disabled.
+    IPauseGuardian public pauseGuardian;
+
     /*///////////////////////////////////////////////////////////////
                                 INITIALIZER
     //////////////////////////////////////////////////////////////*/
@@ -197,6 +205,15 @@ contract CasaDePapel is Initializable, OwnableUpgradeable, UUPSUpgradeable {
         _;
     }
 
+    modifier whenNotPaused() {
+        require(
+            address(pauseGuardian) == address(0) ||
+                !pauseGuardian.isPaused(address(this)),
+            "CP: paused"
+        );
+        _;
+    }
+
     /*///////////////////////////////////////////////////////////////
                             MUTATIVE FUNCTION
     //////////////////////////////////////////////////////////////*/
@@ -238,7 +255,7 @@ contract CasaDePapel is Initializable, OwnableUpgradeable, UUPSUpgradeable {
      * @param poolId The id of the pool that the user wishes to make a deposit and/or harvest rewards.
      * @param amount the number of tokens the user wishes to deposit. It can be 0 to simply harvest the rewards.
      */
-    function deposit(uint256 poolId, uint256 amount) external {
+    function deposit(uint256 poolId, uint256 amount) external whenNotPaused {
         // {INTEREST_TOKEN} has to be staked via the {staking} function.
         require(poolId != 0, "CP: use the staking function");
 
@@ -369,7 +386,7 @@ contract CasaDePapel is Initializable, OwnableUpgradeable, UUPSUpgradeable {
      *
      * @param amount The number of {INTEREST_TOKEN} the `msg.sender` wishes to stake
      */
-    function stake(uint256 amount) external {
+    function stake(uint256 amount) external whenNotPaused {
         // Update the pool to correctly calculate the rewards in this pool.
         uint256 intReward = _updatePool(0);
 
@@ -765,6 +782,21 @@ contract CasaDePapel is Initializable, OwnableUpgradeable, UUPSUpgradeable {
         emit UpdatePoolAllocationPoint(poolId, allocationPoints);
     }
 
+    /**
+     * @dev Sets the contract that can pause the deposits in an emergency.
+     *
+     * @param guardian The address of the {PauseGuardian}. The address zero disables it.
+     *
+     * Requirements:
+     *
+     * - Only the owner can set the guardian.
+     */
+    function setPauseGuardian(IPauseGuardian guardian) external onlyOwner {
+        pauseGuardian = guardian;
+
+        emit PauseGuardian(address(guardian));
+    }
+
     /**
      * @dev A hook to guard the address that can update the implementation of this contract. It must be the owner.
      */
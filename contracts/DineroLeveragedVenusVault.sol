@@ -9,6 +9,8 @@ import "@openzeppelin/contracts-upgradeable/token/ERC20/IERC20Upgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/token/ERC20/utils/SafeERC20Upgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/security/PausableUpgradeable.sol";
 
+import "./interfaces/IPauseGuardian.sol";
+import "./interfaces/IProtocolReserve.sol";
 import "./interfaces/IVenusController.sol";
 import "./interfaces/IVToken.sol";
 import "./interfaces/IVenusVault.sol";
@@ -27,6 +29,7 @@ import "./SafeVenus.sol";
  * @dev IMPORT to note that VTokens do not usually have 18 decimals. But their exchangeRate has a mantissa of 18. https://github.com/VenusProtocol/venus-protocol/blob/master/contracts/VToken.sol comment on line 21
  * The vault can incur a loss even though, we employ very conservative strategy. But the returns from the {DINERO} lent out, should cover it.
  * Losses can occur if the price of XVS drops drastically or there is a lot of demand for USDC compared to suppliers depending on the interest rate model.
+ * If the {reserve} is set, it covers the losses with its underlying before they are charged to the depositors.
  * This contract needs the {MINTER_ROLE} from {DINERO}.
  * Depositors will earn an interest on their deposits while losing 0 liquidity.
  * The vault employs Venus Protocol, https://app.venus.io/dashboard, to investment all it's assets by supplying them and opening loans of the same asset and keep doing this process as long as it is profitable.
@@ -91,6 +94,10 @@ contract DineroLeveragedVenusVault is
 
     event DineroLTV(uint256 indexed previousValue, uint256 indexed newValue);
 
+    event PauseGuardian(address indexed guardian);
+
+    event Reserve(address indexed reserve);
+
     /*///////////////////////////////////////////////////////////////
                                 STRUCT
     //////////////////////////////////////////////////////////////*/
@@ -168,6 +175,12 @@ contract DineroLeveragedVenusVault is
     // % of Dinero lent to the user based on principal deposited free of charge
     uint256 public dineroLTV;
 
+    // If set and it pauses this vault, it is paused as if the owner called {pause}.
+    IPauseGuardian public pauseGuardian;
+
+    // If set, it covers the losses of the vault before they are charged to the depositors.
+    IProtocolReserve public reserve;
+
     /*///////////////////////////////////////////////////////////////
                             INITIALIZER
     //////////////////////////////////////////////////////////////*/
@@ -268,6 +281,15 @@ contract DineroLeveragedVenusVault is
         return _underlyingWhitelist.values();
     }
 
+    /**
+     * @dev Returns true if the owner or the {pauseGuardian} paused this vault.
+     *
+     * @notice The owner can only {unpause} its own pause. The guardian pause is lifted by the owner of the {pauseGuardian}.
+     */
+    function paused() public view override returns (bool) {
+        return super.paused() || _isGuardianPaused();
+    }
+
     /*///////////////////////////////////////////////////////////////
                             MUTATIVE FUNCTION
     //////////////////////////////////////////////////////////////*/
@@ -756,6 +778,7 @@ contract DineroLeveragedVenusVault is
 
     /**
      * @dev It checks if there was a loss in non-debt backed underlying. In the case there is one, it updates the global state accordingly.
+     * @dev The {reserve} covers as much of the loss as it can before it is charged to the depositors.
      *
      * @param underlying The underlying of the `vToken`, which we will check if we incurred a loss or not.
      * @param vToken The VToken market that holds the underlying.
@@ -781,6 +804,19 @@ contract DineroLeveragedVenusVault is
             vToken.underlying().contractBalanceOf() -
             safeVenus.viewCurrentBorrow(vToken, address(this));
 
+        // save gas
+        IProtocolReserve _reserve = reserve;
+
+        // The reserve sends the `underlying` to this vault. So it is part of the free underlying.
+        if (
+            prevFreeUnderlying > currentFreeUnderlying &&
+            address(_reserve) != address(0)
+        )
+            currentFreeUnderlying += _reserve.coverLoss(
+                underlying,
+                prevFreeUnderlying - currentFreeUnderlying
+            );
+
         // Get previous recorded total loss per vToken
         uint256 totalLoss = totalLossOf[vToken];
 
@@ -828,6 +864,17 @@ contract DineroLeveragedVenusVault is
             borrowBalance;
     }
 
+    /**
+     * @dev Checks if the {pauseGuardian} is pausing this vault.
+     *
+     * @return bool True if there is a {pauseGuardian} and it paused this vault.
+     */
+    function _isGuardianPaused() private view returns (bool) {
+        return
+            address(pauseGuardian) != address(0) &&
+            pauseGuardian.isPaused(address(this));
+    }
+
     /**
      * @dev CLaims and sells all XVS on Pancake swap for the underlying of a `vToken` and supplies the new underlying on Venus.
      *
@@ -1180,11 +1227,43 @@ contract DineroLeveragedVenusVault is
      * Requirements:
      *
      * - Only the owner can call to avoid griefing.
+     * - The {pauseGuardian} must not be pausing this vault, because the vault would remain paused.
      */
     function unpause() external onlyOwner {
+        require(!_isGuardianPaused(), "DV: guardian paused");
         _unpause();
     }
 
+    /**
+     * @dev Sets the contract that can pause this vault in an emergency.
+     *
+     * @param guardian The address of the {PauseGuardian}. The address zero disables it.
+     *
+     * Requirements:
+     *
+     * - Only the owner can call to avoid griefing.
+     */
+    function setPauseGuardian(IPauseGuardian guardian) external onlyOwner {
+        pauseGuardian = guardian;
+
+        emit PauseGuardian(address(guardian));
+    }
+
+    /**
+     * @dev Sets the contract that covers the losses of this vault.
+     *
+     * @param _reserve The address of the {ProtocolReserve}. The address zero disables it.
+     *
+     * Requirements:
+     *
+     * - Only the owner can call to avoid griefing.
+     */
+    function setReserve(IProtocolReserve _reserve) external onlyOwner {
+        reserve = _reserve;
+
+        emit Reserve(address(_reserve));
+    }
+
     /**
      * @dev Sets a new collateral limit to be used on top of the Venus limit.
      *
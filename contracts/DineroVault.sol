@@ -7,14 +7,20 @@ import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/token/ERC20/IERC20Upgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/token/ERC20/utils/SafeERC20Upgradeable.sol";
 
+import "./interfaces/IPauseGuardian.sol";
+
 import "./tokens/Dinero.sol";
 
 import "./lib/IntERC20.sol";
+import "./lib/Math.sol";
 
 /**
  * @dev This vault simply accepts stable coins and mints them Dinero and 1:1 ratio.
  *
  * @notice Users with DAI/USDT/BUSD/USDC on BSC can easily mint Dinero leaving their coins as back up. They can get their deposit back by returning the minted dinero.
+ * @notice It also has a pooled peg stability module. Anyone can {mint} Dinero with a supported stable coin or {redeem} any Dinero for the stable coins in the pool.
+ * The pool is separate from the deposits of {deposit}, which can only be withdrawn by their depositor.
+ * @notice Each stable coin has a {mintCeilingOf} to limit how much Dinero it can back. Removed stable coins become withdraw only, so no deposit is stranded.
  */
 contract DineroVault is Initializable, OwnableUpgradeable, UUPSUpgradeable {
     /*///////////////////////////////////////////////////////////////
@@ -23,6 +29,7 @@ contract DineroVault is Initializable, OwnableUpgradeable, UUPSUpgradeable {
 
     using SafeERC20Upgradeable for IERC20Upgradeable;
     using IntERC20 for address;
+    using Math for uint256;
 
     /*///////////////////////////////////////////////////////////////
                             EVENTS
@@ -46,6 +53,53 @@ contract DineroVault is Initializable, OwnableUpgradeable, UUPSUpgradeable {
 
     event RemoveUnderlying(address indexed underlying);
 
+    event MintCeiling(address indexed underlying, uint256 mintCeiling);
+
+    event Reserves(
+        address indexed underlying,
+        uint256 totalDeposit,
+        uint256 reserve
+    );
+
+    event Mint(
+        address indexed account,
+        address indexed recipient,
+        address indexed underlying,
+        uint256 underlyingAmount,
+        uint256 dineroAmount,
+        uint256 fee
+    );
+
+    event Redeem(
+        address indexed account,
+        address indexed recipient,
+        address indexed underlying,
+        uint256 underlyingAmount,
+        uint256 dineroAmount,
+        uint256 fee
+    );
+
+    event PegStability(
+        address indexed underlying,
+        uint256 debtCeiling,
+        uint256 mintFee,
+        uint256 redeemFee
+    );
+
+    event CollectFees(address indexed recipient, uint256 amount);
+
+    event PauseGuardian(address indexed guardian);
+
+    /*///////////////////////////////////////////////////////////////
+                                STRUCTS
+    //////////////////////////////////////////////////////////////*/
+
+    struct PegStabilityConfig {
+        uint128 debtCeiling; // Maximum amount of Dinero the pool can mint with an underlying.
+        uint64 mintFee; // Fee charged in Dinero to {mint} with a base unit of 1e18.
+        uint64 redeemFee; // Fee charged in Dinero to {redeem} with a base unit of 1e18.
+    }
+
     /*///////////////////////////////////////////////////////////////
                                 STATE
     //////////////////////////////////////////////////////////////*/
@@ -58,6 +112,30 @@ contract DineroVault is Initializable, OwnableUpgradeable, UUPSUpgradeable {
 
     mapping(address => bool) public isUnderlyingSupported;
 
+    // UNDERLYING -> PegStabilityConfig
+    mapping(address => PegStabilityConfig) public pegStabilityOf;
+
+    // UNDERLYING -> Amount of `underlying` in the peg stability pool. It does not include the {balanceOf} deposits.
+    mapping(address => uint256) public reserveOf;
+
+    // Dinero paid as fees to the peg stability pool that the {owner} has not collected.
+    uint256 public feesEarned;
+
+    // UNDERLYING -> Maximum amount of Dinero that can be minted with `underlying` by {deposit} and {mint} together.
+    mapping(address => uint256) public mintCeilingOf;
+
+    // UNDERLYING -> Amount of `underlying` deposited by all users with {deposit}.
+    mapping(address => uint256) public totalDepositOf;
+
+    // UNDERLYING -> If true, the `underlying` was removed but users can still {withdraw} and {redeem} it.
+    mapping(address => bool) public isWithdrawOnly;
+
+    // If set and it pauses this vault, {deposit}, {withdraw}, {mint} and {redeem} are disabled.
+    IPauseGuardian public pauseGuardian;
+
+    // Version of the storage set by {initialize} or {initializeV2}.
+    uint8 private _version;
+
     /*///////////////////////////////////////////////////////////////
                             INITIALIZER
     //////////////////////////////////////////////////////////////*/
@@ -73,6 +151,42 @@ contract DineroVault is Initializable, OwnableUpgradeable, UUPSUpgradeable {
         __Ownable_init();
 
         DINERO = dinero;
+        _version = 2;
+    }
+
+    /**
+     * @dev Migrates the storage of a vault deployed before the mint ceilings and the peg stability pool.
+     *
+     * @notice Those vaults only hold {deposit}s, so the balance of each `underlying` seeds its {totalDepositOf}.
+     *
+     * @param underlyings The stable coins already supported by this vault
+     * @param mintCeilings The maximum amount of Dinero that can be minted with each `underlying`
+     *
+     * Requirements:
+     *
+     * - onlyOwner to prevent front running. It should be called with the upgrade.
+     * - Can only be called once and not by vaults deployed with {initialize}.
+     * - `underlyings` and `mintCeilings` must have the same length.
+     */
+    function initializeV2(
+        address[] calldata underlyings,
+        uint256[] calldata mintCeilings
+    ) external onlyOwner {
+        require(_version < 2, "DV: already initialized");
+        require(underlyings.length == mintCeilings.length, "DV: wrong length");
+
+        _version = 2;
+
+        for (uint256 i; i < underlyings.length; i++) {
+            address underlying = underlyings[i];
+            uint256 totalDeposit = underlying.contractBalanceOf();
+
+            totalDepositOf[underlying] = totalDeposit;
+            mintCeilingOf[underlying] = mintCeilings[i];
+
+            emit MintCeiling(underlying, mintCeilings[i]);
+            emit Reserves(underlying, totalDeposit, 0);
+        }
     }
 
     /*///////////////////////////////////////////////////////////////
@@ -84,6 +198,23 @@ contract DineroVault is Initializable, OwnableUpgradeable, UUPSUpgradeable {
         _;
     }
 
+    modifier canWithdraw(address underlying) {
+        require(
+            isUnderlyingSupported[underlying] || isWithdrawOnly[underlying],
+            "DV: not supported"
+        );
+        _;
+    }
+
+    modifier whenNotPaused() {
+        require(
+            address(pauseGuardian) == address(0) ||
+                !pauseGuardian.isPaused(address(this)),
+            "DV: paused"
+        );
+        _;
+    }
+
     /*///////////////////////////////////////////////////////////////
                             MUTATIVE FUNCTIONS
     //////////////////////////////////////////////////////////////*/
@@ -97,12 +228,22 @@ contract DineroVault is Initializable, OwnableUpgradeable, UUPSUpgradeable {
      * Requirements:
      *
      * - `amount` needs to be greater than 0, otherwise the `msg.sender` will just waste gas.
+     * - The Dinero backed by `underlying` cannot exceed its {mintCeilingOf}.
      */
     function deposit(address underlying, uint256 amount)
         external
         isWhitelisted(underlying)
+        whenNotPaused
     {
         require(amount > 0, "DV: no amount 0");
+
+        uint256 totalDeposit = totalDepositOf[underlying] + amount;
+        uint256 reserve = reserveOf[underlying];
+
+        _checkMintCeiling(underlying, totalDeposit + reserve);
+
+        totalDepositOf[underlying] = totalDeposit;
+
         // Get the deposit from the user
         IERC20Upgradeable(underlying).safeTransferFrom(
             _msgSender(),
@@ -122,6 +263,7 @@ contract DineroVault is Initializable, OwnableUpgradeable, UUPSUpgradeable {
         DINERO.mint(_msgSender(), dineroAmount);
 
         emit Deposit(_msgSender(), underlying, amount, dineroAmount);
+        emit Reserves(underlying, totalDeposit, reserve);
     }
 
     /**
@@ -133,15 +275,20 @@ contract DineroVault is Initializable, OwnableUpgradeable, UUPSUpgradeable {
      * Requirements:
      *
      * - `amount` needs to be greater than 0, otherwise the `msg.sender` will just waste gas.
+     * - `underlying` must be supported or withdraw only.
      */
     function withdraw(address underlying, uint256 amount)
         external
-        isWhitelisted(underlying)
+        canWithdraw(underlying)
+        whenNotPaused
     {
         require(amount > 0, "DV: no amount 0");
         // Update support after getting the deposit
         balanceOf[underlying][_msgSender()] -= amount;
 
+        uint256 totalDeposit = totalDepositOf[underlying] - amount;
+        totalDepositOf[underlying] = totalDeposit;
+
         uint256 dineroAmount = _scaleDecimals(
             amount,
             underlying.safeDecimals()
@@ -154,12 +301,234 @@ contract DineroVault is Initializable, OwnableUpgradeable, UUPSUpgradeable {
         IERC20Upgradeable(underlying).safeTransfer(_msgSender(), amount);
 
         emit Withdraw(_msgSender(), underlying, amount, dineroAmount);
+        emit Reserves(underlying, totalDeposit, reserveOf[underlying]);
+    }
+
+    /**
+     * @dev It allows anyone to sell `underlying` to the peg stability pool for Dinero at 1:1 ratio minus the {PegStabilityConfig.mintFee}.
+     *
+     * @notice The `underlying` can be redeemed by anyone with Dinero, not only by the `msg.sender`.
+     *
+     * @param underlying The stable coin the `msg.sender` wishes to sell
+     * @param amount The number of `underlying` tokens the `msg.sender` wishes to sell
+     * @param recipient The address that will receive the Dinero
+     * @return dineroAmount The amount of Dinero sent to the `recipient`
+     *
+     * Requirements:
+     *
+     * - `amount` needs to be greater than 0, otherwise the `msg.sender` will just waste gas.
+     * - The Dinero backed by the pool `underlying` cannot exceed its {PegStabilityConfig.debtCeiling}.
+     * - The Dinero backed by `underlying` cannot exceed its {mintCeilingOf}.
+     */
+    function mint(
+        address underlying,
+        uint256 amount,
+        address recipient
+    )
+        external
+        isWhitelisted(underlying)
+        whenNotPaused
+        returns (uint256 dineroAmount)
+    {
+        require(amount > 0, "DV: no amount 0");
+
+        PegStabilityConfig memory config = pegStabilityOf[underlying];
+        uint8 decimals = underlying.safeDecimals();
+
+        uint256 reserve = reserveOf[underlying] + amount;
+
+        require(
+            config.debtCeiling >= _scaleDecimals(reserve, decimals),
+            "DV: debt ceiling reached"
+        );
+
+        uint256 totalDeposit = totalDepositOf[underlying];
+
+        _checkMintCeiling(underlying, totalDeposit + reserve);
+
+        reserveOf[underlying] = reserve;
+
+        IERC20Upgradeable(underlying).safeTransferFrom(
+            _msgSender(),
+            address(this),
+            amount
+        );
+
+        uint256 fee;
+        (dineroAmount, fee) = previewMint(underlying, amount);
+
+        feesEarned += fee;
+
+        DINERO.mint(recipient, dineroAmount);
+
+        emit Mint(
+            _msgSender(),
+            recipient,
+            underlying,
+            amount,
+            dineroAmount,
+            fee
+        );
+        emit Reserves(underlying, totalDeposit, reserve);
+    }
+
+    /**
+     * @dev It allows anyone to buy `underlying` from the peg stability pool with Dinero at 1:1 ratio plus the {PegStabilityConfig.redeemFee}.
+     *
+     * @param underlying The stable coin the `msg.sender` wishes to buy
+     * @param amount The number of `underlying` tokens the `msg.sender` wishes to buy
+     * @param recipient The address that will receive the `underlying`
+     * @return dineroAmount The amount of Dinero burned from the `msg.sender`
+     *
+     * Requirements:
+     *
+     * - `amount` needs to be greater than 0, otherwise the `msg.sender` will just waste gas.
+     * - `underlying` must be supported or withdraw only.
+     * - The pool must have at least `amount` of `underlying`.
+     */
+    function redeem(
+        address underlying,
+        uint256 amount,
+        address recipient
+    )
+        external
+        canWithdraw(underlying)
+        whenNotPaused
+        returns (uint256 dineroAmount)
+    {
+        require(amount > 0, "DV: no amount 0");
+        uint256 reserve = reserveOf[underlying];
+        require(reserve >= amount, "DV: not enough reserves");
+
+        reserve -= amount;
+        reserveOf[underlying] = reserve;
+
+        uint256 fee;
+        (dineroAmount, fee) = previewRedeem(underlying, amount);
+
+        feesEarned += fee;
+
+        // The fee is kept as {feesEarned} and minted when collected.
+        DINERO.burn(_msgSender(), dineroAmount);
+
+        IERC20Upgradeable(underlying).safeTransfer(recipient, amount);
+
+        emit Redeem(
+            _msgSender(),
+            recipient,
+            underlying,
+            amount,
+            dineroAmount,
+            fee
+        );
+        emit Reserves(underlying, totalDepositOf[underlying], reserve);
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                            VIEW FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @dev Returns the `underlying` held by this vault.
+     *
+     * @param underlying A stable coin
+     * @return totalReserves The `underlying` backing Dinero
+     * @return totalDeposit The `underlying` deposited with {deposit}
+     * @return reserve The `underlying` in the peg stability pool
+     */
+    function getReserves(address underlying)
+        external
+        view
+        returns (
+            uint256 totalReserves,
+            uint256 totalDeposit,
+            uint256 reserve
+        )
+    {
+        totalDeposit = totalDepositOf[underlying];
+        reserve = reserveOf[underlying];
+        totalReserves = totalDeposit + reserve;
+    }
+
+    /**
+     * @dev Returns how much Dinero can still be minted with `underlying` before reaching its {mintCeilingOf}.
+     *
+     * @notice The peg stability pool is also limited by its {PegStabilityConfig.debtCeiling}.
+     *
+     * @param underlying A stable coin
+     * @return uint256 The amount of Dinero
+     */
+    function getMintCapacity(address underlying)
+        external
+        view
+        returns (uint256)
+    {
+        uint256 minted = _scaleDecimals(
+            totalDepositOf[underlying] + reserveOf[underlying],
+            underlying.safeDecimals()
+        );
+        uint256 mintCeiling = mintCeilingOf[underlying];
+
+        return mintCeiling > minted ? mintCeiling - minted : 0;
+    }
+
+    /**
+     * @dev Returns how much Dinero the peg stability pool sends for `amount` of `underlying`.
+     *
+     * @param underlying A supported stable coin
+     * @param amount The number of `underlying` tokens to sell
+     * @return dineroAmount The Dinero sent to the seller
+     * @return fee The Dinero kept by the protocol
+     */
+    function previewMint(address underlying, uint256 amount)
+        public
+        view
+        returns (uint256 dineroAmount, uint256 fee)
+    {
+        dineroAmount = _scaleDecimals(amount, underlying.safeDecimals());
+        fee = dineroAmount.wadMul(pegStabilityOf[underlying].mintFee);
+        dineroAmount -= fee;
+    }
+
+    /**
+     * @dev Returns how much Dinero the peg stability pool charges for `amount` of `underlying`.
+     *
+     * @param underlying A supported stable coin
+     * @param amount The number of `underlying` tokens to buy
+     * @return dineroAmount The Dinero paid by the buyer including the `fee`
+     * @return fee The Dinero kept by the protocol
+     */
+    function previewRedeem(address underlying, uint256 amount)
+        public
+        view
+        returns (uint256 dineroAmount, uint256 fee)
+    {
+        dineroAmount = _scaleDecimals(amount, underlying.safeDecimals());
+        fee = dineroAmount.wadMul(pegStabilityOf[underlying].redeemFee);
+        dineroAmount += fee;
     }
 
     /*///////////////////////////////////////////////////////////////
                             PRIVATE FUNCTIONS
     //////////////////////////////////////////////////////////////*/
 
+    /**
+     * @dev Reverts if the Dinero backed by `totalReserves` of `underlying` exceeds its {mintCeilingOf}.
+     *
+     * @param underlying A supported stable coin
+     * @param totalReserves The `underlying` deposited plus the `underlying` in the peg stability pool
+     */
+    function _checkMintCeiling(address underlying, uint256 totalReserves)
+        private
+        view
+    {
+        require(
+            mintCeilingOf[underlying] >=
+                _scaleDecimals(totalReserves, underlying.safeDecimals()),
+            "DV: mint ceiling reached"
+        );
+    }
+
     /**
      * @dev Adjusts the amount of a token to have 18 decimal like Dinero.
      *
@@ -190,19 +559,26 @@ contract DineroVault is Initializable, OwnableUpgradeable, UUPSUpgradeable {
      * @dev Add support for a stable coin.
      *
      * @param underlying The address of the stable coin that this vault will support
+     * @param mintCeiling The maximum amount of Dinero that can be minted with `underlying`
      *
      * Requirements:
      *
      * - onlyOwner as this vault mints dinero 1:1 with `underlying`. We need to make sure they are reputable stable coins.
      */
-    function addUnderlying(address underlying) external onlyOwner {
+    function addUnderlying(address underlying, uint256 mintCeiling)
+        external
+        onlyOwner
+    {
         isUnderlyingSupported[underlying] = true;
+        isWithdrawOnly[underlying] = false;
+        mintCeilingOf[underlying] = mintCeiling;
 
         emit AddUnderlying(underlying);
+        emit MintCeiling(underlying, mintCeiling);
     }
 
     /**
-     * @dev Add support for a stable coin.
+     * @dev Removes support for a stable coin. Users can still {withdraw} their deposits and {redeem} the peg stability pool reserves.
      *
      * @param underlying The address of the stable coin that this vault will remove support
      *
@@ -212,10 +588,100 @@ contract DineroVault is Initializable, OwnableUpgradeable, UUPSUpgradeable {
      */
     function removeUnderlying(address underlying) external onlyOwner {
         isUnderlyingSupported[underlying] = false;
+        isWithdrawOnly[underlying] = true;
 
         emit RemoveUnderlying(underlying);
     }
 
+    /**
+     * @dev Updates the maximum amount of Dinero that can be minted with a stable coin.
+     *
+     * @notice Lowering it below the current reserves only stops new deposits and mints.
+     *
+     * @param underlying The address of the stable coin
+     * @param mintCeiling The maximum amount of Dinero that can be minted with `underlying`
+     *
+     * Requirements:
+     *
+     * - onlyOwner as it controls how much Dinero can be backed by `underlying`.
+     */
+    function setMintCeiling(address underlying, uint256 mintCeiling)
+        external
+        onlyOwner
+    {
+        mintCeilingOf[underlying] = mintCeiling;
+
+        emit MintCeiling(underlying, mintCeiling);
+    }
+
+    /**
+     * @dev Updates the peg stability pool parameters of an `underlying`.
+     *
+     * @notice Lowering the `debtCeiling` below the current reserves only stops new mints.
+     *
+     * @param underlying The stable coin that will be updated
+     * @param debtCeiling The maximum amount of Dinero the pool can mint with `underlying`
+     * @param mintFee The fee to sell `underlying` to the pool with a base unit of 1e18
+     * @param redeemFee The fee to buy `underlying` from the pool with a base unit of 1e18
+     *
+     * Requirements:
+     *
+     * - onlyOwner as it controls how much Dinero can be minted with `underlying`.
+     * - The fees cannot be higher than 5%.
+     */
+    function setPegStability(
+        address underlying,
+        uint128 debtCeiling,
+        uint64 mintFee,
+        uint64 redeemFee
+    ) external onlyOwner {
+        require(0.05e18 >= mintFee && 0.05e18 >= redeemFee, "DV: fee too high");
+
+        pegStabilityOf[underlying] = PegStabilityConfig(
+            debtCeiling,
+            mintFee,
+            redeemFee
+        );
+
+        emit PegStability(underlying, debtCeiling, mintFee, redeemFee);
+    }
+
+    /**
+     * @dev Mints the Dinero fees earned by the peg stability pool.
+     *
+     * @notice Every Dinero in the pool has already been paid for with stable coins. So the fees are backed.
+     *
+     * @param recipient The address that will receive the fees
+     *
+     * Requirements:
+     *
+     * - onlyOwner to make sure only the protocol collects the fees.
+     */
+    function collectFees(address recipient) external onlyOwner {
+        uint256 fees = feesEarned;
+
+        feesEarned = 0;
+
+        DINERO.mint(recipient, fees);
+
+        emit CollectFees(recipient, fees);
+    }
+
+    /**
+     * @dev Sets the contract that can pause this vault in an emergency.
+     *
+     * @param guardian The address of the {PauseGuardian}. The address zero disables it.
+     *
+     * Requirements:
+     *
+     * - onlyOwner because the guardian can disable deposits and withdrawals.
+     */
+    function setPauseGuardian(IPauseGuardian guardian) external onlyOwner {
+        pauseGuardian = guardian;
+
+        emit PauseGuardian(address(guardian));
+    }
+
     /**
      * @dev A hook to guard the address that can update the implementation of this contract. It must be the owner.
      */
@@ -0,0 +1,498 @@
+//SPDX-License-Identifier: MIT
+pragma solidity 0.8.13;
+
+import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/token/ERC20/ERC20Upgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/token/ERC20/IERC20Upgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/token/ERC20/utils/SafeERC20Upgradeable.sol";
+
+import "./interfaces/IERC4626.sol";
+import "./interfaces/IVToken.sol";
+
+import "./lib/Math.sol";
+import "./lib/IntERC20.sol";
+
+import "./DineroLeveragedVenusVault.sol";
+
+/**
+ * @dev An ERC4626 vault that holds a position of one `asset` in the {DineroLeveragedVenusVault}. Its shares are a transferable claim on that position.
+ * @dev The {VAULT} accounts this contract as a single depositor. So the shares earn the XVS rewards it compounds and pay the losses it socializes, like any other account.
+ *
+ * @notice The Dinero the {VAULT} lends on deposits stays in this contract. It is burned on withdrawals, so share holders do not need Dinero to redeem.
+ * @notice The conversions use the rewards and losses the {VAULT} has recorded. It records the new ones when this contract deposits or withdraws.
+ * @notice The rewards the {VAULT} pays on withdrawals stay in this contract as `asset` until the next withdrawal. They are part of the {totalAssets}.
+ * @notice Deposits pay the 0.5% fee of the {VAULT}.
+ * @notice The shares have 3 more decimals than the `asset` to protect the conversions from inflation attacks.
+ * @notice This contract is upgradeable using the UUPS pattern with Open Zeppelin plugins.
+ */
+contract DineroVenusVaultShares is
+    Initializable,
+    ERC20Upgradeable,
+    OwnableUpgradeable,
+    UUPSUpgradeable,
+    IERC4626
+{
+    /*///////////////////////////////////////////////////////////////
+                            LIBRARIES
+    //////////////////////////////////////////////////////////////*/
+
+    using SafeERC20Upgradeable for IERC20Upgradeable;
+    using Math for uint256;
+    using IntERC20 for address;
+
+    /*///////////////////////////////////////////////////////////////
+                                STATE
+    //////////////////////////////////////////////////////////////*/
+
+    // Same precision factor the {VAULT} uses to calculate losses and rewards.
+    uint256 internal constant PRECISION = 1e10;
+
+    // The {VAULT} charges a 0.5% fee on deposits.
+    uint256 internal constant DEPOSIT_FEE = 0.005e18;
+
+    // The conversions add 10**3 virtual shares and 1 virtual `asset`. An inflation of the share price with a donation would cost more than it could take from the next depositor.
+    // They also keep the `asset` left when all shares are redeemed from the next depositor.
+    uint8 internal constant DECIMALS_OFFSET = 3;
+
+    uint256 internal constant VIRTUAL_SHARES = 10**DECIMALS_OFFSET;
+
+    //solhint-disable-next-line var-name-mixedcase
+    DineroLeveragedVenusVault public VAULT;
+
+    // The stable coin this contract deposits in the {VAULT}.
+    address public asset;
+
+    /*///////////////////////////////////////////////////////////////
+                            INITIALIZER
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @param vault The address of the {DineroLeveragedVenusVault}.
+     * @param underlying The stable coin of the position.
+     * @param name The name of the shares.
+     * @param symbol The symbol of the shares.
+     *
+     * Requirements:
+     *
+     * - Can only be called at once and should be called during creation to prevent front running.
+     * - The `vault` must support the `underlying`.
+     */
+    function initialize(
+        DineroLeveragedVenusVault vault,
+        address underlying,
+        string calldata name,
+        string calldata symbol
+    ) external initializer {
+        require(
+            vault.isUnderlyingSupported(underlying),
+            "DVS: underlying not whitelisted"
+        );
+
+        __ERC20_init(name, symbol);
+        __Ownable_init();
+
+        VAULT = vault;
+        asset = underlying;
+
+        // We trust the `vault` as it holds the position.
+        IERC20Upgradeable(underlying).safeApprove(
+            address(vault),
+            type(uint256).max
+        );
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                            VIEW FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @dev Returns the decimals of the shares. They have {DECIMALS_OFFSET} more decimals than the `asset`.
+     *
+     * @return uint8 The number of decimals.
+     */
+    function decimals()
+        public
+        view
+        override(ERC20Upgradeable, IERC20MetadataUpgradeable)
+        returns (uint8)
+    {
+        return asset.safeDecimals() + DECIMALS_OFFSET;
+    }
+
+    /**
+     * @dev Returns the `asset` this contract has in the {VAULT} with its pending rewards and losses, plus the `asset` it holds.
+     *
+     * @return uint256 The total number of `asset` of the share holders.
+     */
+    function totalAssets() public view returns (uint256) {
+        (uint256 vTokens, uint256 rewards, uint256 exchangeRate) = _position();
+
+        return
+            (vTokens + rewards).wadMul(exchangeRate) +
+            asset.contractBalanceOf();
+    }
+
+    /**
+     * @dev Returns how many shares an amount of `asset` is worth.
+     *
+     * @param assets The number of `asset`.
+     * @return uint256 The number of shares.
+     */
+    function convertToShares(uint256 assets) public view returns (uint256) {
+        return assets.mulDiv(totalSupply() + VIRTUAL_SHARES, totalAssets() + 1);
+    }
+
+    /**
+     * @dev Returns how many `asset` an amount of shares is worth.
+     *
+     * @param shares The number of shares.
+     * @return uint256 The number of `asset`.
+     */
+    function convertToAssets(uint256 shares) public view returns (uint256) {
+        return shares.mulDiv(totalAssets() + 1, totalSupply() + VIRTUAL_SHARES);
+    }
+
+    /**
+     * @dev Returns the shares a {deposit} of `assets` mints after the {VAULT} fee.
+     *
+     * @param assets The number of `asset` to deposit.
+     * @return uint256 The number of shares.
+     */
+    function previewDeposit(uint256 assets) public view returns (uint256) {
+        return convertToShares(assets - assets.wadMul(DEPOSIT_FEE));
+    }
+
+    /**
+     * @dev Returns the `asset` a {mint} of `shares` takes, including the {VAULT} fee.
+     *
+     * @param shares The number of shares to mint.
+     * @return uint256 The number of `asset`.
+     */
+    function previewMint(uint256 shares) public view returns (uint256) {
+        uint256 assets = shares.mulDivRoundingUp(
+            totalAssets() + 1,
+            totalSupply() + VIRTUAL_SHARES
+        );
+
+        return assets.mulDivRoundingUp(1 ether, 1 ether - DEPOSIT_FEE);
+    }
+
+    /**
+     * @dev Returns the shares a {withdraw} of `assets` burns.
+     *
+     * @param assets The number of `asset` to withdraw.
+     * @return uint256 The number of shares.
+     */
+    function previewWithdraw(uint256 assets) public view returns (uint256) {
+        return
+            assets.mulDivRoundingUp(
+                totalSupply() + VIRTUAL_SHARES,
+                totalAssets() + 1
+            );
+    }
+
+    /**
+     * @dev Returns the `asset` a {redeem} of `shares` sends.
+     *
+     * @param shares The number of shares to redeem.
+     * @return uint256 The number of `asset`.
+     */
+    function previewRedeem(uint256 shares) public view returns (uint256) {
+        return convertToAssets(shares);
+    }
+
+    /**
+     * @dev Returns the maximum `asset` a `receiver` can deposit. It is 0 if the {VAULT} is paused or no longer supports the `asset`.
+     *
+     * @return uint256 The maximum number of `asset`.
+     */
+    function maxDeposit(address) external view returns (uint256) {
+        return _isOpen() ? type(uint256).max : 0;
+    }
+
+    /**
+     * @dev Returns the maximum shares a `receiver` can mint. It is 0 if the {VAULT} is paused or no longer supports the `asset`.
+     *
+     * @return uint256 The maximum number of shares.
+     */
+    function maxMint(address) external view returns (uint256) {
+        return _isOpen() ? type(uint256).max : 0;
+    }
+
+    /**
+     * @dev Returns the maximum `asset` an `owner` can withdraw. It is 0 if the {VAULT} is paused or no longer supports the `asset`.
+     *
+     * @notice It does not check the liquidity of Venus.
+     *
+     * @param owner The address that holds the shares.
+     * @return uint256 The maximum number of `asset`.
+     */
+    function maxWithdraw(address owner) external view returns (uint256) {
+        return _isOpen() ? convertToAssets(balanceOf(owner)) : 0;
+    }
+
+    /**
+     * @dev Returns the maximum shares an `owner` can redeem. It is 0 if the {VAULT} is paused or no longer supports the `asset`.
+     *
+     * @notice It does not check the liquidity of Venus.
+     *
+     * @param owner The address that holds the shares.
+     * @return uint256 The maximum number of shares.
+     */
+    function maxRedeem(address owner) external view returns (uint256) {
+        return _isOpen() ? balanceOf(owner) : 0;
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                            MUTATIVE FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @dev Deposits `assets` in the {VAULT} and mints shares to a `receiver`.
+     *
+     * @notice `msg.sender` has to approve this contract to use the `asset`.
+     *
+     * @param assets The number of `asset` to deposit.
+     * @param receiver The address that will receive the shares.
+     * @return shares The number of shares minted.
+     *
+     * Requirements:
+     *
+     * - The {VAULT} must be unpaused.
+     * - The deposit must mint shares.
+     */
+    function deposit(uint256 assets, address receiver)
+        external
+        returns (uint256 shares)
+    {
+        shares = previewDeposit(assets);
+
+        require(shares != 0, "DVS: no zero shares");
+
+        _deposit(assets, shares, receiver);
+    }
+
+    /**
+     * @dev Mints `shares` to a `receiver` by depositing `asset` in the {VAULT}.
+     *
+     * @notice `msg.sender` has to approve this contract to use the `asset`.
+     *
+     * @param shares The number of shares to mint.
+     * @param receiver The address that will receive the shares.
+     * @return assets The number of `asset` deposited.
+     *
+     * Requirements:
+     *
+     * - The {VAULT} must be unpaused.
+     */
+    function mint(uint256 shares, address receiver)
+        external
+        returns (uint256 assets)
+    {
+        assets = previewMint(shares);
+
+        _deposit(assets, shares, receiver);
+    }
+
+    /**
+     * @dev Burns the shares of an `owner` to send `assets` to a `receiver`.
+     *
+     * @notice Withdrawals will fail if Venus does not have enough liquidity.
+     *
+     * @param assets The number of `asset` to withdraw.
+     * @param receiver The address that will receive the `asset`.
+     * @param owner The address that holds the shares.
+     * @return shares The number of shares burned.
+     *
+     * Requirements:
+     *
+     * - The {VAULT} must be unpaused.
+     * - `msg.sender` must be the `owner` or have an allowance of the shares.
+     * - The {VAULT} must send enough `asset` to pay the `assets`.
+     */
+    function withdraw(
+        uint256 assets,
+        address receiver,
+        address owner
+    ) external returns (uint256 shares) {
+        shares = previewWithdraw(assets);
+
+        _withdraw(assets, shares, receiver, owner);
+    }
+
+    /**
+     * @dev Burns `shares` of an `owner` to send their `asset` to a `receiver`.
+     *
+     * @notice Redemptions will fail if Venus does not have enough liquidity.
+     *
+     * @param shares The number of shares to redeem.
+     * @param receiver The address that will receive the `asset`.
+     * @param owner The address that holds the shares.
+     * @return assets The number of `asset` sent.
+     *
+     * Requirements:
+     *
+     * - The {VAULT} must be unpaused.
+     * - `msg.sender` must be the `owner` or have an allowance of the shares.
+     * - The `shares` must be worth some `asset`.
+     * - The {VAULT} must send enough `asset` to pay them.
+     */
+    function redeem(
+        uint256 shares,
+        address receiver,
+        address owner
+    ) external returns (uint256 assets) {
+        assets = previewRedeem(shares);
+
+        require(assets != 0, "DVS: no zero assets");
+
+        _withdraw(assets, shares, receiver, owner);
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                            PRIVATE FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @dev Returns true if the {VAULT} accepts deposits of `asset`.
+     */
+    function _isOpen() private view returns (bool) {
+        return !VAULT.paused() && VAULT.isUnderlyingSupported(asset);
+    }
+
+    /**
+     * @dev Finds the account of this contract in the {VAULT} as it would be after the {VAULT} charges its recorded losses.
+     *
+     * @return vTokens The VTokens of this contract after the losses.
+     * @return rewards The VToken rewards the {VAULT} owes this contract.
+     * @return exchangeRate The current exchange rate of the VToken.
+     */
+    function _position()
+        private
+        view
+        returns (
+            uint256 vTokens,
+            uint256 rewards,
+            uint256 exchangeRate
+        )
+    {
+        // save gas
+        DineroLeveragedVenusVault vault = VAULT;
+        address underlying = asset;
+
+        IVToken vToken = vault.vTokenOf(underlying);
+
+        exchangeRate = vault.SAFE_VENUS().viewExchangeRate(vToken);
+
+        (
+            ,
+            uint128 accountVTokens,
+            uint256 rewardsPaid,
+            uint256 lossVTokensAccrued
+        ) = vault.accountOf(underlying, address(this));
+
+        if (accountVTokens == 0) return (0, 0, exchangeRate);
+
+        // VTokens have different decimals, so we need to be careful when dividing and multiplying.
+        uint256 decimalsFactor = 10**address(vToken).safeDecimals();
+
+        // Same calculations as the {VAULT}. Losses are charged before the rewards are calculated.
+        vTokens =
+            accountVTokens -
+            (uint256(accountVTokens).mulDiv(
+                vault.totalLossOf(vToken),
+                decimalsFactor
+            ) - lossVTokensAccrued) /
+            PRECISION;
+
+        rewards =
+            (vTokens.mulDiv(vault.rewardsOf(vToken), decimalsFactor) -
+                rewardsPaid) /
+            PRECISION;
+    }
+
+    /**
+     * @dev Takes `assets` from `msg.sender`, deposits them in the {VAULT} and mints `shares` to a `receiver`.
+     *
+     * @param assets The number of `asset` to deposit.
+     * @param shares The number of shares to mint.
+     * @param receiver The address that will receive the shares.
+     */
+    function _deposit(
+        uint256 assets,
+        uint256 shares,
+        address receiver
+    ) private {
+        IERC20Upgradeable(asset).safeTransferFrom(
+            _msgSender(),
+            address(this),
+            assets
+        );
+
+        // The {VAULT} mints Dinero to this contract. It is kept to repay it on withdrawals.
+        VAULT.deposit(asset, assets);
+
+        _mint(receiver, shares);
+
+        emit Deposit(_msgSender(), receiver, assets, shares);
+    }
+
+    /**
+     * @dev Burns `shares` of an `owner`, withdraws `assets` from the {VAULT} if this contract does not hold enough and sends them to a `receiver`.
+     *
+     * @param assets The number of `asset` to send.
+     * @param shares The number of shares to burn.
+     * @param receiver The address that will receive the `asset`.
+     * @param owner The address that holds the shares.
+     */
+    function _withdraw(
+        uint256 assets,
+        uint256 shares,
+        address receiver,
+        address owner
+    ) private {
+        if (_msgSender() != owner) _spendAllowance(owner, _msgSender(), shares);
+
+        _burn(owner, shares);
+
+        uint256 balance = asset.contractBalanceOf();
+
+        if (assets > balance) {
+            (, uint256 rewards, uint256 exchangeRate) = _position();
+
+            // The {VAULT} sends the rewards on top of the VTokens withdrawn.
+            uint256 vTokenAmount = (assets - balance).mulDivRoundingUp(
+                1 ether,
+                exchangeRate
+            );
+
+            // The {VAULT} does not accept withdrawals of 0 VTokens. The extra `asset` stays in this contract.
+            vTokenAmount = vTokenAmount > rewards ? vTokenAmount - rewards : 1;
+
+            // The {VAULT} burns the Dinero it lent to this contract.
+            VAULT.withdraw(asset, vTokenAmount);
+        }
+
+        // Venus may leave some dust in the calculations. The `receiver` must not be paid less than the shares burned are worth.
+        require(asset.contractBalanceOf() >= assets, "DVS: not enough assets");
+
+        IERC20Upgradeable(asset).safeTransfer(receiver, assets);
+
+        emit Withdraw(_msgSender(), receiver, owner, assets, shares);
+    }
+
+    /**
+     * @dev A hook to guard the address that can update the implementation of this contract. It must be the owner.
+     */
+    function _authorizeUpgrade(address)
+        internal
+        view
+        override
+        onlyOwner
+    //solhint-disable-next-line no-empty-blocks
+    {
+
+    }
+}
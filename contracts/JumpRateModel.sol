@@ -0,0 +1,135 @@
+//SPDX-License-Identifier: MIT
+pragma solidity 0.8.13;
+
+import "./interfaces/IInterestRateModel.sol";
+
+import "./lib/Math.sol";
+
+/**
+ * @dev An interest rate model based on the utilization of the {maxBorrowAmount} of a Dinero market.
+ * The rate grows slowly until the utilization reaches the {KINK} and fast after it. It encourages borrowers to repay before a market runs out of Dinero to lend.
+ *
+ * @notice All rates are charged per second and have a base unit of 1e18.
+ * @notice The parameters are immutable. The owner of a market changes them by setting a new model.
+ */
+contract JumpRateModel is IInterestRateModel {
+    /*///////////////////////////////////////////////////////////////
+                            LIBRARIES
+    //////////////////////////////////////////////////////////////*/
+
+    using Math for uint256;
+
+    /*///////////////////////////////////////////////////////////////
+                                STATE
+    //////////////////////////////////////////////////////////////*/
+
+    // 1e18 / 31_536_000 = ~100% a year.
+    uint256 internal constant MAX_INTEREST_RATE = 31_709_791_983;
+
+    // solhint-disable-next-line var-name-mixedcase
+    uint256 public immutable BASE_RATE; // The interest rate when the utilization is 0.
+
+    // solhint-disable-next-line var-name-mixedcase
+    uint256 public immutable MULTIPLIER; // How much the rate increases per 100% of utilization until the {KINK}.
+
+    // solhint-disable-next-line var-name-mixedcase
+    uint256 public immutable JUMP_MULTIPLIER; // How much the rate increases per 100% of utilization after the {KINK}.
+
+    // solhint-disable-next-line var-name-mixedcase
+    uint256 public immutable KINK; // The utilization after which the {JUMP_MULTIPLIER} is applied.
+
+    /*///////////////////////////////////////////////////////////////
+                                CONSTRUCTOR
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @param baseRate The interest rate when the utilization is 0.
+     * @param multiplier How much the rate increases per 100% of utilization until the `kink`.
+     * @param jumpMultiplier How much the rate increases per 100% of utilization after the `kink`.
+     * @param kink The utilization after which the `jumpMultiplier` is applied.
+     *
+     * Requirements:
+     *
+     * - `kink` cannot be higher than 100%.
+     * - The interest rate at 100% utilization cannot be higher than ~100% a year.
+     */
+    constructor(
+        uint256 baseRate,
+        uint256 multiplier,
+        uint256 jumpMultiplier,
+        uint256 kink
+    ) {
+        require(1e18 >= kink, "JRM: kink too high");
+        // The interest rate at 100% utilization. Immutables cannot be read in the constructor.
+        require(
+            MAX_INTEREST_RATE >=
+                baseRate +
+                    kink.wadMul(multiplier) +
+                    (1e18 - kink).wadMul(jumpMultiplier),
+            "JRM: rate too high"
+        );
+
+        BASE_RATE = baseRate;
+        MULTIPLIER = multiplier;
+        JUMP_MULTIPLIER = jumpMultiplier;
+        KINK = kink;
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                            VIEW FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @dev Returns how much of the `maxBorrowAmount` has been borrowed.
+     *
+     * @param totalDebt The principal + interest owed by all borrowers of the market.
+     * @param maxBorrowAmount The maximum amount of Dinero the market can lend.
+     * @return uint256 The utilization with a base unit of 1e18. It is capped at 100%.
+     */
+    function getUtilization(uint256 totalDebt, uint256 maxBorrowAmount)
+        public
+        pure
+        returns (uint256)
+    {
+        if (maxBorrowAmount == 0) return 1e18;
+
+        return totalDebt.wadDiv(maxBorrowAmount).min(1e18);
+    }
+
+    /**
+     * @dev Returns the interest rate per second of a market.
+     *
+     * @param totalDebt The principal + interest owed by all borrowers of the market.
+     * @param maxBorrowAmount The maximum amount of Dinero the market can lend.
+     * @return uint256 The interest rate with a base unit of 1e18.
+     */
+    function getInterestRate(uint256 totalDebt, uint256 maxBorrowAmount)
+        external
+        view
+        returns (uint256)
+    {
+        return _getInterestRate(getUtilization(totalDebt, maxBorrowAmount));
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                            PRIVATE FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @param utilization The utilization with a base unit of 1e18.
+     * @return uint256 The interest rate per second.
+     */
+    function _getInterestRate(uint256 utilization)
+        private
+        view
+        returns (uint256)
+    {
+        if (KINK >= utilization)
+            return BASE_RATE + utilization.wadMul(MULTIPLIER);
+
+        return
+            BASE_RATE +
+            KINK.wadMul(MULTIPLIER) +
+            (utilization - KINK).wadMul(JUMP_MULTIPLIER);
+    }
+}
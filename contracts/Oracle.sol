@@ -19,6 +19,7 @@ import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/token/ERC20/extensions/IERC20MetadataUpgradeable.sol";
 
 import "./interfaces/AggregatorV3Interface.sol";
+import "./interfaces/IPancakeFactory.sol";
 import "./interfaces/IPancakePair.sol";
 import "./interfaces/IOracle.sol";
 
@@ -35,10 +36,13 @@ import "./PancakeOracle.sol";
  * @notice The lending markets rely on this being the case.
  * @notice Security of this contract relies on Chainlink.
  * @notice We scale all decimals to 18 to follow the same decimals as WBNB and BUSD.
- * @notice It supports LP tokens.
+ * @notice It supports the LP tokens of Uniswap v2 forks. The {pricingStrategyOf} a token decides if it is priced as a LP token. By default, tokens created by a registered {isLPFactory} are LP tokens.
  * @notice We intend to add a back up oracle using PCS TWAPS before main net release.
- * @notice It does not treat in case of a price of 0 or failure.
- * @notice Only supports tokens supported by Chainlink  https://docs.chain.link/docs/binance-smart-chain-addresses/.
+ * @notice Chainlink answers that are not positive, incomplete, older than the {heartbeatOf} their feed or too far from the TWAP fall back to the TWAP.
+ * @notice Tokens without a Chainlink feed https://docs.chain.link/docs/binance-smart-chain-addresses/ are priced in BNB by the TWAP. It can go through the routes of the {PancakeOracle} for tokens without a BNB pair.
+ * @notice Feed changes are timelocked by {feedDelay}. They are proposed with {proposeFeed} and applied with {executeFeed}.
+ * @notice The {feedDelay} can be raised at once, but it is lowered with {proposeFeedDelay} and {executeFeedDelay} after the current delay.
+ * @notice The other settings that change prices are timelocked by the {feedDelay} as well. They are proposed with {proposeSetting} and applied with {executeSetting}.
  * @notice We assume that BUSD is USD - 0x4Fabb145d64652a948d72533023f6E7A623C7C53
  */
 contract Oracle is Initializable, OwnableUpgradeable, UUPSUpgradeable, IOracle {
@@ -49,6 +53,59 @@ contract Oracle is Initializable, OwnableUpgradeable, UUPSUpgradeable, IOracle {
     using Math for uint256;
     using IntERC20 for address;
 
+    /*///////////////////////////////////////////////////////////////
+                                EVENTS
+    //////////////////////////////////////////////////////////////*/
+
+    event Heartbeat(address indexed feed, uint256 heartbeat);
+
+    event MaxDeviation(uint256 maxDeviation, bool revertOnDeviation);
+
+    event LPFactory(address indexed factory, bool enabled);
+
+    event PricingStrategy(address indexed token, Strategy strategy);
+
+    event FeedDelay(uint256 delay);
+
+    event ProposeFeedDelay(uint256 delay, uint256 eta);
+
+    event CancelFeedDelay(uint256 delay);
+
+    event ProposeSetting(bytes32 indexed key, bytes data, uint256 eta);
+
+    event CancelSetting(bytes32 indexed key);
+
+    event ProposeFeed(
+        address indexed asset,
+        FeedType indexed feedType,
+        address feed,
+        uint256 eta
+    );
+
+    event CancelFeed(
+        address indexed asset,
+        FeedType indexed feedType,
+        address feed
+    );
+
+    event FeedUpdate(
+        address indexed asset,
+        FeedType indexed feedType,
+        address indexed previousFeed,
+        address feed
+    );
+
+    /*///////////////////////////////////////////////////////////////
+                                STRUCTS
+    //////////////////////////////////////////////////////////////*/
+
+    struct FeedChange {
+        address asset;
+        FeedType feedType;
+        AggregatorV3Interface feed;
+        uint64 eta; // Timestamp after which it can be executed.
+    }
+
     /*///////////////////////////////////////////////////////////////
                                 ENUMS
     //////////////////////////////////////////////////////////////*/
@@ -59,6 +116,13 @@ contract Oracle is Initializable, OwnableUpgradeable, UUPSUpgradeable, IOracle {
         BNB
     }
 
+    // To dictate how {getUSDPrice} values a token. Auto prices the tokens created by a registered {isLPFactory} as LP tokens.
+    enum Strategy {
+        Auto,
+        Token,
+        LP
+    }
+
     /*///////////////////////////////////////////////////////////////
                                 STATE
     //////////////////////////////////////////////////////////////*/
@@ -73,6 +137,12 @@ contract Oracle is Initializable, OwnableUpgradeable, UUPSUpgradeable, IOracle {
     // solhint-disable-next-line var-name-mixedcase
     address internal constant BUSD = 0xe9e7CEA3DedcA5984780Bafc599bD69ADd087D56;
 
+    // solhint-disable-next-line var-name-mixedcase
+    address internal constant PCS_FACTORY =
+        0xcA143Ce32Fe78f1f7019d7d551a6402fC5350c73;
+
+    uint256 internal constant MAX_FEED_DELAY = 7 days;
+
     // solhint-disable-next-line var-name-mixedcase
     PancakeOracle public TWAP;
 
@@ -81,6 +151,42 @@ contract Oracle is Initializable, OwnableUpgradeable, UUPSUpgradeable, IOracle {
     // Token Address -> Chainlink feed with BNB base.
     mapping(address => AggregatorV3Interface) public getBNBFeeds;
 
+    // Chainlink feed -> Maximum seconds since its last update. 0 means it is not checked.
+    mapping(address => uint256) public heartbeatOf;
+
+    // Maximum difference between a Chainlink price and the TWAP price with a base unit of 1e18. 0 means it is not checked.
+    uint256 public maxDeviation;
+
+    // If true, prices too far from the TWAP revert instead of falling back to the TWAP.
+    bool public revertOnDeviation;
+
+    // Uniswap v2 fork factory -> If its pairs are priced as LP tokens.
+    mapping(address => bool) public isLPFactory;
+
+    // Token Address -> How {getUSDPrice} values it.
+    mapping(address => Strategy) public pricingStrategyOf;
+
+    // Seconds between {proposeFeed} and {executeFeed}. 0 allows {setFeed}.
+    uint256 public feedDelay;
+
+    // The feed changes waiting to be executed.
+    FeedChange[] private _pendingFeeds;
+
+    // keccak256(asset, feedType) -> index of its change in {_pendingFeeds} + 1. 0 means there is no change.
+    mapping(bytes32 => uint256) private _pendingFeedIndexOf;
+
+    // The lower {feedDelay} waiting to be executed with {executeFeedDelay}.
+    uint256 public pendingFeedDelay;
+
+    // Timestamp after which the {pendingFeedDelay} can be executed. 0 means there is no pending delay.
+    uint256 public pendingFeedDelayEta;
+
+    // Version of the storage set by {initialize} or {initializeV2}.
+    uint8 private _version;
+
+    // keccak256(setting call) -> Timestamp after which it can be executed with {executeSetting}. 0 means it was not proposed.
+    mapping(bytes32 => uint256) public settingEtaOf;
+
     /*///////////////////////////////////////////////////////////////
                             INITIALIZER
     //////////////////////////////////////////////////////////////*/
@@ -96,6 +202,38 @@ contract Oracle is Initializable, OwnableUpgradeable, UUPSUpgradeable, IOracle {
         __Ownable_init();
 
         TWAP = twap;
+        _version = 2;
+
+        isLPFactory[PCS_FACTORY] = true;
+
+        emit LPFactory(PCS_FACTORY, true);
+    }
+
+    /**
+     * @dev Migrates the storage of an oracle deployed before the LP factories.
+     *
+     * @notice Those oracles priced the PCS pairs as LP tokens, so it registers the {PCS_FACTORY}.
+     * @notice Their feeds are already set, so it timelocks them with the {feedDelay}.
+     *
+     * @param delay The {feedDelay}. It cannot be 0 or longer than {MAX_FEED_DELAY}.
+     *
+     * Requirements:
+     *
+     * - onlyOwner to prevent front running. It should be called with the upgrade.
+     * - Can only be called once and not by oracles deployed with {initialize}.
+     */
+    function initializeV2(uint256 delay) external onlyOwner {
+        require(_version < 2, "Oracle: already initialized");
+        require(delay != 0, "Oracle: no delay");
+        require(MAX_FEED_DELAY >= delay, "Oracle: delay too long");
+
+        _version = 2;
+
+        isLPFactory[PCS_FACTORY] = true;
+        feedDelay = delay;
+
+        emit LPFactory(PCS_FACTORY, true);
+        emit FeedDelay(delay);
     }
 
     /*///////////////////////////////////////////////////////////////
@@ -124,12 +262,322 @@ contract Oracle is Initializable, OwnableUpgradeable, UUPSUpgradeable, IOracle {
         return price / 10**(decimals - baseDecimals);
     }
 
+    /**
+     * @dev Reads the price of 1 unit from a Chainlink `feed`.
+     *
+     * @notice It is not valid if the `feed` is not set, the call reverts, the answer is not positive, the round is incomplete or it is older than the {heartbeatOf} the `feed`.
+     *
+     * @param feed A Chainlink feed
+     * @return valid bool If the price can be used.
+     * @return price uint256 The price with 18 decimals.
+     */
+    function _getFeedPrice(AggregatorV3Interface feed)
+        private
+        view
+        returns (bool valid, uint256 price)
+    {
+        // Tokens without a feed are priced by the TWAP routes.
+        if (address(feed) == address(0)) return (false, 0);
+
+        try feed.latestRoundData() returns (
+            uint80 roundId,
+            int256 answer,
+            uint256,
+            uint256 updatedAt,
+            uint80 answeredInRound
+        ) {
+            uint256 heartbeat = heartbeatOf[address(feed)];
+
+            if (
+                0 >= answer ||
+                updatedAt == 0 ||
+                roundId > answeredInRound ||
+                // solhint-disable-next-line not-rely-on-time
+                (heartbeat != 0 && block.timestamp > updatedAt + heartbeat)
+            ) return (false, 0);
+
+            return (true, _scaleDecimals(answer.toUint256(), feed.decimals()));
+        } catch {
+            return (false, 0);
+        }
+    }
+
+    /**
+     * @dev Reads the TWAP price of 1 `tokenIn` in `tokenOut`.
+     *
+     * @param tokenIn The token to price
+     * @param tokenOut The token to price in
+     * @return uint256 The price with 18 decimals. It is 0 if the TWAP reverts.
+     */
+    function _getTWAPPrice(address tokenIn, address tokenOut)
+        private
+        view
+        returns (uint256)
+    {
+        try TWAP.consult(tokenIn, 1 ether, tokenOut) returns (
+            uint256 amountOut
+        ) {
+            return _scaleDecimals(amountOut, tokenOut.safeDecimals());
+        } catch {
+            return 0;
+        }
+    }
+
+    /**
+     * @dev Checks if a Chainlink `price` is within the {maxDeviation} of the `twapPrice`.
+     *
+     * @notice The check is skipped if the TWAP has no price.
+     *
+     * @param price The Chainlink price
+     * @param twapPrice The TWAP price
+     * @return bool If the Chainlink `price` can be used.
+     *
+     * Requirements:
+     *
+     * - The `price` must be within the {maxDeviation} if {revertOnDeviation} is true.
+     */
+    function _isWithinDeviation(uint256 price, uint256 twapPrice)
+        private
+        view
+        returns (bool)
+    {
+        if (twapPrice == 0) return true;
+
+        uint256 deviation = (
+            price > twapPrice ? price - twapPrice : twapPrice - price
+        ).wadDiv(twapPrice);
+
+        if (maxDeviation >= deviation) return true;
+
+        require(!revertOnDeviation, "Oracle: price deviation");
+
+        return false;
+    }
+
+    /**
+     * @dev Sets the feed of an `asset` and logs the previous one.
+     *
+     * @param asset The token that will be associated with a feed.
+     * @param feed The address of the chain link oracle contract.
+     * @param feedType A enum representing which kind of feed to update
+     */
+    function _setFeed(
+        address asset,
+        AggregatorV3Interface feed,
+        FeedType feedType
+    ) private {
+        mapping(address => AggregatorV3Interface) storage feeds = feedType ==
+            FeedType.BNB
+            ? getBNBFeeds
+            : getUSDFeeds;
+
+        address previousFeed = address(feeds[asset]);
+
+        feeds[asset] = feed;
+
+        emit FeedUpdate(asset, feedType, previousFeed, address(feed));
+    }
+
+    /**
+     * @dev Removes the pending change of the feed of an `asset`. It moves the last change to its index.
+     *
+     * @param key The keccak256 of the `asset` and the `feedType` of the change.
+     * @return change FeedChange The removed change.
+     */
+    function _removePendingFeed(bytes32 key)
+        private
+        returns (FeedChange memory change)
+    {
+        uint256 index = _pendingFeedIndexOf[key] - 1;
+        uint256 lastIndex = _pendingFeeds.length - 1;
+
+        change = _pendingFeeds[index];
+
+        if (index != lastIndex) {
+            FeedChange memory lastChange = _pendingFeeds[lastIndex];
+            _pendingFeeds[index] = lastChange;
+            _pendingFeedIndexOf[
+                _getFeedKey(lastChange.asset, lastChange.feedType)
+            ] = index + 1;
+        }
+
+        _pendingFeeds.pop();
+        delete _pendingFeedIndexOf[key];
+    }
+
+    /**
+     * @dev Removes the {pendingFeedDelay}.
+     */
+    function _cancelFeedDelay() private {
+        emit CancelFeedDelay(pendingFeedDelay);
+
+        delete pendingFeedDelay;
+        delete pendingFeedDelayEta;
+    }
+
+    /**
+     * @dev The key of the pending change of the feed of an `asset`.
+     */
+    function _getFeedKey(address asset, FeedType feedType)
+        private
+        pure
+        returns (bytes32)
+    {
+        return keccak256(abi.encode(asset, feedType));
+    }
+
+    /**
+     * @dev Checks if `data` is a call to {setHeartbeat}, {setMaxDeviation}, {setLPFactory} or {setPricingStrategy}.
+     */
+    function _isSetting(bytes calldata data) private pure returns (bool) {
+        if (4 > data.length) return false;
+
+        bytes4 selector = bytes4(data[:4]);
+
+        return
+            selector == this.setHeartbeat.selector ||
+            selector == this.setMaxDeviation.selector ||
+            selector == this.setLPFactory.selector ||
+            selector == this.setPricingStrategy.selector;
+    }
+
+    /**
+     * @dev Applies a setting proposed with {proposeSetting}.
+     *
+     * @param data The call to {setHeartbeat}, {setMaxDeviation}, {setLPFactory} or {setPricingStrategy}.
+     */
+    function _applySetting(bytes calldata data) private {
+        bytes4 selector = bytes4(data[:4]);
+        bytes calldata args = data[4:];
+
+        if (selector == this.setHeartbeat.selector) {
+            (AggregatorV3Interface feed, uint256 heartbeat) = abi.decode(
+                args,
+                (AggregatorV3Interface, uint256)
+            );
+            _setHeartbeat(feed, heartbeat);
+        } else if (selector == this.setMaxDeviation.selector) {
+            (uint256 _maxDeviation, bool _revertOnDeviation) = abi.decode(
+                args,
+                (uint256, bool)
+            );
+            _setMaxDeviation(_maxDeviation, _revertOnDeviation);
+        } else if (selector == this.setLPFactory.selector) {
+            (address factory, bool enabled) = abi.decode(args, (address, bool));
+            _setLPFactory(factory, enabled);
+        } else {
+            // {proposeSetting} only accepts the calls of {_isSetting}.
+            (address token, Strategy strategy) = abi.decode(
+                args,
+                (address, Strategy)
+            );
+            _setPricingStrategy(token, strategy);
+        }
+    }
+
+    /**
+     * @dev Sets the {heartbeatOf} a Chainlink `feed`.
+     */
+    function _setHeartbeat(AggregatorV3Interface feed, uint256 heartbeat)
+        private
+    {
+        heartbeatOf[address(feed)] = heartbeat;
+
+        emit Heartbeat(address(feed), heartbeat);
+    }
+
+    /**
+     * @dev Sets the {maxDeviation} and {revertOnDeviation}.
+     */
+    function _setMaxDeviation(uint256 _maxDeviation, bool _revertOnDeviation)
+        private
+    {
+        maxDeviation = _maxDeviation;
+        revertOnDeviation = _revertOnDeviation;
+
+        emit MaxDeviation(_maxDeviation, _revertOnDeviation);
+    }
+
+    /**
+     * @dev Adds or removes a Uniswap v2 fork `factory`.
+     */
+    function _setLPFactory(address factory, bool enabled) private {
+        require(factory != address(0), "Oracle: no address zero");
+
+        isLPFactory[factory] = enabled;
+
+        emit LPFactory(factory, enabled);
+    }
+
+    /**
+     * @dev Sets the {pricingStrategyOf} a `token`.
+     */
+    function _setPricingStrategy(address token, Strategy strategy) private {
+        pricingStrategyOf[token] = strategy;
+
+        emit PricingStrategy(token, strategy);
+    }
+
     /*///////////////////////////////////////////////////////////////
                             VIEW FUNCTIONS
     //////////////////////////////////////////////////////////////*/
 
     /**
-     * @dev It returns usd value of {ERC20} tokens and checks if they are a PCS LP token or not.
+     * @dev Returns the pending change of the feed of an `asset`.
+     *
+     * @param asset The token associated with the feed.
+     * @param feedType A enum representing which kind of feed.
+     * @return change FeedChange The change. Its `eta` is 0 if there is none.
+     */
+    function getPendingFeed(address asset, FeedType feedType)
+        external
+        view
+        returns (FeedChange memory change)
+    {
+        uint256 index = _pendingFeedIndexOf[_getFeedKey(asset, feedType)];
+
+        if (index != 0) change = _pendingFeeds[index - 1];
+    }
+
+    /**
+     * @dev Returns every feed change waiting to be executed.
+     *
+     * @return FeedChange[] The changes in no particular order.
+     */
+    function getPendingFeeds() external view returns (FeedChange[] memory) {
+        return _pendingFeeds;
+    }
+
+    /**
+     * @dev Checks if {getUSDPrice} values a `token` with its fair reserves.
+     *
+     * @notice Tokens with the {Strategy.Auto} are LP tokens if a registered {isLPFactory} created them.
+     *
+     * @param token The address of the {ERC20} token
+     * @return bool If the `token` is priced as a LP token.
+     */
+    function isLPToken(address token) public view returns (bool) {
+        Strategy strategy = pricingStrategyOf[token];
+
+        if (strategy != Strategy.Auto) return strategy == Strategy.LP;
+
+        // Plain tokens do not have a factory.
+        try IPancakePair(token).factory() returns (address factory) {
+            if (!isLPFactory[factory]) return false;
+
+            // A token can return any factory. So we confirm that the factory created it.
+            return
+                IPancakeFactory(factory).getPair(
+                    IPancakePair(token).token0(),
+                    IPancakePair(token).token1()
+                ) == token;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * @dev It returns usd value of {ERC20} tokens and checks if they are a LP token or not.
      *
      * @notice Note the usd price has a mantissa of 1e18.
      *
@@ -142,11 +590,7 @@ contract Oracle is Initializable, OwnableUpgradeable, UUPSUpgradeable, IOracle {
         view
         returns (uint256 usdValue)
     {
-        // Check if it is a pancake pair.
-        if (
-            keccak256(abi.encodePacked(IPancakePair(token).symbol())) ==
-            keccak256("Cake-LP")
-        ) {
+        if (isLPToken(token)) {
             (, usdValue) = getLPTokenPx(IPancakePair(token), amount);
         } else {
             usdValue = getTokenUSDPrice(token, amount);
@@ -173,45 +617,31 @@ contract Oracle is Initializable, OwnableUpgradeable, UUPSUpgradeable, IOracle {
         // BNB feed is not saved in a mapping for gas optimization.
         if (token == WBNB) return getBNBUSDPrice(amount);
 
-        AggregatorV3Interface feed = getUSDFeeds[token];
+        (bool valid, uint256 feedPrice) = _getFeedPrice(getUSDFeeds[token]);
 
-        try feed.latestRoundData() returns (
-            uint80,
-            int256 answer,
-            uint256,
-            uint256,
-            uint80
-        ) {
-            price = _scaleDecimals(answer.toUint256(), feed.decimals()).wadMul(
-                amount
-            );
-        } catch Error(string memory) {
-            // Get the token price in BNB as token/BUSD pairs are rare
-            uint256 bnbPrice = _scaleDecimals(
-                TWAP.consult(token, amount, WBNB),
-                WBNB.safeDecimals()
+        if (valid && maxDeviation != 0)
+            valid = _isWithinDeviation(
+                feedPrice,
+                _getTWAPPrice(token, WBNB).wadMul(getBNBUSDPrice(1 ether))
             );
 
-            // Then get BNB price in
-            // We just need price for 1BNB because we already computed the amount above
-            price = bnbPrice.wadMul(getBNBUSDPrice(1 ether));
-        } catch (bytes memory) {
-            // Get the token price in BNB as token/BUSD pairs are rare
-            uint256 bnbPrice = _scaleDecimals(
-                TWAP.consult(token, amount, WBNB),
-                WBNB.safeDecimals()
-            );
+        if (valid) return feedPrice.wadMul(amount);
 
-            // Then get BNB price in
-            // We just need price for 1BNB because we already computed the amount above
-            price = bnbPrice.wadMul(getBNBUSDPrice(1 ether));
-        }
+        // Get the token price in BNB as token/BUSD pairs are rare
+        uint256 bnbPrice = _scaleDecimals(
+            TWAP.consult(token, amount, WBNB),
+            WBNB.safeDecimals()
+        );
+
+        // Then get BNB price in
+        // We just need price for 1BNB because we already computed the amount above
+        price = bnbPrice.wadMul(getBNBUSDPrice(1 ether));
     }
 
     /**
      * @dev It returns the both price BNB and USD value for an amount of LP tokens based on the fair liquidity.
      *
-     * @param pair The Pancake pair we wish to get the fair bnb value
+     * @param pair The Uniswap v2 pair we wish to get the fair bnb value
      * @param amount The number of LPs we wish to have the value for
      * @return valueInBNB valueInUSD (uint256 , uint256) A pair with both the value in BNB and USD
      */
@@ -230,7 +660,7 @@ contract Oracle is Initializable, OwnableUpgradeable, UUPSUpgradeable, IOracle {
     /**
      * @dev It calculates the price in BNB for 1 lp token based on the K of the pair. Wanna thank Alpha Finance for this <3!
      *
-     * @param pair The Pancakeswap pair to find it's fair BNB value.
+     * @param pair The Uniswap v2 pair to find it's fair BNB value. Its tokens are priced with the Chainlink feeds and the PCS TWAP.
      * @return uint256 price of 1 lp token in BNB
      *
      * The formula breakdown can be found in the links below:
@@ -283,28 +713,17 @@ contract Oracle is Initializable, OwnableUpgradeable, UUPSUpgradeable, IOracle {
         if (token == WBNB) return amount;
         require(token != address(0), "Oracle: no address zero");
 
-        AggregatorV3Interface feed = getBNBFeeds[token];
-        try feed.latestRoundData() returns (
-            uint80,
-            int256 answer,
-            uint256,
-            uint256,
-            uint80
-        ) {
-            price = _scaleDecimals(answer.toUint256(), feed.decimals()).wadMul(
-                amount
-            );
-        } catch Error(string memory) {
-            price = _scaleDecimals(
-                TWAP.consult(token, amount, WBNB),
-                WBNB.safeDecimals()
-            );
-        } catch (bytes memory) {
-            price = _scaleDecimals(
-                TWAP.consult(token, amount, WBNB),
-                WBNB.safeDecimals()
-            );
-        }
+        (bool valid, uint256 feedPrice) = _getFeedPrice(getBNBFeeds[token]);
+
+        if (valid && maxDeviation != 0)
+            valid = _isWithinDeviation(feedPrice, _getTWAPPrice(token, WBNB));
+
+        if (valid) return feedPrice.wadMul(amount);
+
+        price = _scaleDecimals(
+            TWAP.consult(token, amount, WBNB),
+            WBNB.safeDecimals()
+        );
     }
 
     /**
@@ -314,30 +733,18 @@ contract Oracle is Initializable, OwnableUpgradeable, UUPSUpgradeable, IOracle {
      * @return uint256 A pair that has the value price and the decimal houses in the right
      */
     function getBNBUSDPrice(uint256 amount) public view returns (uint256) {
-        try BNB_USD.latestRoundData() returns (
-            uint80,
-            int256 answer,
-            uint256,
-            uint256,
-            uint80
-        ) {
-            return
-                (_scaleDecimals(answer.toUint256(), BNB_USD.decimals())).wadMul(
-                    amount
-                );
-        } catch Error(string memory) {
-            return
-                _scaleDecimals(
-                    TWAP.consult(WBNB, amount, BUSD),
-                    BUSD.safeDecimals()
-                );
-        } catch (bytes memory) {
-            return
-                _scaleDecimals(
-                    TWAP.consult(WBNB, amount, BUSD),
-                    BUSD.safeDecimals()
-                );
-        }
+        (bool valid, uint256 feedPrice) = _getFeedPrice(BNB_USD);
+
+        if (valid && maxDeviation != 0)
+            valid = _isWithinDeviation(feedPrice, _getTWAPPrice(WBNB, BUSD));
+
+        if (valid) return feedPrice.wadMul(amount);
+
+        return
+            _scaleDecimals(
+                TWAP.consult(WBNB, amount, BUSD),
+                BUSD.safeDecimals()
+            );
     }
 
     /*///////////////////////////////////////////////////////////////
@@ -358,17 +765,323 @@ contract Oracle is Initializable, OwnableUpgradeable, UUPSUpgradeable, IOracle {
      * Requirements:
      *
      * - This function has the modifier {onlyOwner} because the whole protocol depends on the quality and veracity of these feeds. It will be behind a multisig and timelock as soon as possible.
+     * - The {feedDelay} must be 0. Otherwise, changes must go through {proposeFeed}.
      */
     function setFeed(
         address asset,
         AggregatorV3Interface feed,
         FeedType feedType
     ) external onlyOwner {
-        if (feedType == FeedType.BNB) {
-            getBNBFeeds[asset] = feed;
-        } else {
-            getUSDFeeds[asset] = feed;
-        }
+        require(feedDelay == 0, "Oracle: feed is timelocked");
+
+        _setFeed(asset, feed, feedType);
+    }
+
+    /**
+     * @dev Queues a change of the feed of an `asset`. It can be executed after the {feedDelay}. It replaces the pending change of the same feed.
+     *
+     * @param asset The token that will be associated with a feed.
+     * @param feed The address of the chain link oracle contract.
+     * @param feedType A enum representing which kind of feed to update
+     *
+     * Requirements:
+     *
+     * - This function has the modifier {onlyOwner} because the whole protocol depends on the quality and veracity of these feeds.
+     */
+    function proposeFeed(
+        address asset,
+        AggregatorV3Interface feed,
+        FeedType feedType
+    ) external onlyOwner {
+        bytes32 key = _getFeedKey(asset, feedType);
+
+        if (_pendingFeedIndexOf[key] != 0) _removePendingFeed(key);
+
+        // solhint-disable-next-line not-rely-on-time
+        uint256 eta = block.timestamp + feedDelay;
+
+        _pendingFeeds.push(FeedChange(asset, feedType, feed, eta.toUint64()));
+        _pendingFeedIndexOf[key] = _pendingFeeds.length;
+
+        emit ProposeFeed(asset, feedType, address(feed), eta);
+    }
+
+    /**
+     * @dev Applies a pending change of the feed of an `asset`.
+     *
+     * @param asset The token associated with the feed.
+     * @param feedType A enum representing which kind of feed to update
+     *
+     * Requirements:
+     *
+     * - This function has the modifier {onlyOwner} because the whole protocol depends on the quality and veracity of these feeds.
+     * - The change must have been proposed and its `eta` must have passed.
+     */
+    function executeFeed(address asset, FeedType feedType) external onlyOwner {
+        bytes32 key = _getFeedKey(asset, feedType);
+        uint256 index = _pendingFeedIndexOf[key];
+
+        require(index != 0, "Oracle: no pending feed");
+        require(
+            // solhint-disable-next-line not-rely-on-time
+            block.timestamp >= _pendingFeeds[index - 1].eta,
+            "Oracle: feed is timelocked"
+        );
+
+        FeedChange memory change = _removePendingFeed(key);
+
+        _setFeed(asset, change.feed, feedType);
+    }
+
+    /**
+     * @dev Removes a pending change of the feed of an `asset`.
+     *
+     * @param asset The token associated with the feed.
+     * @param feedType A enum representing which kind of feed.
+     *
+     * Requirements:
+     *
+     * - This function has the modifier {onlyOwner} because the whole protocol depends on the quality and veracity of these feeds.
+     * - The change must have been proposed.
+     */
+    function cancelFeed(address asset, FeedType feedType) external onlyOwner {
+        bytes32 key = _getFeedKey(asset, feedType);
+
+        require(_pendingFeedIndexOf[key] != 0, "Oracle: no pending feed");
+
+        FeedChange memory change = _removePendingFeed(key);
+
+        emit CancelFeed(asset, feedType, address(change.feed));
+    }
+
+    /**
+     * @dev Raises the seconds between proposing and executing a feed change. It only applies to the changes proposed afterwards.
+     *
+     * @notice It should be set once the initial feeds are set with {setFeed}.
+     * @notice It cancels the {pendingFeedDelay}, because it would lower the new delay without waiting for it.
+     *
+     * @param delay The seconds. It cannot be longer than {MAX_FEED_DELAY}.
+     *
+     * Requirements:
+     *
+     * - This function has the modifier {onlyOwner} because the whole protocol depends on the quality and veracity of these feeds.
+     * - The `delay` cannot be lower than the {feedDelay}. Otherwise, it must go through {proposeFeedDelay}.
+     */
+    function setFeedDelay(uint256 delay) external onlyOwner {
+        require(MAX_FEED_DELAY >= delay, "Oracle: delay too long");
+        require(delay >= feedDelay, "Oracle: delay is timelocked");
+
+        if (pendingFeedDelayEta != 0) _cancelFeedDelay();
+
+        feedDelay = delay;
+
+        emit FeedDelay(delay);
+    }
+
+    /**
+     * @dev Queues a lower {feedDelay}. It can be executed after the current {feedDelay}. It replaces the {pendingFeedDelay}.
+     *
+     * @param delay The seconds.
+     *
+     * Requirements:
+     *
+     * - This function has the modifier {onlyOwner} because the whole protocol depends on the quality and veracity of these feeds.
+     * - The `delay` must be lower than the {feedDelay}. Higher delays are set with {setFeedDelay}.
+     */
+    function proposeFeedDelay(uint256 delay) external onlyOwner {
+        require(feedDelay > delay, "Oracle: delay is not lower");
+
+        // solhint-disable-next-line not-rely-on-time
+        uint256 eta = block.timestamp + feedDelay;
+
+        pendingFeedDelay = delay;
+        pendingFeedDelayEta = eta;
+
+        emit ProposeFeedDelay(delay, eta);
+    }
+
+    /**
+     * @dev Applies the {pendingFeedDelay}.
+     *
+     * Requirements:
+     *
+     * - This function has the modifier {onlyOwner} because the whole protocol depends on the quality and veracity of these feeds.
+     * - The delay must have been proposed and its {pendingFeedDelayEta} must have passed.
+     */
+    function executeFeedDelay() external onlyOwner {
+        uint256 eta = pendingFeedDelayEta;
+
+        require(eta != 0, "Oracle: no pending delay");
+        // solhint-disable-next-line not-rely-on-time
+        require(block.timestamp >= eta, "Oracle: delay is timelocked");
+
+        uint256 delay = pendingFeedDelay;
+
+        delete pendingFeedDelay;
+        delete pendingFeedDelayEta;
+
+        feedDelay = delay;
+
+        emit FeedDelay(delay);
+    }
+
+    /**
+     * @dev Removes the {pendingFeedDelay}.
+     *
+     * Requirements:
+     *
+     * - This function has the modifier {onlyOwner} because the whole protocol depends on the quality and veracity of these feeds.
+     * - The delay must have been proposed.
+     */
+    function cancelFeedDelay() external onlyOwner {
+        require(pendingFeedDelayEta != 0, "Oracle: no pending delay");
+
+        _cancelFeedDelay();
+    }
+
+    /**
+     * @dev Sets the maximum seconds since the last update of a Chainlink `feed`. Older answers fall back to the TWAP.
+     *
+     * @notice It should be a bit longer than the heartbeat of the `feed` in https://docs.chain.link/docs/binance-smart-chain-addresses/.
+     *
+     * @param feed The address of the chain link oracle contract.
+     * @param heartbeat The maximum seconds. 0 disables the check.
+     *
+     * Requirements:
+     *
+     * - This function has the modifier {onlyOwner} because the whole protocol depends on the quality and veracity of these feeds.
+     * - The {feedDelay} must be 0. Otherwise, it must go through {proposeSetting}.
+     */
+    function setHeartbeat(AggregatorV3Interface feed, uint256 heartbeat)
+        external
+        onlyOwner
+    {
+        require(feedDelay == 0, "Oracle: setting is timelocked");
+
+        _setHeartbeat(feed, heartbeat);
+    }
+
+    /**
+     * @dev Sets the maximum difference between the Chainlink and TWAP prices.
+     *
+     * @param _maxDeviation The maximum difference with a base unit of 1e18. 0 disables the check.
+     * @param _revertOnDeviation If true, prices too far from the TWAP revert. Otherwise, they fall back to the TWAP.
+     *
+     * Requirements:
+     *
+     * - This function has the modifier {onlyOwner} because the whole protocol depends on the quality and veracity of these feeds.
+     * - The {feedDelay} must be 0. Otherwise, it must go through {proposeSetting}.
+     */
+    function setMaxDeviation(uint256 _maxDeviation, bool _revertOnDeviation)
+        external
+        onlyOwner
+    {
+        require(feedDelay == 0, "Oracle: setting is timelocked");
+
+        _setMaxDeviation(_maxDeviation, _revertOnDeviation);
+    }
+
+    /**
+     * @dev Adds or removes a Uniswap v2 fork `factory`. The pairs it creates are priced as LP tokens by default.
+     *
+     * @param factory The address of the factory.
+     * @param enabled If its pairs are LP tokens.
+     *
+     * Requirements:
+     *
+     * - This function has the modifier {onlyOwner} because the whole protocol depends on the quality and veracity of the prices.
+     * - The {feedDelay} must be 0. Otherwise, it must go through {proposeSetting}.
+     */
+    function setLPFactory(address factory, bool enabled) external onlyOwner {
+        require(feedDelay == 0, "Oracle: setting is timelocked");
+
+        _setLPFactory(factory, enabled);
+    }
+
+    /**
+     * @dev Sets how {getUSDPrice} values a `token`. It overrides the factory check.
+     *
+     * @param token The address of the {ERC20} token.
+     * @param strategy {Strategy.Auto} to check the factory, {Strategy.Token} for the feeds or {Strategy.LP} for the fair reserves.
+     *
+     * Requirements:
+     *
+     * - This function has the modifier {onlyOwner} because the whole protocol depends on the quality and veracity of the prices.
+     * - The {feedDelay} must be 0. Otherwise, it must go through {proposeSetting}.
+     */
+    function setPricingStrategy(address token, Strategy strategy)
+        external
+        onlyOwner
+    {
+        require(feedDelay == 0, "Oracle: setting is timelocked");
+
+        _setPricingStrategy(token, strategy);
+    }
+
+    /**
+     * @dev Queues a call to {setHeartbeat}, {setMaxDeviation}, {setLPFactory} or {setPricingStrategy}. It can be executed after the {feedDelay}.
+     *
+     * @param data The encoded call.
+     *
+     * Requirements:
+     *
+     * - This function has the modifier {onlyOwner} because the whole protocol depends on the quality and veracity of the prices.
+     * - `data` must be a call to one of the settings.
+     */
+    function proposeSetting(bytes calldata data) external onlyOwner {
+        require(_isSetting(data), "Oracle: invalid setting");
+
+        bytes32 key = keccak256(data);
+
+        // solhint-disable-next-line not-rely-on-time
+        uint256 eta = block.timestamp + feedDelay;
+
+        settingEtaOf[key] = eta;
+
+        emit ProposeSetting(key, data, eta);
+    }
+
+    /**
+     * @dev Applies a setting queued with {proposeSetting}.
+     *
+     * @param data The encoded call.
+     *
+     * Requirements:
+     *
+     * - This function has the modifier {onlyOwner} because the whole protocol depends on the quality and veracity of the prices.
+     * - The setting must have been proposed and its {settingEtaOf} must have passed.
+     */
+    function executeSetting(bytes calldata data) external onlyOwner {
+        bytes32 key = keccak256(data);
+        uint256 eta = settingEtaOf[key];
+
+        require(eta != 0, "Oracle: no pending setting");
+        // solhint-disable-next-line not-rely-on-time
+        require(block.timestamp >= eta, "Oracle: setting is timelocked");
+
+        delete settingEtaOf[key];
+
+        _applySetting(data);
+    }
+
+    /**
+     * @dev Removes a setting queued with {proposeSetting}.
+     *
+     * @param data The encoded call.
+     *
+     * Requirements:
+     *
+     * - This function has the modifier {onlyOwner} because the whole protocol depends on the quality and veracity of the prices.
+     * - The setting must have been proposed.
+     */
+    function cancelSetting(bytes calldata data) external onlyOwner {
+        bytes32 key = keccak256(data);
+
+        require(settingEtaOf[key] != 0, "Oracle: no pending setting");
+
+        delete settingEtaOf[key];
+
+        emit CancelSetting(key);
     }
 
     /**
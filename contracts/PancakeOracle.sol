@@ -4,6 +4,7 @@ pragma solidity 0.8.13;
 import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
 import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/structs/EnumerableSetUpgradeable.sol";
 
 import "./interfaces/IPancakeFactory.sol";
 import "./interfaces/IPancakePair.sol";
@@ -16,12 +17,15 @@ import "./lib/UniswapV2OracleLibrary.sol";
  * @notice This is a copy of the https://github.com/Uniswap/v2-periphery/blob/master/contracts/examples/ExampleSlidingWindowOracle.sol#L5
  * @notice We make the library a seperate contract to be able to test it properly.
  * It has some modifications for new solidity and changes to follow the UPPS pattern
+ * @notice The owner can register routes through other pairs (e.g. TOKEN -> CAKE -> WBNB) for tokens without a direct pair. {consult} combines the TWAP of every hop.
+ * @notice Keepers are paid a {reward} in BNB for every observation of a registered pair they record with {updateMany}.
  */
 contract PancakeOracle is Initializable, OwnableUpgradeable, UUPSUpgradeable {
     /*///////////////////////////////////////////////////////////////
                             LIBRARIES
     //////////////////////////////////////////////////////////////*/
     using FixedPoint for *;
+    using EnumerableSetUpgradeable for EnumerableSetUpgradeable.AddressSet;
 
     /*///////////////////////////////////////////////////////////////
                             EVENTS
@@ -34,6 +38,20 @@ contract PancakeOracle is Initializable, OwnableUpgradeable, UUPSUpgradeable {
         uint256 timestamp
     );
 
+    event Route(
+        address indexed tokenIn,
+        address indexed tokenOut,
+        address[] path
+    );
+
+    event AddPair(address indexed pair);
+
+    event RemovePair(address indexed pair);
+
+    event Reward(uint256 reward);
+
+    event PayReward(address indexed keeper, uint256 updates, uint256 amount);
+
     /*///////////////////////////////////////////////////////////////
                             STRUCTS
     //////////////////////////////////////////////////////////////*/
@@ -72,6 +90,15 @@ contract PancakeOracle is Initializable, OwnableUpgradeable, UUPSUpgradeable {
     // mapping from pair address to a list of price observations of that pair
     mapping(address => Observation[]) public pairObservations;
 
+    // tokenIn -> tokenOut -> The tokens to go through including `tokenIn` and `tokenOut`. It is empty for direct pairs.
+    mapping(address => mapping(address => address[])) private _routes;
+
+    // Pairs that keepers are paid to update.
+    EnumerableSetUpgradeable.AddressSet private _pairs;
+
+    // BNB paid for every observation of a registered pair.
+    uint256 public reward;
+
     /*///////////////////////////////////////////////////////////////
                               CONSTRUCTOR
     //////////////////////////////////////////////////////////////*/
@@ -101,6 +128,16 @@ contract PancakeOracle is Initializable, OwnableUpgradeable, UUPSUpgradeable {
         GRANULARITY = granularity;
     }
 
+    /*///////////////////////////////////////////////////////////////
+                            RECEIVE
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @dev It allows anyone to fund the keeper rewards.
+     */
+    // solhint-disable-next-line no-empty-blocks
+    receive() external payable {}
+
     /*///////////////////////////////////////////////////////////////
                         VIEW PUBLIC FUNCTIONS
     //////////////////////////////////////////////////////////////*/
@@ -123,6 +160,86 @@ contract PancakeOracle is Initializable, OwnableUpgradeable, UUPSUpgradeable {
         return uint8((timestamp / PERIOD_SIZE) % GRANULARITY);
     }
 
+    /**
+     * @dev Checks if {update} would record a new observation for a `pair`.
+     *
+     * @param pair The address of a PCS pair
+     * @return bool True if the observation of the current time slot is older than {PERIOD_SIZE}.
+     */
+    function isDue(address pair) public view returns (bool) {
+        if (pairObservations[pair].length == 0) return true;
+
+        //solhint-disable-next-line not-rely-on-time
+        uint256 timestamp = block.timestamp;
+
+        return
+            timestamp -
+                pairObservations[pair][observationIndexOf(timestamp)]
+                    .timestamp >
+            PERIOD_SIZE;
+    }
+
+    /**
+     * @dev Returns all pairs keepers are paid to update.
+     *
+     * @return address[] The addresses of the PCS pairs
+     */
+    function getPairs() external view returns (address[] memory) {
+        return _pairs.values();
+    }
+
+    /**
+     * @dev Returns the registered pairs that need a new observation. Keepers should call {updateMany} with them.
+     *
+     * @return pairs The addresses of the PCS pairs
+     */
+    function getDuePairs() external view returns (address[] memory pairs) {
+        address[] memory allPairs = _pairs.values();
+        bool[] memory due = new bool[](allPairs.length);
+
+        uint256 length;
+
+        for (uint256 i; i < allPairs.length; i++) {
+            if (!isDue(allPairs[i])) continue;
+
+            due[i] = true;
+            length++;
+        }
+
+        pairs = new address[](length);
+
+        // Reuse `length` as the index of `pairs`.
+        length = 0;
+
+        for (uint256 i; i < allPairs.length; i++) {
+            if (!due[i]) continue;
+
+            pairs[length] = allPairs[i];
+            length++;
+        }
+    }
+
+    /**
+     * @dev Returns the tokens {consult} goes through to price `tokenIn` in `tokenOut`.
+     *
+     * @param tokenIn The token to price
+     * @param tokenOut The token to price in
+     * @return path The route including `tokenIn` and `tokenOut`. It is `[tokenIn, tokenOut]` if there is no route registered.
+     */
+    function getRoute(address tokenIn, address tokenOut)
+        public
+        view
+        returns (address[] memory path)
+    {
+        path = _routes[tokenIn][tokenOut];
+
+        if (path.length > 0) return path;
+
+        path = new address[](2);
+        path[0] = tokenIn;
+        path[1] = tokenOut;
+    }
+
     /*///////////////////////////////////////////////////////////////
                               MUTATIVE PUBLIC FUNCTIONS
     //////////////////////////////////////////////////////////////*/
@@ -139,6 +256,103 @@ contract PancakeOracle is Initializable, OwnableUpgradeable, UUPSUpgradeable {
      * - We require that the pair actually exists; otherwise, there is no point to update it.
      */
     function update(address tokenA, address tokenB) external {
+        _update(tokenA, tokenB);
+    }
+
+    /**
+     * @dev Updates many pairs at once and pays the {reward} for every new observation of a registered pair.
+     *
+     * @notice The reward is capped by the BNB balance of this contract. So updates never fail for lack of funds.
+     *
+     * @param pairs The addresses of the PCS pairs to update
+     * @return updates The number of new observations of registered pairs
+     *
+     * Requirements:
+     *
+     * - Every pair must have been created by the PCS factory.
+     */
+    function updateMany(address[] calldata pairs)
+        external
+        returns (uint256 updates)
+    {
+        for (uint256 i; i < pairs.length; i++) {
+            IPancakePair pair = IPancakePair(pairs[i]);
+
+            if (
+                _update(pair.token0(), pair.token1()) &&
+                _pairs.contains(address(pair))
+            ) updates++;
+        }
+
+        uint256 amount = updates * reward;
+
+        if (amount > address(this).balance) amount = address(this).balance;
+
+        if (amount == 0) return updates;
+
+        //solhint-disable-next-line avoid-low-level-calls
+        (bool success, ) = _msgSender().call{value: amount}("");
+        require(success, "PO: unable to pay reward");
+
+        emit PayReward(_msgSender(), updates, amount);
+    }
+
+    /**
+     * @dev Updates the cumulative price of every pair in the route from `tokenIn` to `tokenOut`.
+     *
+     * @param tokenIn The first token of the route
+     * @param tokenOut The last token of the route
+     *
+     * Requirements:
+     *
+     * - Every pair of the route must exist.
+     */
+    function updateRoute(address tokenIn, address tokenOut) external {
+        address[] memory path = getRoute(tokenIn, tokenOut);
+
+        for (uint256 i = 1; i < path.length; i++) {
+            _update(path[i - 1], path[i]);
+        }
+    }
+
+    /**
+     * @dev The oracle function to get the current price of a token
+     *
+     * @notice This uses a sliding moving average formula. It means the prices will be computed based on {WINDOW_SIZE}.
+     * And prices will be updated every {PERIOD_SIZE}.
+     * @notice It goes through the route registered for `tokenIn` and `tokenOut` if any.
+     *
+     * @param tokenIn The token X used to buy the token Y. Example swapping USDC for ETH.
+     * @param amountIn How much amount i wish to swap. So how much USDC i want to swap for ETH.
+     * @param tokenOut The token I wish to buy. In this case ETH.
+     * @return amountOut how much `tokenOut` you will get for swapping `amountIn` of `tokenIn`.
+     */
+    function consult(
+        address tokenIn,
+        uint256 amountIn,
+        address tokenOut
+    ) external view returns (uint256 amountOut) {
+        address[] memory path = getRoute(tokenIn, tokenOut);
+
+        amountOut = amountIn;
+
+        for (uint256 i = 1; i < path.length; i++) {
+            amountOut = _consult(path[i - 1], amountOut, path[i]);
+        }
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                              PRIVATE FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @dev This function will update the cumulative price for a given pair.
+     *
+     * @param tokenA the first token of the pair
+     * @param tokenB the second token of the pair
+     * @return bool True if a new observation was recorded
+     */
+    function _update(address tokenA, address tokenB) private returns (bool) {
         uint256 granularity = GRANULARITY;
 
         address pair = IPancakeFactory(FACTORY).getPair(tokenA, tokenB);
@@ -179,25 +393,26 @@ contract PancakeOracle is Initializable, OwnableUpgradeable, UUPSUpgradeable {
                 //solhint-disable-next-line not-rely-on-time
                 block.timestamp
             );
+
+            return true;
         }
+
+        return false;
     }
 
     /**
-     * @dev The oracle function to get the current price of a token
-     *
-     * @notice This uses a sliding moving average formula. It means the prices will be computed based on {WINDOW_SIZE}.
-     * And prices will be updated every {PERIOD_SIZE}.
+     * @dev Returns the TWAP price of the direct pair of `tokenIn` and `tokenOut`.
      *
      * @param tokenIn The token X used to buy the token Y. Example swapping USDC for ETH.
      * @param amountIn How much amount i wish to swap. So how much USDC i want to swap for ETH.
      * @param tokenOut The token I wish to buy. In this case ETH.
      * @return amountOut how much `tokenOut` you will get for swapping `amountIn` of `tokenIn`.
      */
-    function consult(
+    function _consult(
         address tokenIn,
         uint256 amountIn,
         address tokenOut
-    ) external view returns (uint256 amountOut) {
+    ) private view returns (uint256 amountOut) {
         uint256 windowSize = WINDOW_SIZE;
 
         // Get pair based on the tokens
@@ -243,10 +458,6 @@ contract PancakeOracle is Initializable, OwnableUpgradeable, UUPSUpgradeable {
                 );
     }
 
-    /*///////////////////////////////////////////////////////////////
-                              VIEW PRIVATE FUNCTIONS
-    //////////////////////////////////////////////////////////////*/
-
     /**
      * @dev A helper function to first the first observation based on the current {block.timestamp}
      *
@@ -293,6 +504,101 @@ contract PancakeOracle is Initializable, OwnableUpgradeable, UUPSUpgradeable {
                           OWNER ONLY FUNCTIONS
     //////////////////////////////////////////////////////////////*/
 
+    /**
+     * @dev Registers the route {consult} uses to price `path[0]` in the last token of `path` and vice versa.
+     *
+     * @notice A `path` with 2 tokens removes the route and goes back to the direct pair.
+     *
+     * @param path The tokens to go through. E.g. [TOKEN, CAKE, WBNB].
+     *
+     * Requirements:
+     *
+     * - This function has the modifier {onlyOwner} because the {Oracle} falls back to these prices.
+     * - `path` must have at least 2 tokens.
+     * - Every pair of the `path` must exist.
+     */
+    function setRoute(address[] calldata path) external onlyOwner {
+        uint256 length = path.length;
+        require(length > 1, "PO: invalid route");
+
+        address tokenIn = path[0];
+        address tokenOut = path[length - 1];
+
+        address[] storage route = _routes[tokenIn][tokenOut];
+        address[] storage reverseRoute = _routes[tokenOut][tokenIn];
+
+        delete _routes[tokenIn][tokenOut];
+        delete _routes[tokenOut][tokenIn];
+
+        if (length > 2) {
+            for (uint256 i; i < length; i++) {
+                if (i > 0)
+                    require(
+                        IPancakeFactory(FACTORY).getPair(
+                            path[i - 1],
+                            path[i]
+                        ) != address(0),
+                        "PO: pair does not exist"
+                    );
+
+                route.push(path[i]);
+                reverseRoute.push(path[length - 1 - i]);
+            }
+        }
+
+        emit Route(tokenIn, tokenOut, path);
+    }
+
+    /**
+     * @dev Registers the pair of `tokenA` and `tokenB` to be updated by keepers.
+     *
+     * @param tokenA the first token of the pair
+     * @param tokenB the second token of the pair
+     *
+     * Requirements:
+     *
+     * - This function has the modifier {onlyOwner} because keepers are paid to update these pairs.
+     * - The pair must exist.
+     */
+    function addPair(address tokenA, address tokenB) external onlyOwner {
+        address pair = IPancakeFactory(FACTORY).getPair(tokenA, tokenB);
+        require(pair != address(0), "PO: pair does not exist");
+
+        _pairs.add(pair);
+
+        emit AddPair(pair);
+    }
+
+    /**
+     * @dev Removes a pair from the pairs updated by keepers.
+     *
+     * @param pair The address of the PCS pair
+     *
+     * Requirements:
+     *
+     * - This function has the modifier {onlyOwner} because keepers are paid to update these pairs.
+     */
+    function removePair(address pair) external onlyOwner {
+        _pairs.remove(pair);
+
+        emit RemovePair(pair);
+    }
+
+    /**
+     * @dev Sets the BNB paid for every new observation of a registered pair.
+     *
+     * @param _reward The amount of BNB
+     *
+     * Requirements:
+     *
+     * - This function has the modifier {onlyOwner} because it controls the BNB of this contract.
+     */
+    function setReward(uint256 _reward) external onlyOwner {
+        reward = _reward;
+
+        emit Reward(_reward);
+    }
+
     /**
      * @dev A hook to guard the address that can update the implementation of this contract. It must be the owner.
      */
@@ -0,0 +1,254 @@
+//SPDX-License-Identifier: MIT
+pragma solidity 0.8.13;
+
+import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/structs/EnumerableSetUpgradeable.sol";
+
+import "./interfaces/IPauseGuardian.sol";
+
+/**
+ * @dev An emergency switch shared by the protocol. The {guardians} can pause every registered contract in one transaction, but only the {owner} can unpause them.
+ *
+ * @notice The registered contracts read {isPaused} with their own address. While paused, they stop new borrows, collateral withdrawals and deposits. Repays and liquidations remain open, so insolvent loans can still be closed.
+ * @notice A contract must be registered here and point its `pauseGuardian` to this contract to be paused.
+ * @notice This contract is upgradeable using the UUPS pattern with Open Zeppelin plugins.
+ */
+contract PauseGuardian is
+    Initializable,
+    OwnableUpgradeable,
+    UUPSUpgradeable,
+    IPauseGuardian
+{
+    /*///////////////////////////////////////////////////////////////
+                            LIBRARIES
+    //////////////////////////////////////////////////////////////*/
+
+    using EnumerableSetUpgradeable for EnumerableSetUpgradeable.AddressSet;
+
+    /*///////////////////////////////////////////////////////////////
+                                EVENTS
+    //////////////////////////////////////////////////////////////*/
+
+    event Guardian(address indexed account, bool enabled);
+
+    event Registrar(address indexed account, bool enabled);
+
+    event AddContract(address indexed target);
+
+    event RemoveContract(address indexed target);
+
+    event Paused(address indexed account);
+
+    event Unpaused(address indexed account);
+
+    /*///////////////////////////////////////////////////////////////
+                                STATE
+    //////////////////////////////////////////////////////////////*/
+
+    // If true, every registered contract is paused.
+    bool public paused;
+
+    // Account -> If it can call {pause}. The {owner} can always call it.
+    mapping(address => bool) public guardians;
+
+    // The contracts paused by {pause}.
+    EnumerableSetUpgradeable.AddressSet private _contracts;
+
+    // Account -> If it can call {addContract}, like the {DineroMarketFactory}. The {owner} can always call it.
+    mapping(address => bool) public registrars;
+
+    /*///////////////////////////////////////////////////////////////
+                            INITIALIZER
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * Requirements:
+     *
+     * - Can only be called at once and should be called during creation to prevent front running.
+     */
+    function initialize() external initializer {
+        __Ownable_init();
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                            MODIFIERS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @dev Only the {owner} or the {guardians} can pause the protocol.
+     */
+    modifier onlyGuardian() {
+        require(
+            guardians[_msgSender()] || _msgSender() == owner(),
+            "PG: only guardian"
+        );
+        _;
+    }
+
+    /**
+     * @dev Only the {owner} or the {registrars} can register contracts.
+     */
+    modifier onlyRegistrar() {
+        require(
+            registrars[_msgSender()] || _msgSender() == owner(),
+            "PG: only registrar"
+        );
+        _;
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                            VIEW FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @dev Returns if a `target` must stop new borrows, collateral withdrawals and deposits.
+     *
+     * @param target The address of the contract.
+     * @return bool True if the protocol is paused and the `target` is registered.
+     */
+    function isPaused(address target) external view returns (bool) {
+        return paused && _contracts.contains(target);
+    }
+
+    /**
+     * @dev Returns if a `target` is registered.
+     *
+     * @param target The address of the contract.
+     * @return bool True if {pause} affects the `target`.
+     */
+    function isContract(address target) external view returns (bool) {
+        return _contracts.contains(target);
+    }
+
+    /**
+     * @dev Returns all the registered contracts.
+     *
+     * @return address[] The addresses of the contracts.
+     */
+    function getContracts() external view returns (address[] memory) {
+        return _contracts.values();
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                        GUARDIAN ONLY FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @dev Pauses every registered contract.
+     *
+     * Requirements:
+     *
+     * - The caller must be the {owner} or one of the {guardians}, so a bot or a multisig can react quickly.
+     * - The protocol must not be paused.
+     */
+    function pause() external onlyGuardian {
+        require(!paused, "PG: already paused");
+
+        paused = true;
+
+        emit Paused(_msgSender());
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                            OWNER ONLY FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @dev Unpauses every registered contract.
+     *
+     * Requirements:
+     *
+     * - Only the owner can unpause, so a compromised guardian can only stop the protocol.
+     * - The protocol must be paused.
+     */
+    function unpause() external onlyOwner {
+        require(paused, "PG: not paused");
+
+        paused = false;
+
+        emit Unpaused(_msgSender());
+    }
+
+    /**
+     * @dev Allows or disallows an `account` to call {pause}.
+     *
+     * @param account The address of the guardian.
+     * @param enabled If it can pause the protocol.
+     *
+     * Requirements:
+     *
+     * - Only the owner can choose the guardians.
+     */
+    function setGuardian(address account, bool enabled) external onlyOwner {
+        require(account != address(0), "PG: no zero address");
+
+        guardians[account] = enabled;
+
+        emit Guardian(account, enabled);
+    }
+
+    /**
+     * @dev Adds or removes an `account` that can register contracts with {addContract}.
+     *
+     * @param account The address of the registrar, like the {DineroMarketFactory}.
+     * @param enabled If it can register contracts.
+     *
+     * Requirements:
+     *
+     * - Only the owner can choose the registrars.
+     */
+    function setRegistrar(address account, bool enabled) external onlyOwner {
+        require(account != address(0), "PG: no zero address");
+
+        registrars[account] = enabled;
+
+        emit Registrar(account, enabled);
+    }
+
+    /**
+     * @dev Registers a `target`, so {pause} affects it.
+     *
+     * @param target The address of the contract.
+     *
+     * Requirements:
+     *
+     * - Only the owner or the {registrars} can register contracts.
+     * - The `target` must not be registered.
+     */
+    function addContract(address target) external onlyRegistrar {
+        require(_contracts.add(target), "PG: already added");
+
+        emit AddContract(target);
+    }
+
+    /**
+     * @dev Removes a `target`, so {pause} no longer affects it.
+     *
+     * @param target The address of the contract.
+     *
+     * Requirements:
+     *
+     * - Only the owner can remove contracts.
+     * - The `target` must be registered.
+     */
+    function removeContract(address target) external onlyOwner {
+        require(_contracts.remove(target), "PG: not added");
+
+        emit RemoveContract(target);
+    }
+
+    /**
+     * @dev A hook to guard the address that can update the implementation of this contract. It must be the owner.
+     */
+    function _authorizeUpgrade(address)
+        internal
+        view
+        override
+        onlyOwner
+    //solhint-disable-next-line no-empty-blocks
+    {
+
+    }
+}
@@ -0,0 +1,322 @@
+//SPDX-License-Identifier: MIT
+pragma solidity 0.8.13;
+
+import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/token/ERC20/IERC20Upgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/token/ERC20/utils/SafeERC20Upgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/structs/EnumerableSetUpgradeable.sol";
+
+import "./interfaces/IPancakeRouter02.sol";
+import "./interfaces/IProtocolReserve.sol";
+
+import "./dinero-markets/DineroMarket.sol";
+
+import "./lib/Math.sol";
+
+import "./tokens/Dinero.sol";
+
+/**
+ * @dev A reserve fund of the protocol. The markets send it the {DineroMarket.reserveFactor} of their earnings, which include the protocol part of the liquidation fees.
+ *
+ * @notice The registered markets ask it to burn Dinero for their {DineroMarket.badDebt}, once their fees do not cover it. It needs the `RESERVE_ROLE` of Dinero.
+ * @notice The registered {DineroLeveragedVenusVault} takes underlying from it to cover its losses before charging them to the depositors. The {owner} can {swap} the Dinero of the reserve to the underlyings.
+ * @notice This contract is upgradeable using the UUPS pattern with Open Zeppelin plugins.
+ */
+contract ProtocolReserve is
+    Initializable,
+    OwnableUpgradeable,
+    UUPSUpgradeable,
+    IProtocolReserve
+{
+    /*///////////////////////////////////////////////////////////////
+                            LIBRARIES
+    //////////////////////////////////////////////////////////////*/
+
+    using SafeERC20Upgradeable for IERC20Upgradeable;
+    using EnumerableSetUpgradeable for EnumerableSetUpgradeable.AddressSet;
+    using Math for uint256;
+
+    /*///////////////////////////////////////////////////////////////
+                                EVENTS
+    //////////////////////////////////////////////////////////////*/
+
+    event Registrar(address indexed account, bool enabled);
+
+    event AddContract(address indexed target);
+
+    event RemoveContract(address indexed target);
+
+    event CoverBadDebt(address indexed market, uint256 amount);
+
+    event CoverLoss(
+        address indexed vault,
+        address indexed underlying,
+        uint256 amount
+    );
+
+    event Swap(address indexed tokenOut, uint256 amountIn, uint256 amountOut);
+
+    /*///////////////////////////////////////////////////////////////
+                                STATE
+    //////////////////////////////////////////////////////////////*/
+
+    // solhint-disable-next-line var-name-mixedcase
+    IPancakeRouter02 internal constant ROUTER =
+        IPancakeRouter02(0x10ED43C718714eb63d5aA57B78B54704E256024E); // PCS router
+
+    // solhint-disable-next-line var-name-mixedcase
+    Dinero public DINERO; // 18 decimals
+
+    // The markets and vaults that can take funds from this reserve.
+    EnumerableSetUpgradeable.AddressSet private _contracts;
+
+    // Account -> If it can call {addContract}, like the {DineroMarketFactory}. The {owner} can always call it.
+    mapping(address => bool) public registrars;
+
+    /*///////////////////////////////////////////////////////////////
+                            INITIALIZER
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @param dinero The address of the Dinero stable coin.
+     *
+     * Requirements:
+     *
+     * - Can only be called at once and should be called during creation to prevent front running.
+     */
+    function initialize(Dinero dinero) external initializer {
+        __Ownable_init();
+
+        DINERO = dinero;
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                            MODIFIERS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @dev Only the registered markets and vaults can take funds from the reserve.
+     */
+    modifier onlyContract() {
+        require(_contracts.contains(_msgSender()), "PR: not allowed");
+        _;
+    }
+
+    /**
+     * @dev Only the {owner} or the {registrars} can register contracts.
+     */
+    modifier onlyRegistrar() {
+        require(
+            registrars[_msgSender()] || _msgSender() == owner(),
+            "PR: only registrar"
+        );
+        _;
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                            VIEW FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @dev Returns how much of the open loans of a `market` the Dinero of the reserve covers.
+     *
+     * @notice The reserve is shared by every market. So the ratios of the markets do not add up.
+     * @notice The loans include the interest accrued since the last {DineroMarket-accrue} call of the `market`.
+     *
+     * @param market The address of the Dinero market.
+     * @return uint256 The ratio with a base unit of 1e18. It is the max uint256 if the `market` has no loans.
+     */
+    function coverageRatioOf(DineroMarket market)
+        external
+        view
+        returns (uint256)
+    {
+        uint256 totalDebt = market.getTotalDebt();
+
+        if (totalDebt == 0) return type(uint256).max;
+
+        return DINERO.balanceOf(address(this)).wadDiv(totalDebt);
+    }
+
+    /**
+     * @dev Returns if a `target` can take funds from the reserve.
+     *
+     * @param target The address of the market or vault.
+     * @return bool True if the `target` is registered.
+     */
+    function isContract(address target) external view returns (bool) {
+        return _contracts.contains(target);
+    }
+
+    /**
+     * @dev Returns all the registered contracts.
+     *
+     * @return address[] The addresses of the markets and vaults.
+     */
+    function getContracts() external view returns (address[] memory) {
+        return _contracts.values();
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                        CONTRACT ONLY FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @dev Burns up to `amount` Dinero of the reserve to cover the bad debt of the calling market.
+     *
+     * @param amount The bad debt the market wants to cover.
+     * @return uint256 How much Dinero was burned. It is lower than `amount` if the reserve does not have enough.
+     *
+     * Requirements:
+     *
+     * - The caller must be a registered market.
+     */
+    function coverBadDebt(uint256 amount)
+        external
+        onlyContract
+        returns (uint256)
+    {
+        amount = amount.min(DINERO.balanceOf(address(this)));
+
+        if (amount == 0) return 0;
+
+        // The market minted this Dinero, so the burn is charged to its {Dinero.mintedOf}.
+        DINERO.burnFor(_msgSender(), address(this), amount);
+
+        emit CoverBadDebt(_msgSender(), amount);
+
+        return amount;
+    }
+
+    /**
+     * @dev Sends up to `amount` of an `underlying` to the calling vault to cover its loss.
+     *
+     * @param underlying The token the vault lost.
+     * @param amount How many `underlying` the vault lost.
+     * @return uint256 How many `underlying` were sent. It is lower than `amount` if the reserve does not have enough.
+     *
+     * Requirements:
+     *
+     * - The caller must be a registered vault.
+     */
+    function coverLoss(address underlying, uint256 amount)
+        external
+        onlyContract
+        returns (uint256)
+    {
+        amount = amount.min(
+            IERC20Upgradeable(underlying).balanceOf(address(this))
+        );
+
+        if (amount == 0) return 0;
+
+        IERC20Upgradeable(underlying).safeTransfer(_msgSender(), amount);
+
+        emit CoverLoss(_msgSender(), underlying, amount);
+
+        return amount;
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                            OWNER ONLY FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @dev Sells Dinero of the reserve in PCS, so it can cover the losses of the vaults.
+     *
+     * @param path The PCS path from Dinero to the token the reserve wants.
+     * @param amount How much Dinero to sell.
+     * @param minAmountOut The minimum amount of the last token of the `path` to receive.
+     * @param deadline The timestamp after which the swap reverts.
+     *
+     * Requirements:
+     *
+     * - Only the owner can sell the reserve.
+     * - The `path` must start with Dinero.
+     */
+    function swap(
+        address[] calldata path,
+        uint256 amount,
+        uint256 minAmountOut,
+        uint256 deadline
+    ) external onlyOwner {
+        require(path[0] == address(DINERO), "PR: not dinero");
+
+        DINERO.approve(address(ROUTER), amount);
+
+        uint256[] memory amounts = ROUTER.swapExactTokensForTokens(
+            amount,
+            minAmountOut,
+            path,
+            address(this),
+            deadline
+        );
+
+        emit Swap(path[path.length - 1], amount, amounts[amounts.length - 1]);
+    }
+
+    /**
+     * @dev Adds or removes an `account` that can register contracts with {addContract}.
+     *
+     * @param account The address of the registrar, like the {DineroMarketFactory}.
+     * @param enabled If it can register contracts.
+     *
+     * Requirements:
+     *
+     * - Only the owner can choose the registrars.
+     */
+    function setRegistrar(address account, bool enabled) external onlyOwner {
+        require(account != address(0), "PR: no zero address");
+
+        registrars[account] = enabled;
+
+        emit Registrar(account, enabled);
+    }
+
+    /**
+     * @dev Registers a `target`, so it can take funds from the reserve.
+     *
+     * @param target The address of the market or vault.
+     *
+     * Requirements:
+     *
+     * - Only the owner or the {registrars} can register contracts.
+     * - The `target` must not be registered.
+     */
+    function addContract(address target) external onlyRegistrar {
+        require(_contracts.add(target), "PR: already added");
+
+        emit AddContract(target);
+    }
+
+    /**
+     * @dev Removes a `target`, so it can no longer take funds from the reserve.
+     *
+     * @param target The address of the market or vault.
+     *
+     * Requirements:
+     *
+     * - Only the owner can remove contracts.
+     * - The `target` must be registered.
+     */
+    function removeContract(address target) external onlyOwner {
+        require(_contracts.remove(target), "PR: not added");
+
+        emit RemoveContract(target);
+    }
+
+    /**
+     * @dev A hook to guard the address that can update the implementation of this contract. It must be the owner.
+     */
+    function _authorizeUpgrade(address)
+        internal
+        view
+        override
+        onlyOwner
+    //solhint-disable-next-line no-empty-blocks
+    {
+
+    }
+}
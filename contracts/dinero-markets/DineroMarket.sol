@@ -15,6 +15,9 @@ import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
 import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
 
 import "../interfaces/IPancakeRouter02.sol";
+import "../interfaces/IInterestRateModel.sol";
+import "../interfaces/IPauseGuardian.sol";
+import "../interfaces/IProtocolReserve.sol";
 
 import "../lib/Rebase.sol";
 import "../lib/Math.sol";
@@ -40,6 +43,7 @@ import "../Oracle.sol";
  * @notice It depends on Chainlink price feeds oracles. However, we will add a backup using PCS TWAPS before the live release.
  * @notice The Rebase library is helper library to easily calculate the principal + fees owed by borrowers.
  * @notice To be effective this requires a strong DNR/BNB or DNR/BUSD pair. The contract CasaDePapel will be responsible for this.
+ * @notice The {pauseGuardian} can stop new borrows, collateral deposits and withdrawals in an emergency. Repays and liquidations remain open.
  * @notice This contract enforces that Dinero remains pegged to USD.
  * If Dinero falls below, borrowers that have open  loans and swapped to a different crypto, can buy dinero cheaper and close their loans running a profit. Liquidators can accumulate Dinero to close underwater positions with an arbitrate. As liquidation will always assume 1 Dinero is worth 1 USD. If Dinero goes above a dollar, people are encouraged to borrow more Dinero for arbitrage. We believe this will keep the price pegged at 1 USD.
  *
@@ -80,6 +84,17 @@ abstract contract DineroMarket is
         uint128 allDebt; // How much principal + interest rate is being repaid to the protocol.
         uint128 allPrincipal; // How much principal is being repaid to the protocol.
         uint128 allFee; // Total amount of liquidation fee the liquidator and protocol will earn.
+        uint128 allBadDebt; // How much debt is removed from the loan without being repaid, because the collateral does not cover it.
+    }
+
+    /**
+     * @dev The liquidation fee of an insolvent position grows linearly from {startFee} to {liquidationFee} in {duration} seconds after its auction starts.
+     *
+     * @notice The auction mode is disabled if the {duration} is 0.
+     */
+    struct Auction {
+        uint128 startFee; // The liquidation fee when the auction starts. It has a base unit of 1e18.
+        uint128 duration; // How many seconds it takes for the fee to reach the {liquidationFee}.
     }
 
     /*///////////////////////////////////////////////////////////////
@@ -114,6 +129,24 @@ abstract contract DineroMarket is
 
     event MaxBorrowAmount(uint256 maxBorrowAmount);
 
+    event LiquidationAuction(uint256 startFee, uint256 duration);
+
+    event StartAuction(address indexed account);
+
+    event EndAuction(address indexed account);
+
+    event InterestRateModel(address indexed model);
+
+    event PauseGuardian(address indexed guardian);
+
+    event CloseFactor(uint256 factor);
+
+    event BadDebt(address indexed account, uint256 amount);
+
+    event CoverBadDebt(uint256 amount);
+
+    event Reserve(address indexed reserve, uint256 factor);
+
     /*///////////////////////////////////////////////////////////////
                                 STATE
     //////////////////////////////////////////////////////////////*/
@@ -127,6 +160,13 @@ abstract contract DineroMarket is
 
     uint8 internal constant REPAY_REQUEST = 3;
 
+    uint8 internal constant REPAY_WITH_COLLATERAL_REQUEST = 4;
+
+    uint8 internal constant LEVERAGE_REQUEST = 5;
+
+    // The highest rate of an {interestRateModel}. Like {JumpRateModel}, 1e18 / 31_536_000 = ~100% a year.
+    uint256 internal constant MAX_INTEREST_RATE = 31_709_791_983;
+
     // solhint-disable-next-line var-name-mixedcase
     IPancakeRouter02 internal constant ROUTER =
         IPancakeRouter02(0x10ED43C718714eb63d5aA57B78B54704E256024E); // PCS router
@@ -164,11 +204,35 @@ abstract contract DineroMarket is
     // Dinero Markets must have a max of how much DNR they can create to prevent liquidity issues during liquidations.
     uint256 public maxBorrowAmount;
 
+    // Settings of the liquidation fee auction.
+    Auction public auction;
+
+    // The timestamp in which the auction of an insolvent account started. It is 0 if there is no auction.
+    mapping(address => uint256) public auctionStartOf;
+
+    // If set, it replaces the fixed {loan.INTEREST_RATE}.
+    IInterestRateModel public interestRateModel;
+
+    // If set and it pauses this market, borrows, collateral deposits and withdrawals are disabled.
+    IPauseGuardian public pauseGuardian;
+
+    // The maximum part of a loan a liquidator can close at once with a base unit of 1e18. If it is 0, a liquidator can close the whole loan.
+    uint256 public closeFactor;
+
+    // Debt of liquidated accounts that the fees earned and the {reserve} have not covered yet. It is covered before the fees are sent to the {FEE_TO}.
+    uint256 public badDebt;
+
+    // If set, it receives the {reserveFactor} of the earnings and covers the {badDebt} the fees cannot.
+    IProtocolReserve public reserve;
+
+    // The part of the earnings sent to the {reserve} with a base unit of 1e18.
+    uint256 public reserveFactor;
+
     /**
      * @dev This empty reserved space is put in place to allow future versions to add new
      * variables without shifting down storage in the inheritance chain.
      */
-    uint256[50] private __gap;
+    uint256[42] private __gap;
 
     /*///////////////////////////////////////////////////////////////
                             INITIALIZER
@@ -201,29 +265,221 @@ abstract contract DineroMarket is
         );
     }
 
+    /*///////////////////////////////////////////////////////////////
+                            VIEW FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @dev Returns how much Dinero an `account` owes, including the interest accrued since the last {accrue} call.
+     *
+     * @param account The address of the borrower.
+     * @return uint256 The principal + interest rate owed by the `account`.
+     */
+    function getDebtOf(address account) public view returns (uint256) {
+        return _accruedTotalLoan().toElastic(userLoan[account], true);
+    }
+
+    /**
+     * @dev Returns how much Dinero all borrowers owe, including the interest accrued since the last {accrue} call.
+     *
+     * @return uint256 The {totalLoan} elastic as if {accrue} was called in this block.
+     */
+    function getTotalDebt() external view returns (uint256) {
+        return _accruedTotalLoan().elastic;
+    }
+
+    /**
+     * @dev Returns the value of the collateral of an `account` in USD.
+     *
+     * @notice It uses the last {exchangeRate}. It has a base unit of 1e18.
+     *
+     * @param account The address of the borrower.
+     * @return uint256 The collateral of the `account` in USD.
+     */
+    function getCollateralInUSD(address account) public view returns (uint256) {
+        return userCollateral[account].wadMul(exchangeRate);
+    }
+
+    /**
+     * @dev Returns the loan to value ratio of an `account`. The `account` is insolvent once it is equal or above {maxLTVRatio}.
+     *
+     * @notice It has a base unit of 1e18.
+     * @notice It returns the maximum uint256 if the `account` has debt but no collateral.
+     *
+     * @param account The address of the borrower.
+     * @return uint256 The debt of the `account` divided by the value of its collateral.
+     */
+    function getLTV(address account) external view returns (uint256) {
+        uint256 debt = getDebtOf(account);
+
+        if (debt == 0) return 0;
+
+        uint256 collateralInUSD = getCollateralInUSD(account);
+
+        if (collateralInUSD == 0) return type(uint256).max;
+
+        return debt.wadDiv(collateralInUSD);
+    }
+
+    /**
+     * @dev Returns the price of one unit of collateral in USD at which an `account` becomes insolvent.
+     *
+     * @notice It has a base unit of 1e18.
+     * @notice It returns 0 if the `account` has no debt and the maximum uint256 if it has debt but no collateral.
+     *
+     * @param account The address of the borrower.
+     * @return uint256 The exchange rate at which the `account` can be liquidated.
+     */
+    function getLiquidationPrice(address account)
+        external
+        view
+        returns (uint256)
+    {
+        uint256 debt = getDebtOf(account);
+
+        if (debt == 0) return 0;
+
+        uint256 collateral = userCollateral[account];
+
+        if (collateral == 0) return type(uint256).max;
+
+        return debt.wadDiv(collateral.wadMul(maxLTVRatio));
+    }
+
+    /**
+     * @dev Returns how much more Dinero an `account` can borrow and remain solvent.
+     *
+     * @notice It is also limited by the Dinero left to reach the {maxBorrowAmount}.
+     * @notice It is 1 wei below the limit because the `account` must remain strictly below the {maxLTVRatio}.
+     *
+     * @param account The address of the borrower.
+     * @return uint256 The amount of Dinero the `account` can still borrow.
+     */
+    function getMaxBorrowAmountOf(address account)
+        external
+        view
+        returns (uint256)
+    {
+        Rebase memory _totalLoan = _accruedTotalLoan();
+
+        uint256 maxDebt = getCollateralInUSD(account).wadMul(maxLTVRatio);
+        uint256 debt = _totalLoan.toElastic(userLoan[account], true);
+
+        if (debt + 1 >= maxDebt || _totalLoan.elastic >= maxBorrowAmount)
+            return 0;
+
+        return (maxDebt - debt - 1).min(maxBorrowAmount - _totalLoan.elastic);
+    }
+
+    /**
+     * @dev Returns the interest rate charged per second.
+     *
+     * @notice It is the {loan.INTEREST_RATE} unless the market has an {interestRateModel}.
+     * @notice The rate of the {interestRateModel} is capped at {MAX_INTEREST_RATE}. If it reverts, it falls back to the {loan.INTEREST_RATE}, so it cannot block {accrue}, repays and liquidations.
+     *
+     * @return uint256 The interest rate with a base unit of 1e18.
+     */
+    function getInterestRate() public view returns (uint256) {
+        IInterestRateModel model = interestRateModel;
+
+        if (address(model) == address(0)) return loan.INTEREST_RATE;
+
+        try model.getInterestRate(totalLoan.elastic, maxBorrowAmount) returns (
+            uint256 rate
+        ) {
+            return rate.min(MAX_INTEREST_RATE);
+        } catch {
+            return loan.INTEREST_RATE;
+        }
+    }
+
+    /**
+     * @dev Returns the liquidation fee an `account` pays if it is liquidated in this block.
+     *
+     * @notice Without the auction mode, it is always the {liquidationFee}.
+     * @notice In auction mode, it is the {auction.startFee} until the auction of the `account` starts. It starts with its first liquidation or with {updateAuctions}.
+     *
+     * @param account The address of the borrower.
+     * @return uint256 The liquidation fee with a base unit of 1e18.
+     */
+    function getLiquidationFeeOf(address account)
+        public
+        view
+        returns (uint256)
+    {
+        Auction memory _auction = auction;
+        uint256 _liquidationFee = liquidationFee;
+
+        if (_auction.duration == 0 || _auction.startFee >= _liquidationFee)
+            return _liquidationFee;
+
+        uint256 start = auctionStartOf[account];
+
+        if (start == 0) return _auction.startFee;
+
+        // solhint-disable-next-line not-rely-on-time
+        uint256 elapsedTime = block.timestamp - start;
+
+        if (elapsedTime >= _auction.duration) return _liquidationFee;
+
+        return
+            _auction.startFee +
+            ((_liquidationFee - _auction.startFee) * elapsedTime) /
+            _auction.duration;
+    }
+
     /*///////////////////////////////////////////////////////////////
                         MUTATIVE PUBLIC FUNCTIONS
     //////////////////////////////////////////////////////////////*/
 
+    /**
+     * @dev Starts the liquidation auction of the insolvent `accounts` and ends it for the solvent ones.
+     *
+     * @notice Anyone can call it. Liquidators to raise the liquidation fee and borrowers to reset it after restoring their positions.
+     *
+     * @param accounts The list of accounts to update.
+     */
+    function updateAuctions(address[] calldata accounts) external {
+        // Solvency must be based on the current exchange rate and debt.
+        uint256 _exchangeRate = updateExchangeRate();
+
+        accrue();
+
+        for (uint256 i = 0; i < accounts.length; i++) {
+            address account = accounts[i];
+            bool started = auctionStartOf[account] != 0;
+
+            if (_isSolvent(account, _exchangeRate)) {
+                if (started) _endAuction(account);
+            } else if (!started) {
+                _startAuction(account);
+            }
+        }
+    }
+
     /**
      * @dev This function sends the collected fees by this market to the governor feeTo address.
+     *
+     * @notice The fees cover the {badDebt} first. The {reserveFactor} of the rest goes to the {reserve}.
      */
     function getEarnings() external {
         // Update the total debt, includes the {loan.feesEarned}.
         accrue();
 
+        _coverBadDebt(0);
+
         uint256 earnings = loan.feesEarned;
 
         // Reset to 0
         loan.feesEarned = 0;
 
-        address feeTo = FEE_TO;
+        // It is 0 if there is no {reserve}.
+        uint256 reserveEarnings = earnings.wadMul(reserveFactor);
 
-        // This can be minted. Because once users get liquidated or repay the loans. This amount will be burned (fees).
-        // So it will keep the peg to USD. There must be always at bare minimum 1 USD in collateral to 1 Dinero in existence.
-        DINERO.mint(feeTo, earnings);
+        if (reserveEarnings != 0)
+            _mintEarnings(address(reserve), reserveEarnings);
 
-        emit GetEarnings(feeTo, earnings);
+        _mintEarnings(FEE_TO, earnings - reserveEarnings);
     }
 
     /**
@@ -266,8 +522,9 @@ abstract contract DineroMarket is
 
         // Amount of tokens every borrower together owes the protocol
         // By using {wadMul} at the end we get a higher precision
-        uint256 debt = (uint256(_totalLoan.elastic) * _loan.INTEREST_RATE)
-            .wadMul(elapsedTime);
+        uint256 debt = (uint256(_totalLoan.elastic) * getInterestRate()).wadMul(
+            elapsedTime
+        );
 
         unchecked {
             // Should not overflow.
@@ -354,6 +611,8 @@ abstract contract DineroMarket is
      * @param amount The number of `DINERO` to borrow
      */
     function _borrowFresh(address to, uint256 amount) internal {
+        _requireNotPaused();
+
         // What is the principal in proportion to the `amount` of Dinero based on the {loan}.
         uint256 principal;
 
@@ -385,6 +644,259 @@ abstract contract DineroMarket is
         DINERO.burn(_msgSender(), debt);
 
         emit Repay(_msgSender(), account, principal, debt);
+
+        _resetAuction(account);
+    }
+
+    /**
+     * @dev Ends the auction of an `account` that became solvent by adding collateral or repaying. Otherwise, its next liquidation would pay the fee of the old auction.
+     *
+     * @notice It only accrues and updates the exchange rate if the `account` has an auction.
+     *
+     * @param account The address of the borrower.
+     */
+    function _resetAuction(address account) internal {
+        if (auctionStartOf[account] == 0) return;
+
+        accrue();
+
+        if (_isSolvent(account, updateExchangeRate())) _endAuction(account);
+    }
+
+    /**
+     * @dev Starts the liquidation auction of an insolvent `account`.
+     *
+     * @param account The address of the borrower.
+     */
+    function _startAuction(address account) private {
+        // solhint-disable-next-line not-rely-on-time
+        auctionStartOf[account] = block.timestamp;
+        emit StartAuction(account);
+    }
+
+    /**
+     * @dev Ends the liquidation auction of an `account`.
+     *
+     * @param account The address of the borrower.
+     */
+    function _endAuction(address account) private {
+        delete auctionStartOf[account];
+        emit EndAuction(account);
+    }
+
+    /**
+     * @dev Reverts if the {pauseGuardian} paused this market. It guards borrows, collateral deposits and withdrawals.
+     */
+    function _requireNotPaused() internal view {
+        require(
+            address(pauseGuardian) == address(0) ||
+                !pauseGuardian.isPaused(address(this)),
+            "MKT: paused"
+        );
+    }
+
+    /**
+     * @dev Closes up to the {closeFactor} of the loan of an insolvent `account` and removes the collateral that covers it. It adds the amounts to `liquidationInfo`.
+     *
+     * @notice If the collateral of the `account` does not cover the debt + liquidation fee, the whole loan is closed with all the collateral. The liquidator repays the debt the collateral covers and the rest is {BadDebt}.
+     * @notice It ends the auction of the `account` if the loan is fully closed. Otherwise, it starts it if it has not started.
+     *
+     * @param account The address being liquidated.
+     * @param principal The amount of principal the liquidator wants to repay.
+     * @param _totalLoan The {totalLoan} before the liquidations.
+     * @param _exchangeRate The current exchange rate of `COLLATERAL` in USD
+     * @param liquidationInfo The totals of all liquidations.
+     * @return collateralToCover The collateral removed from the `account`.
+     */
+    function _liquidateLoan(
+        address account,
+        uint256 principal,
+        Rebase memory _totalLoan,
+        uint256 _exchangeRate,
+        LiquidationInfo memory liquidationInfo
+    ) internal returns (uint256 collateralToCover) {
+        // How much principal the user has borrowed.
+        uint256 loanPrincipal = userLoan[account];
+        uint256 collateral = userCollateral[account];
+
+        // Liquidator cannot repay more than the {closeFactor} of what `account` borrowed.
+        // Note the liquidator does not need to close the full position.
+        uint256 _closeFactor = closeFactor;
+        principal = principal.min(
+            loanPrincipal.wadMul(_closeFactor == 0 ? 1e18 : _closeFactor)
+        );
+
+        uint256 fee = getLiquidationFeeOf(account);
+
+        // How much is owed in principal + accrued fees
+        uint256 debt = _totalLoan.toElastic(principal, false);
+
+        // How much collateral is needed to cover the loan + fees.
+        // Since Dinero is always USD we can calculate this way.
+        collateralToCover = (debt + debt.wadMul(fee)).wadDiv(_exchangeRate);
+
+        if (collateralToCover > collateral) {
+            // The collateral is worth less than the debt + fees. The liquidator takes all of it and closes the whole loan.
+            collateralToCover = collateral;
+            principal = loanPrincipal;
+
+            // The debt the collateral covers after paying the liquidation fee.
+            debt = collateral.wadMul(_exchangeRate).wadDiv(1e18 + fee);
+
+            // It cannot underflow because the collateral does not cover a part of the loan.
+            uint256 amount = _totalLoan.toElastic(loanPrincipal, false) - debt;
+
+            liquidationInfo.allBadDebt += amount.toUint128();
+
+            emit BadDebt(account, amount);
+        }
+
+        // Calculate the collateralFee (for the liquidator and the protocol)
+        fee = debt.wadMul(fee);
+
+        // Update the global state of the `account`. We can consider the debt paid.
+        userLoan[account] = loanPrincipal - principal;
+        userCollateral[account] = collateral - collateralToCover;
+
+        if (auctionStartOf[account] != 0) {
+            if (loanPrincipal == principal) _endAuction(account);
+        } else if (loanPrincipal != principal && auction.duration != 0) {
+            // The first liquidation starts the auction, so the fee of the rest of the loan grows without {updateAuctions}.
+            _startAuction(account);
+        }
+
+        emit Repay(_msgSender(), account, principal, debt);
+
+        // Update local information. It should not overflow max uint128.
+        liquidationInfo.allCollateral += collateralToCover.toUint128();
+        liquidationInfo.allPrincipal += principal.toUint128();
+        liquidationInfo.allDebt += debt.toUint128();
+        liquidationInfo.allFee += fee.toUint128();
+    }
+
+    /**
+     * @dev Removes the liquidated loans from the {totalLoan} and pays the protocol fee. The fees earned cover the bad debt of the liquidations.
+     *
+     * @param liquidationInfo The totals of all liquidations.
+     * @param _totalLoan The {totalLoan} before the liquidations.
+     * @return protocolFee The part of the liquidation fee earned by the protocol.
+     */
+    function _settleLiquidations(
+        LiquidationInfo memory liquidationInfo,
+        Rebase memory _totalLoan
+    ) internal returns (uint256 protocolFee) {
+        // If the there is no more open positions, the elastic should also equal to 0.
+        // Due to limits of math in solidity. elastic might end up with dust.
+        if (liquidationInfo.allPrincipal == _totalLoan.base)
+            liquidationInfo.allDebt =
+                _totalLoan.elastic -
+                liquidationInfo.allBadDebt;
+
+        // Update Global state. The bad debt is removed from the loan, but no one repays it.
+        totalLoan = _totalLoan.sub(
+            liquidationInfo.allPrincipal,
+            liquidationInfo.allDebt + liquidationInfo.allBadDebt
+        );
+
+        // 10% of the liquidation fee to be given to the protocol.
+        protocolFee = uint256(liquidationInfo.allFee).wadMul(0.1e18);
+
+        unchecked {
+            // Should not overflow.
+            // Pay the fee to the protocol
+            loan.feesEarned += protocolFee.toUint128();
+        }
+
+        _coverBadDebt(liquidationInfo.allBadDebt);
+    }
+
+    /**
+     * @dev Mints part of the earnings of this market to `to`.
+     *
+     * @param to The address of the {FEE_TO} or the {reserve}.
+     * @param amount The number of `DINERO` to mint.
+     */
+    function _mintEarnings(address to, uint256 amount) private {
+        // This can be minted. Because once users get liquidated or repay the loans. This amount will be burned (fees).
+        // So it will keep the peg to USD. There must be always at bare minimum 1 USD in collateral to 1 Dinero in existence.
+        DINERO.mint(to, amount);
+
+        emit GetEarnings(to, amount);
+    }
+
+    /**
+     * @dev Adds `amount` to the {badDebt} and covers as much as possible with the {loan.feesEarned} and then with the {reserve}.
+     *
+     * @notice The `DINERO` of the bad debt has no collateral. Not minting the same amount of fees to the {FEE_TO} or burning the Dinero of the {reserve} keeps the peg.
+     *
+     * @param amount The new bad debt.
+     */
+    function _coverBadDebt(uint256 amount) internal {
+        uint256 _badDebt = badDebt + amount;
+        uint256 covered = _badDebt.min(loan.feesEarned);
+
+        // It cannot underflow or overflow max uint128 because {covered} is at most {loan.feesEarned}.
+        loan.feesEarned -= uint128(covered);
+
+        IProtocolReserve _reserve = reserve;
+
+        if (_badDebt > covered && address(_reserve) != address(0)) {
+            // The reserve burns its Dinero.
+            covered += _reserve.coverBadDebt(_badDebt - covered);
+        }
+
+        badDebt = _badDebt - covered;
+
+        if (covered != 0) emit CoverBadDebt(covered);
+    }
+
+    /**
+     * @dev Returns the {totalLoan} with the interest accrued since the last {accrue} call. It does not update the state.
+     *
+     * @return _totalLoan The {totalLoan} as if {accrue} was called in this block.
+     */
+    function _accruedTotalLoan()
+        internal
+        view
+        returns (Rebase memory _totalLoan)
+    {
+        _totalLoan = totalLoan;
+
+        // solhint-disable-next-line not-rely-on-time
+        uint256 elapsedTime = block.timestamp - loan.lastAccrued;
+
+        if (elapsedTime == 0 || _totalLoan.base == 0) return _totalLoan;
+
+        _totalLoan.elastic += (uint256(_totalLoan.elastic) * getInterestRate())
+            .wadMul(elapsedTime)
+            .toUint128();
+    }
+
+    /**
+     * @dev Returns how much `DINERO` an `account` can borrow to bring his loan to value ratio up to `targetLTV`. It never exceeds the {maxBorrowAmount} of this market.
+     *
+     * @notice It must be called after {accrue}.
+     *
+     * @param account The address of the borrower.
+     * @param targetLTV The loan to value ratio to reach with a base unit of 1e18.
+     * @param _exchangeRate The current exchange rate of `COLLATERAL` in USD
+     * @return uint256 The amount of `DINERO` to borrow. It is 0 if the `account` already reached the `targetLTV`.
+     */
+    function _getLeverageAmount(
+        address account,
+        uint256 targetLTV,
+        uint256 _exchangeRate
+    ) internal view returns (uint256) {
+        Rebase memory _totalLoan = totalLoan;
+
+        uint256 maxDebt = userCollateral[account].wadMul(_exchangeRate).wadMul(
+            targetLTV
+        );
+        uint256 debt = _totalLoan.toElastic(userLoan[account], true);
+
+        if (debt >= maxDebt || _totalLoan.elastic >= maxBorrowAmount) return 0;
+
+        return (maxDebt - debt).min(maxBorrowAmount - _totalLoan.elastic);
     }
 
     /**
@@ -433,6 +945,8 @@ abstract contract DineroMarket is
     function _checkForSolvency(uint8 _request) internal pure returns (bool) {
         if (_request == WITHDRAW_COLLATERAL_REQUEST) return true;
         if (_request == BORROW_REQUEST) return true;
+        if (_request == REPAY_WITH_COLLATERAL_REQUEST) return true;
+        if (_request == LEVERAGE_REQUEST) return true;
 
         return false;
     }
@@ -447,6 +961,8 @@ abstract contract DineroMarket is
         if (_request == WITHDRAW_COLLATERAL_REQUEST) return true;
         if (_request == REPAY_REQUEST) return true;
         if (_request == BORROW_REQUEST) return true;
+        if (_request == REPAY_WITH_COLLATERAL_REQUEST) return true;
+        if (_request == LEVERAGE_REQUEST) return true;
 
         return false;
     }
@@ -489,6 +1005,26 @@ abstract contract DineroMarket is
         emit LiquidationFee(amount);
     }
 
+    /**
+     * @dev Updates the liquidation fee {auction}.
+     *
+     * @notice A `duration` of 0 disables the auction mode. Liquidations then use the {liquidationFee}.
+     *
+     * @param startFee The liquidation fee when an auction starts.
+     * @param duration How many seconds it takes for the fee to reach the {liquidationFee}.
+     *
+     * Requirements:
+     *
+     * - `startFee` cannot be higher than the {liquidationFee}.
+     * - It can only be called by the owner to avoid griefing.
+     *
+     */
+    function setAuction(uint128 startFee, uint128 duration) external onlyOwner {
+        require(liquidationFee >= startFee, "MKT: too high");
+        auction = Auction(startFee, duration);
+        emit LiquidationAuction(startFee, duration);
+    }
+
     /**
      * @dev Sets the new {loan.INTEREST_RATE}.
      *
@@ -509,6 +1045,23 @@ abstract contract DineroMarket is
         emit InterestRate(amount);
     }
 
+    /**
+     * @dev Sets a model to calculate the interest rate. The address(0) restores the fixed {loan.INTEREST_RATE}.
+     *
+     * @notice The interest accrued until now is charged with the previous rate.
+     *
+     * @param model The new interest rate model.
+     *
+     * Requirements:
+     *
+     * - This function is guarded by the {onlyOwner} modifier to disallow users from arbitrarly changing the interest rate of borrowing.
+     */
+    function setInterestRateModel(IInterestRateModel model) external onlyOwner {
+        accrue();
+        interestRateModel = model;
+        emit InterestRateModel(address(model));
+    }
+
     /**
      * @dev Sets a new value to the {maxBorrowAmount}.
      *
@@ -525,6 +1078,66 @@ abstract contract DineroMarket is
         emit MaxBorrowAmount(amount);
     }
 
+    /**
+     * @dev Updates the {closeFactor}.
+     *
+     * @notice A {closeFactor} of 0 allows liquidators to close whole loans. Loans whose collateral does not cover the debt + fee are always closed in full.
+     *
+     * @param amount The new close factor with a base unit of 1e18.
+     *
+     * Requirements:
+     *
+     * - It cannot be higher than 100%.
+     * - It can only be called by the owner to avoid griefing.
+     *
+     */
+    function setCloseFactor(uint256 amount) external onlyOwner {
+        require(1e18 >= amount, "MKT: too high");
+        closeFactor = amount;
+        emit CloseFactor(amount);
+    }
+
+    /**
+     * @dev Sets the {reserve} and the part of the earnings it receives.
+     *
+     * @param _reserve The address of the {ProtocolReserve}. The address zero disables it.
+     * @param factor The new {reserveFactor} with a base unit of 1e18.
+     *
+     * Requirements:
+     *
+     * - The `factor` cannot be higher than 100%.
+     * - The `factor` must be 0 without a reserve. Otherwise, {getEarnings} reverts.
+     * - It can only be called by the owner, because the reserve receives part of the fees.
+     */
+    function setReserve(IProtocolReserve _reserve, uint256 factor)
+        external
+        onlyOwner
+    {
+        require(1e18 >= factor, "MKT: too high");
+        require(
+            factor == 0 || address(_reserve) != address(0),
+            "MKT: no reserve"
+        );
+        reserve = _reserve;
+        reserveFactor = factor;
+        emit Reserve(address(_reserve), factor);
+    }
+
+    /**
+     * @dev Sets the contract that can pause this market in an emergency.
+     *
+     * @param guardian The address of the {PauseGuardian}. The address zero disables it.
+     *
+     * Requirements:
+     *
+     * - This function is guarded by the {onlyOwner} modifier because the guardian can disable borrows and withdrawals.
+     */
+    function setPauseGuardian(IPauseGuardian guardian) external onlyOwner {
+        pauseGuardian = guardian;
+
+        emit PauseGuardian(address(guardian));
+    }
+
     /**
      * @dev A hook to guard the address that can update the implementation of this contract. It must be the owner.
      */
@@ -0,0 +1,484 @@
+/*
+
+░█▀▀▄ ▀█▀ ░█▄─░█ ░█▀▀▀ ░█▀▀█ ░█▀▀▀█ 　 ░█▀▀▀ ─█▀▀█ ░█▀▀█ ▀▀█▀▀ ░█▀▀▀█ ░█▀▀█ ░█──░█
+░█─░█ ░█─ ░█░█░█ ░█▀▀▀ ░█▄▄▀ ░█──░█ 　 ░█▀▀▀ ░█▄▄█ ░█─── ─░█── ░█──░█ ░█▄▄▀ ░█▄▄▄█
+░█▄▄▀ ▄█▄ ░█──▀█ ░█▄▄▄ ░█─░█ ░█▄▄▄█ 　 ░█─── ░█─░█ ░█▄▄█ ─░█── ░█▄▄▄█ ░█─░█ ──░█──
+
+*/
+
+//SPDX-License-Identifier: MIT
+pragma solidity 0.8.13;
+
+import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+
+import "./InterestBNBMarket.sol";
+import "./InterestERC20Market.sol";
+import "./InterestBearingMarket.sol";
+
+/**
+ * @dev It deploys and registers the Dinero markets. Each market is an {ERC1967Proxy} of the approved {implementationOf} its kind, so it remains upgradeable like the markets deployed by our scripts.
+ * The proxy is initialized in its constructor with the {DINERO}, {FEE_TO} and {ORACLE} of this contract. So no one can front run the initialization.
+ *
+ * @notice This contract must have the `DEFAULT_ADMIN_ROLE` of {DINERO} to grant the `MINTER_ROLE` and `BURNER_ROLE` to the new markets and set their mint ceilings.
+ * @notice Every new market is protected by the {pauseGuardian} and the {reserve} of this contract. It must be one of their `registrars` to register the new markets.
+ * @notice The ownership of every new market is transferred to the {owner} of this contract.
+ * @notice The parameters of a new market must be within the same bounds as the {DineroMarket} setters.
+ * @notice The {MasterChefVault} of an {InterestERC20Market} still needs to call `setMarket` with the new market.
+ * @notice This contract is upgradeable using the UUPS pattern with Open Zeppelin plugins.
+ */
+contract DineroMarketFactory is
+    Initializable,
+    OwnableUpgradeable,
+    UUPSUpgradeable
+{
+    /*///////////////////////////////////////////////////////////////
+                                ENUMS
+    //////////////////////////////////////////////////////////////*/
+
+    enum MarketKind {
+        BNB, // {InterestBNBMarket}
+        ERC20, // {InterestERC20Market}
+        Bearing // {InterestBearingMarket}
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                                STRUCTS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @dev The risk parameters every market is initialized with.
+     */
+    struct MarketParameters {
+        uint64 interestRate; // The interest rate per second with a base unit of 1e18.
+        uint256 maxLTVRatio; // The maximum loan to value ratio with a base unit of 1e18.
+        uint256 liquidationFee; // The liquidation fee with a base unit of 1e18.
+        uint256 maxBorrowAmount; // The maximum amount of Dinero the market can lend.
+        uint256 mintCeiling; // The maximum Dinero the market can have minted. It must cover the {maxBorrowAmount}.
+        uint256 closeFactor; // The maximum part of a loan closed by a liquidation with a base unit of 1e18. 0 closes all of it.
+        uint256 reserveFactor; // The part of the earnings sent to the {reserve} with a base unit of 1e18.
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                                EVENTS
+    //////////////////////////////////////////////////////////////*/
+
+    event Implementation(
+        MarketKind indexed kind,
+        address indexed implementation
+    );
+
+    event PauseGuardian(address indexed guardian);
+
+    event Reserve(address indexed reserve);
+
+    event CreateMarket(
+        MarketKind indexed kind,
+        address indexed collateral,
+        address indexed market,
+        address implementation
+    );
+
+    /*///////////////////////////////////////////////////////////////
+                                CONSTANTS
+    //////////////////////////////////////////////////////////////*/
+
+    // Same bounds as {DineroMarket.setInterestRate}, {DineroMarket.setMaxLTVRatio}, {DineroMarket.setLiquidationFee}, {DineroMarket.setCloseFactor} and {DineroMarket.setReserve}.
+    uint64 public constant MAX_INTEREST_RATE = 13e8;
+
+    uint256 public constant MIN_LTV_RATIO = 0.5e18;
+
+    uint256 public constant MAX_LTV_RATIO = 0.9e18;
+
+    uint256 public constant MAX_LIQUIDATION_FEE = 0.15e18;
+
+    uint256 public constant MAX_CLOSE_FACTOR = 1e18;
+
+    uint256 public constant MAX_RESERVE_FACTOR = 1e18;
+
+    /*///////////////////////////////////////////////////////////////
+                                STATE
+    //////////////////////////////////////////////////////////////*/
+
+    // solhint-disable-next-line var-name-mixedcase
+    Dinero public DINERO;
+
+    // solhint-disable-next-line var-name-mixedcase
+    address public FEE_TO;
+
+    // solhint-disable-next-line var-name-mixedcase
+    Oracle public ORACLE;
+
+    // Kind -> The implementation the new markets of that kind point to.
+    mapping(MarketKind => address) public implementationOf;
+
+    // Market -> If it was created by this contract.
+    mapping(address => bool) public isMarket;
+
+    // All the markets created by this contract.
+    address[] private _markets;
+
+    // Collateral -> The markets that accept it. BNB is the address zero.
+    mapping(address => address[]) private _marketsOf;
+
+    // The {PauseGuardian} of the new markets.
+    IPauseGuardian public pauseGuardian;
+
+    // The {ProtocolReserve} of the new markets.
+    IProtocolReserve public reserve;
+
+    /*///////////////////////////////////////////////////////////////
+                            INITIALIZER
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @param dinero The address of the Dinero stable coin.
+     * @param feeTo The address that will receive the fees of the new markets.
+     * @param oracle The address of the oracle of the new markets.
+     *
+     * Requirements:
+     *
+     * - Can only be called at once and should be called during creation to prevent front running.
+     */
+    function initialize(
+        Dinero dinero,
+        address feeTo,
+        Oracle oracle
+    ) external initializer {
+        __Ownable_init();
+
+        DINERO = dinero;
+        FEE_TO = feeTo;
+        ORACLE = oracle;
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                            VIEW FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @dev Returns all the markets created by this contract.
+     *
+     * @return address[] The addresses of the markets.
+     */
+    function getMarkets() external view returns (address[] memory) {
+        return _markets;
+    }
+
+    /**
+     * @dev Returns the markets that accept a `collateral`. The markets of vTokens are registered under their underlying.
+     *
+     * @param collateral The address of the collateral. BNB is the address zero.
+     * @return address[] The addresses of the markets.
+     */
+    function getMarketsOf(address collateral)
+        external
+        view
+        returns (address[] memory)
+    {
+        return _marketsOf[collateral];
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                            PRIVATE FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @dev Reverts if the `params` are not within the bounds of the {DineroMarket} setters.
+     *
+     * @param params The risk parameters of the new market.
+     */
+    function _checkParameters(MarketParameters calldata params) private pure {
+        require(
+            MAX_INTEREST_RATE >= params.interestRate,
+            "DMF: interest rate too high"
+        );
+        require(
+            MAX_LTV_RATIO >= params.maxLTVRatio &&
+                params.maxLTVRatio >= MIN_LTV_RATIO,
+            "DMF: ltv ratio out of bounds"
+        );
+        require(
+            MAX_LIQUIDATION_FEE >= params.liquidationFee,
+            "DMF: liquidation fee too high"
+        );
+        // The market must not lend more Dinero than it can mint.
+        require(
+            params.mintCeiling >= params.maxBorrowAmount &&
+                params.maxBorrowAmount != 0,
+            "DMF: max borrow out of bounds"
+        );
+        require(
+            MAX_CLOSE_FACTOR >= params.closeFactor,
+            "DMF: close factor too high"
+        );
+        require(
+            MAX_RESERVE_FACTOR >= params.reserveFactor,
+            "DMF: reserve factor too high"
+        );
+    }
+
+    /**
+     * @dev Returns the collateral users deposit in a `market`. BNB is the address zero.
+     *
+     * @param kind The kind of the market.
+     * @param market The address of the market.
+     * @return address The address of the collateral.
+     */
+    function _getCollateral(MarketKind kind, address market)
+        private
+        view
+        returns (address)
+    {
+        if (kind == MarketKind.BNB) return address(0);
+
+        if (kind == MarketKind.ERC20)
+            return address(InterestERC20Market(market).COLLATERAL());
+
+        return address(InterestBearingMarket(payable(market)).COLLATERAL());
+    }
+
+    /**
+     * @dev Deploys a proxy of the {implementationOf} the `kind` initialized with `data`, grants it the roles to mint and burn Dinero and registers it.
+     *
+     * @notice It sets the mint ceiling, close factor, {reserve} and {pauseGuardian} of the market before it can be used.
+     *
+     * @param kind The kind of the market.
+     * @param data The call to the `initialize` function of the market.
+     * @param params The risk parameters of the new market.
+     * @return market The address of the new market.
+     */
+    function _createMarket(
+        MarketKind kind,
+        bytes memory data,
+        MarketParameters calldata params
+    ) private returns (address market) {
+        address implementation = implementationOf[kind];
+        IPauseGuardian _pauseGuardian = pauseGuardian;
+        IProtocolReserve _reserve = reserve;
+
+        require(implementation != address(0), "DMF: no implementation");
+        require(
+            address(_pauseGuardian) != address(0),
+            "DMF: no pause guardian"
+        );
+        require(address(_reserve) != address(0), "DMF: no reserve");
+
+        market = address(new ERC1967Proxy(implementation, data));
+
+        address collateral = _getCollateral(kind, market);
+
+        DINERO.grantRole(DINERO.MINTER_ROLE(), market);
+        DINERO.grantRole(DINERO.BURNER_ROLE(), market);
+        DINERO.setMintCeiling(market, params.mintCeiling);
+
+        // The market was initialized by this contract, so it is its owner.
+        DineroMarket(market).setCloseFactor(params.closeFactor);
+        DineroMarket(market).setReserve(_reserve, params.reserveFactor);
+        DineroMarket(market).setPauseGuardian(_pauseGuardian);
+        DineroMarket(market).transferOwnership(owner());
+
+        _pauseGuardian.addContract(market);
+        _reserve.addContract(market);
+
+        isMarket[market] = true;
+        _markets.push(market);
+        _marketsOf[collateral].push(market);
+
+        emit CreateMarket(kind, collateral, market, implementation);
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                            OWNER ONLY FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @dev Creates an {InterestBNBMarket}.
+     *
+     * @param params The risk parameters of the new market.
+     * @return market The address of the new market.
+     *
+     * Requirements:
+     *
+     * - Only the owner can create markets because they can mint Dinero.
+     * - The `params` must be within the bounds of the {DineroMarket} setters.
+     * - The {pauseGuardian} and the {reserve} must be set.
+     */
+    function createBNBMarket(MarketParameters calldata params)
+        external
+        onlyOwner
+        returns (address)
+    {
+        _checkParameters(params);
+
+        return
+            _createMarket(
+                MarketKind.BNB,
+                abi.encodeCall(
+                    InterestBNBMarket.initialize,
+                    (
+                        DINERO,
+                        FEE_TO,
+                        ORACLE,
+                        params.interestRate,
+                        params.maxLTVRatio,
+                        params.liquidationFee,
+                        params.maxBorrowAmount
+                    )
+                ),
+                params
+            );
+    }
+
+    /**
+     * @dev Creates an {InterestERC20Market}.
+     *
+     * @param collateral The address of the {ERC20} collateral.
+     * @param vault The {MasterChefVault} of the collateral. It can be the address zero.
+     * @param params The risk parameters of the new market.
+     * @return market The address of the new market.
+     *
+     * Requirements:
+     *
+     * - Only the owner can create markets because they can mint Dinero.
+     * - The `params` must be within the bounds of the {DineroMarket} setters.
+     * - The {pauseGuardian} and the {reserve} must be set.
+     */
+    function createERC20Market(
+        IERC20Upgradeable collateral,
+        MasterChefVault vault,
+        MarketParameters calldata params
+    ) external onlyOwner returns (address) {
+        _checkParameters(params);
+
+        return
+            _createMarket(
+                MarketKind.ERC20,
+                abi.encodeCall(
+                    InterestERC20Market.initialize,
+                    (
+                        DINERO,
+                        FEE_TO,
+                        ORACLE,
+                        collateral,
+                        vault,
+                        params.interestRate,
+                        params.maxLTVRatio,
+                        params.liquidationFee,
+                        params.maxBorrowAmount
+                    )
+                ),
+                params
+            );
+    }
+
+    /**
+     * @dev Creates an {InterestBearingMarket}. It is registered under the underlying of the `vToken`.
+     *
+     * @param vToken The Venus market of the collateral.
+     * @param params The risk parameters of the new market.
+     * @return market The address of the new market.
+     *
+     * Requirements:
+     *
+     * - Only the owner can create markets because they can mint Dinero.
+     * - The `params` must be within the bounds of the {DineroMarket} setters.
+     * - The {pauseGuardian} and the {reserve} must be set.
+     */
+    function createBearingMarket(
+        IVToken vToken,
+        MarketParameters calldata params
+    ) external onlyOwner returns (address) {
+        _checkParameters(params);
+
+        return
+            _createMarket(
+                MarketKind.Bearing,
+                abi.encodeCall(
+                    InterestBearingMarket.initialize,
+                    (
+                        DINERO,
+                        FEE_TO,
+                        ORACLE,
+                        vToken,
+                        params.interestRate,
+                        params.maxLTVRatio,
+                        params.liquidationFee,
+                        params.maxBorrowAmount
+                    )
+                ),
+                params
+            );
+    }
+
+    /**
+     * @dev Sets the {PauseGuardian} of the new markets. It does not affect the markets already created.
+     *
+     * @param guardian The address of the {PauseGuardian}.
+     *
+     * Requirements:
+     *
+     * - Only the owner can choose who pauses the markets.
+     */
+    function setPauseGuardian(IPauseGuardian guardian) external onlyOwner {
+        require(address(guardian) != address(0), "DMF: no zero address");
+
+        pauseGuardian = guardian;
+
+        emit PauseGuardian(address(guardian));
+    }
+
+    /**
+     * @dev Sets the {ProtocolReserve} of the new markets. It does not affect the markets already created.
+     *
+     * @param _reserve The address of the {ProtocolReserve}.
+     *
+     * Requirements:
+     *
+     * - Only the owner can choose where the earnings of the markets go.
+     */
+    function setReserve(IProtocolReserve _reserve) external onlyOwner {
+        require(address(_reserve) != address(0), "DMF: no zero address");
+
+        reserve = _reserve;
+
+        emit Reserve(address(_reserve));
+    }
+
+    /**
+     * @dev Sets the implementation of the new markets of a `kind`. It does not affect the markets already created.
+     *
+     * @param kind The kind of the market.
+     * @param implementation The address of the market implementation.
+     *
+     * Requirements:
+     *
+     * - Only the owner can approve the code of the markets.
+     * - The `implementation` must be a contract.
+     */
+    function setImplementation(MarketKind kind, address implementation)
+        external
+        onlyOwner
+    {
+        require(implementation.code.length > 0, "DMF: not a contract");
+
+        implementationOf[kind] = implementation;
+
+        emit Implementation(kind, implementation);
+    }
+
+    /**
+     * @dev A hook to guard the address that can update the implementation of this contract. It must be the owner.
+     */
+    function _authorizeUpgrade(address)
+        internal
+        view
+        override
+        onlyOwner
+    //solhint-disable-next-line no-empty-blocks
+    {
+
+    }
+}
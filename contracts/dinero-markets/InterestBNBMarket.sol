@@ -75,6 +75,13 @@ contract InterestBNBMarket is
         uint256 amount
     );
 
+    /*///////////////////////////////////////////////////////////////
+                            STATE
+    //////////////////////////////////////////////////////////////*/
+
+    // Set while {_leverageFresh} buys BNB. {receive} only accepts the BNB of the router when it is true.
+    bool private _leveraging;
+
     /*///////////////////////////////////////////////////////////////
                             INITIALIZER
     //////////////////////////////////////////////////////////////*/
@@ -161,8 +168,17 @@ contract InterestBNBMarket is
 
     /**
      * @dev This a version of {addCollateral} that adds to the `msg.sender`.
+     *
+     * Requirements:
+     *
+     * - The router can only send BNB during {_leverageFresh}, which credits it to the borrower.
      */
     receive() external payable {
+        if (_msgSender() == address(ROUTER)) {
+            require(_leveraging, "MKT: not leveraging");
+            return;
+        }
+
         _addCollateralFresh(_msgSender(), msg.value);
     }
 
@@ -188,7 +204,10 @@ contract InterestBNBMarket is
     }
 
     /**
-     * @dev Function to call borrow, addCollateral, withdrawCollateral and repay in an arbitrary order
+     * @dev Function to call borrow, addCollateral, withdrawCollateral, repay, repayWithCollateral and leverage in an arbitrary order
+     *
+     * @notice The repay with collateral request sells the BNB of `msg.sender` in PCS and repays his own loan without a liquidation fee.
+     * @notice The leverage request borrows `DINERO`, buys BNB in PCS and adds it as collateral until `msg.sender` reaches a target loan to value ratio.
      *
      * @param requests Array of actions to denote, which function to call
      * @param requestArgs The data to pass to the function based on the request
@@ -244,18 +263,27 @@ contract InterestBNBMarket is
      * @param principals The amount of principal the `msg.sender` wants to liquidate for each account.
      * @param recipient The address that will receive the proceeds gained by liquidating.
      * @param path The list of tokens from BNB to dinero in case the `msg.sender` wishes to use collateral to cover the debt.
+     * @param minAmountOut The minimum amount of `DINERO` the sale of the collateral must return. It protects the liquidator from sandwich attacks. It is ignored if no `path` is provided.
+     * @param deadline The timestamp after which the liquidation reverts.
      *
      * Requirements:
      *
      * - If the liquidator wishes to use collateral to pay off a debt. He must exchange it to Dinero.
      * - He must hold enough Dinero to cover the sum of principals if opts to not sell the collateral in PCS.
+     * - The sale of the collateral must return at least `minAmountOut` of `DINERO`.
+     * - It must be called before the `deadline`.
      */
     function liquidate(
         address[] calldata accounts,
         uint256[] calldata principals,
         address payable recipient,
-        address[] calldata path
+        address[] calldata path,
+        uint256 minAmountOut,
+        uint256 deadline
     ) external nonReentrant {
+        //solhint-disable-next-line not-rely-on-time
+        require(deadline >= block.timestamp, "MKT: expired");
+
         // Make sure token is always exchanged to Dinero as we need to burn at the end.
         // path can be empty if the liquidator has enough dinero in his accounts to close the positions.
         require(
@@ -274,8 +302,6 @@ contract InterestBNBMarket is
 
         Rebase memory _totalLoan = totalLoan;
 
-        uint256 _liquidationFee = liquidationFee;
-
         // Loop through all positions
         for (uint256 i = 0; i < accounts.length; i++) {
             address account = accounts[i];
@@ -283,43 +309,16 @@ contract InterestBNBMarket is
             // If the user has enough collateral to cover his debt. He cannot be liquidated. Move to the next one.
             if (_isSolvent(account, _exchangeRate)) continue;
 
-            uint256 principal;
-
-            {
-                // How much principal the user has borrowed.
-                uint256 loanPrincipal = userLoan[account];
-
-                // Liquidator cannot repay more than the what `account` borrowed.
-                // Note the liquidator does not need to close the full position.
-                principal = principals[i] > loanPrincipal
-                    ? loanPrincipal
-                    : principals[i];
-
-                // Update the userLoan global state
-                userLoan[account] -= principal;
-            }
-
-            // How much is the owed in principal + accrued fees
-            uint256 debt = _totalLoan.toElastic(principal, false);
-
-            // Calculate the collateralFee (for the liquidator and the protocol)
-            uint256 fee = debt.wadMul(_liquidationFee);
-
-            // How much collateral is needed to cover the loan + fees.
-            // Since Dinero is always USD we can calculate this way.
-            uint256 collateralToCover = (debt + fee).wadDiv(_exchangeRate);
-
-            // Remove the collateral from the account. We can consider the debt paid.
-            userCollateral[account] -= collateralToCover;
+            // Repay the loan and remove the collateral of the `account`. We can consider the debt paid.
+            uint256 collateralToCover = _liquidateLoan(
+                account,
+                principals[i],
+                _totalLoan,
+                _exchangeRate,
+                liquidationInfo
+            );
 
             emit WithdrawCollateral(account, address(this), collateralToCover);
-            emit Repay(_msgSender(), account, principal, debt);
-
-            // Update local information. It should not overflow max uint128.
-            liquidationInfo.allCollateral += collateralToCover.toUint128();
-            liquidationInfo.allPrincipal += principal.toUint128();
-            liquidationInfo.allDebt += debt.toUint128();
-            liquidationInfo.allFee += fee.toUint128();
         }
 
         // There must have liquidations or we throw an error;
@@ -327,55 +326,37 @@ contract InterestBNBMarket is
         // We need to revert all that.
         require(liquidationInfo.allPrincipal > 0, "MKT: no liquidations");
 
-        // If the there is no more open positions, the elastic should also equal to 0.
-        // Due to limits of math in solidity. elastic might end up with dust.
-        if (liquidationInfo.allPrincipal == _totalLoan.base)
-            liquidationInfo.allDebt = _totalLoan.elastic;
-
-        // Update Global state
-        totalLoan = _totalLoan.sub(
-            liquidationInfo.allPrincipal,
-            liquidationInfo.allDebt
-        );
-
-        // 10% of the liquidation fee to be given to the protocol.
-        uint256 protocolFee = uint256(liquidationInfo.allFee).wadMul(0.1e18);
+        // We need to get enough `DINERO` to cover outstanding debt + protocol fees. This means the liquidator will pay for the slippage.
+        uint256 amount = liquidationInfo.allDebt +
+            _settleLiquidations(liquidationInfo, _totalLoan);
 
-        unchecked {
-            // Should not overflow.
-            // Pay the fee to the protocol
-            loan.feesEarned += protocolFee.toUint128();
-        }
+        // Liquidator has dinero if he does not sell the collateral.
+        address payer = _msgSender();
 
         // If a path is provided, we will use the collateral to cover the debt
         if (path.length >= 2) {
-            // We need to get enough `DINERO` to cover outstanding debt + protocol fees. This means the liquidator will pay for the slippage.
-            uint256 minAmount = liquidationInfo.allDebt + protocolFee;
-
             // Sell all collateral for this liquidation
             ROUTER.swapExactETHForTokens{value: liquidationInfo.allCollateral}(
-                // Minimum amount to cover the collateral
-                minAmount,
+                // Minimum amount to cover the collateral and the minimum of the liquidator
+                minAmountOut.max(amount),
                 // Sell COLLATERAL -> DINERO
                 path,
                 // Send DINERO to the recipient. Since this has to happen in this block. We can burn right after
                 recipient,
-                // This TX must happen in this block.
-                //solhint-disable-next-line not-rely-on-time
-                block.timestamp
+                // It reverts after the deadline of the liquidator.
+                deadline
             );
-
-            // This step we destroy `DINERO` equivalent to all outstanding debt + protocol fee. This does not include the liquidator fee.
-            // Liquidator keeps the rest as profit.
-            DINERO.burn(recipient, minAmount);
+            // Liquidator recipient Dinero from the swap.
+            payer = recipient;
         } else {
             // Liquidator will be paid in `COLLATERAL`
-            // Liquidator needs to cover the whole loan + fees.
-            DINERO.burn(_msgSender(), liquidationInfo.allDebt + protocolFee);
-
             // Send him the collateral + a portion of liquidation fee.
             _sendCollateral(recipient, liquidationInfo.allCollateral);
         }
+
+        // This step we destroy `DINERO` equivalent to all outstanding debt + protocol fee. This does not include the liquidator fee.
+        // Liquidator keeps the rest as profit.
+        DINERO.burn(payer, amount);
     }
 
     /*///////////////////////////////////////////////////////////////
@@ -391,10 +372,14 @@ contract InterestBNBMarket is
      * @param amount The number of BNB to add
      */
     function _addCollateralFresh(address to, uint256 amount) private {
+        _requireNotPaused();
+
         // Update Global state
         userCollateral[to] += amount;
 
         emit AddCollateral(_msgSender(), to, amount);
+
+        _resetAuction(to);
     }
 
     /**
@@ -440,6 +425,32 @@ contract InterestBNBMarket is
             return;
         }
 
+        if (requestAction == REPAY_WITH_COLLATERAL_REQUEST) {
+            (
+                uint256 amount,
+                uint256 principal,
+                uint256 minAmountOut,
+                address[] memory path
+            ) = abi.decode(data, (uint256, uint256, uint256, address[]));
+            require(amount != 0, "DM: no zero amount");
+            require(principal > 0, "MKT: principal cannot be 0");
+
+            _repayWithCollateralFresh(amount, principal, minAmountOut, path);
+            return;
+        }
+
+        if (requestAction == LEVERAGE_REQUEST) {
+            (
+                uint256 targetLTV,
+                uint256 loops,
+                uint256 minAmountOut,
+                address[] memory path
+            ) = abi.decode(data, (uint256, uint256, uint256, address[]));
+
+            _leverageFresh(targetLTV, loops, minAmountOut, path);
+            return;
+        }
+
         revert("DM: invalid request");
     }
 
@@ -450,6 +461,8 @@ contract InterestBNBMarket is
      * @param amount The number of BNB tokens he wishes to withdraw.
      */
     function _withdrawCollateralFresh(address to, uint256 amount) private {
+        _requireNotPaused();
+
         // Update State
         userCollateral[_msgSender()] -= amount;
 
@@ -458,6 +471,126 @@ contract InterestBNBMarket is
         emit WithdrawCollateral(_msgSender(), to, amount);
     }
 
+    /**
+     * @dev It sells `amount` of the collateral of `msg.sender` for `DINERO` in PCS and uses it to repay his own loan. The caller has to run {accrue} beforehand and must do solvency checks.
+     *
+     * @notice The `DINERO` bought is sent to `msg.sender` and the debt is burned from his balance. He keeps any `DINERO` left.
+     * @notice There is no liquidation fee.
+     *
+     * @param amount The number of BNB to sell.
+     * @param principal The principal to repay. If it is higher than the loan of `msg.sender`, the whole loan is repaid.
+     * @param minAmountOut The minimum amount of `DINERO` the sale must return. It protects `msg.sender` from slippage.
+     * @param path The list of tokens from WBNB to dinero.
+     *
+     * Requirements:
+     *
+     * - The last token of the `path` must be `DINERO`.
+     */
+    function _repayWithCollateralFresh(
+        uint256 amount,
+        uint256 principal,
+        uint256 minAmountOut,
+        address[] memory path
+    ) private {
+        _requireNotPaused();
+
+        require(
+            path.length >= 2 && path[path.length - 1] == address(DINERO),
+            "MKT: no dinero at last index"
+        );
+
+        // Update State
+        userCollateral[_msgSender()] -= amount;
+
+        emit WithdrawCollateral(_msgSender(), address(this), amount);
+
+        // Sell the collateral. PCS reverts if it returns less than `minAmountOut`.
+        ROUTER.swapExactETHForTokens{value: amount}(
+            minAmountOut,
+            // Sell BNB -> DINERO
+            path,
+            // `msg.sender` pays the debt with the `DINERO` bought.
+            _msgSender(),
+            // This TX must happen in this block.
+            //solhint-disable-next-line not-rely-on-time
+            block.timestamp
+        );
+
+        _repayFresh(_msgSender(), principal.min(userLoan[_msgSender()]));
+    }
+
+    /**
+     * @dev It borrows `DINERO`, sells it for BNB in PCS and adds the BNB as collateral of `msg.sender` up to `loops` times. Each loop borrows enough to reach the `targetLTV` with the current collateral. The caller has to run {accrue} beforehand and must do solvency checks.
+     *
+     * @notice The `targetLTV` is approached from below because of the swap fees and slippage.
+     * @notice Each loop stops if `msg.sender` reached the `targetLTV` or the market reached its {maxBorrowAmount}.
+     *
+     * @param targetLTV The loan to value ratio to reach with a base unit of 1e18.
+     * @param loops The maximum number of times to borrow and buy collateral.
+     * @param minAmountOut The minimum amount of BNB all loops must buy. It protects `msg.sender` from slippage.
+     * @param path The list of tokens from dinero to WBNB.
+     *
+     * Requirements:
+     *
+     * - The `targetLTV` must be lower than the {maxLTVRatio}.
+     * - The `path` must start with `DINERO` and end with WBNB.
+     * - The loops must buy at least `minAmountOut` of BNB.
+     */
+    function _leverageFresh(
+        uint256 targetLTV,
+        uint256 loops,
+        uint256 minAmountOut,
+        address[] memory path
+    ) private {
+        require(maxLTVRatio > targetLTV, "MKT: ltv ratio too high");
+        require(
+            path.length >= 2 &&
+                path[0] == address(DINERO) &&
+                path[path.length - 1] == ROUTER.WETH(),
+            "MKT: invalid path"
+        );
+
+        uint256 _exchangeRate = updateExchangeRate();
+        uint256 amountOut;
+
+        for (uint256 i; i < loops; i++) {
+            uint256 amount = _getLeverageAmount(
+                _msgSender(),
+                targetLTV,
+                _exchangeRate
+            );
+
+            if (amount == 0) break;
+
+            // The market holds the `DINERO` borrowed to sell it.
+            _borrowFresh(address(this), amount);
+
+            DINERO.approve(address(ROUTER), amount);
+
+            // Sell DINERO -> BNB. {receive} accepts the BNB sent by the router without crediting it.
+            _leveraging = true;
+
+            uint256 collateralAmount = ROUTER.swapExactTokensForETH(
+                amount,
+                // {minAmountOut} is checked after all loops.
+                0,
+                path,
+                address(this),
+                // This TX must happen in this block.
+                //solhint-disable-next-line not-rely-on-time
+                block.timestamp
+            )[path.length - 1];
+
+            _leveraging = false;
+
+            _addCollateralFresh(_msgSender(), collateralAmount);
+
+            amountOut += collateralAmount;
+        }
+
+        require(amountOut >= minAmountOut, "MKT: not enough collateral");
+    }
+
     /**
      * @dev A helper function to send BNB to an address.
      *
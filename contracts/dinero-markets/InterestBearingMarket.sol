@@ -0,0 +1,166 @@
+/*
+
+▀█▀ █▀▀▄ ▀▀█▀▀ █▀▀ █▀▀█ █▀▀ █▀▀ ▀▀█▀▀ 　 ▒█▀▄▀█ █▀▀█ █▀▀█ █░█ █▀▀ ▀▀█▀▀ 　 ▒█░░▒█ ▄█░ 
+▒█░ █░░█ ░░█░░ █▀▀ █▄▄▀ █▀▀ ▀▀█ ░░█░░ 　 ▒█▒█▒█ █▄▄█ █▄▄▀ █▀▄ █▀▀ ░░█░░ 　 ░▒█▒█░ ░█░ 
+▄█▄ ▀░░▀ ░░▀░░ ▀▀▀ ▀░▀▀ ▀▀▀ ▀▀▀ ░░▀░░ 　 ▒█░░▒█ ▀░░▀ ▀░▀▀ ▀░▀ ▀▀▀ ░░▀░░ 　 ░░▀▄▀░ ▄█▄
+
+Copyright (c) 2021 Jose Cerqueira - All rights reserved
+
+*/
+
+//SPDX-License-Identifier: MIT
+pragma solidity 0.8.13;
+
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/token/ERC20/IERC20Upgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/token/ERC20/utils/SafeERC20Upgradeable.sol";
+
+import "../interfaces/IVToken.sol";
+
+import "../tokens/Dinero.sol";
+
+import "../Oracle.sol";
+
+import "./DineroMarket.sol";
+import "./VenusBearingMarket.sol";
+
+/**
+ * @dev The state of {InterestBearingMarket} declared before the state of {VenusBearingMarket}, like in the InterestERC20BearingMarket.
+ */
+abstract contract InterestBearingMarketStorage is DineroMarket {
+    // solhint-disable-next-line var-name-mixedcase
+    IERC20Upgradeable public COLLATERAL; // Token to be used to cover the loan. It is address(0) for BNB.
+
+    // solhint-disable-next-line var-name-mixedcase
+    IVToken public VTOKEN; // A Venus Market.
+}
+
+/**
+ * @dev It is an overcollaterized isolated lending market between an underlying Venus Token and the synthetic stable coin Dinero.
+ * The idea behind a synthethic stable coin is to allow for a fixed low interest rate to make investment strategies built with Interest Protocol cheaper and predictable.
+ *
+ * @notice The `msg.sender` must give an allowance to deposit ERC20 collateral to this contract. BNB is sent with the call.
+ * @notice There is no deposit fee.
+ * @notice There is a liquidation fee.
+ * @notice Since Dinero is assumed to always be pegged to USD. Only need an exchange rate from collateral to USD.
+ * @notice We assume that {_exchangeRate} has 18 decimals. Please check Oracle and PancakeOracle
+ * @notice The govenor owner has sole access to critical functions in this contract.
+ * @notice Market will only support tokens on BSC with 18 decimals.
+ * @notice One contract supports every Venus market. The {VTOKEN} is chosen by the owner at initialization and vBNB uses BNB as collateral.
+ * @notice We will start by supporting tokens with high liquidity. The {maxLTVRatio} will start at 60% and slow be raised up to 80%.
+ * @notice It relies on third party liquidators to close loans underwater.
+ * @notice It depends on Chainlink price feeds oracles. However, we will add a backup using PCS TWAPS before the live release.
+ * @notice The Rebase library is helper library to easily calculate the principal + fees owed by borrowers.
+ * @notice It keeps the storage layout of the InterestERC20BearingMarket, so its proxies can be upgraded to this contract. The proxies of the first vBNB market are upgraded to {InterestBNBBearingMarket}, which keeps its layout.
+ * @notice To be effective this requires a strong DNR/BNB or DNR/BUSD pair. The contract CasaDePapel will be responsible for this.
+ * @notice This contract enforces that Dinero remains pegged to USD.
+ * If Dinero falls below, borrowers that have open  loans and swapped to a different crypto, can buy dinero cheaper and close their loans running a profit. Liquidators can accumulate Dinero to close underwater positions with an arbitrate. As liquidation will always assume 1 Dinero is worth 1 USD. If Dinero goes above a dollar, people are encouraged to borrow more Dinero for arbitrage. We believe this will keep the price pegged at 1 USD.
+ *
+ * Contracts that will be supported in V1:
+ *
+ * NATIVE BNB - vBNB 0xA07c5b74C9B40447a954e1466938b865b6BBea36
+ * BTC - vBTC 0x882C173bC7Ff3b7786CA16dfeD3DFFfb9Ee7847B
+ * ETH - vETH 0xf508fCD89b8bd15579dc79A6827cB4686A3592c8
+ */
+contract InterestBearingMarket is
+    Initializable,
+    InterestBearingMarketStorage,
+    VenusBearingMarket
+{
+    /*///////////////////////////////////////////////////////////////
+                            LIBRARIES
+    //////////////////////////////////////////////////////////////*/
+
+    using SafeERC20Upgradeable for IERC20Upgradeable;
+
+    /*///////////////////////////////////////////////////////////////
+                                INITIALIZER
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @dev This will only be called once to set the initial state.
+     *
+     * @notice The {COLLATERAL} is the underlying of the `vToken`. It is address(0) for vBNB, which represents BNB.
+     *
+     * @param dinero The address of Dinero.
+     * @param feeTo Treasury address.
+     * @param oracle The address of the oracle.
+     * @param vToken The address of the Venus market of the collateral
+     * @param interestRate the interest rate charged every second
+     * @param _maxLTVRatio The maximum ltv ratio before liquidation
+     * @param _liquidationFee The fee charged when positions under water are liquidated
+     *
+     * Requirements:
+     *
+     * - Can only be called at once and should be called during creation to prevent front running.
+     * - The `vToken` must be listed in Venus.
+     */
+    function initialize(
+        Dinero dinero,
+        address feeTo,
+        Oracle oracle,
+        IVToken vToken,
+        uint64 interestRate,
+        uint256 _maxLTVRatio,
+        uint256 _liquidationFee,
+        uint256 _maxBorrowAmount
+    ) external initializer {
+        // {maxLTVRatio} must be within the acceptable bounds.
+        require(
+            0.9e18 >= _maxLTVRatio && _maxLTVRatio >= 0.5e18,
+            "DM: ltc ratio out of bounds"
+        );
+
+        (bool isListed, , ) = VENUS_CONTROLLER.markets(address(vToken));
+        require(isListed, "DM: vToken not listed");
+
+        __VenusBearingMarket_init();
+
+        DINERO = dinero;
+        FEE_TO = feeTo;
+        ORACLE = oracle;
+        VTOKEN = vToken;
+        loan.INTEREST_RATE = interestRate;
+        maxLTVRatio = _maxLTVRatio;
+        liquidationFee = _liquidationFee;
+        maxBorrowAmount = _maxBorrowAmount;
+
+        // vBNB does not have an underlying token.
+        if (vToken == VBNB) return;
+
+        COLLATERAL = IERC20Upgradeable(vToken.underlying());
+
+        // Approve the router to trade the collateral in case of liquidations.
+        COLLATERAL.safeApprove(address(ROUTER), type(uint256).max);
+        // Approve the `vToken` to be able to mint to it.
+        COLLATERAL.safeApprove(address(vToken), type(uint256).max);
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                            INTERNAL FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @dev Returns the {COLLATERAL}.
+     */
+    function _collateral()
+        internal
+        view
+        override(VenusBearingMarket)
+        returns (IERC20Upgradeable)
+    {
+        return COLLATERAL;
+    }
+
+    /**
+     * @dev Returns the {VTOKEN}.
+     */
+    function _vToken()
+        internal
+        view
+        override(VenusBearingMarket)
+        returns (IVToken)
+    {
+        return VTOKEN;
+    }
+}
@@ -17,6 +17,7 @@ import "@openzeppelin/contracts-upgradeable/token/ERC20/utils/SafeERC20Upgradeab
 
 import "../interfaces/IPancakeRouter02.sol";
 import "../interfaces/IPancakePair.sol";
+import "../interfaces/ILiquidationCallee.sol";
 
 import "../tokens/Dinero.sol";
 
@@ -91,6 +92,14 @@ contract InterestERC20Market is Initializable, DineroMarket {
                             STATE
     //////////////////////////////////////////////////////////////*/
 
+    // The value {ILiquidationCallee-onLiquidation} returns to accept a flash liquidation.
+    bytes32 internal constant ON_LIQUIDATION =
+        keccak256("ILiquidationCallee.onLiquidation");
+
+    // Values of {_reentrancyStatus}. Proxies deployed before the guard start at 0, which is also not entered.
+    uint256 private constant NOT_ENTERED = 1;
+    uint256 private constant ENTERED = 2;
+
     // solhint-disable-next-line var-name-mixedcase
     IERC20Upgradeable public COLLATERAL; // Token to be used to cover the loan.
 
@@ -99,6 +108,9 @@ contract InterestERC20Market is Initializable, DineroMarket {
 
     uint256 public totalCollateral; // Total amount of collateral in this market.
 
+    // Status of the reentrancy guard. It is appended to keep the storage layout of the deployed markets.
+    uint256 private _reentrancyStatus;
+
     /*///////////////////////////////////////////////////////////////
                                 INITIALIZER
     //////////////////////////////////////////////////////////////*/
@@ -155,6 +167,21 @@ contract InterestERC20Market is Initializable, DineroMarket {
         COLLATERAL.safeApprove(address(ROUTER), type(uint256).max);
     }
 
+    /*///////////////////////////////////////////////////////////////
+                            MODIFIERS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @dev Prevents a function from calling itself or another {nonReentrant} function, like the {ReentrancyGuardUpgradeable} of OpenZeppelin.
+     *
+     * @notice Inheriting {ReentrancyGuardUpgradeable} would add its storage before {DineroMarket} and break the upgrade of the deployed markets.
+     */
+    modifier nonReentrant() {
+        _enter();
+        _;
+        _reentrancyStatus = NOT_ENTERED;
+    }
+
     /*///////////////////////////////////////////////////////////////
                         MUTATIVE PUBLIC FUNCTIONS
     //////////////////////////////////////////////////////////////*/
@@ -199,13 +226,18 @@ contract InterestERC20Market is Initializable, DineroMarket {
     }
 
     /**
-     * @dev Function to call borrow, addCollateral, withdrawCollateral and repay in an arbitrary order
+     * @dev Function to call borrow, addCollateral, withdrawCollateral, repay, repayWithCollateral and leverage in an arbitrary order
+     *
+     * @notice The repay with collateral request sells the `COLLATERAL` of `msg.sender` in PCS and repays his own loan without a liquidation fee.
+     * @notice The leverage request borrows `DINERO`, buys `COLLATERAL` in PCS and adds it as collateral until `msg.sender` reaches a target loan to value ratio. It does not support PCS pair {IERC20} collateral.
+     * @notice In the case `COLLATERAL` is a PCS pair {IERC20}, the request needs a `path` for token0 and `path2` for token1. Otherwise, `path2` should be empty.
      *
      * @param requests Array of actions to denote, which function to call
      * @param requestArgs The data to pass to the function based on the request
      */
     function request(uint8[] calldata requests, bytes[] calldata requestArgs)
         external
+        nonReentrant
     {
         bool checkForSolvency;
 
@@ -240,8 +272,6 @@ contract InterestERC20Market is Initializable, DineroMarket {
      * @param amount The number of `COLLATERAL` tokens to be used for collateral
      */
     function addCollateral(address to, uint256 amount) external {
-        require(to != address(0), "DM: no zero address");
-        require(amount > 0, "DM: no zero amount");
         _addCollateralFresh(to, amount);
     }
 
@@ -253,10 +283,14 @@ contract InterestERC20Market is Initializable, DineroMarket {
      *
      * Requirements:
      *
+     * - `to` cannot be the zero address and `amount` cannot be 0.
      * - `msg.sender` must remain solvent after removing the collateral.
      */
-    function withdrawCollateral(address to, uint256 amount) external isSolvent {
-        require(to != address(0), "DM: no zero address");
+    function withdrawCollateral(address to, uint256 amount)
+        external
+        nonReentrant
+        isSolvent
+    {
         // Update how much is owed to the protocol before allowing collateral to be removed
         accrue();
 
@@ -281,25 +315,159 @@ contract InterestERC20Market is Initializable, DineroMarket {
      * @param path The list of tokens from collateral to dinero in case the `msg.sender` wishes to use collateral to cover the debt.
      * Or The list of tokens to sell the token0 if `COLLATERAL` is a PCS pair {IERC20}.
      * @param path2 The list of tokens to sell the token1 if `COLLATERAL` is a PCS pair {IERC20}.
+     * @param minAmountOut The minimum amount of `DINERO` the sale of the collateral must return. It protects the liquidator from sandwich attacks. It is ignored if no `path` is provided.
+     * @param deadline The timestamp after which the liquidation reverts.
      *
      * Requirements:
      *
      * - If the liquidator wishes to use collateral to pay off a debt. He must exchange it to Dinero.
      * - He must hold enough Dinero to cover the sum of principals if opts to not sell the collateral in PCS to avoid slippage costs.
+     * - The sale of the collateral must return at least `minAmountOut` of `DINERO`.
+     * - It must be called before the `deadline`.
      */
     function liquidate(
         address[] calldata accounts,
         uint256[] calldata principals,
         address recipient,
         address[] calldata path,
-        address[] calldata path2
-    ) external {
+        address[] calldata path2,
+        uint256 minAmountOut,
+        uint256 deadline
+    ) external nonReentrant {
+        //solhint-disable-next-line not-rely-on-time
+        require(deadline >= block.timestamp, "MKT: expired");
+
         // Make sure the token is always exchanged to Dinero as we need to burn at the end.
         // path can be empty if the liquidator has enough dinero in his accounts to close the positions.
         require(
             path.length == 0 || path[path.length - 1] == address(DINERO),
             "MKT: no dinero at last index"
         );
+
+        (
+            LiquidationInfo memory liquidationInfo,
+            uint256 protocolFee
+        ) = _liquidate(accounts, principals);
+
+        // Liquidator has dinero if he does not sell the collateral.
+        address payer = _msgSender();
+
+        // If a path is provided, we will use the collateral to cover the debt
+        if (path.length >= 2) {
+            // Sell `COLLATERAL` and send `DINERO` to recipient.
+            // Abstracted the logic to a function to avoid; Stack too deep compiler error.
+            // This function will consider if the `COLLATERAL` is a 'flip' token or not.
+            // PCS reverts if the sale returns less than the minimum of the liquidator.
+            _sellCollateral(
+                liquidationInfo.allCollateral,
+                recipient,
+                path,
+                path2,
+                minAmountOut,
+                deadline
+            );
+            // Liquidator recipient Dinero from the swap.
+            payer = recipient;
+        } else {
+            // Liquidator will be paid in `COLLATERAL`
+            // Send collateral to the `recipient` (includes liquidator fee + protocol fee)
+            address(COLLATERAL).safeERC20Transfer(
+                recipient,
+                liquidationInfo.allCollateral
+            );
+        }
+
+        // This step we destroy `DINERO` equivalent to all outstanding debt + protocol fee. This does not include the liquidator fee.
+        // Liquidator keeps the rest as profit.
+        DINERO.burn(payer, liquidationInfo.allDebt + protocolFee);
+    }
+
+    /**
+     * @dev Closes underwater positions like {liquidate}, but the debt is paid by a `liquidator` contract after it receives the collateral.
+     *
+     * @notice The market sends all collateral to `liquidator` and calls {ILiquidationCallee-onLiquidation}. It then burns the debt + protocol fee in `DINERO` from `liquidator`.
+     * @notice This allows the liquidator to sell the collateral in any exchange without holding `DINERO` upfront.
+     * @notice The `liquidator` cannot call {request}, {withdrawCollateral}, {liquidate} or {flashLiquidate} during the callback.
+     * @notice In the case of `COLLATERAL` being a PCS pair {IERC20}. The `liquidator` receives the pair token.
+     *
+     * @param accounts The list of accounts to be liquidated.
+     * @param principals The amount of principal the `msg.sender` wants to liquidate for each account.
+     * @param liquidator The contract that receives the collateral and pays the debt.
+     * @param data Arbitrary data forwarded to the `liquidator`.
+     *
+     * Requirements:
+     *
+     * - `liquidator` must return {ON_LIQUIDATION} from {ILiquidationCallee-onLiquidation}.
+     * - `liquidator` must hold enough `DINERO` to cover the debt + protocol fee after the callback.
+     */
+    function flashLiquidate(
+        address[] calldata accounts,
+        uint256[] calldata principals,
+        ILiquidationCallee liquidator,
+        bytes calldata data
+    ) external nonReentrant {
+        // All state is updated before the callback.
+        (
+            LiquidationInfo memory liquidationInfo,
+            uint256 protocolFee
+        ) = _liquidate(accounts, principals);
+
+        uint256 amount = liquidationInfo.allDebt + protocolFee;
+
+        // Send collateral to the `liquidator` (includes liquidator fee + protocol fee)
+        address(COLLATERAL).safeERC20Transfer(
+            address(liquidator),
+            liquidationInfo.allCollateral
+        );
+
+        require(
+            liquidator.onLiquidation(
+                _msgSender(),
+                liquidationInfo.allCollateral,
+                amount,
+                data
+            ) == ON_LIQUIDATION,
+            "MKT: invalid callback"
+        );
+
+        // This step we destroy `DINERO` equivalent to all outstanding debt + protocol fee. The liquidator keeps the rest as profit.
+        DINERO.burn(address(liquidator), amount);
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                            PRIVATE FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @dev Enters the {nonReentrant} functions. It is not in the modifier to reduce the size of this contract.
+     */
+    function _enter() private {
+        require(
+            _reentrancyStatus != ENTERED,
+            "ReentrancyGuard: reentrant call"
+        );
+        _reentrancyStatus = ENTERED;
+    }
+
+    /**
+     * @dev Removes the collateral and the loan of every insolvent account in `accounts` and updates the global state.
+     *
+     * @param accounts The list of accounts to be liquidated.
+     * @param principals The amount of principal to liquidate for each account.
+     * @return liquidationInfo The totals of all liquidations.
+     * @return protocolFee The part of the liquidation fee earned by the protocol.
+     *
+     * Requirements:
+     *
+     * - At least one account must be liquidated.
+     */
+    function _liquidate(
+        address[] calldata accounts,
+        uint256[] calldata principals
+    )
+        private
+        returns (LiquidationInfo memory liquidationInfo, uint256 protocolFee)
+    {
         // Liquidations must be based on the current exchange rate.
         uint256 _exchangeRate = updateExchangeRate();
 
@@ -308,12 +476,8 @@ contract InterestERC20Market is Initializable, DineroMarket {
 
         // Save state to memory for gas saving
 
-        LiquidationInfo memory liquidationInfo;
-
         Rebase memory _totalLoan = totalLoan;
 
-        uint256 _liquidationFee = liquidationFee;
-
         // Loop through all positions
         for (uint256 i = 0; i < accounts.length; i++) {
             address account = accounts[i];
@@ -321,51 +485,24 @@ contract InterestERC20Market is Initializable, DineroMarket {
             // If the user has enough collateral to cover his debt. He cannot be liquidated. Move to the next one.
             if (_isSolvent(account, _exchangeRate)) continue;
 
-            uint256 principal;
-
-            {
-                // How much principal the user has borrowed.
-                uint256 loanPrincipal = userLoan[account];
-
-                // Liquidator cannot repay more than the what `account` borrowed.
-                // Note the liquidator does not need to close the full position.
-                principal = principals[i] > loanPrincipal
-                    ? loanPrincipal
-                    : principals[i];
-
-                // Update the userLoan global state
-                userLoan[account] -= principal;
-            }
-
-            // How much is owed in principal + accrued fees
-            uint256 debt = _totalLoan.toElastic(principal, false);
-
-            // Calculate the collateralFee (for the liquidator and the protocol)
-            uint256 fee = debt.wadMul(_liquidationFee);
-
-            // How much collateral is needed to cover the loan + fees.
-            // Since Dinero is always USD we can calculate this way.
-            uint256 collateralToCover = (debt + fee).wadDiv(_exchangeRate);
-
-            // Remove the collateral from the account. We can consider the debt paid.
-            userCollateral[account] -= collateralToCover;
+            // Repay the loan and remove the collateral of the `account`. We can consider the debt paid.
+            uint256 collateralToCover = _liquidateLoan(
+                account,
+                principals[i],
+                _totalLoan,
+                _exchangeRate,
+                liquidationInfo
+            );
 
             // Get the Rewards and collateral if they are in a vault to this contract.
             // The rewards go to the `account`.
             // The collateral comes to this contract.
             // If the collateral is in this contract do nothing.
-            if (MasterChefVault(address(0)) != VAULT) {
+            if (MasterChefVault(address(0)) != VAULT && collateralToCover > 0) {
                 VAULT.withdraw(account, address(this), collateralToCover);
             }
 
             emit WithdrawCollateral(account, address(this), collateralToCover);
-            emit Repay(_msgSender(), account, principal, debt);
-
-            // Update local information. It should not overflow max uint128.
-            liquidationInfo.allCollateral += collateralToCover.toUint128();
-            liquidationInfo.allPrincipal += principal.toUint128();
-            liquidationInfo.allDebt += debt.toUint128();
-            liquidationInfo.allFee += fee.toUint128();
         }
 
         // There must have liquidations or we throw an error;
@@ -373,62 +510,12 @@ contract InterestERC20Market is Initializable, DineroMarket {
         // We need to revert all that.
         require(liquidationInfo.allPrincipal > 0, "MKT: no liquidations");
 
-        // If the there is no more open positions, the elastic should also equal to 0.
-        // Due to limits of math in solidity. elastic might end up with dust.
-        if (liquidationInfo.allPrincipal == _totalLoan.base)
-            liquidationInfo.allDebt = _totalLoan.elastic;
-
-        // Update Global state
-        totalLoan = _totalLoan.sub(
-            liquidationInfo.allPrincipal,
-            liquidationInfo.allDebt
-        );
-
         // Update the total collateral.
         totalCollateral -= liquidationInfo.allCollateral;
 
-        // 10% of the liquidation fee to be given to the protocol.
-        uint256 protocolFee = uint256(liquidationInfo.allFee).wadMul(0.1e18);
-
-        unchecked {
-            // Should not overflow.
-            // Pay the fee to the protocol
-            loan.feesEarned += protocolFee.toUint128();
-        }
-
-        // If a path is provided, we will use the collateral to cover the debt
-        if (path.length >= 2) {
-            // Sell `COLLATERAL` and send `DINERO` to recipient.
-            // Abstracted the logic to a function to avoid; Stack too deep compiler error.
-            // This function will consider if the `COLLATERAL` is a 'flip' token or not.
-            _sellCollateral(
-                liquidationInfo.allCollateral,
-                recipient,
-                path,
-                path2
-            );
-            // This step we destroy `DINERO` equivalent to all outstanding debt + protocol fee. This does not include the liquidator fee.
-            // Liquidator keeps the rest as profit.
-            // Liquidator recipient Dinero from the swap.
-            DINERO.burn(recipient, liquidationInfo.allDebt + protocolFee);
-        } else {
-            // Liquidator will be paid in `COLLATERAL`
-            // Send collateral to the `recipient` (includes liquidator fee + protocol fee)
-            address(COLLATERAL).safeERC20Transfer(
-                recipient,
-                liquidationInfo.allCollateral
-            );
-            // This step we destroy `DINERO` equivalent to all outstanding debt + protocol fee. This does not include the liquidator fee.
-            // Liquidator keeps the rest as profit.
-            // Liquidator has dinero in this scenario
-            DINERO.burn(_msgSender(), liquidationInfo.allDebt + protocolFee);
-        }
+        protocolFee = _settleLiquidations(liquidationInfo, _totalLoan);
     }
 
-    /*///////////////////////////////////////////////////////////////
-                            PRIVATE FUNCTIONS
-    //////////////////////////////////////////////////////////////*/
-
     /**
      * @dev Call a function based on requestAction
      *
@@ -438,16 +525,12 @@ contract InterestERC20Market is Initializable, DineroMarket {
     function _request(uint8 requestAction, bytes calldata data) private {
         if (requestAction == ADD_COLLATERAL_REQUEST) {
             (address to, uint256 amount) = abi.decode(data, (address, uint256));
-            require(to != address(0), "DM: no zero address");
-            require(amount != 0, "DM: no zero amount");
             _addCollateralFresh(to, amount);
             return;
         }
 
         if (requestAction == WITHDRAW_COLLATERAL_REQUEST) {
             (address to, uint256 amount) = abi.decode(data, (address, uint256));
-            require(to != address(0), "DM: no zero address");
-            require(amount != 0, "DM: no zero amount");
             _withdrawCollateralFresh(to, amount);
             return;
         }
@@ -472,10 +555,50 @@ contract InterestERC20Market is Initializable, DineroMarket {
             return;
         }
 
+        if (requestAction == REPAY_WITH_COLLATERAL_REQUEST) {
+            (
+                uint256 amount,
+                uint256 principal,
+                uint256 minAmountOut,
+                address[] memory path,
+                address[] memory path2
+            ) = abi.decode(
+                    data,
+                    (uint256, uint256, uint256, address[], address[])
+                );
+            require(amount != 0, "DM: no zero amount");
+            require(principal > 0, "MKT: principal cannot be 0");
+
+            _repayWithCollateralFresh(
+                amount,
+                principal,
+                minAmountOut,
+                path,
+                path2
+            );
+            return;
+        }
+
+        if (requestAction == LEVERAGE_REQUEST) {
+            (
+                uint256 targetLTV,
+                uint256 loops,
+                uint256 minAmountOut,
+                address[] memory path
+            ) = abi.decode(data, (uint256, uint256, uint256, address[]));
+
+            _leverageFresh(targetLTV, loops, minAmountOut, path);
+            return;
+        }
+
         revert("DM: invalid request");
     }
 
     function _addCollateralFresh(address to, uint256 amount) private {
+        require(to != address(0), "DM: no zero address");
+        require(amount != 0, "DM: no zero amount");
+        _requireNotPaused();
+
         // Get `COLLATERAL` from `msg.sender`
         _depositCollateral(_msgSender(), to, amount);
 
@@ -484,6 +607,8 @@ contract InterestERC20Market is Initializable, DineroMarket {
         totalCollateral += amount;
 
         emit AddCollateral(_msgSender(), to, amount);
+
+        _resetAuction(to);
     }
 
     /**
@@ -493,6 +618,10 @@ contract InterestERC20Market is Initializable, DineroMarket {
      * @param amount The number of `COLLATERAL` tokens he wishes to withdraw
      */
     function _withdrawCollateralFresh(address to, uint256 amount) private {
+        require(to != address(0), "DM: no zero address");
+        require(amount != 0, "DM: no zero amount");
+        _requireNotPaused();
+
         // Update State
         userCollateral[_msgSender()] -= amount;
         totalCollateral -= amount;
@@ -503,12 +632,137 @@ contract InterestERC20Market is Initializable, DineroMarket {
         emit WithdrawCollateral(_msgSender(), to, amount);
     }
 
+    /**
+     * @dev It sells `amount` of the collateral of `msg.sender` for `DINERO` in PCS and uses it to repay his own loan. The caller has to run {accrue} beforehand and must do solvency checks.
+     *
+     * @notice The `DINERO` bought is sent to `msg.sender` and the debt is burned from his balance. He keeps any `DINERO` left.
+     * @notice There is no liquidation fee.
+     *
+     * @param amount The number of `COLLATERAL` tokens to sell.
+     * @param principal The principal to repay. If it is higher than the loan of `msg.sender`, the whole loan is repaid.
+     * @param minAmountOut The minimum amount of `DINERO` the sale must return. It protects `msg.sender` from slippage.
+     * @param path The list of tokens from collateral to dinero. Or the list of tokens to sell the token0 if `COLLATERAL` is a PCS pair {IERC20}.
+     * @param path2 The list of tokens to sell the token1 if `COLLATERAL` is a PCS pair {IERC20}.
+     *
+     * Requirements:
+     *
+     * - The last token of the `path` must be `DINERO`.
+     * - The sale must return at least `minAmountOut` of `DINERO`.
+     */
+    function _repayWithCollateralFresh(
+        uint256 amount,
+        uint256 principal,
+        uint256 minAmountOut,
+        address[] memory path,
+        address[] memory path2
+    ) private {
+        require(
+            path.length >= 2 && path[path.length - 1] == address(DINERO),
+            "MKT: no dinero at last index"
+        );
+
+        // Get the collateral to this contract. The rewards go to `msg.sender`.
+        _withdrawCollateralFresh(address(this), amount);
+
+        _sellCollateral(
+            amount,
+            _msgSender(),
+            path,
+            path2,
+            minAmountOut,
+            //solhint-disable-next-line not-rely-on-time
+            block.timestamp
+        );
+
+        _repayFresh(_msgSender(), principal.min(userLoan[_msgSender()]));
+    }
+
+    /**
+     * @dev It borrows `DINERO`, sells it for `COLLATERAL` in PCS and adds it as collateral of `msg.sender` up to `loops` times. Each loop borrows enough to reach the `targetLTV` with the current collateral. The caller has to run {accrue} beforehand and must do solvency checks.
+     *
+     * @notice The `targetLTV` is approached from below because of the swap fees and slippage.
+     * @notice Each loop stops if `msg.sender` reached the `targetLTV` or the market reached its {maxBorrowAmount}.
+     *
+     * @param targetLTV The loan to value ratio to reach with a base unit of 1e18.
+     * @param loops The maximum number of times to borrow and buy collateral.
+     * @param minAmountOut The minimum amount of `COLLATERAL` all loops must buy. It protects `msg.sender` from slippage.
+     * @param path The list of tokens from dinero to collateral.
+     *
+     * Requirements:
+     *
+     * - The `targetLTV` must be lower than the {maxLTVRatio}.
+     * - The `path` must start with `DINERO` and end with `COLLATERAL`.
+     * - The loops must buy at least `minAmountOut` of `COLLATERAL`.
+     */
+    function _leverageFresh(
+        uint256 targetLTV,
+        uint256 loops,
+        uint256 minAmountOut,
+        address[] memory path
+    ) private {
+        require(maxLTVRatio > targetLTV, "MKT: ltv ratio too high");
+        require(
+            path.length >= 2 &&
+                path[0] == address(DINERO) &&
+                path[path.length - 1] == address(COLLATERAL),
+            "MKT: invalid path"
+        );
+
+        uint256 _exchangeRate = updateExchangeRate();
+        uint256 amountOut;
+
+        for (uint256 i; i < loops; i++) {
+            uint256 amount = _getLeverageAmount(
+                _msgSender(),
+                targetLTV,
+                _exchangeRate
+            );
+
+            if (amount == 0) break;
+
+            // The market holds the `DINERO` borrowed to sell it.
+            _borrowFresh(address(this), amount);
+
+            DINERO.approve(address(ROUTER), amount);
+
+            // Sell DINERO -> ... -> COLLATERAL. {minAmountOut} is checked after all loops.
+            uint256 collateralAmount = _swap(
+                amount,
+                path,
+                address(this),
+                0,
+                // This TX must happen in this block.
+                //solhint-disable-next-line not-rely-on-time
+                block.timestamp
+            );
+
+            // The vault pulls the collateral from this contract and farms it for `msg.sender`.
+            if (MasterChefVault(address(0)) != VAULT) {
+                COLLATERAL.safeIncreaseAllowance(
+                    address(VAULT),
+                    collateralAmount
+                );
+                VAULT.deposit(address(this), _msgSender(), collateralAmount);
+            }
+
+            // Update Global state
+            userCollateral[_msgSender()] += collateralAmount;
+            totalCollateral += collateralAmount;
+
+            emit AddCollateral(_msgSender(), _msgSender(), collateralAmount);
+
+            amountOut += collateralAmount;
+        }
+
+        require(amountOut >= minAmountOut, "MKT: not enough collateral");
+    }
+
     /**
      * @dev A helper function to sell collateral for dinero.
      *
      * @notice It checks if the `COLLATERAL` is a PCS pair token and treats it accordingly.
-     * @notice Slippage is not an issue because on {liquidate} we always burn the necessary amount of `DINERO`.
-     * @notice We are only  using highly liquid pairs. So slippage should not be an issue. Front-running can be an issue, but the liquidation fee should cover it. It will be between 10%-15% (minus 10% for the protocol) of the debt liquidated.
+     * @notice In the case of `COLLATERAL` being a PCS pair {IERC20}. The swap of token1 must buy the rest of `minAmountOut`, so PCS reverts if both swaps return less.
+     * It also covers the tokens removed from the liquidity, because they are sold in the same transaction.
      *
      * @param collateralAmount The amount of tokens to remove from the liquidity in case of `COLLATERAL` being a PCS pair {IERC20}.
      * Or the amount of collateral to sell if it is a normal {IERC20}.
@@ -516,17 +770,22 @@ contract InterestERC20Market is Initializable, DineroMarket {
      * @param path In the case of `COLLATERAL` being a PCS pair {IERC20}. It is the swap path for token0.
      * If not, it will be the path for the `COLLATERAL`.
      * @param path2 Can be empty if `COLLATERAL` is not a PCS pair {IERC20}. Otherwise, it needs to be the swap path for token1.
+     * @param minAmountOut The minimum amount of `DINERO` the sale must send to the `recipient`.
+     * @param deadline The timestamp after which the swaps revert.
      *
      * Requirements:
      *
      * - path2 length needs to be >= 2 if `COLLATERAL` is PCS pair {IERC20}.
      * - path2 last item has to be the `DINERO` token.
+     * - The sale must return at least `minAmountOut` of `DINERO`.
      */
     function _sellCollateral(
         uint256 collateralAmount,
         address recipient,
-        address[] calldata path,
-        address[] calldata path2
+        address[] memory path,
+        address[] memory path2,
+        uint256 minAmountOut,
+        uint256 deadline
     ) private {
         if ((address(COLLATERAL)).isPair()) {
             require(path2.length >= 2, "MKT: provide a path for token1");
@@ -546,11 +805,10 @@ contract InterestERC20Market is Initializable, DineroMarket {
                 token0,
                 token1,
                 collateralAmount,
-                0, // The liquidator will pay for slippage
-                0, // The liquidator will pay for slippage
+                0, // The swaps check the total amount of DINERO
+                0, // The swaps check the total amount of DINERO
                 address(this), // The contract needs the tokens to sell them.
-                //solhint-disable-next-line not-rely-on-time
-                block.timestamp
+                deadline
             );
 
             // We need to approve the router to {transferFrom} token0 and token1 to sell them for {DINERO}.
@@ -563,49 +821,54 @@ contract InterestERC20Market is Initializable, DineroMarket {
                 amount1
             );
 
-            router.swapExactTokensForTokens(
-                // Sell all token0 removed from the liquidity.
-                amount0,
-                // The liquidator will pay for the slippage.
-                0,
-                // Sell token0 -> ... -> DINERO
-                path[0] == token0 ? path : path2,
-                // Send DINERO to the recipient. Since this has to happen in this block. We can burn right after
-                recipient,
-                // This TX must happen in this block.
-                //solhint-disable-next-line not-rely-on-time
-                block.timestamp
-            );
+            // The last amount of each swap is the `DINERO` bought.
+            // `path` sells token0 and `path2` sells token1.
+            if (path[0] != token0) (path, path2) = (path2, path);
+
+            // Sell all token0 and token1 removed from the liquidity.
+            // Send DINERO to the recipient. Since this has to happen in this block. We can burn right after
+            uint256 amountOut = _swap(amount0, path, recipient, 0, deadline);
 
-            router.swapExactTokensForTokens(
-                // Sell all token1 obtained from removing the liquidity.
+            // The swap of token1 must buy the `DINERO` the swap of token0 did not.
+            _swap(
                 amount1,
-                // The liquidator will pay for the slippage.
-                0,
-                // Sell token1 -> ... -> DINERO
-                path[0] == token0 ? path2 : path,
-                // Send DINERO to the recipient. Since this has to happen in this block. We can burn right after
+                path2,
                 recipient,
-                // This TX must happen in this block.
-                //solhint-disable-next-line not-rely-on-time
-                block.timestamp
+                minAmountOut > amountOut ? minAmountOut - amountOut : 0,
+                deadline
             );
         } else {
             // If it is not a pair contract, we can swap it on PCS.
+            // Sell all collateral for this liquidation
+            _swap(collateralAmount, path, recipient, minAmountOut, deadline);
+        }
+    }
+
+    /**
+     * @dev A helper function to sell all `amount` of the first token of the `path` in PCS.
+     *
+     * @param amount The number of tokens to sell.
+     * @param path The list of tokens to swap through.
+     * @param recipient The address that will receive the last token of the `path`.
+     * @param amountOutMin The minimum amount of the last token of the `path` the swap must return. PCS reverts otherwise.
+     * @param deadline The timestamp after which the swap reverts.
+     * @return uint256 The amount of the last token of the `path` sent to the `recipient`.
+     */
+    function _swap(
+        uint256 amount,
+        address[] memory path,
+        address recipient,
+        uint256 amountOutMin,
+        uint256 deadline
+    ) private returns (uint256) {
+        return
             ROUTER.swapExactTokensForTokens(
-                // Sell all collateral for this liquidation
-                collateralAmount,
-                // Liquidator will pay for slippage
-                0,
-                // Sell COLLATERAL -> ... -> DINERO
+                amount,
+                amountOutMin,
                 path,
-                // Send DINERO to the recipient. Since this has to happen in this block. We can burn right after
                 recipient,
-                // This TX must happen in this block.
-                //solhint-disable-next-line not-rely-on-time
-                block.timestamp
-            );
-        }
+                deadline
+            )[path.length - 1];
     }
 
     /**
@@ -32,30 +32,12 @@ import "../Oracle.sol";
 import "./DineroMarket.sol";
 
 /**
- * @dev It is an overcollaterized isolated lending market between an underlying Venus Token and the synthetic stable coin Dinero.
- * The idea behind a synthethic stable coin is to allow for a fixed low interest rate to make investment strategies built with Interest Protocol cheaper and predictable.
+ * @dev The logic of the Dinero markets, whose collateral is supplied to a Venus market to earn XVS. The collateral and the Venus market are set by the contracts that inherit it.
  *
- * @notice The `msg.sender` must give an allowance to deposit to this contract.
- * @notice There is no deposit fee.
- * @notice There is a liquidation fee.
- * @notice Since Dinero is assumed to always be pegged to USD. Only need an exchange rate from collateral to USD.
- * @notice We assume that {_exchangeRate} has 18 decimals. Please check Oracle and PancakeOracle
- * @notice The govenor owner has sole access to critical functions in this contract.
- * @notice Market will only support tokens on BSC with 18 decimals.
- * @notice We will start by supporting tokens with high liquidity. The {maxLTVRatio} will start at 60% and slow be raised up to 80%.
- * @notice It relies on third party liquidators to close loans underwater.
- * @notice It depends on Chainlink price feeds oracles. However, we will add a backup using PCS TWAPS before the live release.
- * @notice The Rebase library is helper library to easily calculate the principal + fees owed by borrowers.
- * @notice To be effective this requires a strong DNR/BNB or DNR/BUSD pair. The contract CasaDePapel will be responsible for this.
- * @notice This contract enforces that Dinero remains pegged to USD.
- * If Dinero falls below, borrowers that have open  loans and swapped to a different crypto, can buy dinero cheaper and close their loans running a profit. Liquidators can accumulate Dinero to close underwater positions with an arbitrate. As liquidation will always assume 1 Dinero is worth 1 USD. If Dinero goes above a dollar, people are encouraged to borrow more Dinero for arbitrage. We believe this will keep the price pegged at 1 USD.
- *
- * Contracts that will be supported in V1:
- *
- * BTC - 0x7130d2A12B9BCbFAe4f2634d864A1Ee1Ce3Ead9c
- * ETH - 0x2170Ed0880ac9A755fd29B2688956BD959F933F8
+ * @notice The XVS rewards are distributed to the borrowers per vToken of collateral.
+ * @notice It does not have state before {DineroMarket}, so the contracts that inherit it can keep the storage layout of the first bearing markets. See {InterestBearingMarket} and {InterestBNBBearingMarket}.
  */
-contract InterestERC20BearingMarket is Initializable, DineroMarket {
+abstract contract VenusBearingMarket is Initializable, DineroMarket {
     /*///////////////////////////////////////////////////////////////
                             LIBRARIES
     //////////////////////////////////////////////////////////////*/
@@ -89,6 +71,17 @@ contract InterestERC20BearingMarket is Initializable, DineroMarket {
     // Compound and by extension Venus return 0 on successful calls.
     uint256 private constant NO_ERROR = 0;
 
+    // Every Venus market has 8 decimals.
+    uint256 private constant ONE_VTOKEN = 1e8;
+
+    // Values of {_reentrancyStatus}. Proxies upgraded from the first bearing markets start at 0, which is also not entered.
+    uint256 private constant NOT_ENTERED = 1;
+    uint256 private constant ENTERED = 2;
+
+    // solhint-disable-next-line var-name-mixedcase
+    IVToken internal constant VBNB =
+        IVToken(0xA07c5b74C9B40447a954e1466938b865b6BBea36);
+
     // solhint-disable-next-line var-name-mixedcase
     IVenusController internal constant VENUS_CONTROLLER =
         IVenusController(0xfD36E2c2a6789Db23113685031d7F16329158384);
@@ -97,12 +90,6 @@ contract InterestERC20BearingMarket is Initializable, DineroMarket {
     IERC20Upgradeable internal constant XVS =
         IERC20Upgradeable(0xcF6BB5389c92Bdda8a3747Ddb454cB7a64626C63); // Venus Token.
 
-    // solhint-disable-next-line var-name-mixedcase
-    IERC20Upgradeable public COLLATERAL; // Token to be used to cover the loan.
-
-    // solhint-disable-next-line var-name-mixedcase
-    IVToken public VTOKEN; // A Venus Market.
-
     // Total amount of deposited underlying converted into vToken.
     uint256 public totalVCollateral;
 
@@ -112,61 +99,40 @@ contract InterestERC20BearingMarket is Initializable, DineroMarket {
     // USER -> Rewards per VToken.
     mapping(address => uint256) public rewardsOf;
 
+    // Status of the reentrancy guard. It is appended to keep the storage layout of the first bearing markets.
+    uint256 private _reentrancyStatus;
+
     /*///////////////////////////////////////////////////////////////
                                 INITIALIZER
     //////////////////////////////////////////////////////////////*/
 
     /**
-     * @dev This will only be called once to set the initial state.
-     *
-     * @notice A `Collateral` of address(0) represents BNB.
-     *
-     * @param dinero The address of Dinero.
-     * @param feeTo Treasury address.
-     * @param oracle The address of the oracle.
-     * @param collateral The address of the collateral of this market, an ERC20 or BNB
-     * @param vToken The address of the `collateral` vToken
-     * @param interestRate the interest rate charged every second
-     * @param _maxLTVRatio The maximum ltv ratio before liquidation
-     * @param _liquidationFee The fee charged when positions under water are liquidated
-     *
-     * Requirements:
+     * @dev Initializes {DineroMarket} and the reentrancy guard.
+     */
+    //solhint-disable-next-line func-name-mixedcase
+    function __VenusBearingMarket_init() internal onlyInitializing {
+        __DineroMarket_init();
+
+        _reentrancyStatus = NOT_ENTERED;
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                            MODIFIERS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @dev Prevents a function from calling itself or another {nonReentrant} function, like the {ReentrancyGuardUpgradeable} of OpenZeppelin.
      *
-     * - Can only be called at once and should be called during creation to prevent front running.
+     * @notice Inheriting {ReentrancyGuardUpgradeable} would add its storage before {DineroMarket} and break the upgrade of the InterestERC20BearingMarket.
      */
-    function initialize(
-        Dinero dinero,
-        address feeTo,
-        Oracle oracle,
-        IERC20Upgradeable collateral,
-        IVToken vToken,
-        uint64 interestRate,
-        uint256 _maxLTVRatio,
-        uint256 _liquidationFee,
-        uint256 _maxBorrowAmount
-    ) external initializer {
-        // {maxLTVRatio} must be within the acceptable bounds.
+    modifier nonReentrant() {
         require(
-            0.9e18 >= _maxLTVRatio && _maxLTVRatio >= 0.5e18,
-            "MKT: ltc ratio out of bounds"
+            _reentrancyStatus != ENTERED,
+            "ReentrancyGuard: reentrant call"
         );
-
-        __DineroMarket_init();
-
-        DINERO = dinero;
-        FEE_TO = feeTo;
-        ORACLE = oracle;
-        COLLATERAL = collateral;
-        VTOKEN = vToken;
-        loan.INTEREST_RATE = interestRate;
-        maxLTVRatio = _maxLTVRatio;
-        liquidationFee = _liquidationFee;
-        maxBorrowAmount = _maxBorrowAmount;
-
-        // Approve the router to trade the collateral in case of liquidations.
-        COLLATERAL.safeApprove(address(ROUTER), type(uint256).max);
-        // Approve the `vToken` to be able to mint to it.
-        COLLATERAL.safeApprove(address(vToken), type(uint256).max);
+        _reentrancyStatus = ENTERED;
+        _;
+        _reentrancyStatus = NOT_ENTERED;
     }
 
     /*///////////////////////////////////////////////////////////////
@@ -175,22 +141,26 @@ contract InterestERC20BearingMarket is Initializable, DineroMarket {
 
     /**
      * @dev This function is to increase the allowance to the PCS router for liquidation purposes and the vToken. It will bring it to the maximum.
+     *
+     * @notice BNB does not need allowances.
      */
     function approve() external {
-        COLLATERAL.safeIncreaseAllowance(
+        if (_isBNB()) return;
+
+        _collateral().safeIncreaseAllowance(
             address(ROUTER),
             type(uint256).max -
-                COLLATERAL.allowance(address(this), address(ROUTER))
+                _collateral().allowance(address(this), address(ROUTER))
         );
-        COLLATERAL.safeIncreaseAllowance(
-            address(VTOKEN),
+        _collateral().safeIncreaseAllowance(
+            address(_vToken()),
             type(uint256).max -
-                COLLATERAL.allowance(address(this), address(VTOKEN))
+                _collateral().allowance(address(this), address(_vToken()))
         );
     }
 
     /**
-     * @dev This function gets the latest exchange rate of a {VTOKEN} in USD from chainlink.
+     * @dev This function gets the latest exchange rate of a {_vToken} in USD from chainlink.
      *
      * @notice Supports for PCS TWAPS will be added before release as a back up.
      *
@@ -205,10 +175,12 @@ contract InterestERC20BearingMarket is Initializable, DineroMarket {
         override(DineroMarket)
         returns (uint256 rate)
     {
-        uint256 underlyingAmount = VTOKEN.exchangeRateCurrent();
+        uint256 underlyingAmount = _vToken().exchangeRateCurrent();
 
         // Get USD price for 1 VToken (18 decimals). The USD price also has 18 decimals. We need to reduce
-        rate = ORACLE.getTokenUSDPrice(address(COLLATERAL), underlyingAmount);
+        rate = _isBNB()
+            ? ORACLE.getBNBUSDPrice(underlyingAmount)
+            : ORACLE.getTokenUSDPrice(address(_collateral()), underlyingAmount);
 
         require(rate > 0, "DM: invalid exchange rate");
 
@@ -224,11 +196,13 @@ contract InterestERC20BearingMarket is Initializable, DineroMarket {
     /**
      * @dev Allows `msg.sender` to add collateral. It will send the rewards in XVS if applicable.
      *
-     * @notice If the `COLLATERAL` is an ERC20, the `msg.sender` must approve this contract. If it is BNB, he can send directly.
+     * @notice If the `_collateral` is an ERC20, the `msg.sender` must approve this contract. If it is BNB, he can send directly.
      *
-     * @param amount The number of `COLLATERAL` tokens to be used for collateral. This argument is not used if the underlying is BNB.
+     * @param amount The number of `_collateral` tokens to be used for collateral. If the underlying is BNB, it must be the `msg.value`.
      */
-    function addCollateral(uint256 amount) public {
+    function addCollateral(uint256 amount) external payable nonReentrant {
+        require(msg.value == (_isBNB() ? amount : 0), "DM: invalid value");
+
         // Update rewards.
         _claimVenus();
 
@@ -249,30 +223,52 @@ contract InterestERC20BearingMarket is Initializable, DineroMarket {
      */
     function withdrawCollateral(uint256 amount, bool inUnderlying)
         external
+        nonReentrant
         isSolvent
     {
         // Update how much is owed to the protocol before allowing collateral to be removed
         accrue();
 
+        // Update rewards.
+        _claimVenus();
+
         _withdrawCollateralFresh(amount, inUnderlying);
     }
 
+    /**
+     * @dev We need to be able to receive BNB after redeeming from vBNB.
+     */
+    receive() external payable {
+        // Only accept BNB from vBNB.
+        if (_msgSender() != address(VBNB)) revert("DM: not allowed");
+    }
+
     /**
      * @dev Function to call borrow, addCollateral, withdrawCollateral and repay in an arbitrary order
      *
+     * @notice The BNB sent must be the sum of the collateral added if the underlying is BNB. Otherwise, it must be 0.
+     *
      * @param requests Array of actions to denote, which function to call
      * @param requestArgs The data to pass to the function based on the request
      */
     function request(uint8[] calldata requests, bytes[] calldata requestArgs)
         external
+        payable
+        nonReentrant
     {
         bool checkForSolvency;
         bool alreadyClaimed;
         bool alreadyAccrued;
+        bool isBNB = _isBNB();
+        uint256 value = msg.value;
 
         for (uint256 i; i < requests.length; i++) {
             uint8 requestAction = requests[i];
 
+            // Check for msg.value calculations during loops
+            if (isBNB && requestAction == ADD_COLLATERAL_REQUEST)
+                value -= abi.decode(requestArgs[i], (uint256));
+
             if (_checkForSolvency(requestAction)) checkForSolvency = true;
 
             if (!alreadyClaimed && _checkForRewards(requestAction)) {
@@ -288,6 +284,8 @@ contract InterestERC20BearingMarket is Initializable, DineroMarket {
             _request(requestAction, requestArgs[i]);
         }
 
+        require(value == 0, "DM: invalid value");
+
         if (checkForSolvency)
             require(
                 _isSolvent(_msgSender(), updateExchangeRate()),
@@ -310,19 +308,28 @@ contract InterestERC20BearingMarket is Initializable, DineroMarket {
      * @param recipient The address that will receive the proceeds gained by liquidating.
      * @param inUnderlying The liquidator can choose to receive the vTokens directly or in underlying.
      * @param path The list of tokens from collateral to dinero in case the `msg.sender` wishes to use collateral to cover the debt.
+     * @param minAmountOut The minimum amount of `DINERO` the sale of the collateral must return. It protects the liquidator from sandwich attacks. It is ignored if no `path` is provided.
+     * @param deadline The timestamp after which the liquidation reverts.
      *
      * Requirements:
      *
      * - If the liquidator wishes to use collateral to pay off a debt. He must exchange it to Dinero.
      * - He must hold enough Dinero to cover the sum of principals if opts to not sell the collateral in PCS to avoid slippage costs.
+     * - The sale of the collateral must return at least `minAmountOut` of `DINERO`.
+     * - It must be called before the `deadline`.
      */
     function liquidate(
         address[] calldata accounts,
         uint256[] calldata principals,
         address recipient,
         bool inUnderlying,
-        address[] calldata path
-    ) external {
+        address[] calldata path,
+        uint256 minAmountOut,
+        uint256 deadline
+    ) external nonReentrant {
+        //solhint-disable-next-line not-rely-on-time
+        require(deadline >= block.timestamp, "DM: expired");
+
         if (path.length > 0) {
             // Make sure the token is always exchanged to Dinero as we need to burn at the end.
             // path can be empty if the liquidator has enough dinero in his accounts to close the positions.
@@ -334,6 +341,109 @@ contract InterestERC20BearingMarket is Initializable, DineroMarket {
             require(path[0] != address(XVS), "DM: not allowed to sell XVS");
         }
 
+        (
+            LiquidationInfo memory liquidationInfo,
+            uint256 protocolFee,
+            uint256 totalUnderlyingAmount
+        ) = _liquidate(accounts, principals, inUnderlying);
+
+        // If a path is provided, we will use the collateral in Underlying to cover the debt.
+        if (path.length >= 2) {
+            // Sell `_collateral` and send `DINERO` to recipient.
+            if (_isBNB()) {
+                ROUTER.swapExactETHForTokens{value: totalUnderlyingAmount}(
+                    // PCS reverts if the liquidator gets less than his minimum.
+                    minAmountOut,
+                    // Sell BNB -> ... -> DINERO
+                    path,
+                    // Send DINERO to the recipient. Since this has to happen in this block. We can burn right after
+                    recipient,
+                    // It reverts after the deadline of the liquidator.
+                    deadline
+                );
+            } else {
+                ROUTER.swapExactTokensForTokens(
+                    // Sell all collateral for this liquidation
+                    totalUnderlyingAmount,
+                    // PCS reverts if the liquidator gets less than his minimum.
+                    minAmountOut,
+                    // Sell COLLATERAL -> ... -> DINERO
+                    path,
+                    // Send DINERO to the recipient. Since this has to happen in this block. We can burn right after
+                    recipient,
+                    // It reverts after the deadline of the liquidator.
+                    deadline
+                );
+            }
+
+            // This step we destroy `DINERO` equivalent to all outstanding debt + protocol fee. This does not include the liquidator fee.
+            // Liquidator keeps the rest as profit.
+            // Liquidator recipient Dinero from the swap.
+            DINERO.burn(recipient, liquidationInfo.allDebt + protocolFee);
+        } else {
+            // This step we destroy `DINERO` equivalent to all outstanding debt + protocol fee. This does not include the liquidator fee.
+            // Liquidator keeps the rest as profit.
+            // Liquidator has dinero in this scenario
+            DINERO.burn(_msgSender(), liquidationInfo.allDebt + protocolFee);
+
+            // Liquidator will be paid in `_collateral`
+            if (inUnderlying) {
+                // Send collateral in Underlying to the `recipient` (includes liquidator fee + protocol fee)
+                _sendUnderlying(recipient, totalUnderlyingAmount);
+            } else {
+                // Send as a VToken
+                address(_vToken()).safeERC20Transfer(
+                    recipient,
+                    liquidationInfo.allCollateral
+                );
+            }
+        }
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                            INTERNAL FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @dev Returns the underlying of the {_vToken}. It is address(0) for BNB.
+     */
+    function _collateral() internal view virtual returns (IERC20Upgradeable);
+
+    /**
+     * @dev Returns the Venus market, in which the collateral is supplied.
+     */
+    function _vToken() internal view virtual returns (IVToken);
+
+    /*///////////////////////////////////////////////////////////////
+                            PRIVATE FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @dev Removes the collateral and the loan of every insolvent account in `accounts` and updates the global state.
+     *
+     * @param accounts The list of accounts to be liquidated.
+     * @param principals The amount of principal to liquidate for each account.
+     * @param inUnderlying If the collateral of the liquidated accounts is redeemed from Venus.
+     * @return liquidationInfo The totals of all liquidations.
+     * @return protocolFee The part of the liquidation fee earned by the protocol.
+     * @return totalUnderlyingAmount The amount of underlying redeemed. It is 0 if `inUnderlying` is false.
+     *
+     * Requirements:
+     *
+     * - At least one account must be liquidated.
+     */
+    function _liquidate(
+        address[] calldata accounts,
+        uint256[] calldata principals,
+        bool inUnderlying
+    )
+        private
+        returns (
+            LiquidationInfo memory liquidationInfo,
+            uint256 protocolFee,
+            uint256 totalUnderlyingAmount
+        )
+    {
         // Liquidations must be based on the current exchange rate.
         uint256 _exchangeRate = updateExchangeRate();
 
@@ -344,14 +454,8 @@ contract InterestERC20BearingMarket is Initializable, DineroMarket {
         _claimVenus();
 
         // Save state to memory for gas saving
-        LiquidationInfo memory liquidationInfo;
-
         Rebase memory _totalLoan = totalLoan;
 
-        uint256 _liquidationFee = liquidationFee;
-
-        uint256 totalUnderlyingAmount;
-
         // Loop through all positions
         for (uint256 i = 0; i < accounts.length; i++) {
             address account = accounts[i];
@@ -359,31 +463,14 @@ contract InterestERC20BearingMarket is Initializable, DineroMarket {
             // If the user has enough collateral to cover his debt. He cannot be liquidated. Move to the next one.
             if (_isSolvent(account, _exchangeRate)) continue;
 
-            uint256 principal;
-
-            {
-                // How much principal the user has borrowed.
-                uint256 loanPrincipal = userLoan[account];
-
-                // Liquidator cannot repay more than the what `account` borrowed.
-                // Note the liquidator does not need to close the full position.
-                principal = principals[i] > loanPrincipal
-                    ? loanPrincipal
-                    : principals[i];
-
-                // Update the userLoan global state
-                userLoan[account] -= principal;
-            }
-
-            // How much is owed in principal + accrued fees
-            uint256 debt = _totalLoan.toElastic(principal, false);
-
-            // Calculate the collateralFee (for the liquidator and the protocol)
-            uint256 fee = debt.wadMul(_liquidationFee);
-
-            // How much collateral is needed to cover the loan + fees.
-            // Since Dinero is always USD we can calculate this way.
-            uint256 collateralToCover = (debt + fee).wadDiv(_exchangeRate);
+            // Repay the loan and remove the collateral of the `account`. We can consider the debt paid.
+            uint256 collateralToCover = _liquidateLoan(
+                account,
+                principals[i],
+                _totalLoan,
+                _exchangeRate,
+                liquidationInfo
+            );
 
             // on very low values due to math restrictions this can be 0.
             require(collateralToCover > 0, "DM: principal too low");
@@ -391,24 +478,19 @@ contract InterestERC20BearingMarket is Initializable, DineroMarket {
             {
                 // Save Gas
                 uint256 _totalRewardsPerVToken = totalRewardsPerVToken;
-                uint256 _userCollateral = userCollateral[account];
-                uint256 decimalsFactor = 10**address(VTOKEN).safeDecimals();
+                // New balance after being liquidated
+                uint256 newAmount = userCollateral[account];
 
                 // How many rewards the user is entitled.
                 uint256 rewards = _totalRewardsPerVToken.mulDiv(
-                    _userCollateral,
-                    decimalsFactor
+                    newAmount + collateralToCover,
+                    ONE_VTOKEN
                 ) - rewardsOf[account];
 
-                // New balance after being liquidated
-                uint256 newAmount = _userCollateral - collateralToCover;
-
-                // Remove the collateral from the account. We can consider the debt paid.
-                userCollateral[account] = newAmount;
                 // We consider that all rewards have been paid.
                 rewardsOf[account] = _totalRewardsPerVToken.mulDiv(
                     newAmount,
-                    decimalsFactor
+                    ONE_VTOKEN
                 );
                 // Send the rewards.
                 _transferXVS(account, rewards);
@@ -418,7 +500,7 @@ contract InterestERC20BearingMarket is Initializable, DineroMarket {
 
             // If the liquidator wishes to receive his reward in underlying, we need to redeem.
             if (inUnderlying) {
-                underlyingAmount = _redeemERC20VToken(collateralToCover);
+                underlyingAmount = _redeemVToken(collateralToCover);
             }
 
             emit WithdrawCollateral(
@@ -426,13 +508,7 @@ contract InterestERC20BearingMarket is Initializable, DineroMarket {
                 underlyingAmount,
                 collateralToCover
             );
-            emit Repay(_msgSender(), account, principal, debt);
 
-            // Update local information. It should not overflow max uint128.
-            liquidationInfo.allCollateral += collateralToCover.toUint128();
-            liquidationInfo.allPrincipal += principal.toUint128();
-            liquidationInfo.allDebt += debt.toUint128();
-            liquidationInfo.allFee += fee.toUint128();
             totalUnderlyingAmount += underlyingAmount;
         }
 
@@ -441,78 +517,12 @@ contract InterestERC20BearingMarket is Initializable, DineroMarket {
         // We need to revert all that.
         require(liquidationInfo.allPrincipal > 0, "DM: no liquidations");
 
-        // If the there is no more open positions, the elastic should also equal to 0.
-        // Due to limits of math in solidity. elastic might end up with dust.
-        if (liquidationInfo.allPrincipal == _totalLoan.base)
-            liquidationInfo.allDebt = _totalLoan.elastic;
-
-        // Update Global state
-        totalLoan = _totalLoan.sub(
-            liquidationInfo.allPrincipal,
-            liquidationInfo.allDebt
-        );
-
         // Update the total collateral.
         totalVCollateral -= liquidationInfo.allCollateral;
 
-        // 10% of the liquidation fee to be given to the protocol.
-        uint256 protocolFee = uint256(liquidationInfo.allFee).wadMul(0.1e18);
-
-        unchecked {
-            // Should not overflow.
-            // Pay the fee to the protocol
-            loan.feesEarned += protocolFee.toUint128();
-        }
-
-        // If a path is provided, we will use the collateral in Underlying to cover the debt.
-        if (path.length >= 2) {
-            // Sell `COLLATERAL` and send `DINERO` to recipient.
-            // If it is an ERC20
-            ROUTER.swapExactTokensForTokens(
-                // Sell all collateral for this liquidation
-                totalUnderlyingAmount,
-                // Liquidator will pay for slippage
-                0,
-                // Sell COLLATERAL -> ... -> DINERO
-                path,
-                // Send DINERO to the recipient. Since this has to happen in this block. We can burn right after
-                recipient,
-                // This TX must happen in this block.
-                //solhint-disable-next-line not-rely-on-time
-                block.timestamp
-            );
-
-            // This step we destroy `DINERO` equivalent to all outstanding debt + protocol fee. This does not include the liquidator fee.
-            // Liquidator keeps the rest as profit.
-            // Liquidator recipient Dinero from the swap.
-            DINERO.burn(recipient, liquidationInfo.allDebt + protocolFee);
-        } else {
-            // This step we destroy `DINERO` equivalent to all outstanding debt + protocol fee. This does not include the liquidator fee.
-            // Liquidator keeps the rest as profit.
-            // Liquidator has dinero in this scenario
-            DINERO.burn(_msgSender(), liquidationInfo.allDebt + protocolFee);
-
-            // Liquidator will be paid in `COLLATERAL`
-            if (inUnderlying) {
-                // Send collateral in Underlying to the `recipient` (includes liquidator fee + protocol fee)
-                address(COLLATERAL).safeERC20Transfer(
-                    recipient,
-                    totalUnderlyingAmount
-                );
-            } else {
-                // Send as a VToken
-                address(VTOKEN).safeERC20Transfer(
-                    recipient,
-                    liquidationInfo.allCollateral
-                );
-            }
-        }
+        protocolFee = _settleLiquidations(liquidationInfo, _totalLoan);
     }
 
-    /*///////////////////////////////////////////////////////////////
-                            PRIVATE FUNCTIONS
-    //////////////////////////////////////////////////////////////*/
-
     /**
      * @dev Call a function based on requestAction
      *
@@ -581,13 +591,15 @@ contract InterestERC20BearingMarket is Initializable, DineroMarket {
     function _withdrawCollateralFresh(uint256 amount, bool inUnderlying)
         private
     {
+        _requireNotPaused();
+
         // Save gas
         uint256 _userCollateral = userCollateral[_msgSender()];
         uint256 _totalRewardsPerVToken = totalRewardsPerVToken;
 
         uint256 rewards = _totalRewardsPerVToken.mulDiv(
             _userCollateral,
-            10**address(VTOKEN).safeDecimals()
+            ONE_VTOKEN
         ) - rewardsOf[_msgSender()];
 
         uint256 newAmount = _userCollateral - amount;
@@ -597,13 +609,13 @@ contract InterestERC20BearingMarket is Initializable, DineroMarket {
         totalVCollateral -= amount;
         rewardsOf[_msgSender()] = _totalRewardsPerVToken.mulDiv(
             newAmount,
-            10**address(VTOKEN).safeDecimals()
+            ONE_VTOKEN
         );
 
         // If the person withdrawing wants the vTokens, we do not need to redeem the underlying.
         if (!inUnderlying) {
             // Send the collateral
-            address(VTOKEN).safeERC20Transfer(_msgSender(), amount);
+            address(_vToken()).safeERC20Transfer(_msgSender(), amount);
 
             // Send the rewards.
             _transferXVS(_msgSender(), rewards);
@@ -614,10 +626,9 @@ contract InterestERC20BearingMarket is Initializable, DineroMarket {
         }
 
         // How much underlying was redeemed.
-        uint256 underlyingAmount;
+        uint256 underlyingAmount = _redeemVToken(amount);
 
-        underlyingAmount = _redeemERC20VToken(amount);
-        address(COLLATERAL).safeERC20Transfer(_msgSender(), underlyingAmount);
+        _sendUnderlying(_msgSender(), underlyingAmount);
 
         // Send the rewards.
         _transferXVS(_msgSender(), rewards);
@@ -628,11 +639,13 @@ contract InterestERC20BearingMarket is Initializable, DineroMarket {
     /**
      * @dev Allows `msg.sender` to add collateral. It will send the rewards in XVS if applicable.
      *
-     * @notice If the `COLLATERAL` is an ERC20, the `msg.sender` must approve this contract. If it is BNB, he can send directly.
+     * @notice If the `_collateral` is an ERC20, the `msg.sender` must approve this contract. If it is BNB, he can send directly.
      *
-     * @param amount The number of `COLLATERAL` tokens to be used for collateral. This argument is not used if the underlying is BNB.
+     * @param amount The number of `_collateral` tokens to be used for collateral. If the underlying is BNB, it must have been sent.
      */
     function _addCollateralFresh(uint256 amount) private {
+        _requireNotPaused();
+
         // Save gas
         uint256 _userCollateral = userCollateral[_msgSender()];
         uint256 _totalRewardsPerVToken = totalRewardsPerVToken;
@@ -642,19 +655,15 @@ contract InterestERC20BearingMarket is Initializable, DineroMarket {
         // If the user has a deposit, he is entitled to rewards.
         if (_userCollateral > 0) {
             rewards =
-                _totalRewardsPerVToken.mulDiv(
-                    _userCollateral,
-                    10**address(VTOKEN).safeDecimals()
-                ) -
+                _totalRewardsPerVToken.mulDiv(_userCollateral, ONE_VTOKEN) -
                 rewardsOf[_msgSender()];
         }
 
-        uint256 vTokenAmount;
-        uint256 underlyingAmount;
+        // BNB is sent with the call.
+        if (!_isBNB())
+            _collateral().safeTransferFrom(_msgSender(), address(this), amount);
 
-        COLLATERAL.safeTransferFrom(_msgSender(), address(this), amount);
-        vTokenAmount = _mintERC20VToken(amount);
-        underlyingAmount = amount;
+        uint256 vTokenAmount = _mintVToken(amount);
 
         uint256 newAmount = _userCollateral + vTokenAmount;
 
@@ -665,13 +674,15 @@ contract InterestERC20BearingMarket is Initializable, DineroMarket {
         // User has been paid all rewards.
         rewardsOf[_msgSender()] = _totalRewardsPerVToken.mulDiv(
             newAmount,
-            10**address(VTOKEN).safeDecimals()
+            ONE_VTOKEN
         );
 
         // Send the rewards.
         _transferXVS(_msgSender(), rewards);
 
-        emit AddCollateral(_msgSender(), underlyingAmount, vTokenAmount);
+        emit AddCollateral(_msgSender(), amount, vTokenAmount);
+
+        _resetAuction(_msgSender());
     }
 
     /**
@@ -691,19 +702,22 @@ contract InterestERC20BearingMarket is Initializable, DineroMarket {
      * @dev Helper function to supply underlying to a `vToken` to mint vTokens and know how many vTokens we got.
      *
      * @param amount The amount of underlying tokens to be supplied.
-     *
-     * It supplies all underlying.
      */
-    function _mintERC20VToken(uint256 amount)
+    function _mintVToken(uint256 amount)
         private
         returns (uint256 mintedAmount)
     {
-        IVToken vToken = VTOKEN;
+        IVToken vToken = _vToken();
         // Find how many VTokens we currently have.
         uint256 balanceBefore = address(vToken).contractBalanceOf();
 
-        // Supply ALL underlyings present in the contract even lost tokens to mint VTokens. It will revert if it fails.
-        _invariant(vToken.mint(amount), "DV: failed to mint");
+        if (_isBNB()) {
+            // vBNB mints on receive and reverts if it fails.
+            _sendBNB(payable(address(vToken)), amount);
+        } else {
+            // It will revert if it fails.
+            _invariant(vToken.mint(amount), "DM: failed to mint");
+        }
 
         // Subtract the new balance from the previous one, to find out how many VTokens we minted.
         mintedAmount = address(vToken).contractBalanceOf() - balanceBefore;
@@ -714,19 +728,72 @@ contract InterestERC20BearingMarket is Initializable, DineroMarket {
      *
      * @param amount The amount of VToken to redeem NOT UNDERLYING.
      */
-    function _redeemERC20VToken(uint256 amount)
+    function _redeemVToken(uint256 amount)
         private
-        returns (uint256 mintedAmount)
+        returns (uint256 redeemedAmount)
     {
-        address collateral = address(COLLATERAL);
-        // Find how many VTokens we currently have.
-        uint256 balanceBefore = collateral.contractBalanceOf();
+        // Find how much underlying we currently have.
+        uint256 balanceBefore = _underlyingBalance();
 
-        // Supply ALL underlyings present in the contract even lost tokens to mint VTokens. It will revert if it fails.
-        _invariant(VTOKEN.redeem(amount), "DV: failed to redeem");
+        // It will revert if it fails.
+        _invariant(_vToken().redeem(amount), "DM: failed to redeem");
 
-        // Subtract the new balance from the previous one, to find out how many VTokens we minted.
-        mintedAmount = collateral.contractBalanceOf() - balanceBefore;
+        // Subtract the previous balance from the new one, to find out how much underlying we redeemed.
+        redeemedAmount = _underlyingBalance() - balanceBefore;
+    }
+
+    /**
+     * @dev Sends the underlying of the {_vToken}, BNB or the {_collateral}.
+     *
+     * @param to The account that will receive the underlying.
+     * @param amount How much underlying to send.
+     */
+    function _sendUnderlying(address to, uint256 amount) private {
+        if (_isBNB()) {
+            _sendBNB(payable(to), amount);
+        } else {
+            address(_collateral()).safeERC20Transfer(to, amount);
+        }
+    }
+
+    /**
+     * @dev A helper function to send BNB to an address.
+     *
+     * @notice It does not send more BNB than the current balance.
+     *
+     * @param to The account that will receive BNB.
+     * @param amount How much BNB to send to the `to` address.
+     */
+    function _sendBNB(address payable to, uint256 amount) private {
+        uint256 maximum = address(this).balance;
+
+        //solhint-disable-next-line avoid-low-level-calls
+        (bool success, bytes memory returnData) = to.call{
+            value: amount > maximum ? maximum : amount
+        }("");
+        require(
+            success,
+            returnData.length == 0
+                ? "DM: unable to send bnb"
+                : string(returnData)
+        );
+    }
+
+    /**
+     * @dev The balance of the underlying of the {_vToken} in this contract.
+     */
+    function _underlyingBalance() private view returns (uint256) {
+        return
+            _isBNB()
+                ? address(this).balance
+                : address(_collateral()).contractBalanceOf();
+    }
+
+    /**
+     * @dev Checks if the underlying of the {_vToken} is BNB.
+     */
+    function _isBNB() private view returns (bool) {
+        return address(_collateral()) == address(0);
     }
 
     /**
@@ -740,9 +807,7 @@ contract InterestERC20BearingMarket is Initializable, DineroMarket {
 
         address[] memory vTokenArray = new address[](1);
 
-        address vToken = address(VTOKEN);
-
-        vTokenArray[0] = address(vToken);
+        vTokenArray[0] = address(_vToken());
 
         // Save balance of XVS before claiming.
         uint256 xvsBalanceBefore = address(XVS).contractBalanceOf();
@@ -756,7 +821,7 @@ contract InterestERC20BearingMarket is Initializable, DineroMarket {
 
         // Update state
         totalRewardsPerVToken += claimedVenus.mulDiv(
-            10**address(vToken).safeDecimals(),
+            ONE_VTOKEN,
             _totalCollateral
         );
     }
@@ -0,0 +1,19 @@
+// SPDX-License-Identifier: Unlicense
+pragma solidity 0.8.13;
+
+/**
+ * @dev Models that set the interest rate of a Dinero market. See {DineroMarket-setInterestRateModel}.
+ *
+ * @notice Models can ignore the arguments and read other sources, such as the DNR peg from a PCS TWAP.
+ */
+interface IInterestRateModel {
+    /**
+     * @param totalDebt The principal + interest owed by all borrowers of the market.
+     * @param maxBorrowAmount The maximum amount of Dinero the market can lend.
+     * @return The interest rate charged per second with a base unit of 1e18.
+     */
+    function getInterestRate(uint256 totalDebt, uint256 maxBorrowAmount)
+        external
+        view
+        returns (uint256);
+}
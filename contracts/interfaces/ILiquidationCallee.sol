@@ -0,0 +1,21 @@
+// SPDX-License-Identifier: Unlicense
+pragma solidity 0.8.13;
+
+/**
+ * @dev Contracts that pay the debt of a flash liquidation after receiving the collateral. See {InterestERC20Market-flashLiquidate}.
+ */
+interface ILiquidationCallee {
+    /**
+     * @param sender The account that called {flashLiquidate}.
+     * @param collateral The amount of collateral sent to this contract.
+     * @param debt The amount of Dinero the market will burn from this contract after the call.
+     * @param data The data passed to {flashLiquidate}.
+     * @return The keccak256 of "ILiquidationCallee.onLiquidation".
+     */
+    function onLiquidation(
+        address sender,
+        uint256 collateral,
+        uint256 debt,
+        bytes calldata data
+    ) external returns (bytes32);
+}
@@ -0,0 +1,8 @@
+//SPDX-License-Identifier: Unlicense
+pragma solidity 0.8.13;
+
+interface IPauseGuardian {
+    function isPaused(address) external view returns (bool);
+
+    function addContract(address target) external;
+}
@@ -0,0 +1,12 @@
+//SPDX-License-Identifier: Unlicense
+pragma solidity 0.8.13;
+
+interface IProtocolReserve {
+    function coverBadDebt(uint256 amount) external returns (uint256);
+
+    function coverLoss(address underlying, uint256 amount)
+        external
+        returns (uint256);
+
+    function addContract(address target) external;
+}
@@ -17,6 +17,7 @@ import "@openzeppelin/contracts-upgradeable/token/ERC20/utils/SafeERC20Upgradeab
 
 import "../interfaces/IMasterChef.sol";
 import "../interfaces/IMasterChefVault.sol";
+import "../interfaces/IPauseGuardian.sol";
 
 import "../lib/Math.sol";
 
@@ -29,6 +30,7 @@ import "../lib/Math.sol";
  * @notice It relies on all it's virtual functions to be overriden to have any use!
  * @notice It is meant to work with the {CAKE_MASTER_CHEF} deployed at 0x73feaa1eE314F8c655E354234017bE2193C9E24E.
  * @notice It is meant to be used only with tokens supported by tge {CAKE_MASTER_CHEF}.
+ * @notice The {pauseGuardian} can stop new deposits in an emergency. Withdrawals remain open for the liquidations of the {MARKET}.
  */
 abstract contract MasterChefVault {
     /*///////////////////////////////////////////////////////////////
@@ -48,6 +50,8 @@ abstract contract MasterChefVault {
 
     event Compound(uint256 rewards, uint256 fee, uint256 indexed blockNumber);
 
+    event PauseGuardian(address indexed guardian);
+
     /*///////////////////////////////////////////////////////////////
                                 STRUCTS
     //////////////////////////////////////////////////////////////*/
@@ -83,11 +87,14 @@ abstract contract MasterChefVault {
 
     uint256 public totalRewardsPerAmount;
 
+    // If set and it pauses this vault, {deposit} is disabled.
+    IPauseGuardian public pauseGuardian;
+
     /**
      * @dev This empty reserved space is put in place to allow future versions to add new
      * variables without shifting down storage in the inheritance chain.
      */
-    uint256[50] private __gap;
+    uint256[49] private __gap;
 
     /*///////////////////////////////////////////////////////////////
                                 MODIFIER
@@ -224,7 +231,7 @@ abstract contract MasterChefVault {
     ) internal virtual;
 
     /**
-     * @dev We need to protect {setMarket} by calling this function first. This should be overriden with the onlyOwner modifier.
+     * @dev We need to protect {setMarket} and {setPauseGuardian} by calling this function first. This should be overriden with the onlyOwner modifier.
      */
     function _authorizeSetMarket() internal virtual;
 
@@ -243,6 +250,7 @@ abstract contract MasterChefVault {
      * - `amount` has to be greater than 0. Since rewards are not send on deposit. It does not make sense to allow an amount of 0.
      * - `account` cannot be the zero address. That is an impossibility and is here to avoid bad UI.
      * - {onlyMarket} on deposit is here because even if we allow deposits by anyone, they would never be able to withdraw.
+     * - The {pauseGuardian} must not pause this vault.
      *
      */
     function deposit(
@@ -250,6 +258,11 @@ abstract contract MasterChefVault {
         address to,
         uint256 amount
     ) external onlyMarket {
+        require(
+            address(pauseGuardian) == address(0) ||
+                !pauseGuardian.isPaused(address(this)),
+            "Vault: paused"
+        );
         require(amount > 0, "Vault: no zero amount");
         require(
             from != address(0) && to != address(0),
@@ -314,4 +327,20 @@ abstract contract MasterChefVault {
         require(address(0) == MARKET, "Vault: already set");
         MARKET = market;
     }
+
+    /**
+     * @dev Sets the contract that can pause the deposits in an emergency.
+     *
+     * @param guardian The address of the {PauseGuardian}. The address zero disables it.
+     *
+     * Requirements:
+     *
+     * - Only the {owner} can call this function.
+     */
+    function setPauseGuardian(IPauseGuardian guardian) external {
+        _authorizeSetMarket();
+        pauseGuardian = guardian;
+
+        emit PauseGuardian(address(guardian));
+    }
 }
@@ -0,0 +1,42 @@
+// SPDX-License-Identifier: Unlicense
+pragma solidity 0.8.13;
+
+import "./MockERC20.sol";
+
+/**
+ * @dev Like the XVS token on BSC, allowances are stored in 96 bits and an infinite allowance is `type(uint96).max`.
+ */
+contract MockXVS is MockERC20 {
+    constructor(
+        string memory name,
+        string memory symbol,
+        uint256 initialSupply
+    ) MockERC20(name, symbol, initialSupply) {}
+
+    function _approve(
+        address owner,
+        address spender,
+        uint256 amount
+    ) internal override {
+        if (amount == type(uint256).max) amount = type(uint96).max;
+
+        require(amount <= type(uint96).max, "XVS: amount exceeds 96 bits");
+
+        super._approve(owner, spender, amount);
+    }
+
+    function _spendAllowance(
+        address owner,
+        address spender,
+        uint256 amount
+    ) internal override {
+        uint256 currentAllowance = allowance(owner, spender);
+
+        if (currentAllowance == type(uint96).max) return;
+
+        require(currentAllowance >= amount, "XVS: insufficient allowance");
+        unchecked {
+            _approve(owner, spender, currentAllowance - amount);
+        }
+    }
+}
@@ -12,6 +12,13 @@ contract MockChainLinkFeed is AggregatorV3Interface {
 
     int256 private _answer;
 
+    // Taken from https://bscscan.com/address/0x0567f2323251f0aab15c8dfb1967e4e8a7d42aee#readContract
+    uint80 private _roundId = 36893488147419307956;
+
+    uint256 private _updatedAt = 1639814685;
+
+    uint80 private _answeredInRound = 36893488147419307956;
+
     constructor(
         uint8 decimals_,
         string memory description_,
@@ -26,6 +33,16 @@ contract MockChainLinkFeed is AggregatorV3Interface {
         _answer = answer;
     }
 
+    function setRoundData(
+        uint80 roundId,
+        uint256 updatedAt,
+        uint80 answeredInRound
+    ) external {
+        _roundId = roundId;
+        _updatedAt = updatedAt;
+        _answeredInRound = answeredInRound;
+    }
+
     function decimals() external view returns (uint8) {
         return _decimals;
     }
@@ -68,11 +85,10 @@ contract MockChainLinkFeed is AggregatorV3Interface {
             uint80 answeredInRound
         )
     {
-        // Taken from https://bscscan.com/address/0x0567f2323251f0aab15c8dfb1967e4e8a7d42aee#readContract
-        roundId = 36893488147419307956;
+        roundId = _roundId;
         answer = _answer;
-        startedAt = 1639814685;
-        updatedAt = 1639814685;
-        answeredInRound = 36893488147419307956;
+        startedAt = _updatedAt;
+        updatedAt = _updatedAt;
+        answeredInRound = _answeredInRound;
     }
 }
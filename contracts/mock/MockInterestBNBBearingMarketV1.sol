@@ -0,0 +1,142 @@
+//SPDX-License-Identifier: MIT
+pragma solidity 0.8.13;
+
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/security/ReentrancyGuardUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/token/ERC20/IERC20Upgradeable.sol";
+
+import "../interfaces/IVToken.sol";
+import "../interfaces/IVenusController.sol";
+
+import "../tokens/Dinero.sol";
+
+import "../lib/Math.sol";
+import "../lib/IntERC20.sol";
+
+import "../Oracle.sol";
+
+import "../dinero-markets/DineroMarket.sol";
+
+/**
+ * @dev The storage of the InterestBNBBearingMarket replaced by {InterestBearingMarket}. It is used to test the upgrade to {InterestBNBBearingMarket}.
+ *
+ * @notice It inherits the current {DineroMarket}, which added its state in its storage gap.
+ * @notice It only keeps {addCollateral} to have positions before the upgrade.
+ */
+contract MockInterestBNBBearingMarketV1 is
+    Initializable,
+    ReentrancyGuardUpgradeable,
+    DineroMarket
+{
+    /*///////////////////////////////////////////////////////////////
+                            LIBRARIES
+    //////////////////////////////////////////////////////////////*/
+
+    using Math for uint256;
+    using IntERC20 for address;
+
+    /*///////////////////////////////////////////////////////////////
+                            STATE
+    //////////////////////////////////////////////////////////////*/
+
+    // VBNB is not upgradeable and has 8 decimals.
+    uint256 internal constant ONE_VBNB = 1e8;
+
+    // solhint-disable-next-line var-name-mixedcase
+    IVenusController internal constant VENUS_CONTROLLER =
+        IVenusController(0xfD36E2c2a6789Db23113685031d7F16329158384);
+
+    // solhint-disable-next-line var-name-mixedcase
+    IERC20Upgradeable internal constant XVS =
+        IERC20Upgradeable(0xcF6BB5389c92Bdda8a3747Ddb454cB7a64626C63); // Venus Token.
+
+    // solhint-disable-next-line var-name-mixedcase
+    IVToken internal constant VTOKEN =
+        IVToken(0xA07c5b74C9B40447a954e1466938b865b6BBea36); // vBNB.
+
+    // Total amount of deposited underlying converted into vToken.
+    uint256 public totalVCollateral;
+
+    // Total Amount of XVS earned per VToken.
+    uint256 public totalRewardsPerVToken;
+
+    // USER -> Rewards per VToken.
+    mapping(address => uint256) public rewardsOf;
+
+    /*///////////////////////////////////////////////////////////////
+                                INITIALIZER
+    //////////////////////////////////////////////////////////////*/
+
+    function initialize(
+        Dinero dinero,
+        address feeTo,
+        Oracle oracle,
+        uint64 interestRate,
+        uint256 _maxLTVRatio,
+        uint256 _liquidationFee,
+        uint256 _maxBorrowAmount
+    ) external initializer {
+        __DineroMarket_init();
+        __ReentrancyGuard_init();
+
+        DINERO = dinero;
+        FEE_TO = feeTo;
+        ORACLE = oracle;
+        loan.INTEREST_RATE = interestRate;
+        maxLTVRatio = _maxLTVRatio;
+        liquidationFee = _liquidationFee;
+        maxBorrowAmount = _maxBorrowAmount;
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                        MUTATIVE PUBLIC FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    function updateExchangeRate()
+        public
+        override(DineroMarket)
+        returns (uint256 rate)
+    {
+        rate = ORACLE.getBNBUSDPrice(VTOKEN.exchangeRateCurrent()) / 1e10;
+
+        if (rate != exchangeRate) {
+            exchangeRate = rate;
+            emit ExchangeRate(rate);
+        }
+    }
+
+    function addCollateral() external payable nonReentrant {
+        uint256 _totalCollateral = totalVCollateral;
+
+        if (_totalCollateral != 0) {
+            address[] memory vTokenArray = new address[](1);
+            vTokenArray[0] = address(VTOKEN);
+
+            uint256 xvsBalanceBefore = address(XVS).contractBalanceOf();
+
+            VENUS_CONTROLLER.claimVenus(address(this), vTokenArray);
+
+            totalRewardsPerVToken += (address(XVS).contractBalanceOf() -
+                xvsBalanceBefore).mulDiv(ONE_VBNB, _totalCollateral);
+        }
+
+        require(userCollateral[_msgSender()] == 0, "V1: only one deposit");
+
+        uint256 balanceBefore = address(VTOKEN).contractBalanceOf();
+
+        // vBNB mints on receive.
+        //solhint-disable-next-line avoid-low-level-calls
+        (bool success, ) = address(VTOKEN).call{value: msg.value}("");
+        require(success, "V1: failed to mint");
+
+        uint256 vTokenAmount = address(VTOKEN).contractBalanceOf() -
+            balanceBefore;
+
+        userCollateral[_msgSender()] = vTokenAmount;
+        totalVCollateral += vTokenAmount;
+        rewardsOf[_msgSender()] = totalRewardsPerVToken.mulDiv(
+            vTokenAmount,
+            ONE_VBNB
+        );
+    }
+}
@@ -0,0 +1,96 @@
+//SPDX-License-Identifier: MIT
+pragma solidity 0.8.13;
+
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/token/ERC20/IERC20Upgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/token/ERC20/utils/SafeERC20Upgradeable.sol";
+
+import "../interfaces/IVToken.sol";
+
+import "../tokens/Dinero.sol";
+
+import "../Oracle.sol";
+
+import "../dinero-markets/DineroMarket.sol";
+
+/**
+ * @dev The storage of the InterestERC20BearingMarket replaced by {InterestBearingMarket}. It is used to test the upgrade.
+ *
+ * @notice It inherits the current {DineroMarket}, which added its state in its storage gap.
+ */
+contract MockInterestERC20BearingMarketV1 is Initializable, DineroMarket {
+    /*///////////////////////////////////////////////////////////////
+                            LIBRARIES
+    //////////////////////////////////////////////////////////////*/
+
+    using SafeERC20Upgradeable for IERC20Upgradeable;
+
+    /*///////////////////////////////////////////////////////////////
+                            STATE
+    //////////////////////////////////////////////////////////////*/
+
+    // solhint-disable-next-line var-name-mixedcase
+    IERC20Upgradeable public COLLATERAL; // Token to be used to cover the loan.
+
+    // solhint-disable-next-line var-name-mixedcase
+    IVToken public VTOKEN; // A Venus Market.
+
+    // Total amount of deposited underlying converted into vToken.
+    uint256 public totalVCollateral;
+
+    // Total Amount of XVS earned per VToken.
+    uint256 public totalRewardsPerVToken;
+
+    // USER -> Rewards per VToken.
+    mapping(address => uint256) public rewardsOf;
+
+    /*///////////////////////////////////////////////////////////////
+                                INITIALIZER
+    //////////////////////////////////////////////////////////////*/
+
+    function initialize(
+        Dinero dinero,
+        address feeTo,
+        Oracle oracle,
+        IERC20Upgradeable collateral,
+        IVToken vToken,
+        uint64 interestRate,
+        uint256 _maxLTVRatio,
+        uint256 _liquidationFee,
+        uint256 _maxBorrowAmount
+    ) external initializer {
+        __DineroMarket_init();
+
+        DINERO = dinero;
+        FEE_TO = feeTo;
+        ORACLE = oracle;
+        COLLATERAL = collateral;
+        VTOKEN = vToken;
+        loan.INTEREST_RATE = interestRate;
+        maxLTVRatio = _maxLTVRatio;
+        liquidationFee = _liquidationFee;
+        maxBorrowAmount = _maxBorrowAmount;
+
+        // Approve the router to trade the collateral in case of liquidations.
+        COLLATERAL.safeApprove(address(ROUTER), type(uint256).max);
+        // Approve the `vToken` to be able to mint to it.
+        COLLATERAL.safeApprove(address(vToken), type(uint256).max);
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                        MUTATIVE PUBLIC FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    function updateExchangeRate()
+        public
+        override(DineroMarket)
+        returns (uint256 rate)
+    {
+        rate = ORACLE.getUSDPrice(address(COLLATERAL), 1 ether);
+
+        if (rate != exchangeRate) {
+            exchangeRate = rate;
+            emit ExchangeRate(rate);
+        }
+    }
+}
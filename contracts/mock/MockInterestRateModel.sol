@@ -1,6 +1,8 @@
 //SPDX-License-Identifier: Unlicense
 pragma solidity 0.8.13;
 
+import "../lib/Math.sol";
+
 contract MockInterestRateModel {
     uint256 public _supplyRate;
     uint256 public _borrowRate;
@@ -62,3 +64,86 @@ contract MockInterestRateModelV2 {
         _supplyRate = rate;
     }
 }
+
+/**
+ * @dev A {IInterestRateModel} of the Dinero markets that returns any rate or reverts.
+ */
+contract MockMarketInterestRateModel {
+    uint256 public rate;
+    bool public shouldRevert;
+
+    function getInterestRate(uint256, uint256) external view returns (uint256) {
+        require(!shouldRevert, "Model: broken");
+        return rate;
+    }
+
+    function __setRate(uint256 _rate) external {
+        rate = _rate;
+    }
+
+    function __setShouldRevert(bool _shouldRevert) external {
+        shouldRevert = _shouldRevert;
+    }
+}
+
+/**
+ * @dev The Venus JumpRateModel. The rates are per block with a mantissa of 1e18.
+ */
+contract MockVenusJumpRateModel {
+    using Math for uint256;
+
+    uint256 public immutable baseRatePerBlock;
+    uint256 public immutable multiplierPerBlock;
+    uint256 public immutable jumpMultiplierPerBlock;
+    uint256 public immutable kink;
+
+    constructor(
+        uint256 _baseRatePerBlock,
+        uint256 _multiplierPerBlock,
+        uint256 _jumpMultiplierPerBlock,
+        uint256 _kink
+    ) {
+        baseRatePerBlock = _baseRatePerBlock;
+        multiplierPerBlock = _multiplierPerBlock;
+        jumpMultiplierPerBlock = _jumpMultiplierPerBlock;
+        kink = _kink;
+    }
+
+    function utilizationRate(
+        uint256 cash,
+        uint256 borrows,
+        uint256 reserves
+    ) public pure returns (uint256) {
+        if (borrows == 0) return 0;
+
+        return borrows.wadDiv(cash + borrows - reserves);
+    }
+
+    function getBorrowRate(
+        uint256 cash,
+        uint256 borrows,
+        uint256 reserves
+    ) public view returns (uint256) {
+        uint256 util = utilizationRate(cash, borrows, reserves);
+
+        if (util <= kink)
+            return util.wadMul(multiplierPerBlock) + baseRatePerBlock;
+
+        uint256 normalRate = kink.wadMul(multiplierPerBlock) + baseRatePerBlock;
+
+        return (util - kink).wadMul(jumpMultiplierPerBlock) + normalRate;
+    }
+
+    function getSupplyRate(
+        uint256 cash,
+        uint256 borrows,
+        uint256 reserves,
+        uint256 reserveFactorMantissa
+    ) external view returns (uint256) {
+        uint256 rateToPool = getBorrowRate(cash, borrows, reserves).wadMul(
+            1 ether - reserveFactorMantissa
+        );
+
+        return utilizationRate(cash, borrows, reserves).wadMul(rateToPool);
+    }
+}
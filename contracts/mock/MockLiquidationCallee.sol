@@ -0,0 +1,45 @@
+//SPDX-License-Identifier: Unlicense
+pragma solidity 0.8.13;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+
+import "../interfaces/ILiquidationCallee.sol";
+import "../interfaces/IPancakeRouter02.sol";
+
+// Sells the collateral of a flash liquidation in the router passed in `data`.
+contract MockLiquidationCallee is ILiquidationCallee {
+    bytes32 public returnValue = keccak256("ILiquidationCallee.onLiquidation");
+
+    address public sender;
+
+    function __setReturnValue(bytes32 value) external {
+        returnValue = value;
+    }
+
+    function onLiquidation(
+        address _sender,
+        uint256 collateral,
+        uint256,
+        bytes calldata data
+    ) external returns (bytes32) {
+        sender = _sender;
+
+        (IPancakeRouter02 router, address[] memory path) = abi.decode(
+            data,
+            (IPancakeRouter02, address[])
+        );
+
+        IERC20(path[0]).approve(address(router), collateral);
+
+        router.swapExactTokensForTokens(
+            collateral,
+            0,
+            path,
+            address(this),
+            //solhint-disable-next-line not-rely-on-time
+            block.timestamp
+        );
+
+        return returnValue;
+    }
+}
@@ -1,17 +1,51 @@
 //SPDX-License-Identifier: Unlicense
 pragma solidity 0.8.13;
 
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+
 import "../interfaces/IVenusController.sol";
+import "../interfaces/IVToken.sol";
+
+import "../lib/Math.sol";
+
 import "./ERC20/MockERC20.sol";
 
 //solhint-disable
 
+/**
+ * @dev A simplified Venus Comptroller for the local BSC stand-in. It checks the liquidity of the accounts with the {underlyingPriceOf}
+ * and distributes {venusSpeeds} XVS per block to the suppliers and the borrowers of each market like Venus does.
+ */
 contract MockVenusController is IVenusController {
-    event EnterMarket(address vToken);
+    using Math for uint256;
+
+    event MarketListed(address vToken);
+
+    event MarketEntered(address vToken, address account);
 
-    event ExitMarket(address vToken);
+    event MarketExited(address vToken, address account);
 
-    event Claim(address account, uint256 amount);
+    event NewCollateralFactor(
+        address vToken,
+        uint256 oldCollateralFactorMantissa,
+        uint256 newCollateralFactorMantissa
+    );
+
+    event VenusSpeedUpdated(address indexed vToken, uint256 newSpeed);
+
+    event DistributedSupplierVenus(
+        address indexed vToken,
+        address indexed supplier,
+        uint256 venusDelta,
+        uint256 venusSupplyIndex
+    );
+
+    event DistributedBorrowerVenus(
+        address indexed vToken,
+        address indexed borrower,
+        uint256 venusDelta,
+        uint256 venusBorrowIndex
+    );
 
     struct Market {
         /// @notice Whether or not this market is listed
@@ -28,53 +62,105 @@ contract MockVenusController is IVenusController {
         bool isVenus;
     }
 
-    struct AccountLiquidity {
-        uint256 error;
-        uint256 liquidity;
-        uint256 shortfall;
+    struct VenusMarketState {
+        uint256 index;
+        uint256 block;
     }
 
-    AccountLiquidity public liquidity;
+    // Error codes of Venus
+    uint256 internal constant NO_ERROR = 0;
+    uint256 internal constant INSUFFICIENT_LIQUIDITY = 4;
+    uint256 internal constant MARKET_NOT_LISTED = 9;
+    uint256 internal constant NONZERO_BORROW_BALANCE = 12;
+    uint256 internal constant PRICE_ERROR = 13;
+    uint256 internal constant REJECTION = 14;
+
+    uint256 internal constant VENUS_INITIAL_INDEX = 1e36;
+
+    MockERC20 public immutable XVS;
 
     mapping(address => Market) public markets;
 
+    address[] public allMarkets;
+
+    mapping(address => address[]) public accountAssets;
+
+    // VToken -> Price in USD of one unit of the underlying with a mantissa of 1e18
+    mapping(address => uint256) public underlyingPriceOf;
+
     mapping(address => uint256) public venusSpeeds;
 
-    uint256 private _enterMarketValueReturn;
+    mapping(address => VenusMarketState) public venusSupplyState;
 
-    uint256 private _claimVenusAmount;
+    mapping(address => VenusMarketState) public venusBorrowState;
 
-    uint256 private _exitMarketValueReturn;
+    mapping(address => mapping(address => uint256)) public venusSupplierIndex;
 
-    MockERC20 public immutable XVS;
+    mapping(address => mapping(address => uint256)) public venusBorrowerIndex;
+
+    mapping(address => uint256) public venusAccrued;
 
     constructor(MockERC20 xvs) {
         XVS = xvs;
     }
 
-    function enterMarkets(address[] calldata _markets)
+    /*///////////////////////////////////////////////////////////////
+                            ACCOUNTS
+    //////////////////////////////////////////////////////////////*/
+
+    function enterMarkets(address[] calldata vTokens)
         external
-        returns (uint256[] memory)
+        returns (uint256[] memory results)
     {
-        uint256 len = _markets.length;
+        uint256 len = vTokens.length;
+
+        results = new uint256[](len);
 
         for (uint256 i = 0; i < len; i++) {
-            emit EnterMarket(_markets[i]);
+            results[i] = _addToMarket(vTokens[i], msg.sender);
         }
+    }
+
+    function exitMarket(address vToken) external returns (uint256) {
+        (, uint256 tokensHeld, uint256 amountOwed, ) = IVToken(vToken)
+            .getAccountSnapshot(msg.sender);
+
+        if (amountOwed != 0) return NONZERO_BORROW_BALANCE;
+
+        if (_redeemAllowed(vToken, msg.sender, tokensHeld) != NO_ERROR)
+            return REJECTION;
+
+        Market storage market = markets[vToken];
+
+        if (!market.accountMembership[msg.sender]) return NO_ERROR;
+
+        market.accountMembership[msg.sender] = false;
+
+        address[] storage assets = accountAssets[msg.sender];
+        uint256 len = assets.length;
 
-        uint256[] memory data = new uint256[](1);
-        data[0] = _enterMarketValueReturn;
+        for (uint256 i = 0; i < len; i++) {
+            if (assets[i] == vToken) {
+                assets[i] = assets[len - 1];
+                assets.pop();
+                break;
+            }
+        }
+
+        emit MarketExited(vToken, msg.sender);
 
-        return data;
+        return NO_ERROR;
     }
 
-    //solhint-disable-next-line no-empty-blocks
-    function exitMarket(address vToken) external returns (uint256) {
-        emit ExitMarket(vToken);
-        return _exitMarketValueReturn;
+    function checkMembership(address account, address vToken)
+        external
+        view
+        returns (bool)
+    {
+        return markets[vToken].accountMembership[account];
     }
 
-    function getAccountLiquidity(address)
+    function getAccountLiquidity(address account)
         external
         view
         returns (
@@ -83,58 +169,380 @@ contract MockVenusController is IVenusController {
             uint256
         )
     {
-        return (liquidity.error, liquidity.liquidity, liquidity.shortfall);
+        (uint256 liquidity, uint256 shortfall) = _getHypotheticalLiquidity(
+            account,
+            address(0),
+            0,
+            0
+        );
+
+        return (NO_ERROR, liquidity, shortfall);
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                            POLICY HOOKS
+    //////////////////////////////////////////////////////////////*/
+
+    function mintAllowed(
+        address vToken,
+        address minter,
+        uint256
+    ) external returns (uint256) {
+        if (!markets[vToken].isListed) return MARKET_NOT_LISTED;
+
+        _updateVenusSupplyIndex(vToken);
+        _distributeSupplierVenus(vToken, minter);
+
+        return NO_ERROR;
+    }
+
+    function redeemAllowed(
+        address vToken,
+        address redeemer,
+        uint256 redeemTokens
+    ) external returns (uint256) {
+        uint256 allowed = _redeemAllowed(vToken, redeemer, redeemTokens);
+
+        if (allowed != NO_ERROR) return allowed;
+
+        _updateVenusSupplyIndex(vToken);
+        _distributeSupplierVenus(vToken, redeemer);
+
+        return NO_ERROR;
+    }
+
+    function borrowAllowed(
+        address vToken,
+        address borrower,
+        uint256 borrowAmount
+    ) external returns (uint256) {
+        if (!markets[vToken].isListed) return MARKET_NOT_LISTED;
+
+        if (!markets[vToken].accountMembership[borrower]) {
+            // Only the VToken can add the borrower to its market.
+            if (msg.sender != vToken) return REJECTION;
+
+            _addToMarket(vToken, borrower);
+        }
+
+        if (underlyingPriceOf[vToken] == 0) return PRICE_ERROR;
+
+        (, uint256 shortfall) = _getHypotheticalLiquidity(
+            borrower,
+            vToken,
+            0,
+            borrowAmount
+        );
+
+        if (shortfall > 0) return INSUFFICIENT_LIQUIDITY;
+
+        _updateVenusBorrowIndex(vToken);
+        _distributeBorrowerVenus(vToken, borrower);
+
+        return NO_ERROR;
+    }
+
+    function repayBorrowAllowed(address vToken, address borrower)
+        external
+        returns (uint256)
+    {
+        if (!markets[vToken].isListed) return MARKET_NOT_LISTED;
+
+        _updateVenusBorrowIndex(vToken);
+        _distributeBorrowerVenus(vToken, borrower);
+
+        return NO_ERROR;
+    }
+
+    function transferAllowed(
+        address vToken,
+        address src,
+        address dst,
+        uint256 transferTokens
+    ) external returns (uint256) {
+        uint256 allowed = _redeemAllowed(vToken, src, transferTokens);
+
+        if (allowed != NO_ERROR) return allowed;
+
+        _updateVenusSupplyIndex(vToken);
+        _distributeSupplierVenus(vToken, src);
+        _distributeSupplierVenus(vToken, dst);
+
+        return NO_ERROR;
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                            XVS REWARDS
+    //////////////////////////////////////////////////////////////*/
+
+    function claimVenus(address holder) external {
+        _claimVenus(holder, allMarkets);
+    }
+
+    function claimVenus(address holder, address[] calldata vTokens) external {
+        _claimVenus(holder, vTokens);
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                            ADMIN
+    //////////////////////////////////////////////////////////////*/
+
+    function _supportMarket(address vToken) external returns (uint256) {
+        Market storage market = markets[vToken];
+
+        if (market.isListed) return REJECTION;
+
+        market.isListed = true;
+        market.isVenus = true;
+
+        allMarkets.push(vToken);
+
+        venusSupplyState[vToken] = VenusMarketState(
+            VENUS_INITIAL_INDEX,
+            block.number
+        );
+        venusBorrowState[vToken] = VenusMarketState(
+            VENUS_INITIAL_INDEX,
+            block.number
+        );
+
+        emit MarketListed(vToken);
+
+        return NO_ERROR;
+    }
+
+    function _setCollateralFactor(
+        address vToken,
+        uint256 newCollateralFactorMantissa
+    ) external returns (uint256) {
+        Market storage market = markets[vToken];
+
+        if (!market.isListed) return MARKET_NOT_LISTED;
+
+        uint256 oldCollateralFactorMantissa = market.collateralFactorMantissa;
+
+        market.collateralFactorMantissa = newCollateralFactorMantissa;
+
+        emit NewCollateralFactor(
+            vToken,
+            oldCollateralFactorMantissa,
+            newCollateralFactorMantissa
+        );
+
+        return NO_ERROR;
+    }
+
+    function _setVenusSpeed(address vToken, uint256 venusSpeed) external {
+        _updateVenusSupplyIndex(vToken);
+        _updateVenusBorrowIndex(vToken);
+
+        venusSpeeds[vToken] = venusSpeed;
+
+        emit VenusSpeedUpdated(vToken, venusSpeed);
+    }
+
+    function __setUnderlyingPrice(address vToken, uint256 price) external {
+        underlyingPriceOf[vToken] = price;
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                            PRIVATE FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    function _addToMarket(address vToken, address account)
+        private
+        returns (uint256)
+    {
+        Market storage market = markets[vToken];
+
+        if (!market.isListed) return MARKET_NOT_LISTED;
+
+        if (market.accountMembership[account]) return NO_ERROR;
+
+        market.accountMembership[account] = true;
+        accountAssets[account].push(vToken);
+
+        emit MarketEntered(vToken, account);
+
+        return NO_ERROR;
     }
 
-    //solhint-disable-next-line no-empty-blocks
-    function claimVenus(address) external {}
+    function _redeemAllowed(
+        address vToken,
+        address redeemer,
+        uint256 redeemTokens
+    ) private view returns (uint256) {
+        if (!markets[vToken].isListed) return MARKET_NOT_LISTED;
+
+        // Tokens outside of the markets the `redeemer` entered are not collateral.
+        if (!markets[vToken].accountMembership[redeemer]) return NO_ERROR;
+
+        (, uint256 shortfall) = _getHypotheticalLiquidity(
+            redeemer,
+            vToken,
+            redeemTokens,
+            0
+        );
 
-    //solhint-disable-next-line no-empty-blocks
-    function claimVenus(address account, address[] calldata) external {
-        if (_claimVenusAmount == 0) return;
-        XVS.transfer(account, _claimVenusAmount);
-        emit Claim(account, _claimVenusAmount);
+        return shortfall > 0 ? INSUFFICIENT_LIQUIDITY : NO_ERROR;
     }
 
-    function __setMarkets(
+    function _getHypotheticalLiquidity(
         address account,
-        bool isListed,
-        uint256 collateralFactorMantissa,
-        bool accountMembership,
-        bool isVenus
-    ) external {
-        Market storage market = markets[account];
+        address vTokenModify,
+        uint256 redeemTokens,
+        uint256 borrowAmount
+    ) private view returns (uint256, uint256) {
+        uint256 sumCollateral;
+        uint256 sumBorrowPlusEffects;
+
+        address[] memory assets = accountAssets[account];
+
+        for (uint256 i = 0; i < assets.length; i++) {
+            address asset = assets[i];
+
+            (
+                ,
+                uint256 vTokenBalance,
+                uint256 borrowBalance,
+                uint256 exchangeRate
+            ) = IVToken(asset).getAccountSnapshot(account);
+
+            uint256 price = underlyingPriceOf[asset];
 
-        market.isListed = isListed;
-        market.collateralFactorMantissa = collateralFactorMantissa;
-        market.accountMembership[account] = accountMembership;
-        market.isVenus = isVenus;
+            // USD value of one VToken that can be borrowed.
+            uint256 tokensToDenom = markets[asset]
+                .collateralFactorMantissa
+                .wadMul(exchangeRate)
+                .wadMul(price);
+
+            sumCollateral += tokensToDenom.wadMul(vTokenBalance);
+            sumBorrowPlusEffects += price.wadMul(borrowBalance);
+
+            if (asset == vTokenModify) {
+                sumBorrowPlusEffects +=
+                    tokensToDenom.wadMul(redeemTokens) +
+                    price.wadMul(borrowAmount);
+            }
+        }
+
+        if (sumCollateral > sumBorrowPlusEffects)
+            return (sumCollateral - sumBorrowPlusEffects, 0);
+
+        return (0, sumBorrowPlusEffects - sumCollateral);
     }
 
-    function __setLiquidity(
-        uint256 error,
-        uint256 _liquidity,
-        uint256 shortfall
-    ) external {
-        liquidity.error = error;
-        liquidity.liquidity = _liquidity;
-        liquidity.shortfall = shortfall;
+    function _updateVenusSupplyIndex(address vToken) private {
+        VenusMarketState storage supplyState = venusSupplyState[vToken];
+
+        uint256 deltaBlocks = block.number - supplyState.block;
+
+        if (deltaBlocks == 0) return;
+
+        uint256 supplyTokens = IERC20(vToken).totalSupply();
+
+        if (supplyTokens > 0)
+            supplyState.index += (deltaBlocks * venusSpeeds[vToken]).mulDiv(
+                1e36,
+                supplyTokens
+            );
+
+        supplyState.block = block.number;
     }
 
-    function __setVenusSpeeds(address vToken, uint256 amount) external {
-        venusSpeeds[vToken] = amount;
+    function _updateVenusBorrowIndex(address vToken) private {
+        VenusMarketState storage borrowState = venusBorrowState[vToken];
+
+        uint256 deltaBlocks = block.number - borrowState.block;
+
+        if (deltaBlocks == 0) return;
+
+        uint256 borrowAmount = IVToken(vToken).totalBorrows().wadDiv(
+            IVToken(vToken).borrowIndex()
+        );
+
+        if (borrowAmount > 0)
+            borrowState.index += (deltaBlocks * venusSpeeds[vToken]).mulDiv(
+                1e36,
+                borrowAmount
+            );
+
+        borrowState.block = block.number;
     }
 
-    function __setEnterMarketReturn(uint256 value) external {
-        _enterMarketValueReturn = value;
+    function _distributeSupplierVenus(address vToken, address supplier)
+        private
+    {
+        uint256 supplyIndex = venusSupplyState[vToken].index;
+        uint256 supplierIndex = venusSupplierIndex[vToken][supplier];
+
+        venusSupplierIndex[vToken][supplier] = supplyIndex;
+
+        if (supplierIndex == 0) supplierIndex = VENUS_INITIAL_INDEX;
+
+        uint256 supplierDelta = IVToken(vToken).balanceOf(supplier).mulDiv(
+            supplyIndex - supplierIndex,
+            1e36
+        );
+
+        if (supplierDelta == 0) return;
+
+        venusAccrued[supplier] += supplierDelta;
+
+        emit DistributedSupplierVenus(
+            vToken,
+            supplier,
+            supplierDelta,
+            supplyIndex
+        );
     }
 
-    function __setClaimVenusValue(uint256 value) external {
-        _claimVenusAmount = value;
+    function _distributeBorrowerVenus(address vToken, address borrower)
+        private
+    {
+        uint256 borrowIndex = venusBorrowState[vToken].index;
+        uint256 borrowerIndex = venusBorrowerIndex[vToken][borrower];
+
+        venusBorrowerIndex[vToken][borrower] = borrowIndex;
+
+        if (borrowerIndex == 0) return;
+
+        uint256 borrowerDelta = IVToken(vToken)
+            .borrowBalanceStored(borrower)
+            .wadDiv(IVToken(vToken).borrowIndex())
+            .mulDiv(borrowIndex - borrowerIndex, 1e36);
+
+        if (borrowerDelta == 0) return;
+
+        venusAccrued[borrower] += borrowerDelta;
+
+        emit DistributedBorrowerVenus(
+            vToken,
+            borrower,
+            borrowerDelta,
+            borrowIndex
+        );
     }
 
-    function __setExitMarketReturn(uint256 value) external {
-        _exitMarketValueReturn = value;
+    function _claimVenus(address holder, address[] memory vTokens) private {
+        for (uint256 i = 0; i < vTokens.length; i++) {
+            address vToken = vTokens[i];
+
+            if (!markets[vToken].isListed) continue;
+
+            _updateVenusBorrowIndex(vToken);
+            _distributeBorrowerVenus(vToken, holder);
+            _updateVenusSupplyIndex(vToken);
+            _distributeSupplierVenus(vToken, holder);
+        }
+
+        uint256 accrued = venusAccrued[holder];
+
+        if (accrued == 0 || accrued > XVS.balanceOf(address(this))) return;
+
+        venusAccrued[holder] = 0;
+
+        XVS.transfer(holder, accrued);
     }
 }
 
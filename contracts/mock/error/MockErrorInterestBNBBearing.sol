@@ -1,18 +1,18 @@
 // SPDX-License-Identifier: MIT
 pragma solidity 0.8.13;
 
-import "../../dinero-markets/InterestBNBBearingMarket.sol";
+import "../../dinero-markets/InterestBearingMarket.sol";
 
 import "./Receive.sol";
 
 contract ErrorInterestBearingSendBNBRequireNoMessage is
     ReceiveErrorRequireNoMsg
 {
-    function addCollateral(InterestBNBBearingMarket market) external payable {
-        market.addCollateral{value: msg.value}();
+    function addCollateral(InterestBearingMarket market) external payable {
+        market.addCollateral{value: msg.value}(msg.value);
     }
 
-    function withdrawCollateral(InterestBNBBearingMarket market, uint256 amount)
+    function withdrawCollateral(InterestBearingMarket market, uint256 amount)
         external
     {
         market.withdrawCollateral(amount, true);
@@ -20,11 +20,11 @@ contract ErrorInterestBearingSendBNBRequireNoMessage is
 }
 
 contract ErrorInterestBearingSendBNBRequireMessage is ReceiveErrorRequireMsg {
-    function addCollateral(InterestBNBBearingMarket market) external payable {
-        market.addCollateral{value: msg.value}();
+    function addCollateral(InterestBearingMarket market) external payable {
+        market.addCollateral{value: msg.value}(msg.value);
     }
 
-    function withdrawCollateral(InterestBNBBearingMarket market, uint256 amount)
+    function withdrawCollateral(InterestBearingMarket market, uint256 amount)
         external
     {
         market.withdrawCollateral(amount, true);
@@ -16,7 +16,9 @@ interface IInterestMarketBNBV1 {
         address[] calldata accounts,
         uint256[] calldata principals,
         address payable recipient,
-        address[] calldata path
+        address[] calldata path,
+        uint256 minAmountOut,
+        uint256 deadline
     ) external;
 }
 
@@ -51,7 +53,14 @@ contract ReentrantInterestBNBMarketLiquidate {
         address payable recipient,
         address[] calldata path
     ) external {
-        Contract.liquidate(accounts, principals, recipient, path);
+        Contract.liquidate(
+            accounts,
+            principals,
+            recipient,
+            path,
+            0,
+            block.timestamp
+        );
     }
 
     receive() external payable {
@@ -61,7 +70,9 @@ contract ReentrantInterestBNBMarketLiquidate {
             _array,
             new uint256[](0),
             payable(address(0)),
-            _array
+            _array,
+            0,
+            block.timestamp
         );
     }
 }
@@ -4,7 +4,7 @@ pragma solidity 0.8.13;
 interface IInterestBearingBNBMarket {
     function withdrawCollateral(uint256 amount, bool inUnderlying) external;
 
-    function addCollateral() external payable;
+    function addCollateral(uint256 amount) external payable;
 
     function borrow(address to, uint256 amount) external;
 
@@ -17,7 +17,9 @@ interface IInterestBearingBNBMarket {
         uint256[] calldata principals,
         address recipient,
         bool inUnderlying,
-        address[] calldata path
+        address[] calldata path,
+        uint256 minAmountOut,
+        uint256 deadline
     ) external;
 }
 
@@ -31,7 +33,7 @@ contract ReentrantInterestBearingBNBMarketWithdrawCollateral {
     }
 
     function addCollateral() external payable {
-        Contract.addCollateral{value: msg.value}();
+        Contract.addCollateral{value: msg.value}(msg.value);
     }
 
     function withdrawCollateral(uint256 amount, bool inUnderlying) external {
@@ -57,7 +59,15 @@ contract ReentrantInterestBearingBNBMarketLiquidate {
         bool inUnderlying,
         address[] calldata path
     ) external {
-        Contract.liquidate(accounts, principals, recipient, inUnderlying, path);
+        Contract.liquidate(
+            accounts,
+            principals,
+            recipient,
+            inUnderlying,
+            path,
+            0,
+            block.timestamp
+        );
     }
 
     receive() external payable {
@@ -68,7 +78,9 @@ contract ReentrantInterestBearingBNBMarketLiquidate {
             new uint256[](0),
             payable(address(0)),
             false,
-            _array
+            _array,
+            0,
+            block.timestamp
         );
     }
 }
@@ -88,7 +100,7 @@ contract ReentrantInterestBearingBNBMarketRequest {
     }
 
     function addCollateral() external payable {
-        Contract.addCollateral{value: msg.value}();
+        Contract.addCollateral{value: msg.value}(msg.value);
     }
 
     receive() external payable {
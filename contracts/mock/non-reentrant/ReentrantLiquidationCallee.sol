@@ -0,0 +1,75 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.13;
+
+import "../../interfaces/ILiquidationCallee.sol";
+
+interface IInterestERC20MarketFlash {
+    function withdrawCollateral(address to, uint256 amount) external;
+
+    function request(uint8[] calldata requests, bytes[] calldata requestArgs)
+        external;
+
+    function liquidate(
+        address[] calldata accounts,
+        uint256[] calldata principals,
+        address recipient,
+        address[] calldata path,
+        address[] calldata path2,
+        uint256 minAmountOut,
+        uint256 deadline
+    ) external;
+
+    function flashLiquidate(
+        address[] calldata accounts,
+        uint256[] calldata principals,
+        ILiquidationCallee liquidator,
+        bytes calldata data
+    ) external;
+}
+
+// solhint-disable
+
+// Calls back the market during a flash liquidation. 0 calls {request}, 1 {liquidate}, 2 {flashLiquidate} and 3 {withdrawCollateral}.
+contract ReentrantLiquidationCallee is ILiquidationCallee {
+    IInterestERC20MarketFlash public Contract;
+
+    uint256 public mode;
+
+    constructor(IInterestERC20MarketFlash _contract) {
+        Contract = _contract;
+    }
+
+    function __setMode(uint256 _mode) external {
+        mode = _mode;
+    }
+
+    function onLiquidation(
+        address,
+        uint256,
+        uint256,
+        bytes calldata
+    ) external returns (bytes32) {
+        address[] memory _array = new address[](0);
+        uint256[] memory _amounts = new uint256[](0);
+
+        if (mode == 0) {
+            Contract.request(new uint8[](0), new bytes[](0));
+        } else if (mode == 1) {
+            Contract.liquidate(
+                _array,
+                _amounts,
+                address(this),
+                _array,
+                _array,
+                0,
+                block.timestamp
+            );
+        } else if (mode == 2) {
+            Contract.flashLiquidate(_array, _amounts, this, "");
+        } else {
+            Contract.withdrawCollateral(address(this), 0);
+        }
+
+        return keccak256("ILiquidationCallee.onLiquidation");
+    }
+}
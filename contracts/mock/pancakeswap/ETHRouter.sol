@@ -7,6 +7,7 @@ import "./lib/PancakeLib.sol";
 import "./interfaces/IPancakePair.sol";
 import "./interfaces/IPancakeERC20.sol";
 import "./interfaces/IWETH.sol";
+import "./lib/TransferHelper.sol";
 
 //solhint-disable
 
@@ -68,4 +69,28 @@ contract ETHRouter {
         );
         _swap(amounts, path, to);
     }
+
+    function swapExactTokensForETH(
+        uint256 amountIn,
+        uint256 amountOutMin,
+        address[] calldata path,
+        address to,
+        uint256
+    ) external virtual returns (uint256[] memory amounts) {
+        require(path[path.length - 1] == WETH, "PancakeRouter: INVALID_PATH");
+        amounts = PancakeLib.getAmountsOut(factory, amountIn, path);
+        require(
+            amounts[amounts.length - 1] >= amountOutMin,
+            "PancakeRouter: INSUFFICIENT_OUTPUT_AMOUNT"
+        );
+        TransferHelper.safeTransferFrom(
+            path[0],
+            msg.sender,
+            PancakeLib.pairFor(factory, path[0], path[1]),
+            amounts[0]
+        );
+        _swap(amounts, path, address(this));
+        IWETH(WETH).withdraw(amounts[amounts.length - 1]);
+        TransferHelper.safeTransferETH(to, amounts[amounts.length - 1]);
+    }
 }
@@ -45,6 +45,16 @@ contract PancakeFactory is IPancakeFactory {
         emit PairCreated(token0, token1, pair, allPairs.length);
     }
 
+    // Points the pair of `tokenA` and `tokenB` to a pair cloned at a different address.
+    function __setPair(
+        address tokenA,
+        address tokenB,
+        address pair
+    ) external {
+        getPair[tokenA][tokenB] = pair;
+        getPair[tokenB][tokenA] = pair;
+    }
+
     function setFeeTo(address _feeTo) external {
         require(msg.sender == feeToSetter, "Pancake: FORBIDDEN");
         feeTo = _feeTo;
@@ -57,7 +57,7 @@ contract PancakeRouter {
         amounts = PancakeLib.getAmountsOut(factory, amountIn, path);
         require(
             amounts[amounts.length - 1] >= amountOutMin,
-            "INSUFFICIENT_OUTPUT_AMOUNT"
+            "PancakeRouter: INSUFFICIENT_OUTPUT_AMOUNT"
         );
         IPancakeERC20(path[0]).transferFrom(
             msg.sender,
@@ -67,6 +67,15 @@ contract PancakeRouter {
         _swap(amounts, path, to);
     }
 
+    function getAmountsOut(uint256 amountIn, address[] memory path)
+        public
+        view
+        virtual
+        returns (uint256[] memory amounts)
+    {
+        return PancakeLib.getAmountsOut(factory, amountIn, path);
+    }
+
     function removeLiquidity(
         address tokenA,
         address tokenB,
@@ -0,0 +1,62 @@
+//SPDX-License-Identifier: Unlicensed
+pragma solidity 0.8.13;
+
+import "./PancakeRouter.sol";
+import "./ETHRouter.sol";
+import "./LiquidityRouter.sol";
+
+//solhint-disable
+
+// The PCS router is split in 3 contracts to keep them under the contract size limit.
+// This contract delegates each call to the router that implements it, so the 3 of them can live at the PCS router address.
+// Immutables are part of the code, so they need to be deployed with the final {factory} and {WETH} addresses.
+contract PancakeRouterDispatcher {
+    address public immutable swapRouter;
+    address public immutable ethRouter;
+    address public immutable liquidityRouter;
+
+    constructor(
+        address _swapRouter,
+        address _ethRouter,
+        address _liquidityRouter
+    ) {
+        swapRouter = _swapRouter;
+        ethRouter = _ethRouter;
+        liquidityRouter = _liquidityRouter;
+    }
+
+    // WETH sends BNB to the router when it unwraps it in {ETHRouter.swapExactTokensForETH}.
+    receive() external payable {}
+
+    fallback() external payable {
+        address implementation = swapRouter;
+
+        if (
+            msg.sig == ETHRouter.swapExactETHForTokens.selector ||
+            msg.sig == ETHRouter.swapExactTokensForETH.selector
+        ) implementation = ethRouter;
+
+        if (msg.sig == LiquidityRouter.addLiquidity.selector)
+            implementation = liquidityRouter;
+
+        assembly {
+            calldatacopy(0, 0, calldatasize())
+            let result := delegatecall(
+                gas(),
+                implementation,
+                0,
+                calldatasize(),
+                0,
+                0
+            )
+            returndatacopy(0, 0, returndatasize())
+            switch result
+            case 0 {
+                revert(0, returndatasize())
+            }
+            default {
+                return(0, returndatasize())
+            }
+        }
+    }
+}
@@ -2,6 +2,7 @@
 pragma solidity 0.8.13;
 
 import "../PancakePair.sol";
+import "../interfaces/IPancakeFactory.sol";
 
 import "./SafeMath.sol";
 
@@ -22,29 +23,14 @@ library PancakeLib {
         require(token0 != address(0), "PancakeLibrary: ZERO_ADDRESS");
     }
 
-    // calculates the CREATE2 address for a pair without making any external calls
+    // fetches the pair address from the factory. Pairs cloned at their mainnet addresses are not at their CREATE2 address.
     function pairFor(
         address factory,
         address tokenA,
         address tokenB
-    ) internal pure returns (address pair) {
+    ) internal view returns (address pair) {
         (address token0, address token1) = sortTokens(tokenA, tokenB);
-        bytes memory bytecode = type(PancakePair).creationCode;
-
-        pair = address(
-            uint160(
-                uint256(
-                    keccak256(
-                        abi.encodePacked(
-                            hex"ff",
-                            factory,
-                            keccak256(abi.encodePacked(token0, token1)),
-                            keccak256(bytecode)
-                        )
-                    )
-                )
-            )
-        );
+        pair = IPancakeFactory(factory).getPair(token0, token1);
     }
 
     // fetches and sorts the reserves for a pair
@@ -54,7 +40,6 @@ library PancakeLib {
         address tokenB
     ) internal view returns (uint256 reserveA, uint256 reserveB) {
         (address token0, ) = sortTokens(tokenA, tokenB);
-        pairFor(factory, tokenA, tokenB);
         (uint112 reserve0, uint112 reserve1, ) = PancakePair(
             pairFor(factory, tokenA, tokenB)
         ).getReserves();
@@ -6,7 +6,7 @@ import "../../tokens/Dinero.sol";
 contract TestDineroV2 is Dinero {
     uint256 public state;
 
-    function initializeV2(uint256 _state) external onlyRole(DEVELOPER_ROLE) {
+    function initializeV3(uint256 _state) external onlyRole(DEVELOPER_ROLE) {
         state = _state;
     }
 
@@ -1,9 +1,9 @@
 //SPDX-License-Identifier: MIT
 pragma solidity 0.8.13;
 
-import "../../dinero-markets/InterestBNBBearingMarket.sol";
+import "../../dinero-markets/InterestBearingMarket.sol";
 
-contract TestInterestBNBBearingMarketV2 is InterestBNBBearingMarket {
+contract TestInterestBearingMarketV2 is InterestBearingMarket {
     function version() external pure returns (string memory) {
         return "V2";
     }
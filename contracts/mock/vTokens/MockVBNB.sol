@@ -1,323 +1,72 @@
 //SPDX-License-Identifier: Unlicense
 pragma solidity 0.8.13;
 
-import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
-
-import "../../lib/Math.sol";
-
-import "../ERC20/MockERC20.sol";
+import "./MockVenusMarket.sol";
 
 //solhint-disable
-contract MockVBNB is ERC20 {
-    using Math for uint256;
-
-    event RedeemUnderlying(uint256 amount);
-    event RepayBorrow(uint256 amount);
-    event Redeem(uint256 amount);
-    event Borrow(uint256 amount);
-
-    struct AccountSnapShot {
-        uint256 error;
-        uint256 vTokenBalance;
-        uint256 borrowBalance;
-        uint256 exchangeRateMantissa;
-    }
-
-    address public interestRateModel;
-
-    uint256 public totalReserves;
-
-    uint256 public reserveFactorMantissa;
-
-    mapping(address => uint256) public balanceOfUnderlying;
-
-    AccountSnapShot private _accountSnapShot;
-
-    uint256 public borrowRatePerBlock;
-
-    uint256 public supplyRatePerBlock;
-
-    mapping(address => uint256) public borrowBalanceCurrent;
-
-    mapping(address => uint256) public borrowBalanceStored;
-
-    uint256 public exchangeRateCurrent;
-
-    uint256 public exchangeRateStored;
-
-    uint256 public getCash;
-
-    uint256 public accrueInterest;
-
-    uint256 private _seize;
 
+/**
+ * @dev The Venus BNB market for the local BSC stand-in. BNB is sent with {mint} and {repayBorrow} instead of being transferred from the caller.
+ */
+contract MockVBNB is MockVenusMarket {
     address public constant underlying = address(0);
 
-    uint256 public totalBorrowsCurrent;
-
-    // Because we do not want to add complexity by mocking the Venus Controller
-    uint256 public _collateralFactor;
-
-    struct ReturnValue {
-        uint128 borrow;
-        uint128 redeemUnderlying;
-        uint128 redeem;
-        uint128 repay;
-        uint128 mint;
-    }
-
-    ReturnValue public returnValues;
-
     constructor(
         string memory name,
         string memory symbol,
-        uint256 initialSupply
-    ) ERC20(name, symbol) {
-        _mint(_msgSender(), initialSupply);
-    }
-
-    function getAccountSnapshot(address)
-        external
-        view
-        returns (
-            uint256,
-            uint256,
-            uint256,
-            uint256
+        MockVenusController _comptroller,
+        address _interestRateModel,
+        uint256 _initialExchangeRateMantissa,
+        uint256 _reserveFactorMantissa
+    )
+        MockVenusMarket(
+            name,
+            symbol,
+            _comptroller,
+            _interestRateModel,
+            _initialExchangeRateMantissa,
+            _reserveFactorMantissa
         )
-    {
-        return (
-            _accountSnapShot.error,
-            _accountSnapShot.vTokenBalance,
-            _accountSnapShot.borrowBalance,
-            _accountSnapShot.exchangeRateMantissa
-        );
-    }
-
-    function seize(
-        address,
-        address,
-        uint256
-    ) external view returns (uint256) {
-        return _seize;
-    }
-
-    // To mimic the decimals of cEther
-    function decimals() public pure override(ERC20) returns (uint8) {
-        return 8;
-    }
-
-    function mint(uint256) public payable returns (uint256) {
-        uint256 value = returnValues.mint;
-
-        if (value > 0) return value;
-
-        balanceOfUnderlying[msg.sender] += msg.value;
-
-        _mint(_msgSender(), msg.value.wadDiv(exchangeRateCurrent));
-
-        return 0;
-    }
+    {}
 
     receive() external payable {
-        mint(msg.value);
+        mint();
     }
 
-    function redeem(uint256 amount) external returns (uint256) {
-        uint256 value = returnValues.redeem;
-
-        if (value > 0) return value;
-
-        uint256 underlyingAmount = amount.wadMul(exchangeRateCurrent);
-
-        if (
-            (balanceOfUnderlying[msg.sender] - underlyingAmount).wadDiv(
-                _collateralFactor
-            ) >= borrowBalanceCurrent[msg.sender]
-        ) {
-            payable(msg.sender).transfer(underlyingAmount);
-            _burn(msg.sender, amount);
-            emit Redeem(amount);
-            return 0;
-        }
-
-        return 1;
+    function mint() public payable {
+        accrueInterest();
+        require(_mintFresh(_msgSender(), msg.value) == NO_ERROR, "mint failed");
     }
 
-    function redeemUnderlying(uint256 amount) external returns (uint256) {
-        uint256 value = returnValues.redeemUnderlying;
-
-        if (value > 0) return value;
-
-        if (
-            (balanceOfUnderlying[msg.sender] - amount).wadMul(
-                _collateralFactor
-            ) >= borrowBalanceCurrent[msg.sender]
-        ) {
-            balanceOfUnderlying[msg.sender] -= amount;
-            payable(msg.sender).transfer(amount);
-            _burn(msg.sender, amount.wadDiv(exchangeRateCurrent));
-            emit RedeemUnderlying(amount);
-            return 0;
-        }
-
-        return 1;
-    }
-
-    function borrow(uint256 amount) external returns (uint256) {
-        uint256 value = returnValues.borrow;
-
-        if (value > 0) return value;
-
-        if (
-            (balanceOfUnderlying[msg.sender]).wadMul(_collateralFactor) >=
-            borrowBalanceCurrent[msg.sender] + amount
-        ) {
-            borrowBalanceCurrent[msg.sender] += amount;
-            payable(msg.sender).transfer(amount);
-            emit Borrow(amount);
-            return 0;
-        }
-
-        return 1;
-    }
-
-    function repayBorrow(uint256) external payable returns (uint256) {
-        uint256 value = returnValues.repay;
-
-        if (value > 0) return value;
-
-        borrowBalanceCurrent[msg.sender] -= msg.value;
-
-        emit RepayBorrow(msg.value);
-
-        return 0;
-    }
-
-    function repayBorrowBehalf(address, uint256)
-        external
-        pure
-        returns (uint256)
-    {
-        return 0;
-    }
-
-    function liquidateBorrow(
-        address,
-        uint256,
-        address
-    ) external pure returns (uint256) {
-        return 0;
+    function repayBorrow() external payable {
+        accrueInterest();
+        require(
+            _repayBorrowFresh(_msgSender(), _msgSender(), msg.value) ==
+                NO_ERROR,
+            "repayBorrow failed"
+        );
     }
 
-    function __setInterestRateModel(address _interestRateModel) external {
-        interestRateModel = _interestRateModel;
+    function repayBorrowBehalf(address borrower) external payable {
+        accrueInterest();
+        require(
+            _repayBorrowFresh(_msgSender(), borrower, msg.value) == NO_ERROR,
+            "repayBorrowBehalf failed"
+        );
     }
 
-    function __setTotalReserves(uint256 _totalReserves) external {
-        totalReserves = _totalReserves;
+    function _getCashPrior() internal view override returns (uint256) {
+        return address(this).balance - msg.value;
     }
 
-    function __setReserveFactorMantissa(uint256 _reserveFactorMantissa)
-        external
-    {
-        reserveFactorMantissa = _reserveFactorMantissa;
+    function _doTransferIn(address, uint256 amount) internal override {
+        require(msg.value == amount, "value mismatch");
     }
 
-    function __setBalanceOfUnderlying(address account, uint256 amount)
-        external
+    function _doTransferOut(address payable to, uint256 amount)
+        internal
+        override
     {
-        balanceOfUnderlying[account] = amount;
-    }
-
-    function __setAccountSnapShot(
-        uint256 err,
-        uint256 vTokenBalance,
-        uint256 borrowBalance,
-        uint256 exchangeRateMantissa
-    ) external {
-        _accountSnapShot.error = err;
-        _accountSnapShot.vTokenBalance = vTokenBalance;
-        _accountSnapShot.vTokenBalance = borrowBalance;
-        _accountSnapShot.exchangeRateMantissa = exchangeRateMantissa;
-    }
-
-    function __setBorrowRatePerBlock(uint256 _borrowRatePerBlock) external {
-        borrowRatePerBlock = _borrowRatePerBlock;
-    }
-
-    function __setSupplyRatePerBlock(uint256 _supplyRatePerBlock) external {
-        supplyRatePerBlock = _supplyRatePerBlock;
-    }
-
-    function __setBorrowBalanceCurrent(
-        address account,
-        uint256 _borrowBalanceCurrent
-    ) external {
-        borrowBalanceCurrent[account] = _borrowBalanceCurrent;
-    }
-
-    function __setBorrowBalanceStored(
-        address account,
-        uint256 _borrowBalanceStored
-    ) external {
-        borrowBalanceStored[account] = _borrowBalanceStored;
-    }
-
-    function __setExchangeRateCurrent(uint256 _exchangeRateCurrent) external {
-        exchangeRateCurrent = _exchangeRateCurrent;
-    }
-
-    function __setExchangeRateStored(uint256 _exchangeRateStored) external {
-        exchangeRateStored = _exchangeRateStored;
-    }
-
-    function __setCash(uint256 cash) external {
-        getCash = cash;
-    }
-
-    function __setAccrueInterest(uint256 _accrueInterest) external {
-        accrueInterest = _accrueInterest;
-    }
-
-    function __setSeize(uint256 amount) external {
-        _seize = amount;
-    }
-
-    function __setRedeemReturn(uint128 amount) external {
-        returnValues.redeem = amount;
-    }
-
-    function __setRedeemUnderlyingReturn(uint128 amount) external {
-        returnValues.redeemUnderlying = amount;
-    }
-
-    function __setTotalBorrowsCurrent(uint256 amount) external {
-        totalBorrowsCurrent = amount;
-    }
-
-    function __setBorrowReturn(uint128 amount) external {
-        returnValues.borrow = amount;
-    }
-
-    function __setRepayReturnValue(uint128 amount) external {
-        returnValues.repay = amount;
-    }
-
-    function __setMintReturn(uint128 amount) external {
-        returnValues.mint = amount;
-    }
-
-    // Because we do not want to add complexity by mocking the Venus Controller
-    function __setCollateralFactor(uint256 amount) external {
-        _collateralFactor = amount;
-    }
-
-    function __increaseBorrow(address account, uint256 amount) external {
-        borrowBalanceCurrent[account] += amount;
-    }
-
-    function __addSupply(uint256 amount) external {
-        MockERC20(underlying).mint(address(this), amount);
+        to.transfer(amount);
     }
 }
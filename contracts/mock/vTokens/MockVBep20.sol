@@ -0,0 +1,72 @@
+//SPDX-License-Identifier: Unlicense
+pragma solidity 0.8.13;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+import "./MockVenusMarket.sol";
+
+//solhint-disable
+
+/**
+ * @dev A Venus market of an ERC20 `underlying` for the local BSC stand-in.
+ */
+contract MockVBep20 is MockVenusMarket {
+    using SafeERC20 for IERC20;
+
+    address public underlying;
+
+    constructor(
+        string memory name,
+        string memory symbol,
+        MockVenusController _comptroller,
+        address _interestRateModel,
+        uint256 _initialExchangeRateMantissa,
+        uint256 _reserveFactorMantissa,
+        address _underlying
+    )
+        MockVenusMarket(
+            name,
+            symbol,
+            _comptroller,
+            _interestRateModel,
+            _initialExchangeRateMantissa,
+            _reserveFactorMantissa
+        )
+    {
+        underlying = _underlying;
+    }
+
+    function mint(uint256 mintAmount) external returns (uint256) {
+        accrueInterest();
+        return _mintFresh(_msgSender(), mintAmount);
+    }
+
+    function repayBorrow(uint256 repayAmount) external returns (uint256) {
+        accrueInterest();
+        return _repayBorrowFresh(_msgSender(), _msgSender(), repayAmount);
+    }
+
+    function repayBorrowBehalf(address borrower, uint256 repayAmount)
+        external
+        returns (uint256)
+    {
+        accrueInterest();
+        return _repayBorrowFresh(_msgSender(), borrower, repayAmount);
+    }
+
+    function _getCashPrior() internal view override returns (uint256) {
+        return IERC20(underlying).balanceOf(address(this));
+    }
+
+    function _doTransferIn(address from, uint256 amount) internal override {
+        IERC20(underlying).safeTransferFrom(from, address(this), amount);
+    }
+
+    function _doTransferOut(address payable to, uint256 amount)
+        internal
+        override
+    {
+        IERC20(underlying).safeTransfer(to, amount);
+    }
+}
@@ -0,0 +1,364 @@
+//SPDX-License-Identifier: Unlicense
+pragma solidity 0.8.13;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+import "../../interfaces/IVenusInterestRateModel.sol";
+
+import "../../lib/Math.sol";
+
+import "../MockVenusController.sol";
+
+//solhint-disable
+
+/**
+ * @dev A simplified Venus VToken for the local BSC stand-in. It keeps the accounting of Venus: interest accrues every block with the {interestRateModel},
+ * which grows the exchange rate and the borrow balances. The {comptroller} checks the liquidity of the accounts and distributes the XVS rewards.
+ *
+ * @notice Like Venus, failures return an error code instead of reverting.
+ */
+abstract contract MockVenusMarket is ERC20 {
+    using Math for uint256;
+
+    event AccrueInterest(
+        uint256 cashPrior,
+        uint256 interestAccumulated,
+        uint256 borrowIndex,
+        uint256 totalBorrows
+    );
+
+    event Mint(address minter, uint256 mintAmount, uint256 mintTokens);
+
+    event Redeem(address redeemer, uint256 redeemAmount, uint256 redeemTokens);
+
+    event Borrow(
+        address borrower,
+        uint256 borrowAmount,
+        uint256 accountBorrows,
+        uint256 totalBorrows
+    );
+
+    event RepayBorrow(
+        address payer,
+        address borrower,
+        uint256 repayAmount,
+        uint256 accountBorrows,
+        uint256 totalBorrows
+    );
+
+    struct BorrowSnapshot {
+        uint256 principal;
+        uint256 interestIndex;
+    }
+
+    // Error codes of Venus
+    uint256 internal constant NO_ERROR = 0;
+    uint256 internal constant COMPTROLLER_REJECTION = 3;
+    uint256 internal constant INSUFFICIENT_BALANCE = 13;
+    uint256 internal constant TOKEN_INSUFFICIENT_CASH = 14;
+
+    bool public constant isVToken = true;
+
+    MockVenusController public immutable comptroller;
+
+    uint256 internal immutable initialExchangeRateMantissa;
+
+    address public interestRateModel;
+
+    uint256 public reserveFactorMantissa;
+
+    uint256 public accrualBlockNumber;
+
+    uint256 public borrowIndex;
+
+    uint256 public totalBorrows;
+
+    uint256 public totalReserves;
+
+    mapping(address => BorrowSnapshot) internal accountBorrows;
+
+    constructor(
+        string memory name,
+        string memory symbol,
+        MockVenusController _comptroller,
+        address _interestRateModel,
+        uint256 _initialExchangeRateMantissa,
+        uint256 _reserveFactorMantissa
+    ) ERC20(name, symbol) {
+        comptroller = _comptroller;
+        interestRateModel = _interestRateModel;
+        initialExchangeRateMantissa = _initialExchangeRateMantissa;
+        reserveFactorMantissa = _reserveFactorMantissa;
+        accrualBlockNumber = block.number;
+        borrowIndex = 1 ether;
+    }
+
+    function decimals() public pure override(ERC20) returns (uint8) {
+        return 8;
+    }
+
+    function getCash() external view returns (uint256) {
+        return _getCashPrior();
+    }
+
+    function exchangeRateStored() public view returns (uint256) {
+        uint256 supply = totalSupply();
+
+        if (supply == 0) return initialExchangeRateMantissa;
+
+        return (_getCashPrior() + totalBorrows - totalReserves).wadDiv(supply);
+    }
+
+    function exchangeRateCurrent() external returns (uint256) {
+        accrueInterest();
+        return exchangeRateStored();
+    }
+
+    function borrowBalanceStored(address account)
+        public
+        view
+        returns (uint256)
+    {
+        BorrowSnapshot memory snapshot = accountBorrows[account];
+
+        if (snapshot.principal == 0) return 0;
+
+        return snapshot.principal.mulDiv(borrowIndex, snapshot.interestIndex);
+    }
+
+    function borrowBalanceCurrent(address account) external returns (uint256) {
+        accrueInterest();
+        return borrowBalanceStored(account);
+    }
+
+    function totalBorrowsCurrent() external returns (uint256) {
+        accrueInterest();
+        return totalBorrows;
+    }
+
+    function balanceOfUnderlying(address account) external returns (uint256) {
+        accrueInterest();
+        return balanceOf(account).wadMul(exchangeRateStored());
+    }
+
+    function getAccountSnapshot(address account)
+        external
+        view
+        returns (
+            uint256,
+            uint256,
+            uint256,
+            uint256
+        )
+    {
+        return (
+            NO_ERROR,
+            balanceOf(account),
+            borrowBalanceStored(account),
+            exchangeRateStored()
+        );
+    }
+
+    function borrowRatePerBlock() external view returns (uint256) {
+        return
+            IVenusInterestRateModel(interestRateModel).getBorrowRate(
+                _getCashPrior(),
+                totalBorrows,
+                totalReserves
+            );
+    }
+
+    function supplyRatePerBlock() external view returns (uint256) {
+        return
+            IVenusInterestRateModel(interestRateModel).getSupplyRate(
+                _getCashPrior(),
+                totalBorrows,
+                totalReserves,
+                reserveFactorMantissa
+            );
+    }
+
+    function accrueInterest() public returns (uint256) {
+        uint256 currentBlockNumber = block.number;
+
+        if (accrualBlockNumber == currentBlockNumber) return NO_ERROR;
+
+        uint256 cashPrior = _getCashPrior();
+        uint256 borrowsPrior = totalBorrows;
+
+        uint256 simpleInterestFactor = IVenusInterestRateModel(
+            interestRateModel
+        ).getBorrowRate(cashPrior, borrowsPrior, totalReserves) *
+            (currentBlockNumber - accrualBlockNumber);
+
+        uint256 interestAccumulated = simpleInterestFactor.wadMul(borrowsPrior);
+
+        totalBorrows = borrowsPrior + interestAccumulated;
+        totalReserves += reserveFactorMantissa.wadMul(interestAccumulated);
+        borrowIndex += simpleInterestFactor.wadMul(borrowIndex);
+        accrualBlockNumber = currentBlockNumber;
+
+        emit AccrueInterest(
+            cashPrior,
+            interestAccumulated,
+            borrowIndex,
+            totalBorrows
+        );
+
+        return NO_ERROR;
+    }
+
+    function redeem(uint256 redeemTokens) external returns (uint256) {
+        accrueInterest();
+        return
+            _redeemFresh(
+                payable(_msgSender()),
+                redeemTokens,
+                redeemTokens.wadMul(exchangeRateStored())
+            );
+    }
+
+    function redeemUnderlying(uint256 redeemAmount) external returns (uint256) {
+        accrueInterest();
+        return
+            _redeemFresh(
+                payable(_msgSender()),
+                redeemAmount.wadDiv(exchangeRateStored()),
+                redeemAmount
+            );
+    }
+
+    function borrow(uint256 borrowAmount) external returns (uint256) {
+        accrueInterest();
+
+        address borrower = _msgSender();
+
+        if (
+            comptroller.borrowAllowed(address(this), borrower, borrowAmount) !=
+            NO_ERROR
+        ) return COMPTROLLER_REJECTION;
+
+        if (borrowAmount > _getCashPrior()) return TOKEN_INSUFFICIENT_CASH;
+
+        uint256 accountBorrowsNew = borrowBalanceStored(borrower) +
+            borrowAmount;
+        uint256 totalBorrowsNew = totalBorrows + borrowAmount;
+
+        accountBorrows[borrower] = BorrowSnapshot(
+            accountBorrowsNew,
+            borrowIndex
+        );
+        totalBorrows = totalBorrowsNew;
+
+        _doTransferOut(payable(borrower), borrowAmount);
+
+        emit Borrow(borrower, borrowAmount, accountBorrowsNew, totalBorrowsNew);
+
+        return NO_ERROR;
+    }
+
+    function _mintFresh(address minter, uint256 mintAmount)
+        internal
+        returns (uint256)
+    {
+        if (
+            comptroller.mintAllowed(address(this), minter, mintAmount) !=
+            NO_ERROR
+        ) return COMPTROLLER_REJECTION;
+
+        // The exchange rate does not include the `mintAmount`.
+        uint256 exchangeRate = exchangeRateStored();
+
+        _doTransferIn(minter, mintAmount);
+
+        uint256 mintTokens = mintAmount.wadDiv(exchangeRate);
+
+        _mint(minter, mintTokens);
+
+        emit Mint(minter, mintAmount, mintTokens);
+
+        return NO_ERROR;
+    }
+
+    function _redeemFresh(
+        address payable redeemer,
+        uint256 redeemTokens,
+        uint256 redeemAmount
+    ) internal returns (uint256) {
+        if (
+            comptroller.redeemAllowed(address(this), redeemer, redeemTokens) !=
+            NO_ERROR
+        ) return COMPTROLLER_REJECTION;
+
+        if (redeemTokens > balanceOf(redeemer)) return INSUFFICIENT_BALANCE;
+
+        if (redeemAmount > _getCashPrior()) return TOKEN_INSUFFICIENT_CASH;
+
+        _burn(redeemer, redeemTokens);
+
+        _doTransferOut(redeemer, redeemAmount);
+
+        emit Redeem(redeemer, redeemAmount, redeemTokens);
+
+        return NO_ERROR;
+    }
+
+    function _repayBorrowFresh(
+        address payer,
+        address borrower,
+        uint256 repayAmount
+    ) internal returns (uint256) {
+        if (comptroller.repayBorrowAllowed(address(this), borrower) != NO_ERROR)
+            return COMPTROLLER_REJECTION;
+
+        uint256 accountBorrowsPrior = borrowBalanceStored(borrower);
+
+        if (repayAmount == type(uint256).max) repayAmount = accountBorrowsPrior;
+
+        _doTransferIn(payer, repayAmount);
+
+        uint256 accountBorrowsNew = accountBorrowsPrior - repayAmount;
+        uint256 totalBorrowsNew = totalBorrows - repayAmount;
+
+        accountBorrows[borrower] = BorrowSnapshot(
+            accountBorrowsNew,
+            borrowIndex
+        );
+        totalBorrows = totalBorrowsNew;
+
+        emit RepayBorrow(
+            payer,
+            borrower,
+            repayAmount,
+            accountBorrowsNew,
+            totalBorrowsNew
+        );
+
+        return NO_ERROR;
+    }
+
+    /**
+     * @dev Transfers of VTokens can make an account insolvent and change the XVS rewards.
+     */
+    function _beforeTokenTransfer(
+        address from,
+        address to,
+        uint256 amount
+    ) internal override {
+        if (from == address(0) || to == address(0)) return;
+
+        require(
+            comptroller.transferAllowed(address(this), from, to, amount) ==
+                NO_ERROR,
+            "VToken: transfer not allowed"
+        );
+    }
+
+    function _getCashPrior() internal view virtual returns (uint256);
+
+    function _doTransferIn(address from, uint256 amount) internal virtual;
+
+    function _doTransferOut(address payable to, uint256 amount)
+        internal
+        virtual;
+}
@@ -22,6 +22,7 @@ import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
  * @notice Please note that roles have immense power and need to be granted to secure contracts, multisigs and timelocks.
  * @notice It supports https://eips.ethereum.org/EIPS/eip-2612[EIP-2612].
  * @notice We use the contract version 4.5.0, which gives an infinite allowance.
+ * @notice It tracks the Dinero supply each minter is responsible for in {mintedOf}. The admin can cap it with {mintCeilingOf}, so a bug in one minter cannot inflate the supply unboundedly.
  * @notice This contract is upgradeable using the UUPS pattern with Open Zeppelin plugins. For security, the address with the {DEVELOPER_ROLE} will be a timelock.
  */
 contract Dinero is
@@ -37,6 +38,27 @@ contract Dinero is
     bytes32 public constant MINTER_ROLE = keccak256("MINTER_ROLE");
     bytes32 public constant BURNER_ROLE = keccak256("BURNER_ROLE");
     bytes32 public constant DEVELOPER_ROLE = keccak256("DEVELOPER_ROLE");
+    bytes32 public constant RESERVE_ROLE = keccak256("RESERVE_ROLE");
+
+    /*///////////////////////////////////////////////////////////////
+                                EVENTS
+    //////////////////////////////////////////////////////////////*/
+
+    event MintCeiling(address indexed minter, uint256 ceiling);
+
+    /*///////////////////////////////////////////////////////////////
+                                STATE
+    //////////////////////////////////////////////////////////////*/
+
+    // Minter -> How much Dinero it has minted minus how much Dinero was burned charged to it. It does not go below zero.
+    // Markets burn the interest of repaid loans before minting it as fees with {DineroMarket.getEarnings}. The part of those burns below zero is not credited, so it can only overstate the net supply the minter created.
+    mapping(address => uint256) public mintedOf;
+
+    // Minter -> The maximum {mintedOf} it can have. 0 means it is not capped, so the minters granted before the ceilings keep working until the admin sets them.
+    mapping(address => uint256) public mintCeilingOf;
+
+    // Version of the storage set by {initialize} or {initializeV2}.
+    uint8 private _version;
 
     /*///////////////////////////////////////////////////////////////
                             INITIALIZER
@@ -53,6 +75,56 @@ contract Dinero is
 
         _grantRole(DEFAULT_ADMIN_ROLE, _msgSender());
         _grantRole(DEVELOPER_ROLE, _msgSender());
+
+        _version = 2;
+    }
+
+    /**
+     * @dev Migrates the storage of a Dinero deployed before the mint ceilings.
+     *
+     * @notice The Dinero those minters created before the upgrade is outstanding, but not in their {mintedOf}. It must be seeded with their debt or deposits, so burning it does not reopen their {mintCeilingOf}.
+     *
+     * @param minters The addresses that minted Dinero before the upgrade.
+     * @param minted The Dinero each of the `minters` has outstanding. E.g. the total loan of a market or the total deposits of a vault.
+     *
+     * Requirements:
+     *
+     * - The caller must have the `DEFAULT_ADMIN_ROLE` to prevent front running. It should be called with the upgrade.
+     * - Can only be called once and not by Dinero deployed with {initialize}.
+     * - `minters` and `minted` must have the same length.
+     */
+    function initializeV2(address[] calldata minters, uint256[] calldata minted)
+        external
+        onlyRole(DEFAULT_ADMIN_ROLE)
+    {
+        require(_version < 2, "DNR: already initialized");
+        require(minters.length == minted.length, "DNR: wrong length");
+
+        _version = 2;
+
+        for (uint256 i; i < minters.length; i++) {
+            mintedOf[minters[i]] = minted[i];
+        }
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                            VIEW FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @dev Returns how much Dinero a `minter` can still mint before reaching its {mintCeilingOf}.
+     *
+     * @param minter The address of the minter.
+     * @return uint256 The amount it can mint. It is the maximum uint256 if the `minter` is not capped.
+     */
+    function mintableOf(address minter) external view returns (uint256) {
+        uint256 ceiling = mintCeilingOf[minter];
+
+        if (ceiling == 0) return type(uint256).max;
+
+        uint256 minted = mintedOf[minter];
+
+        return ceiling > minted ? ceiling - minted : 0;
     }
 
     /*///////////////////////////////////////////////////////////////
@@ -70,11 +142,19 @@ contract Dinero is
      * Requirements:
      *
      * - The caller must have the `MINTER_ROLE`
+     * - The {mintedOf} the caller cannot exceed its {mintCeilingOf}.
      */
     function mint(address account, uint256 amount)
         external
         onlyRole(MINTER_ROLE)
     {
+        uint256 minted = mintedOf[_msgSender()] + amount;
+        uint256 ceiling = mintCeilingOf[_msgSender()];
+
+        require(ceiling == 0 || ceiling >= minted, "DNR: mint ceiling reached");
+
+        mintedOf[_msgSender()] = minted;
+
         _mint(account, amount);
     }
 
@@ -82,6 +162,7 @@ contract Dinero is
      * @dev Destroys `amount` tokens from `account`. Only callable by the `BURNER_ROLE` role.
      *
      * @notice Only contracts can have access to this role as it can burn tokens from any account.
+     * @notice The burn is charged to the {mintedOf} the caller.
      *
      * @param account The address whom the tokens will be burned
      * @param amount The number of `DINERO` tokens to burn
@@ -94,6 +175,72 @@ contract Dinero is
         external
         onlyRole(BURNER_ROLE)
     {
+        _burnFor(_msgSender(), account, amount);
+    }
+
+    /**
+     * @dev Destroys `amount` tokens from `account` and charges them to the {mintedOf} the `minter`.
+     *
+     * @notice The {ProtocolReserve} uses it to charge the Dinero it burns for the bad debt of a market to that market, which minted it.
+     *
+     * @param minter The address of the minter, whose {mintedOf} will be reduced.
+     * @param account The address whom the tokens will be burned
+     * @param amount The number of `DINERO` tokens to burn
+     *
+     * Requirements:
+     *
+     * - The caller must have the `RESERVE_ROLE`, so the burners cannot reopen the {mintCeilingOf} other minters.
+     */
+    function burnFor(
+        address minter,
+        address account,
+        uint256 amount
+    ) external onlyRole(RESERVE_ROLE) {
+        _burnFor(minter, account, amount);
+    }
+
+    /**
+     * @dev Sets the maximum Dinero a `minter` can have outstanding.
+     *
+     * @notice It can be lower than the current {mintedOf} the `minter`. It will only be able to mint again after burning the excess.
+     *
+     * @param minter The address of the minter.
+     * @param ceiling The maximum {mintedOf} the `minter`. 0 removes the cap.
+     *
+     * Requirements:
+     *
+     * - The caller must have the `DEFAULT_ADMIN_ROLE`, who grants the `MINTER_ROLE`.
+     */
+    function setMintCeiling(address minter, uint256 ceiling)
+        external
+        onlyRole(DEFAULT_ADMIN_ROLE)
+    {
+        mintCeilingOf[minter] = ceiling;
+
+        emit MintCeiling(minter, ceiling);
+    }
+
+    /*///////////////////////////////////////////////////////////////
+                            PRIVATE FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @dev Burns `amount` from `account` and removes it from the {mintedOf} the `minter`.
+     *
+     * @param minter The address charged for the burn.
+     * @param account The address whom the tokens will be burned
+     * @param amount The number of `DINERO` tokens to burn
+     */
+    function _burnFor(
+        address minter,
+        address account,
+        uint256 amount
+    ) private {
+        uint256 minted = mintedOf[minter];
+
+        // Burning the interest of a loan can be more than what was minted.
+        mintedOf[minter] = minted > amount ? minted - amount : 0;
+
         _burn(account, amount);
     }
 
@@ -11,6 +11,9 @@ import { HardhatUserConfig, task } from 'hardhat/config';
 
 dotenv.config();
 
+// Runs the Hardhat network without forking BSC. Tests use the local BSC stand-in in test/lib/local-bsc.ts.
+const LOCAL = process.env.LOCAL === 'true';
+
 // This is a sample Hardhat task. To learn how to create your own go to
 // https://hardhat.org/guides/create-task.html
 task('accounts', 'Prints the list of accounts', async (taskArguments, hre) => {
@@ -35,11 +38,17 @@ const config: HardhatUserConfig = {
     },
   },
   networks: {
-    hardhat: {
-      forking: {
-        url: process.env.BSC_URL || '',
-        blockNumber: 16_677_000,
-      },
+    hardhat: LOCAL
+      ? {}
+      : {
+          forking: {
+            url: process.env.BSC_URL || '',
+            blockNumber: 16_677_000,
+          },
+        },
+    bsc: {
+      url: process.env.BSC_URL || '',
+      accounts: process.env.PRIVATE_KEY ? [process.env.PRIVATE_KEY] : [],
     },
   },
   gasReporter: {
@@ -0,0 +1,76 @@
+import { BigNumber, BigNumberish, ethers } from 'ethers';
+
+import { DineroMarket } from './batch';
+
+/**
+ * The liquidation fee auction of a borrower. Fees have a base unit of 1e18.
+ *
+ * @param startFee The fee when the auction starts.
+ * @param maxFee The fee at the end of the auction. It is the `liquidationFee` of the market.
+ * @param duration How many seconds it takes to reach the `maxFee`. The auction mode is disabled if it is 0.
+ * @param startedAt The timestamp in which the auction of the borrower started. It is 0 if there is no auction.
+ * @param fee The fee the borrower pays if liquidated at the block it was read.
+ */
+export interface AuctionState {
+  startFee: BigNumber;
+  maxFee: BigNumber;
+  duration: BigNumber;
+  startedAt: BigNumber;
+  fee: BigNumber;
+}
+
+/**
+ * Computes the liquidation fee at `timestamp` with the same math as {DineroMarket.getLiquidationFeeOf}. It is useful to know when an auction becomes profitable.
+ *
+ * @param auction The auction of a borrower.
+ * @param timestamp The timestamp of the liquidation.
+ */
+export const computeLiquidationFee = (
+  { startFee, maxFee, duration, startedAt }: Omit<AuctionState, 'fee'>,
+  timestamp: BigNumberish
+): BigNumber => {
+  if (duration.isZero() || startFee.gte(maxFee)) return maxFee;
+
+  if (startedAt.isZero()) return startFee;
+
+  const elapsedTime = BigNumber.from(timestamp).sub(startedAt);
+
+  if (elapsedTime.gte(duration)) return maxFee;
+
+  return startFee.add(maxFee.sub(startFee).mul(elapsedTime).div(duration));
+};
+
+/**
+ * Reads the liquidation fee auction of an `account`.
+ *
+ * @notice All values are read at the same block.
+ *
+ * @param market Any Dinero market.
+ * @param account The address of the borrower.
+ * @param blockTag The block to read from. Defaults to the latest block.
+ */
+export const getAuctionState = async (
+  market: DineroMarket,
+  account: string,
+  blockTag: ethers.providers.BlockTag = 'latest'
+): Promise<AuctionState> => {
+  const overrides = {
+    blockTag:
+      blockTag === 'latest' ? await market.provider.getBlockNumber() : blockTag,
+  };
+
+  const [auction, maxFee, startedAt, fee] = await Promise.all([
+    market.auction(overrides),
+    market.liquidationFee(overrides),
+    market.auctionStartOf(account, overrides),
+    market.getLiquidationFeeOf(account, overrides),
+  ]);
+
+  return {
+    startFee: auction.startFee,
+    maxFee,
+    duration: auction.duration,
+    startedAt,
+    fee,
+  };
+};
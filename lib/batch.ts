@@ -0,0 +1,231 @@
+import {
+  BigNumber,
+  BigNumberish,
+  ContractTransaction,
+  Overrides,
+} from 'ethers';
+
+import {
+  InterestBearingMarket,
+  InterestBNBMarket,
+  InterestERC20Market,
+} from '../typechain';
+import {
+  encodeAddCollateral,
+  encodeBorrow,
+  EncodedRequest,
+  encodeLeverage,
+  encodeRepay,
+  encodeRepayWithCollateral,
+  encodeRequests,
+  encodeWithdrawCollateral,
+  isBNBMarket,
+  MarketKind,
+  StandardMarketKind,
+} from './encoding';
+import { decodeRevertReason, MarketError } from './errors';
+
+export type StandardMarket = InterestBNBMarket | InterestERC20Market;
+
+export type BearingMarket = InterestBearingMarket;
+
+export type DineroMarket = StandardMarket | BearingMarket;
+
+/**
+ * Arguments of the `request` function.
+ */
+export interface BatchRequest {
+  requests: Array<number>;
+  requestArgs: Array<string>;
+  value: BigNumber;
+}
+
+// Actions are encoded once the sender is known, as it is the default recipient.
+type PendingRequest = (sender: string) => EncodedRequest;
+
+/**
+ * Builds a list of actions executed atomically by the `request` function of a market.
+ *
+ * @notice The market only checks the solvency of the sender after the last action.
+ */
+abstract class MarketBatch<T extends DineroMarket> {
+  protected readonly pending: Array<PendingRequest> = [];
+
+  public readonly market: T;
+
+  protected readonly kind: MarketKind;
+
+  constructor(market: T, kind: MarketKind) {
+    this.market = market;
+    this.kind = kind;
+  }
+
+  /**
+   * @param to The account that will receive the Dinero.
+   * @param amount The amount of Dinero to borrow.
+   */
+  borrow(to: string, amount: BigNumberish): this {
+    this.pending.push(() => encodeBorrow(to, amount));
+    return this;
+  }
+
+  /**
+   * @param account The account whose loan will be repaid.
+   * @param principal The principal to repay. The sender pays it plus the accrued interest.
+   */
+  repay(account: string, principal: BigNumberish): this {
+    this.pending.push(() => encodeRepay(account, principal));
+    return this;
+  }
+
+  /**
+   * @returns The arguments and the BNB value of the `request` call.
+   */
+  async build(): Promise<BatchRequest> {
+    const sender = await this.market.signer.getAddress();
+    return encodeRequests(this.pending.map((request) => request(sender)));
+  }
+
+  /**
+   * Sends the batch. Reverts are rethrown as a {MarketError} with the decoded reason.
+   */
+  async send(overrides: Overrides = {}): Promise<ContractTransaction> {
+    const { requests, requestArgs, value } = await this.build();
+
+    try {
+      return await this.market.request(
+        requests,
+        requestArgs,
+        isBNBMarket(this.kind) ? { ...overrides, value } : overrides
+      );
+    } catch (error) {
+      const reason = decodeRevertReason(error);
+      throw reason ? new MarketError(reason, error) : error;
+    }
+  }
+
+  /**
+   * Simulates the batch. Resolves to the revert reason or undefined if it succeeds.
+   */
+  async simulate(overrides: Overrides = {}): Promise<string | undefined> {
+    const { requests, requestArgs, value } = await this.build();
+
+    try {
+      await this.market.callStatic.request(
+        requests,
+        requestArgs,
+        isBNBMarket(this.kind) ? { ...overrides, value } : overrides
+      );
+    } catch (error) {
+      const reason = decodeRevertReason(error);
+      if (!reason) throw error;
+      return reason;
+    }
+  }
+}
+
+/**
+ * Batch for {InterestBNBMarket} and {InterestERC20Market}.
+ */
+export class StandardMarketBatch<
+  T extends StandardMarket = StandardMarket
+> extends MarketBatch<T> {
+  /**
+   * @param amount The amount of collateral. BNB markets send it as value.
+   * @param to The account that will own the collateral. Defaults to the sender.
+   */
+  addCollateral(amount: BigNumberish, to?: string): this {
+    this.pending.push((sender) =>
+      encodeAddCollateral(this.kind, amount, to ?? sender)
+    );
+    return this;
+  }
+
+  /**
+   * @param amount The amount of collateral.
+   * @param to The account that will receive the collateral. Defaults to the sender.
+   */
+  withdrawCollateral(amount: BigNumberish, to?: string): this {
+    this.pending.push((sender) =>
+      encodeWithdrawCollateral(this.kind, amount, to ?? sender)
+    );
+    return this;
+  }
+
+  /**
+   * Sells the collateral of the sender in PCS and repays his own loan without a liquidation fee.
+   *
+   * @param amount The amount of collateral to sell.
+   * @param principal The principal to repay. If it is higher than the loan, the whole loan is repaid.
+   * @param minAmountOut The minimum amount of Dinero the sale must return.
+   * @param path The swap path from the collateral to Dinero. Or the path of the token0 if the collateral is a PCS pair.
+   * @param path2 The swap path of the token1 if the collateral is a PCS pair.
+   */
+  repayWithCollateral(
+    amount: BigNumberish,
+    principal: BigNumberish,
+    minAmountOut: BigNumberish,
+    path: ReadonlyArray<string>,
+    path2: ReadonlyArray<string> = []
+  ): this {
+    this.pending.push(() =>
+      encodeRepayWithCollateral(
+        this.kind as StandardMarketKind,
+        amount,
+        principal,
+        minAmountOut,
+        path,
+        path2
+      )
+    );
+    return this;
+  }
+
+  /**
+   * Borrows Dinero, buys collateral in PCS and adds it to the position of the sender until he reaches `targetLTV`.
+   *
+   * @param targetLTV The loan to value ratio to reach with a base unit of 1e18.
+   * @param loops The maximum number of times to borrow and buy collateral.
+   * @param minAmountOut The minimum amount of collateral all loops must buy.
+   * @param path The swap path from Dinero to the collateral.
+   */
+  leverage(
+    targetLTV: BigNumberish,
+    loops: BigNumberish,
+    minAmountOut: BigNumberish,
+    path: ReadonlyArray<string>
+  ): this {
+    this.pending.push(() =>
+      encodeLeverage(targetLTV, loops, minAmountOut, path)
+    );
+    return this;
+  }
+}
+
+/**
+ * Batch for {InterestBearingMarket}.
+ */
+export class BearingMarketBatch<
+  T extends BearingMarket = BearingMarket
+> extends MarketBatch<T> {
+  /**
+   * @param amount The amount of underlying collateral. BNB markets send it as value.
+   */
+  addCollateral(amount: BigNumberish): this {
+    this.pending.push((sender) =>
+      encodeAddCollateral(this.kind, amount, sender)
+    );
+    return this;
+  }
+
+  /**
+   * @param amount The amount of VTokens to withdraw.
+   * @param inUnderlying If true, the VTokens are redeemed and the sender receives the underlying.
+   */
+  withdrawCollateral(amount: BigNumberish, inUnderlying = false): this {
+    this.pending.push((sender) =>
+      encodeWithdrawCollateral(this.kind, amount, sender, inUnderlying)
+    );
+    return this;
+  }
+}
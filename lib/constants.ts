@@ -0,0 +1,23 @@
+/**
+ * Actions accepted by the `request` function of the Dinero markets.
+ * They must match the constants in {DineroMarket}.
+ */
+export const ADD_COLLATERAL_REQUEST = 0;
+
+export const WITHDRAW_COLLATERAL_REQUEST = 1;
+
+export const BORROW_REQUEST = 2;
+
+export const REPAY_REQUEST = 3;
+
+export const REPAY_WITH_COLLATERAL_REQUEST = 4;
+
+export const LEVERAGE_REQUEST = 5;
+
+export type MarketRequest =
+  | typeof ADD_COLLATERAL_REQUEST
+  | typeof WITHDRAW_COLLATERAL_REQUEST
+  | typeof BORROW_REQUEST
+  | typeof REPAY_REQUEST
+  | typeof REPAY_WITH_COLLATERAL_REQUEST
+  | typeof LEVERAGE_REQUEST;
@@ -0,0 +1,181 @@
+import { BigNumber, BigNumberish } from 'ethers';
+import { defaultAbiCoder } from 'ethers/lib/utils';
+
+import {
+  ADD_COLLATERAL_REQUEST,
+  BORROW_REQUEST,
+  LEVERAGE_REQUEST,
+  MarketRequest,
+  REPAY_REQUEST,
+  REPAY_WITH_COLLATERAL_REQUEST,
+  WITHDRAW_COLLATERAL_REQUEST,
+} from './constants';
+
+/**
+ * Markets that hold the collateral as is. They accept a recipient when adding and withdrawing collateral.
+ */
+export type StandardMarketKind = 'InterestBNBMarket' | 'InterestERC20Market';
+
+/**
+ * An {InterestBearingMarket} of vBNB or of an ERC20 vToken. They deposit the collateral in Venus. The collateral is always credited to the sender and can be withdrawn in VTokens or in the underlying.
+ */
+export type BearingMarketKind =
+  | 'InterestBNBBearingMarket'
+  | 'InterestERC20BearingMarket';
+
+export type MarketKind = StandardMarketKind | BearingMarketKind;
+
+/**
+ * A single action of a `request` call.
+ *
+ * @param action The request action from `./constants`.
+ * @param data The ABI encoded arguments of the action.
+ * @param value The BNB that must be sent with the action.
+ */
+export interface EncodedRequest {
+  action: MarketRequest;
+  data: string;
+  value: BigNumber;
+}
+
+export const isBNBMarket = (kind: MarketKind): boolean =>
+  kind === 'InterestBNBMarket' || kind === 'InterestBNBBearingMarket';
+
+export const isBearingMarket = (kind: MarketKind): kind is BearingMarketKind =>
+  kind === 'InterestBNBBearingMarket' || kind === 'InterestERC20BearingMarket';
+
+/**
+ * @param kind The market receiving the collateral.
+ * @param amount The amount of collateral. BNB markets require the same amount of BNB to be sent.
+ * @param to The account that will own the collateral. It is ignored by the bearing markets, which always credit the sender.
+ */
+export const encodeAddCollateral = (
+  kind: MarketKind,
+  amount: BigNumberish,
+  to: string
+): EncodedRequest => ({
+  action: ADD_COLLATERAL_REQUEST,
+  data: isBearingMarket(kind)
+    ? defaultAbiCoder.encode(['uint256'], [amount])
+    : defaultAbiCoder.encode(['address', 'uint256'], [to, amount]),
+  value: isBNBMarket(kind) ? BigNumber.from(amount) : BigNumber.from(0),
+});
+
+/**
+ * @param kind The market holding the collateral.
+ * @param amount The amount of collateral. Bearing markets expect it in VTokens.
+ * @param to The account that will receive the collateral. It is ignored by the bearing markets, which always send it to the sender.
+ * @param inUnderlying Bearing markets only. If true, the collateral is redeemed from Venus before being sent.
+ */
+export const encodeWithdrawCollateral = (
+  kind: MarketKind,
+  amount: BigNumberish,
+  to: string,
+  inUnderlying = false
+): EncodedRequest => ({
+  action: WITHDRAW_COLLATERAL_REQUEST,
+  data: isBearingMarket(kind)
+    ? defaultAbiCoder.encode(['uint256', 'bool'], [amount, inUnderlying])
+    : defaultAbiCoder.encode(['address', 'uint256'], [to, amount]),
+  value: BigNumber.from(0),
+});
+
+/**
+ * @param to The account that will receive the Dinero.
+ * @param amount The amount of Dinero to borrow.
+ */
+export const encodeBorrow = (
+  to: string,
+  amount: BigNumberish
+): EncodedRequest => ({
+  action: BORROW_REQUEST,
+  data: defaultAbiCoder.encode(['address', 'uint256'], [to, amount]),
+  value: BigNumber.from(0),
+});
+
+/**
+ * @param account The account whose loan will be repaid.
+ * @param principal The principal to repay. The sender pays the principal plus the accrued interest in Dinero.
+ */
+export const encodeRepay = (
+  account: string,
+  principal: BigNumberish
+): EncodedRequest => ({
+  action: REPAY_REQUEST,
+  data: defaultAbiCoder.encode(['address', 'uint256'], [account, principal]),
+  value: BigNumber.from(0),
+});
+
+/**
+ * Only {InterestBNBMarket} and {InterestERC20Market} accept it. The sender sells his own collateral in PCS and repays his loan without a liquidation fee.
+ *
+ * @param kind The market holding the collateral.
+ * @param amount The amount of collateral to sell.
+ * @param principal The principal to repay. If it is higher than the loan, the whole loan is repaid.
+ * @param minAmountOut The minimum amount of Dinero the sale must return. The sender keeps what is not used to repay.
+ * @param path The swap path from the collateral to Dinero. It starts with WBNB in BNB markets. Or the path of the token0 if the collateral is a PCS pair.
+ * @param path2 The swap path of the token1 if the collateral is a PCS pair. It is ignored by the BNB markets.
+ */
+export const encodeRepayWithCollateral = (
+  kind: StandardMarketKind,
+  amount: BigNumberish,
+  principal: BigNumberish,
+  minAmountOut: BigNumberish,
+  path: ReadonlyArray<string>,
+  path2: ReadonlyArray<string> = []
+): EncodedRequest => ({
+  action: REPAY_WITH_COLLATERAL_REQUEST,
+  data: isBNBMarket(kind)
+    ? defaultAbiCoder.encode(
+        ['uint256', 'uint256', 'uint256', 'address[]'],
+        [amount, principal, minAmountOut, path]
+      )
+    : defaultAbiCoder.encode(
+        ['uint256', 'uint256', 'uint256', 'address[]', 'address[]'],
+        [amount, principal, minAmountOut, path, path2]
+      ),
+  value: BigNumber.from(0),
+});
+
+/**
+ * Only {InterestBNBMarket} and {InterestERC20Market} accept it. The sender borrows Dinero, buys collateral in PCS and adds it to his own position until he reaches `targetLTV`. PCS pair collateral is not supported.
+ *
+ * @param targetLTV The loan to value ratio to reach with a base unit of 1e18. It must be lower than the `maxLTVRatio` of the market.
+ * @param loops The maximum number of times to borrow and buy collateral.
+ * @param minAmountOut The minimum amount of collateral all loops must buy.
+ * @param path The swap path from Dinero to the collateral. It ends with WBNB in BNB markets.
+ */
+export const encodeLeverage = (
+  targetLTV: BigNumberish,
+  loops: BigNumberish,
+  minAmountOut: BigNumberish,
+  path: ReadonlyArray<string>
+): EncodedRequest => ({
+  action: LEVERAGE_REQUEST,
+  data: defaultAbiCoder.encode(
+    ['uint256', 'uint256', 'uint256', 'address[]'],
+    [targetLTV, loops, minAmountOut, path]
+  ),
+  value: BigNumber.from(0),
+});
+
+/**
+ * Packs a list of actions in the arguments of the `request` function.
+ */
+export const encodeRequests = (
+  requests: ReadonlyArray<EncodedRequest>
+): {
+  requests: Array<MarketRequest>;
+  requestArgs: Array<string>;
+  value: BigNumber;
+} => {
+  let value = BigNumber.from(0);
+
+  for (const request of requests) value = value.add(request.value);
+
+  return {
+    requests: requests.map(({ action }) => action),
+    requestArgs: requests.map(({ data }) => data),
+    value,
+  };
+};
@@ -0,0 +1,89 @@
+import { BigNumber } from 'ethers';
+import { defaultAbiCoder, hexDataSlice, isHexString } from 'ethers/lib/utils';
+
+// Selector of `Error(string)` used by `require` and `revert`.
+const ERROR_SELECTOR = '0x08c379a0';
+
+// Selector of `Panic(uint256)` used by failed asserts, overflows and divisions by zero.
+const PANIC_SELECTOR = '0x4e487b71';
+
+// Providers nest the original error a few levels deep.
+const MAX_DEPTH = 5;
+
+const REASON_PATTERNS = [
+  /reverted with reason string '(.*)'/,
+  /execution reverted: (.*?)(?:"|$)/,
+];
+
+/**
+ * Error thrown by the market clients when a transaction reverts.
+ *
+ * @param reason The revert reason, e.g. `MKT: sender is insolvent`.
+ * @param cause The error thrown by the provider.
+ */
+export class MarketError extends Error {
+  constructor(public readonly reason: string, public readonly cause: unknown) {
+    super(reason);
+    this.name = 'MarketError';
+  }
+}
+
+/**
+ * Decodes the return data of a reverted call.
+ *
+ * @param data The hex encoded return data.
+ * @returns The reason string, `Panic(0x..)` for panics or undefined if it is not a known error.
+ */
+export const decodeRevertData = (data: string): string | undefined => {
+  if (!isHexString(data) || data.length < 10) return;
+
+  const selector = hexDataSlice(data, 0, 4);
+
+  if (selector === ERROR_SELECTOR)
+    return defaultAbiCoder.decode(['string'], hexDataSlice(data, 4))[0];
+
+  if (selector === PANIC_SELECTOR) {
+    const [code] = defaultAbiCoder.decode(['uint256'], hexDataSlice(data, 4));
+    return `Panic(${BigNumber.from(code).toHexString()})`;
+  }
+};
+
+const findRevertReason = (
+  error: unknown,
+  depth: number
+): string | undefined => {
+  if (depth > MAX_DEPTH || !error || typeof error !== 'object') return;
+
+  const {
+    data,
+    reason,
+    message,
+    error: nested,
+  } = error as Record<string, unknown>;
+
+  if (typeof data === 'string') {
+    const decoded = decodeRevertData(data);
+    if (decoded) return decoded;
+  }
+
+  const fromNested = findRevertReason(nested ?? data, depth + 1);
+  if (fromNested) return fromNested;
+
+  for (const text of [reason, message]) {
+    if (typeof text !== 'string') continue;
+
+    for (const pattern of REASON_PATTERNS) {
+      const match = pattern.exec(text);
+      if (match) return match[1];
+    }
+  }
+};
+
+/**
+ * Extracts the revert reason from an error thrown by ethers.
+ *
+ * @param error The error thrown when sending, estimating or calling a transaction.
+ * @returns The revert reason or undefined if the error is not a revert.
+ */
+export const decodeRevertReason = (error: unknown): string | undefined =>
+  findRevertReason(error, 0);
@@ -0,0 +1,95 @@
+import { BigNumber, ethers } from 'ethers';
+
+import { Oracle } from '../typechain';
+
+/**
+ * Same as {Oracle.FeedType}.
+ */
+export const USD_FEED = 0;
+
+export const BNB_FEED = 1;
+
+/**
+ * A feed change waiting for the `feedDelay` of the {Oracle}.
+ *
+ * @param eta The timestamp after which `executeFeed` can be called.
+ * @param isReady If the `eta` has passed at the block it was read.
+ */
+export interface PendingFeedChange {
+  asset: string;
+  feedType: number;
+  feed: string;
+  currentFeed: string;
+  eta: BigNumber;
+  isReady: boolean;
+}
+
+/**
+ * A feed set by `setFeed` or `executeFeed`.
+ */
+export interface FeedUpdate {
+  asset: string;
+  feedType: number;
+  previousFeed: string;
+  feed: string;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+/**
+ * Reads every pending feed change of an `oracle` with its current feed.
+ *
+ * @notice All values are read at the same block.
+ *
+ * @param oracle The {Oracle}.
+ * @param blockTag The block to read from. Defaults to the latest block.
+ */
+export const getPendingFeedChanges = async (
+  oracle: Oracle,
+  blockTag: ethers.providers.BlockTag = 'latest'
+): Promise<Array<PendingFeedChange>> => {
+  const block = await oracle.provider.getBlock(blockTag);
+  const overrides = { blockTag: block.number };
+
+  const changes = await oracle.getPendingFeeds(overrides);
+
+  return Promise.all(
+    changes.map(async ({ asset, feedType, feed, eta }) => ({
+      asset,
+      feedType,
+      feed,
+      currentFeed: await (feedType === USD_FEED
+        ? oracle.getUSDFeeds(asset, overrides)
+        : oracle.getBNBFeeds(asset, overrides)),
+      eta,
+      isReady: eta.lte(block.timestamp),
+    }))
+  );
+};
+
+/**
+ * Returns the feed changes of an `oracle` from the oldest to the newest.
+ *
+ * @param oracle The {Oracle}.
+ * @param asset Only returns the changes of this token if set.
+ * @param fromBlock The first block to search.
+ */
+export const getFeedHistory = async (
+  oracle: Oracle,
+  asset?: string,
+  fromBlock: ethers.providers.BlockTag = 0
+): Promise<Array<FeedUpdate>> => {
+  const events = await oracle.queryFilter(
+    oracle.filters.FeedUpdate(asset),
+    fromBlock
+  );
+
+  return events.map(({ args, blockNumber, transactionHash }) => ({
+    asset: args.asset,
+    feedType: args.feedType,
+    previousFeed: args.previousFeed,
+    feed: args.feed,
+    blockNumber,
+    transactionHash,
+  }));
+};
@@ -0,0 +1,12 @@
+export * from './auction';
+export * from './batch';
+export * from './constants';
+export * from './encoding';
+export * from './errors';
+export * from './feeds';
+export * from './interest-rate';
+export * from './keeper';
+export * from './market-factory';
+export * from './markets';
+export * from './oracle-keeper';
+export * from './positions';
@@ -0,0 +1,180 @@
+import { BigNumber, BigNumberish, ethers } from 'ethers';
+
+import { JumpRateModel } from '../typechain';
+
+const WAD = ethers.constants.WeiPerEther;
+
+export const SECONDS_PER_YEAR = 31_536_000;
+
+/**
+ * Returns the interest rate per second of a market with a base unit of 1e18. Same as {IInterestRateModel.getInterestRate}.
+ */
+export type InterestRateModel = (
+  totalDebt: BigNumber,
+  maxBorrowAmount: BigNumber
+) => BigNumber;
+
+/**
+ * The parameters of a {JumpRateModel}. Rates are per second and every value has a base unit of 1e18.
+ */
+export interface JumpRateModelParameters {
+  baseRate: BigNumber;
+  multiplier: BigNumber;
+  jumpMultiplier: BigNumber;
+  kink: BigNumber;
+}
+
+/**
+ * A point of the projected cost of a loan.
+ *
+ * @param time The seconds since the start of the projection.
+ * @param interestRate The interest rate per second at `time`.
+ * @param debt The principal + interest owed at `time`.
+ * @param totalDebt The principal + interest owed by all borrowers at `time`.
+ */
+export interface CostPoint {
+  time: number;
+  interestRate: BigNumber;
+  debt: BigNumber;
+  totalDebt: BigNumber;
+}
+
+const wadMul = (x: BigNumber, y: BigNumberish): BigNumber => x.mul(y).div(WAD);
+
+/**
+ * Same as {JumpRateModel.getUtilization}. It is capped at 100%.
+ */
+export const computeUtilization = (
+  totalDebt: BigNumber,
+  maxBorrowAmount: BigNumber
+): BigNumber => {
+  if (maxBorrowAmount.isZero()) return WAD;
+
+  const utilization = totalDebt.mul(WAD).div(maxBorrowAmount);
+
+  return utilization.gt(WAD) ? WAD : utilization;
+};
+
+/**
+ * A model with the same math as {JumpRateModel}.
+ */
+export const createJumpRateModel =
+  ({
+    baseRate,
+    multiplier,
+    jumpMultiplier,
+    kink,
+  }: JumpRateModelParameters): InterestRateModel =>
+  (totalDebt, maxBorrowAmount) => {
+    const utilization = computeUtilization(totalDebt, maxBorrowAmount);
+
+    if (kink.gte(utilization))
+      return baseRate.add(wadMul(utilization, multiplier));
+
+    return baseRate
+      .add(wadMul(kink, multiplier))
+      .add(wadMul(utilization.sub(kink), jumpMultiplier));
+  };
+
+/**
+ * A model with the fixed `loan.INTEREST_RATE` of a market without an interest rate model.
+ */
+export const createFixedRateModel =
+  (interestRate: BigNumberish): InterestRateModel =>
+  () =>
+    BigNumber.from(interestRate);
+
+/**
+ * Reads the parameters of a deployed {JumpRateModel}.
+ */
+export const getJumpRateModelParameters = async (
+  model: JumpRateModel
+): Promise<JumpRateModelParameters> => {
+  const [baseRate, multiplier, jumpMultiplier, kink] = await Promise.all([
+    model.BASE_RATE(),
+    model.MULTIPLIER(),
+    model.JUMP_MULTIPLIER(),
+    model.KINK(),
+  ]);
+
+  return { baseRate, multiplier, jumpMultiplier, kink };
+};
+
+/**
+ * Returns the yearly interest rate of a model at each utilization. It does not compound, like the markets.
+ *
+ * @param model The interest rate model.
+ * @param utilizations The utilizations with a base unit of 1e18.
+ */
+export const projectRateCurve = (
+  model: InterestRateModel,
+  utilizations: Array<BigNumberish>
+): Array<{ utilization: BigNumber; interestRate: BigNumber; apr: BigNumber }> =>
+  utilizations.map((value) => {
+    const utilization = BigNumber.from(value);
+    // The total debt when the max borrow amount is 1 WAD is the utilization.
+    const interestRate = model(utilization, WAD);
+
+    return {
+      utilization,
+      interestRate,
+      apr: interestRate.mul(SECONDS_PER_YEAR),
+    };
+  });
+
+/**
+ * Projects the debt of a borrower with the same math as {DineroMarket.accrue}. It assumes no other borrower changes the total debt.
+ *
+ * @notice The rate is updated every `interval`. So a market that accrues more often charges slightly more.
+ *
+ * @param model The interest rate model of the market.
+ * @param debt The current principal + interest of the borrower.
+ * @param totalDebt The current principal + interest of all borrowers. It includes the `debt`.
+ * @param maxBorrowAmount The `maxBorrowAmount` of the market.
+ * @param duration How many seconds to project.
+ * @param interval The seconds between each accrual and point. Defaults to a day.
+ */
+export const simulateBorrowCost = ({
+  model,
+  debt,
+  totalDebt,
+  maxBorrowAmount,
+  duration,
+  interval = 86_400,
+}: {
+  model: InterestRateModel;
+  debt: BigNumberish;
+  totalDebt: BigNumberish;
+  maxBorrowAmount: BigNumberish;
+  duration: number;
+  interval?: number;
+}): Array<CostPoint> => {
+  let _debt = BigNumber.from(debt);
+  let _totalDebt = BigNumber.from(totalDebt);
+  const _maxBorrowAmount = BigNumber.from(maxBorrowAmount);
+
+  const points = [
+    {
+      time: 0,
+      interestRate: model(_totalDebt, _maxBorrowAmount),
+      debt: _debt,
+      totalDebt: _totalDebt,
+    },
+  ];
+
+  for (let time = interval; time <= duration; time += interval) {
+    const interestRate = model(_totalDebt, _maxBorrowAmount);
+
+    _totalDebt = _totalDebt.add(wadMul(_totalDebt.mul(interestRate), interval));
+    _debt = _debt.add(wadMul(_debt.mul(interestRate), interval));
+
+    points.push({
+      time,
+      interestRate: model(_totalDebt, _maxBorrowAmount),
+      debt: _debt,
+      totalDebt: _totalDebt,
+    });
+  }
+
+  return points;
+};
@@ -0,0 +1,555 @@
+import { BigNumber, ContractTransaction, ethers, Overrides } from 'ethers';
+
+import * as typechain from '../typechain';
+import {
+  InterestBearingMarket,
+  InterestBNBMarket,
+  InterestERC20Market,
+} from '../typechain';
+import { DineroMarket } from './batch';
+import { isBearingMarket, MarketKind } from './encoding';
+import { decodeRevertReason, MarketError } from './errors';
+import {
+  computePosition,
+  getMarketState,
+  MarketState,
+  Position,
+} from './positions';
+
+const WAD = ethers.constants.WeiPerEther;
+
+// The markets give 10% of the liquidation fee to the protocol.
+const PROTOCOL_FEE = ethers.utils.parseEther('0.1');
+
+// The tolerated difference between the quote of a swap and the Dinero it returns.
+const DEFAULT_SLIPPAGE = ethers.utils.parseEther('0.005');
+
+// Seconds a liquidation remains valid after the latest block.
+const DEFAULT_DEADLINE = 300;
+
+// Bearing markets save the exchange rate with 10 decimals less than {updateExchangeRate} returns.
+const BEARING_RATE_DECIMALS = BigNumber.from(1e10);
+
+/**
+ * Returns how much Dinero the keeper gets by selling an amount of collateral of the market.
+ */
+export type SwapQuote = (collateral: BigNumber) => Promise<BigNumber>;
+
+/**
+ * The PCS route used by the markets to sell the collateral for Dinero.
+ *
+ * @param path The tokens from the collateral to Dinero. For PCS pair collaterals it sells token0.
+ * @param path2 The tokens from token1 to Dinero. Only for PCS pair collaterals of {InterestERC20Market}.
+ * @param quote Returns the Dinero received for the collateral. See {createRouterQuote}.
+ * @param slippage The tolerated difference between the quote and the Dinero received with a base unit of 1e18. Defaults to 0.5%.
+ */
+export interface SwapRoute {
+  path: Array<string>;
+  path2?: Array<string>;
+  quote: SwapQuote;
+  slippage?: BigNumber;
+}
+
+/**
+ * @param fromBlock The first block to index. Defaults to 0.
+ * @param blockRange The maximum number of blocks per `eth_getLogs` call. Defaults to 5000.
+ * @param batchSize The maximum number of accounts per `liquidate` call. Defaults to 20.
+ * @param recipient The account that receives the proceeds. Defaults to the signer.
+ * @param swap The route to pay the loans with the collateral. Without it, the keeper only pays with its Dinero.
+ * @param inUnderlying Bearing markets only. If true, the keeper receives the underlying instead of VTokens.
+ * @param deadline Seconds a `liquidate` call remains valid after the latest block. Defaults to 300.
+ * @param log Receives a line per liquidation. Defaults to `console.log`.
+ */
+export interface KeeperOptions {
+  fromBlock?: number;
+  blockRange?: number;
+  batchSize?: number;
+  recipient?: string;
+  swap?: SwapRoute;
+  inUnderlying?: boolean;
+  deadline?: number;
+  log?: (message: string) => void;
+}
+
+/**
+ * How a liquidation pays the debt.
+ *
+ * - dinero: The keeper burns its Dinero and receives the collateral.
+ * - swap: The market sells the collateral in PCS and the keeper keeps the Dinero left.
+ */
+export type LiquidationMode = 'dinero' | 'swap';
+
+/**
+ * A batch of insolvent accounts closed in one `liquidate` call.
+ *
+ * @param accounts The accounts to liquidate.
+ * @param principals The principal of each account. The keeper closes the whole loan.
+ * @param collateral The collateral the market removes from the accounts.
+ * @param cost The Dinero burned. It is the debt plus the protocol fee.
+ * @param mode The payment mode with the highest profit.
+ * @param profit The expected profit in USD with a base unit of 1e18.
+ * @param minAmountOut The minimum Dinero the swap must return. It is 0 if the keeper pays with Dinero.
+ */
+export interface LiquidationPlan {
+  accounts: Array<string>;
+  principals: Array<BigNumber>;
+  collateral: BigNumber;
+  cost: BigNumber;
+  mode: LiquidationMode;
+  profit: BigNumber;
+  minAmountOut: BigNumber;
+}
+
+/**
+ * Quotes the Dinero received by selling collateral through a PCS router. It works for collaterals that are not PCS pairs.
+ *
+ * @param router The PCS router.
+ * @param path The tokens from the collateral to Dinero.
+ */
+export const createRouterQuote =
+  (router: typechain.IPancakeRouter02, path: Array<string>): SwapQuote =>
+  async (collateral) => {
+    if (collateral.isZero()) return BigNumber.from(0);
+
+    const amounts = await router.getAmountsOut(collateral, path);
+    return amounts[amounts.length - 1];
+  };
+
+/**
+ * The market state used to plan liquidations.
+ *
+ * @param closeFactor The maximum part of a loan closed at once with a base unit of 1e18. 0 closes the whole loan.
+ */
+export type LiquidationState = MarketState & { closeFactor: BigNumber };
+
+// Same math as the `_liquidateLoan` function of the markets.
+const getLiquidationCost = (
+  state: LiquidationState,
+  liquidationFee: BigNumber,
+  { principal, collateral }: Position
+): { debt: BigNumber; fee: BigNumber; collateral: BigNumber } => {
+  const { elastic, base } = state.totalLoan;
+  const repaid = state.closeFactor.isZero()
+    ? principal
+    : principal.mul(state.closeFactor).div(WAD);
+  let debt = base.isZero() ? repaid : repaid.mul(elastic).div(base);
+  let seized = debt
+    .add(debt.mul(liquidationFee).div(WAD))
+    .mul(WAD)
+    .div(state.exchangeRate);
+
+  // The whole loan is closed with all the collateral. The debt it does not cover is bad debt.
+  if (seized.gt(collateral)) {
+    seized = collateral;
+    debt = collateral
+      .mul(state.exchangeRate)
+      .div(WAD)
+      .mul(WAD)
+      .div(WAD.add(liquidationFee));
+  }
+
+  return {
+    debt,
+    fee: debt.mul(liquidationFee).div(WAD),
+    collateral: seized,
+  };
+};
+
+/**
+ * Liquidates the insolvent accounts of a Dinero market.
+ *
+ * It indexes the events of the market to know every open loan. Solvency is checked off-chain with the exchange rate returned by `updateExchangeRate`, as the market does before liquidating.
+ *
+ * @notice The market must be connected to the signer of the keeper.
+ */
+export class LiquidationKeeper {
+  public readonly market: DineroMarket;
+
+  public readonly kind: MarketKind;
+
+  // Accounts with an open loan.
+  public readonly borrowers = new Set<string>();
+
+  // The last indexed block.
+  protected lastBlock: number;
+
+  protected readonly options: KeeperOptions;
+
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(
+    market: DineroMarket,
+    kind: MarketKind,
+    options: KeeperOptions = {}
+  ) {
+    this.market = market;
+    this.kind = kind;
+    this.options = options;
+    this.lastBlock = (options.fromBlock ?? 0) - 1;
+  }
+
+  /**
+   * Indexes the events up to `toBlock` and updates the list of borrowers.
+   *
+   * @param toBlock The last block to index. Defaults to the latest block.
+   */
+  async sync(toBlock?: number): Promise<void> {
+    const latest = toBlock ?? (await this.market.provider.getBlockNumber());
+    const blockRange = this.options.blockRange ?? 5000;
+    const touched = new Set<string>();
+
+    for (let from = this.lastBlock + 1; from <= latest; from += blockRange) {
+      const logs = await this.market.provider.getLogs({
+        address: this.market.address,
+        fromBlock: from,
+        toBlock: Math.min(from + blockRange - 1, latest),
+      });
+
+      for (const log of logs) {
+        const account = this.parseAccount(log);
+        if (account) touched.add(account);
+      }
+    }
+
+    this.lastBlock = Math.max(this.lastBlock, latest);
+
+    // Logs only tell which accounts changed. The chain tells if they still have a loan.
+    const accounts = [...touched];
+    const principals = await Promise.all(
+      accounts.map((account) =>
+        this.market.userLoan(account, { blockTag: latest })
+      )
+    );
+
+    for (const [index, account] of accounts.entries()) {
+      if (principals[index].isZero()) this.borrowers.delete(account);
+      else this.borrowers.add(account);
+    }
+  }
+
+  /**
+   * Returns the positions of the borrowers that can be liquidated.
+   *
+   * @param state The market state at liquidation. Defaults to the current state with a fresh exchange rate.
+   */
+  async getInsolventPositions(
+    state?: MarketState
+  ): Promise<Array<Position & { account: string }>> {
+    const _state = state ?? (await this.getLiquidationState());
+    const accounts = [...this.borrowers];
+
+    const balances = await Promise.all(
+      accounts.map((account) =>
+        Promise.all([
+          this.market.userCollateral(account),
+          this.market.userLoan(account),
+        ])
+      )
+    );
+
+    const positions = [];
+
+    for (const [index, account] of accounts.entries()) {
+      const [collateral, principal] = balances[index];
+      const position = computePosition(_state, collateral, principal);
+
+      // Same check as the `_isSolvent` function of the markets.
+      if (
+        !position.principal.isZero() &&
+        position.debt.gte(
+          position.collateralInUSD.mul(_state.maxLTVRatio).div(WAD)
+        )
+      )
+        positions.push({ account, ...position });
+    }
+
+    return positions;
+  }
+
+  /**
+   * Splits the insolvent accounts in batches and picks the most profitable way to pay each batch.
+   *
+   * @notice Batches that the keeper cannot pay are skipped.
+   */
+  async plan(): Promise<Array<LiquidationPlan>> {
+    const state = await this.getLiquidationState();
+    const positions = await this.getInsolventPositions(state);
+
+    // The fee of each account depends on its auction. See {DineroMarket.getLiquidationFeeOf}.
+    const fees = await Promise.all(
+      positions.map(({ account }) => this.market.getLiquidationFeeOf(account))
+    );
+
+    const batchSize = this.options.batchSize ?? 20;
+    let dineroBalance = await this.getDineroBalance();
+    const plans = [];
+
+    for (let index = 0; index < positions.length; index += batchSize) {
+      const batch = positions.slice(index, index + batchSize);
+
+      let cost = BigNumber.from(0);
+      let collateral = BigNumber.from(0);
+
+      for (const [offset, position] of batch.entries()) {
+        const liquidation = getLiquidationCost(
+          state,
+          fees[index + offset],
+          position
+        );
+
+        cost = cost.add(
+          liquidation.debt.add(liquidation.fee.mul(PROTOCOL_FEE).div(WAD))
+        );
+        collateral = collateral.add(liquidation.collateral);
+      }
+
+      const plan = await this.pickMode(
+        collateral,
+        cost,
+        state.exchangeRate,
+        dineroBalance
+      );
+
+      if (!plan) {
+        this.log(`Skipping ${batch.length} accounts: not enough Dinero`);
+        continue;
+      }
+
+      if (plan.mode === 'dinero') dineroBalance = dineroBalance.sub(cost);
+
+      plans.push({
+        accounts: batch.map(({ account }) => account),
+        principals: batch.map(({ principal }) => principal),
+        collateral,
+        cost,
+        ...plan,
+      });
+    }
+
+    return plans;
+  }
+
+  /**
+   * Indexes the new events and liquidates every insolvent account.
+   *
+   * @returns The transactions sent. One per batch.
+   */
+  async run(overrides: Overrides = {}): Promise<Array<ContractTransaction>> {
+    await this.sync();
+    await this.startAuctions(overrides);
+
+    const transactions = [];
+
+    for (const plan of await this.plan()) {
+      const transaction = await this.liquidate(plan, overrides);
+      await transaction.wait();
+
+      this.log(
+        `Liquidated ${plan.accounts.length} accounts in ${transaction.hash} (${plan.mode})`
+      );
+      transactions.push(transaction);
+    }
+
+    return transactions;
+  }
+
+  /**
+   * Starts the liquidation fee auction of the insolvent borrowers without one. It does nothing if the market is not in auction mode.
+   *
+   * @returns The `updateAuctions` transaction or undefined if no auction was started.
+   */
+  async startAuctions(
+    overrides: Overrides = {}
+  ): Promise<ContractTransaction | undefined> {
+    const { duration } = await this.market.auction();
+
+    if (duration.isZero()) return;
+
+    const positions = await this.getInsolventPositions();
+    const starts = await Promise.all(
+      positions.map(({ account }) => this.market.auctionStartOf(account))
+    );
+
+    const accounts = positions
+      .filter((_, index) => starts[index].isZero())
+      .map(({ account }) => account);
+
+    if (accounts.length === 0) return;
+
+    const transaction = await this.market.updateAuctions(accounts, overrides);
+    await transaction.wait();
+
+    this.log(`Started the auction of ${accounts.length} accounts`);
+    return transaction;
+  }
+
+  /**
+   * Calls {run} every `interval` milliseconds until {stop} is called. Errors are logged and do not stop the keeper.
+   */
+  start(interval = 15_000): void {
+    const tick = async () => {
+      try {
+        await this.run();
+      } catch (error) {
+        this.log(`Keeper error: ${decodeRevertReason(error) ?? error}`);
+      }
+
+      if (this.timer) this.timer = setTimeout(tick, interval);
+    };
+
+    this.timer = setTimeout(tick, 0);
+  }
+
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Sends the `liquidate` call of a plan. Reverts are rethrown as a {MarketError} with the decoded reason.
+   */
+  async liquidate(
+    { accounts, principals, mode, minAmountOut }: LiquidationPlan,
+    overrides: Overrides = {}
+  ): Promise<ContractTransaction> {
+    const recipient =
+      this.options.recipient ?? (await this.market.signer.getAddress());
+    const path = mode === 'swap' ? this.options.swap?.path ?? [] : [];
+    const inUnderlying = this.options.inUnderlying ?? false;
+    const { timestamp } = await this.market.provider.getBlock('latest');
+    const deadline = timestamp + (this.options.deadline ?? DEFAULT_DEADLINE);
+
+    try {
+      switch (this.kind) {
+        case 'InterestBNBMarket':
+          return await (this.market as InterestBNBMarket).liquidate(
+            accounts,
+            principals,
+            recipient,
+            path,
+            minAmountOut,
+            deadline,
+            overrides
+          );
+        case 'InterestERC20Market':
+          return await (this.market as InterestERC20Market).liquidate(
+            accounts,
+            principals,
+            recipient,
+            path,
+            mode === 'swap' ? this.options.swap?.path2 ?? [] : [],
+            minAmountOut,
+            deadline,
+            overrides
+          );
+        default:
+          return await (this.market as InterestBearingMarket).liquidate(
+            accounts,
+            principals,
+            recipient,
+            inUnderlying,
+            path,
+            minAmountOut,
+            deadline,
+            overrides
+          );
+      }
+    } catch (error) {
+      const reason = decodeRevertReason(error);
+      throw reason ? new MarketError(reason, error) : error;
+    }
+  }
+
+  // The market state with the exchange rate the market will use to liquidate.
+  protected async getLiquidationState(): Promise<LiquidationState> {
+    const [state, rate, closeFactor] = await Promise.all([
+      getMarketState(this.market),
+      this.market.callStatic.updateExchangeRate(),
+      this.market.closeFactor(),
+    ]);
+
+    return {
+      ...state,
+      closeFactor,
+      exchangeRate: isBearingMarket(this.kind)
+        ? rate.div(BEARING_RATE_DECIMALS)
+        : rate,
+    };
+  }
+
+  protected async getDineroBalance(): Promise<BigNumber> {
+    const dinero = typechain.Dinero__factory.connect(
+      await this.market.DINERO(),
+      this.market.provider
+    );
+
+    return dinero.balanceOf(await this.market.signer.getAddress());
+  }
+
+  // Paying with Dinero returns the collateral, valued at the exchange rate. The swap returns the Dinero left after the burn.
+  protected async pickMode(
+    collateral: BigNumber,
+    cost: BigNumber,
+    exchangeRate: BigNumber,
+    dineroBalance: BigNumber
+  ): Promise<
+    Pick<LiquidationPlan, 'mode' | 'profit' | 'minAmountOut'> | undefined
+  > {
+    const dinero = dineroBalance.gte(cost)
+      ? collateral.mul(exchangeRate).div(WAD).sub(cost)
+      : undefined;
+
+    const quote = this.options.swap
+      ? await this.options.swap.quote(collateral)
+      : undefined;
+    const swap = quote?.sub(cost);
+
+    // The swap reverts if it does not cover the cost.
+    if (quote && swap && swap.gt(0) && (!dinero || swap.gt(dinero))) {
+      const slippage = this.options.swap?.slippage ?? DEFAULT_SLIPPAGE;
+      const minAmountOut = quote.mul(WAD.sub(slippage)).div(WAD);
+
+      return {
+        mode: 'swap',
+        profit: swap,
+        minAmountOut: minAmountOut.gt(cost) ? minAmountOut : cost,
+      };
+    }
+
+    return dinero
+      ? { mode: 'dinero', profit: dinero, minAmountOut: BigNumber.from(0) }
+      : undefined;
+  }
+
+  // Returns the account whose position changed in an event of the market.
+  protected parseAccount(log: ethers.providers.Log): string | undefined {
+    let event: ethers.utils.LogDescription;
+
+    try {
+      event = (this.market.interface as ethers.utils.Interface).parseLog(log);
+    } catch {
+      // Events of the proxy, such as {Upgraded}, are not in the market interface.
+      return;
+    }
+
+    switch (event.name) {
+      case 'Borrow':
+        return event.args.from;
+      case 'Repay':
+        return event.args.borrower;
+      case 'Liquidated':
+        return event.args.account;
+      // Standard markets can add collateral to another account.
+      case 'AddCollateral':
+        return isBearingMarket(this.kind) ? event.args.from : event.args.to;
+      case 'WithdrawCollateral':
+        return event.args.from;
+      default:
+        return undefined;
+    }
+  }
+
+  protected log(message: string): void {
+    (this.options.log ?? console.log)(message);
+  }
+}
@@ -0,0 +1,128 @@
+import { BigNumberish, ContractTransaction, ethers, Overrides } from 'ethers';
+
+import { DineroMarketFactory } from '../typechain';
+
+/**
+ * The {DineroMarketFactory.MarketKind} of each market contract.
+ */
+export const MARKET_FACTORY_KIND = {
+  InterestBNBMarket: 0,
+  InterestERC20Market: 1,
+  InterestBearingMarket: 2,
+} as const;
+
+export type FactoryMarketKind = keyof typeof MARKET_FACTORY_KIND;
+
+/**
+ * The risk parameters of a new market. They must be within the bounds of the {DineroMarket} setters.
+ *
+ * @param interestRate Interest rate per second with a base unit of 1e18.
+ * @param maxLTVRatio Maximum loan to value ratio. It must be between 0.5e18 and 0.9e18.
+ * @param liquidationFee Fee charged to liquidated accounts with a base unit of 1e18.
+ * @param maxBorrowAmount Maximum amount of Dinero the market can lend. It cannot be 0.
+ * @param mintCeiling Maximum Dinero the market can have minted. It must cover the `maxBorrowAmount`.
+ * @param closeFactor Maximum part of a loan closed by a liquidation with a base unit of 1e18. 0 closes all of it.
+ * @param reserveFactor Part of the earnings sent to the reserve of the factory with a base unit of 1e18.
+ */
+export interface FactoryMarketParameters {
+  interestRate: BigNumberish;
+  maxLTVRatio: BigNumberish;
+  liquidationFee: BigNumberish;
+  maxBorrowAmount: BigNumberish;
+  mintCeiling: BigNumberish;
+  closeFactor: BigNumberish;
+  reserveFactor: BigNumberish;
+}
+
+/**
+ * ERC20 markets can deposit their collateral in a master chef `vault`. It defaults to none.
+ * Bearing markets deposit their collateral in the Venus market `vToken`.
+ */
+export type CreateMarketRequest = FactoryMarketParameters &
+  (
+    | { kind: 'InterestBNBMarket' }
+    | { kind: 'InterestERC20Market'; collateral: string; vault?: string }
+    | { kind: 'InterestBearingMarket'; vToken: string }
+  );
+
+/**
+ * @param market The address of the new market proxy.
+ * @param collateral The collateral the market is registered under. BNB is the address zero.
+ * @param implementation The implementation the proxy points to.
+ */
+export interface CreatedMarket {
+  kind: FactoryMarketKind;
+  market: string;
+  collateral: string;
+  implementation: string;
+  transaction: ContractTransaction;
+}
+
+/**
+ * Creates, initializes and registers a market with a {DineroMarketFactory}. It waits for the transaction to be mined.
+ *
+ * @notice The factory must be connected to its owner and have a pause guardian and a reserve. A new {InterestERC20Market} with a vault still needs the vault owner to call `setMarket`.
+ */
+export const createMarket = async (
+  factory: DineroMarketFactory,
+  request: CreateMarketRequest,
+  overrides: Overrides = {}
+): Promise<CreatedMarket> => {
+  const parameters = {
+    interestRate: request.interestRate,
+    maxLTVRatio: request.maxLTVRatio,
+    liquidationFee: request.liquidationFee,
+    maxBorrowAmount: request.maxBorrowAmount,
+    mintCeiling: request.mintCeiling,
+    closeFactor: request.closeFactor,
+    reserveFactor: request.reserveFactor,
+  };
+
+  let transaction: ContractTransaction;
+
+  switch (request.kind) {
+    case 'InterestERC20Market':
+      transaction = await factory.createERC20Market(
+        request.collateral,
+        request.vault ?? ethers.constants.AddressZero,
+        parameters,
+        overrides
+      );
+      break;
+    case 'InterestBearingMarket':
+      transaction = await factory.createBearingMarket(
+        request.vToken,
+        parameters,
+        overrides
+      );
+      break;
+    default:
+      transaction = await factory.createBNBMarket(parameters, overrides);
+  }
+
+  const receipt = await transaction.wait();
+  const event = receipt.events?.find(({ event }) => event === 'CreateMarket');
+
+  if (!event?.args) throw new Error('The factory did not create a market');
+
+  return {
+    kind: request.kind,
+    market: event.args.market,
+    collateral: event.args.collateral,
+    implementation: event.args.implementation,
+    transaction,
+  };
+};
+
+/**
+ * Returns the markets registered in a {DineroMarketFactory}.
+ *
+ * @param collateral Only returns the markets of this collateral. BNB is the address zero. Defaults to all the markets.
+ */
+export const getFactoryMarkets = (
+  factory: DineroMarketFactory,
+  collateral?: string
+): Promise<Array<string>> =>
+  collateral === undefined
+    ? factory.getMarkets()
+    : factory.getMarketsOf(collateral);
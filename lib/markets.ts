@@ -0,0 +1,104 @@
+import { ethers, Signer } from 'ethers';
+
+import * as typechain from '../typechain';
+import {
+  InterestBearingMarket,
+  InterestBNBMarket,
+  InterestERC20Market,
+} from '../typechain';
+import {
+  BearingMarket,
+  BearingMarketBatch,
+  DineroMarket,
+  StandardMarket,
+  StandardMarketBatch,
+} from './batch';
+import { BearingMarketKind, StandardMarketKind } from './encoding';
+
+/**
+ * A typechain market with a batch builder for its `request` function.
+ *
+ * @param contract The typechain binding connected to the signer.
+ * @param batch Starts a new batch of actions.
+ */
+export interface MarketClient<T extends DineroMarket, B> {
+  contract: T;
+  batch(): B;
+}
+
+const standardClient = <T extends StandardMarket>(
+  contract: T,
+  kind: StandardMarketKind
+): MarketClient<T, StandardMarketBatch<T>> => ({
+  contract,
+  batch: () => new StandardMarketBatch(contract, kind),
+});
+
+const bearingClient = <T extends BearingMarket>(
+  contract: T,
+  kind: BearingMarketKind
+): MarketClient<T, BearingMarketBatch<T>> => ({
+  contract,
+  batch: () => new BearingMarketBatch(contract, kind),
+});
+
+export const connectInterestBNBMarket = (
+  address: string,
+  signer: Signer
+): MarketClient<InterestBNBMarket, StandardMarketBatch<InterestBNBMarket>> =>
+  standardClient(
+    typechain.InterestBNBMarket__factory.connect(address, signer),
+    'InterestBNBMarket'
+  );
+
+export const connectInterestERC20Market = (
+  address: string,
+  signer: Signer
+): MarketClient<
+  InterestERC20Market,
+  StandardMarketBatch<InterestERC20Market>
+> =>
+  standardClient(
+    typechain.InterestERC20Market__factory.connect(address, signer),
+    'InterestERC20Market'
+  );
+
+/**
+ * Connects to an {InterestBearingMarket} of vBNB.
+ */
+export const connectInterestBNBBearingMarket = (
+  address: string,
+  signer: Signer
+): MarketClient<
+  InterestBearingMarket,
+  BearingMarketBatch<InterestBearingMarket>
+> =>
+  bearingClient(
+    typechain.InterestBearingMarket__factory.connect(address, signer),
+    'InterestBNBBearingMarket'
+  );
+
+/**
+ * Connects to an {InterestBearingMarket} of an ERC20 vToken.
+ */
+export const connectInterestERC20BearingMarket = (
+  address: string,
+  signer: Signer
+): MarketClient<
+  InterestBearingMarket,
+  BearingMarketBatch<InterestBearingMarket>
+> =>
+  bearingClient(
+    typechain.InterestBearingMarket__factory.connect(address, signer),
+    'InterestERC20BearingMarket'
+  );
+
+/**
+ * Reads the kind of an {InterestBearingMarket} from its collateral. BNB is the zero address.
+ */
+export const getBearingMarketKind = async (
+  market: InterestBearingMarket
+): Promise<BearingMarketKind> =>
+  (await market.COLLATERAL()) === ethers.constants.AddressZero
+    ? 'InterestBNBBearingMarket'
+    : 'InterestERC20BearingMarket';
@@ -0,0 +1,82 @@
+import { ContractTransaction, Overrides } from 'ethers';
+
+import { PancakeOracle } from '../typechain';
+import { decodeRevertReason } from './errors';
+
+/**
+ * @param batchSize The maximum number of pairs per `updateMany` call. Defaults to 20.
+ * @param log Receives a line per update. Defaults to `console.log`.
+ */
+export interface OracleKeeperOptions {
+  batchSize?: number;
+  log?: (message: string) => void;
+}
+
+/**
+ * Records the observations of the pairs registered in a {PancakeOracle}, so `consult` never misses one. The oracle pays its `reward` for every new observation.
+ *
+ * @notice The oracle must be connected to the signer of the keeper.
+ */
+export class OracleKeeper {
+  public readonly oracle: PancakeOracle;
+
+  protected readonly options: OracleKeeperOptions;
+
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(oracle: PancakeOracle, options: OracleKeeperOptions = {}) {
+    this.oracle = oracle;
+    this.options = options;
+  }
+
+  /**
+   * Updates every registered pair that needs a new observation.
+   *
+   * @returns The `updateMany` transactions. It is empty if no pair is due.
+   */
+  async run(overrides: Overrides = {}): Promise<Array<ContractTransaction>> {
+    const pairs = await this.oracle.getDuePairs();
+    const batchSize = this.options.batchSize ?? 20;
+    const transactions: Array<ContractTransaction> = [];
+
+    for (let index = 0; index < pairs.length; index += batchSize) {
+      const batch = pairs.slice(index, index + batchSize);
+      const transaction = await this.oracle.updateMany(batch, overrides);
+
+      await transaction.wait();
+
+      this.log(`Updated ${batch.length} pairs in ${transaction.hash}`);
+      transactions.push(transaction);
+    }
+
+    return transactions;
+  }
+
+  /**
+   * Calls {run} every `interval` milliseconds until {stop} is called. Errors are logged and do not stop the keeper.
+   *
+   * @notice The interval should be shorter than the `PERIOD_SIZE` of the oracle.
+   */
+  start(interval = 60_000): void {
+    const tick = async () => {
+      try {
+        await this.run();
+      } catch (error) {
+        this.log(`Oracle keeper error: ${decodeRevertReason(error) ?? error}`);
+      }
+
+      if (this.timer) this.timer = setTimeout(tick, interval);
+    };
+
+    this.timer = setTimeout(tick, 0);
+  }
+
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  protected log(message: string): void {
+    (this.options.log ?? console.log)(message);
+  }
+}
@@ -0,0 +1,204 @@
+import { BigNumber, BigNumberish, ethers } from 'ethers';
+
+import { DineroMarket } from './batch';
+
+const WAD = ethers.constants.WeiPerEther;
+
+const MAX_UINT256 = ethers.constants.MaxUint256;
+
+/**
+ * The health of a borrower. Every value has a base unit of 1e18.
+ *
+ * @param collateral The collateral deposited. Bearing markets hold it in VTokens.
+ * @param principal The principal borrowed.
+ * @param debt The principal + interest rate owed in Dinero.
+ * @param collateralInUSD The value of the collateral at the market exchange rate.
+ * @param ltv The debt divided by the value of the collateral.
+ * @param liquidationPrice The exchange rate at which the borrower becomes insolvent.
+ * @param maxBorrowAmount How much more Dinero the borrower can borrow.
+ */
+export interface Position {
+  collateral: BigNumber;
+  principal: BigNumber;
+  debt: BigNumber;
+  collateralInUSD: BigNumber;
+  ltv: BigNumber;
+  liquidationPrice: BigNumber;
+  maxBorrowAmount: BigNumber;
+}
+
+/**
+ * The market state needed to compute a position off-chain.
+ *
+ * @param totalLoan The total loan of the market. It must include the accrued interest to match the views of the market.
+ */
+export interface MarketState {
+  totalLoan: { elastic: BigNumber; base: BigNumber };
+  exchangeRate: BigNumber;
+  maxLTVRatio: BigNumber;
+  maxBorrowAmount: BigNumber;
+}
+
+const wadMul = (x: BigNumber, y: BigNumberish): BigNumber => x.mul(y).div(WAD);
+
+const wadDiv = (x: BigNumber, y: BigNumberish): BigNumber => x.mul(WAD).div(y);
+
+const min = (x: BigNumber, y: BigNumber): BigNumber => (x.lt(y) ? x : y);
+
+// Same as the views of {DineroMarket}. 0 without debt and the maximum uint256 without collateral.
+const debtRatio = (debt: BigNumber, value: BigNumber): BigNumber => {
+  if (debt.isZero()) return BigNumber.from(0);
+  if (value.isZero()) return MAX_UINT256;
+  return wadDiv(debt, value);
+};
+
+// Same as {RebaseLibrary.toElastic} rounding up.
+const toElastic = (
+  { elastic, base }: MarketState['totalLoan'],
+  principal: BigNumber
+): BigNumber => {
+  if (base.isZero()) return principal;
+
+  const debt = principal.mul(elastic).div(base);
+
+  return debt.mul(base).div(elastic).lt(principal) ? debt.add(1) : debt;
+};
+
+/**
+ * Computes a position with the same math as the views of {DineroMarket}. It is useful to simulate price changes.
+ *
+ * @param state The market state.
+ * @param collateral The collateral of the borrower.
+ * @param principal The principal of the borrower.
+ */
+export const computePosition = (
+  state: MarketState,
+  collateral: BigNumberish,
+  principal: BigNumberish
+): Position => {
+  const _collateral = BigNumber.from(collateral);
+  const _principal = BigNumber.from(principal);
+  const debt = toElastic(state.totalLoan, _principal);
+  const collateralInUSD = wadMul(_collateral, state.exchangeRate);
+  const maxDebt = wadMul(collateralInUSD, state.maxLTVRatio);
+
+  const ltv = debtRatio(debt, collateralInUSD);
+
+  const liquidationPrice = debtRatio(
+    debt,
+    wadMul(_collateral, state.maxLTVRatio)
+  );
+
+  const maxBorrowAmount =
+    debt.add(1).gte(maxDebt) ||
+    state.totalLoan.elastic.gte(state.maxBorrowAmount)
+      ? BigNumber.from(0)
+      : min(
+          maxDebt.sub(debt).sub(1),
+          state.maxBorrowAmount.sub(state.totalLoan.elastic)
+        );
+
+  return {
+    collateral: _collateral,
+    principal: _principal,
+    debt,
+    collateralInUSD,
+    ltv,
+    liquidationPrice,
+    maxBorrowAmount,
+  };
+};
+
+/**
+ * Reads the state of a market with the interest accrued up to the timestamp of `blockTag`, like {DineroMarket._accruedTotalLoan}.
+ *
+ * @param market Any Dinero market.
+ * @param blockTag The block to read from. Defaults to the latest block.
+ */
+export const getMarketState = async (
+  market: DineroMarket,
+  blockTag: ethers.providers.BlockTag = 'latest'
+): Promise<MarketState> => {
+  const block = await market.provider.getBlock(blockTag);
+  const overrides = { blockTag: block.number };
+
+  const [
+    totalLoan,
+    loan,
+    interestRate,
+    exchangeRate,
+    maxLTVRatio,
+    maxBorrowAmount,
+  ] = await Promise.all([
+    market.totalLoan(overrides),
+    market.loan(overrides),
+    market.getInterestRate(overrides),
+    market.exchangeRate(overrides),
+    market.maxLTVRatio(overrides),
+    market.maxBorrowAmount(overrides),
+  ]);
+
+  const elapsedTime = block.timestamp - loan.lastAccrued.toNumber();
+
+  const elastic =
+    elapsedTime === 0 || totalLoan.base.isZero()
+      ? totalLoan.elastic
+      : totalLoan.elastic.add(
+          wadMul(totalLoan.elastic.mul(interestRate), elapsedTime)
+        );
+
+  return {
+    totalLoan: { elastic, base: totalLoan.base },
+    exchangeRate,
+    maxLTVRatio,
+    maxBorrowAmount,
+  };
+};
+
+/**
+ * Reads the position of an `account` from the views of a market.
+ *
+ * @notice All values are read at the same block.
+ *
+ * @param market Any Dinero market.
+ * @param account The address of the borrower.
+ * @param blockTag The block to read from. Defaults to the latest block.
+ */
+export const getPosition = async (
+  market: DineroMarket,
+  account: string,
+  blockTag: ethers.providers.BlockTag = 'latest'
+): Promise<Position> => {
+  const overrides = {
+    blockTag:
+      blockTag === 'latest' ? await market.provider.getBlockNumber() : blockTag,
+  };
+
+  const [
+    collateral,
+    principal,
+    debt,
+    collateralInUSD,
+    ltv,
+    liquidationPrice,
+    maxBorrowAmount,
+  ] = await Promise.all([
+    market.userCollateral(account, overrides),
+    market.userLoan(account, overrides),
+    market.getDebtOf(account, overrides),
+    market.getCollateralInUSD(account, overrides),
+    market.getLTV(account, overrides),
+    market.getLiquidationPrice(account, overrides),
+    market.getMaxBorrowAmountOf(account, overrides),
+  ]);
+
+  return {
+    collateral,
+    principal,
+    debt,
+    collateralInUSD,
+    ltv,
+    liquidationPrice,
+    maxBorrowAmount,
+  };
+};
@@ -0,0 +1,204 @@
+import { BigNumberish } from 'ethers';
+import { getAddress, parseEther } from 'ethers/lib/utils';
+
+/**
+ * Parameters shared by every Dinero market.
+ *
+ * @param interestRate Interest rate per second with a base unit of 1e18.
+ * @param maxLTVRatio Maximum loan to value ratio. It must be between 0.5e18 and 0.9e18.
+ * @param liquidationFee Fee charged to liquidated accounts with a base unit of 1e18.
+ * @param maxBorrowAmount Maximum amount of Dinero the market can lend.
+ * @param closeFactor Maximum part of a loan a liquidator can close at once with a base unit of 1e18. Defaults to 0, which allows to close whole loans.
+ * @param reserveFactor Part of the earnings sent to the {ProtocolReserve} with a base unit of 1e18. Defaults to 0.
+ */
+export interface MarketParameters {
+  interestRate: BigNumberish;
+  maxLTVRatio: BigNumberish;
+  liquidationFee: BigNumberish;
+  maxBorrowAmount: BigNumberish;
+  closeFactor?: BigNumberish;
+  reserveFactor?: BigNumberish;
+}
+
+/**
+ * The `name` is the key of the market in the deployment manifest.
+ * ERC20 markets deposit their collateral in a master chef vault. `vault` is either the {CakeVault} or the pool id of a {LPVault}.
+ * Bearing markets deposit their collateral in the Venus market `vToken`. vBNB markets use BNB as collateral.
+ */
+export type MarketConfig = MarketParameters &
+  (
+    | { kind: 'InterestBNBMarket'; name: string }
+    | {
+        kind: 'InterestERC20Market';
+        name: string;
+        collateral: string;
+        vault: 'CakeVault' | { poolId: number };
+      }
+    | {
+        kind: 'InterestBearingMarket';
+        name: string;
+        vToken: string;
+      }
+  );
+
+/**
+ * @param feedType 0 for USD feeds and 1 for BNB feeds. See {Oracle.FeedType}.
+ */
+export interface FeedConfig {
+  asset: string;
+  feed: string;
+  feedType: 0 | 1;
+}
+
+/**
+ * @param treasury Receives the fees of the markets and of the {DineroLeveragedVenusVault}. Defaults to the deployer.
+ * @param developer Receives the developer rewards of {CasaDePapel}. Defaults to the deployer.
+ * @param casaDePapel `startBlock` defaults to the block of the deployment.
+ * @param feedDelay Seconds between proposing and executing an {Oracle} feed change. It is set after the `feeds`.
+ * @param dineroVaultUnderlyings Stable coins {DineroVault} accepts and the maximum Dinero each one can mint.
+ * @param leveragedVaultVTokens Venus markets {DineroLeveragedVenusVault} supports.
+ * @param guardians Accounts that can pause the protocol with the {PauseGuardian} besides the deployer.
+ * @param mintCeilings The maximum net Dinero supply each minter can create, by its key in the manifest. Minters without one are not capped. See {Dinero.mintCeilingOf}.
+ */
+export interface DeploymentConfig {
+  treasury?: string;
+  developer?: string;
+  pancakeOracle: { windowSize: number; granularity: number };
+  casaDePapel: { interestTokenPerBlock: BigNumberish; startBlock?: number };
+  feeds: ReadonlyArray<FeedConfig>;
+  feedDelay: number;
+  dineroVaultUnderlyings: ReadonlyArray<{
+    underlying: string;
+    mintCeiling: BigNumberish;
+  }>;
+  leveragedVaultVTokens: ReadonlyArray<string>;
+  mintCeilings: Readonly<Record<string, BigNumberish>>;
+  guardians?: ReadonlyArray<string>;
+  markets: ReadonlyArray<MarketConfig>;
+}
+
+// BSC addresses
+const CAKE = getAddress('0x0e09fabb73bd3ade0a17ecc321fd13a19e81ce82');
+
+const BTC = getAddress('0x7130d2a12b9bcbfae4f2634d864a1ee1ce3ead9c');
+
+const BUSD = getAddress('0xe9e7cea3dedca5984780bafc599bd69add087d56');
+
+const USDC = getAddress('0x8ac76a51cc950d9822d68b83fe1ad97b32cd580d');
+
+const vBNB = getAddress('0xa07c5b74c9b40447a954e1466938b865b6bbea36');
+
+const vBTC = getAddress('0x882c173bc7ff3b7786ca16dfed3dfffb9ee7847b');
+
+const vUSDC = getAddress('0xeca88125a5adbe82614ffc12d0db554e2e2867c8');
+
+const vDAI = getAddress('0x334b3ecb4dca3593bccc3c7ebd1a1c1d1780fbf1');
+
+const WBNB_CAKE_PAIR_LP_TOKEN = getAddress(
+  '0x0ed7e52944161450477ee417de9cd3a859b14fd0'
+);
+
+const WBNB_CAKE_LP_TOKEN_POOL_ID = 251;
+
+const BTC_USD_PRICE_FEED = getAddress(
+  '0x264990fbd0a4796a3e3d8e37c4d5f87a3aca5ebf'
+);
+
+const CAKE_USD_PRICE_FEED = getAddress(
+  '0xb6064ed41d4f67e353768aa239ca86f4f73665a1'
+);
+
+const CAKE_BNB_PRICE_FEED = getAddress(
+  '0xcb23da9ea243f53194cbc2380a6d4d9bc046161f'
+);
+
+// 12e8 per second is roughly 3.78% a year.
+const INTEREST_RATE = 12e8;
+
+const BSC_CONFIG: DeploymentConfig = {
+  pancakeOracle: { windowSize: 86_400, granularity: 4 },
+  casaDePapel: { interestTokenPerBlock: parseEther('15') },
+  feeds: [
+    { asset: BTC, feed: BTC_USD_PRICE_FEED, feedType: 0 },
+    { asset: CAKE, feed: CAKE_USD_PRICE_FEED, feedType: 0 },
+    { asset: CAKE, feed: CAKE_BNB_PRICE_FEED, feedType: 1 },
+  ],
+  feedDelay: 86_400,
+  dineroVaultUnderlyings: [
+    { underlying: BUSD, mintCeiling: parseEther('10000000') },
+    { underlying: USDC, mintCeiling: parseEther('10000000') },
+  ],
+  leveragedVaultVTokens: [vUSDC, vDAI],
+  // The markets are capped by their `maxBorrowAmount`.
+  mintCeilings: {
+    DineroVault: parseEther('20000000'),
+    DineroLeveragedVenusVault: parseEther('10000000'),
+  },
+  markets: [
+    {
+      kind: 'InterestBNBMarket',
+      name: 'BNBMarket',
+      interestRate: INTEREST_RATE,
+      maxLTVRatio: parseEther('0.5'),
+      liquidationFee: parseEther('0.1'),
+      closeFactor: parseEther('0.5'),
+      reserveFactor: parseEther('0.2'),
+      maxBorrowAmount: parseEther('10000000'),
+    },
+    {
+      kind: 'InterestBearingMarket',
+      name: 'BNBBearingMarket',
+      vToken: vBNB,
+      interestRate: INTEREST_RATE,
+      maxLTVRatio: parseEther('0.5'),
+      liquidationFee: parseEther('0.1'),
+      closeFactor: parseEther('0.5'),
+      reserveFactor: parseEther('0.2'),
+      maxBorrowAmount: parseEther('10000000'),
+    },
+    {
+      kind: 'InterestERC20Market',
+      name: 'CakeMarket',
+      collateral: CAKE,
+      vault: 'CakeVault',
+      interestRate: INTEREST_RATE,
+      maxLTVRatio: parseEther('0.5'),
+      liquidationFee: parseEther('0.1'),
+      closeFactor: parseEther('0.5'),
+      reserveFactor: parseEther('0.2'),
+      maxBorrowAmount: parseEther('5000000'),
+    },
+    {
+      kind: 'InterestERC20Market',
+      name: 'WBNBCakeLPMarket',
+      collateral: WBNB_CAKE_PAIR_LP_TOKEN,
+      vault: { poolId: WBNB_CAKE_LP_TOKEN_POOL_ID },
+      interestRate: INTEREST_RATE,
+      maxLTVRatio: parseEther('0.5'),
+      liquidationFee: parseEther('0.1'),
+      closeFactor: parseEther('0.5'),
+      reserveFactor: parseEther('0.2'),
+      maxBorrowAmount: parseEther('5000000'),
+    },
+    {
+      kind: 'InterestBearingMarket',
+      name: 'BTCBearingMarket',
+      vToken: vBTC,
+      interestRate: INTEREST_RATE,
+      maxLTVRatio: parseEther('0.5'),
+      liquidationFee: parseEther('0.1'),
+      closeFactor: parseEther('0.5'),
+      reserveFactor: parseEther('0.2'),
+      maxBorrowAmount: parseEther('10000000'),
+    },
+  ],
+};
+
+/**
+ * Deployment parameters per network. The Hardhat network either forks BSC or runs the local BSC stand-in, so it uses the BSC addresses.
+ */
+export const DEPLOYMENT_CONFIG: Record<string, DeploymentConfig> = {
+  bsc: BSC_CONFIG,
+  hardhat: BSC_CONFIG,
+  localhost: BSC_CONFIG,
+};
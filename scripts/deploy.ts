@@ -1,25 +1,30 @@
-// We require the Hardhat Runtime Environment explicitly here. This is optional
-// but useful for running the script in a standalone fashion through `node <script>`.
+// Deploys the protocol to the selected network. It resumes from deployments/<network>.json.
 //
-// When running the script with `npx hardhat run <script>` you'll find the Hardhat
-// Runtime Environment's members available in the global scope.
-import { ethers } from 'hardhat';
+// Local run: start a node with `LOCAL=true npx hardhat node` and run
+// `LOCAL=true npx hardhat run --network localhost scripts/deploy.ts`. The local BSC stand-in is set up on the first run.
+import { ethers, network } from 'hardhat';
+
+import { PCS_ROUTER } from '../test/lib/constants';
+import { IS_LOCAL, setUpLocalBSC } from '../test/lib/local-bsc';
+import { DEPLOYMENT_CONFIG } from './config';
+import { getManifestPath } from './manifest';
+import { deployProtocol } from './pipeline';
 
 async function main() {
-  // Hardhat always runs the compile task when running scripts with its command
-  // line interface.
-  //
-  // If this script is run directly using `node` you may want to call compile
-  // manually to make sure everything is compiled
-  // await hre.run('compile');
+  const config = DEPLOYMENT_CONFIG[network.name];
+
+  if (!config) throw new Error(`No deployment config for ${network.name}`);
 
-  // We get the contract to deploy
-  const Greeter = await ethers.getContractFactory('Greeter');
-  const greeter = await Greeter.deploy('Hello, Hardhat!');
+  // The contracts use the BSC addresses. They only have code locally after the stand-in is set up.
+  if (IS_LOCAL && (await ethers.provider.getCode(PCS_ROUTER)) === '0x')
+    await setUpLocalBSC();
 
-  await greeter.deployed();
+  const { markets } = await deployProtocol(
+    config,
+    getManifestPath(network.name)
+  );
 
-  console.log('Greeter deployed to:', greeter.address);
+  console.log(`Deployed ${Object.keys(markets).length} markets`);
 }
 
 // We recommend this pattern to be able to use async/await everywhere
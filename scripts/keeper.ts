@@ -0,0 +1,60 @@
+// Runs the liquidation keeper against a market of deployments/<network>.json.
+//
+// `MARKET=BNBMarket npx hardhat run --network localhost scripts/keeper.ts`
+// Optional: KEEPER_FROM_BLOCK is the first block to index, KEEPER_INTERVAL the milliseconds between runs
+// and KEEPER_PATH a comma separated PCS path from the collateral to Dinero to pay with the collateral.
+import { ethers, network } from 'hardhat';
+
+import {
+  createRouterQuote,
+  DineroMarket,
+  getBearingMarketKind,
+  LiquidationKeeper,
+  MarketKind,
+} from '../lib';
+import { PCS_ROUTER } from '../test/lib/constants';
+import * as typechain from '../typechain';
+import { getManifestPath, loadManifest } from './manifest';
+
+async function main() {
+  const name = process.env.MARKET;
+  const entry = name && loadManifest(getManifestPath(network.name))[name];
+
+  if (!entry) throw new Error(`No market ${name} deployed on ${network.name}`);
+
+  const [signer] = await ethers.getSigners();
+  const market = (await ethers.getContractAt(
+    entry.contract,
+    entry.address,
+    signer
+  )) as DineroMarket;
+
+  const path = process.env.KEEPER_PATH?.split(',');
+
+  // One contract supports every Venus market.
+  const kind =
+    entry.contract === 'InterestBearingMarket'
+      ? await getBearingMarketKind(market as typechain.InterestBearingMarket)
+      : (entry.contract as MarketKind);
+
+  const keeper = new LiquidationKeeper(market, kind, {
+    fromBlock: Number(process.env.KEEPER_FROM_BLOCK ?? 0),
+    swap: path && {
+      path,
+      quote: createRouterQuote(
+        typechain.IPancakeRouter02__factory.connect(PCS_ROUTER, signer),
+        path
+      ),
+    },
+  });
+
+  console.log(`Watching ${name} at ${entry.address}`);
+  keeper.start(Number(process.env.KEEPER_INTERVAL ?? 15_000));
+}
+
+// We recommend this pattern to be able to use async/await everywhere
+// and properly handle errors.
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
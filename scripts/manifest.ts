@@ -0,0 +1,30 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+/**
+ * A proxy deployed by the pipeline.
+ *
+ * @param contract The name of the implementation contract.
+ * @param address The address of the proxy.
+ * @param implementation The address of the implementation at deployment time.
+ * @param args The arguments passed to `initialize`.
+ */
+export interface ManifestEntry {
+  contract: string;
+  address: string;
+  implementation: string;
+  args: Array<unknown>;
+}
+
+export type Manifest = Record<string, ManifestEntry>;
+
+export const getManifestPath = (network: string): string =>
+  path.resolve('deployments', `${network}.json`);
+
+export const loadManifest = (file: string): Manifest =>
+  fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) : {};
+
+export const saveManifest = (file: string, manifest: Manifest): void => {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, `${JSON.stringify(manifest, undefined, 2)}\n`);
+};
@@ -0,0 +1,124 @@
+// Manages the timelocked feeds of the Oracle of deployments/<network>.json.
+//
+// `npx hardhat run --network localhost scripts/oracle-feeds.ts` lists the pending changes and the feed history.
+// `FEED_ACTION=propose ASSET=0x.. FEED=0x.. FEED_TYPE=usd npx hardhat run --network localhost scripts/oracle-feeds.ts`
+// FEED_ACTION is one of list, propose, execute or cancel. FEED_TYPE is usd or bnb and defaults to usd.
+// Optional: FEED_FROM_BLOCK is the first block of the history.
+import { ethers, network } from 'hardhat';
+
+import {
+  BNB_FEED,
+  getFeedHistory,
+  getPendingFeedChanges,
+  USD_FEED,
+} from '../lib';
+import { Oracle } from '../typechain';
+import { getManifestPath, loadManifest } from './manifest';
+
+const formatFeedType = (feedType: number): string =>
+  feedType === BNB_FEED ? 'BNB' : 'USD';
+
+async function list(oracle: Oracle) {
+  const [changes, history] = await Promise.all([
+    getPendingFeedChanges(oracle),
+    getFeedHistory(
+      oracle,
+      process.env.ASSET,
+      Number(process.env.FEED_FROM_BLOCK ?? 0)
+    ),
+  ]);
+
+  const [feedDelay, pendingFeedDelay, pendingFeedDelayEta] = await Promise.all([
+    oracle.feedDelay(),
+    oracle.pendingFeedDelay(),
+    oracle.pendingFeedDelayEta(),
+  ]);
+
+  console.log(`Feed delay: ${feedDelay} seconds`);
+
+  if (!pendingFeedDelayEta.isZero())
+    console.log(
+      `  -> ${pendingFeedDelay} seconds at ${new Date(
+        pendingFeedDelayEta.toNumber() * 1000
+      ).toISOString()}`
+    );
+
+  console.log(`Pending changes: ${changes.length}`);
+
+  for (const change of changes) {
+    console.log(
+      `  ${change.asset} ${formatFeedType(change.feedType)}: ${
+        change.currentFeed
+      } -> ${change.feed} at ${new Date(
+        change.eta.toNumber() * 1000
+      ).toISOString()}${change.isReady ? ' (ready)' : ''}`
+    );
+  }
+
+  console.log(`History: ${history.length}`);
+
+  for (const update of history) {
+    console.log(
+      `  #${update.blockNumber} ${update.asset} ${formatFeedType(
+        update.feedType
+      )}: ${update.previousFeed} -> ${update.feed}`
+    );
+  }
+}
+
+async function main() {
+  const entry = loadManifest(getManifestPath(network.name)).Oracle;
+
+  if (!entry) throw new Error(`No Oracle deployed on ${network.name}`);
+
+  const [signer] = await ethers.getSigners();
+  const oracle = (await ethers.getContractAt(
+    'Oracle',
+    entry.address,
+    signer
+  )) as Oracle;
+
+  const action = process.env.FEED_ACTION ?? 'list';
+
+  if (action === 'list') return list(oracle);
+
+  const asset = process.env.ASSET;
+  const feedType = process.env.FEED_TYPE === 'bnb' ? BNB_FEED : USD_FEED;
+
+  if (!asset) throw new Error('ASSET is required');
+
+  switch (action) {
+    case 'propose': {
+      const feed = process.env.FEED;
+
+      if (!feed) throw new Error('FEED is required');
+
+      await (await oracle.proposeFeed(asset, feed, feedType)).wait();
+      console.log(`Oracle: proposed feed ${feed} for ${asset}`);
+
+      break;
+    }
+    case 'execute': {
+      await (await oracle.executeFeed(asset, feedType)).wait();
+      console.log(`Oracle: executed the feed change of ${asset}`);
+
+      break;
+    }
+    case 'cancel': {
+      await (await oracle.cancelFeed(asset, feedType)).wait();
+      console.log(`Oracle: cancelled the feed change of ${asset}`);
+
+      break;
+    }
+    default: {
+      throw new Error(`Unknown FEED_ACTION ${action}`);
+    }
+  }
+}
+
+// We recommend this pattern to be able to use async/await everywhere
+// and properly handle errors.
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
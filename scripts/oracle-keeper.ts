@@ -0,0 +1,34 @@
+// Keeps the PancakeOracle of deployments/<network>.json updated.
+//
+// `npx hardhat run --network localhost scripts/oracle-keeper.ts`
+// Optional: ORACLE_KEEPER_INTERVAL is the milliseconds between runs.
+import { ethers, network } from 'hardhat';
+
+import { OracleKeeper } from '../lib';
+import { PancakeOracle } from '../typechain';
+import { getManifestPath, loadManifest } from './manifest';
+
+async function main() {
+  const entry = loadManifest(getManifestPath(network.name)).PancakeOracle;
+
+  if (!entry) throw new Error(`No PancakeOracle deployed on ${network.name}`);
+
+  const [signer] = await ethers.getSigners();
+  const oracle = (await ethers.getContractAt(
+    'PancakeOracle',
+    entry.address,
+    signer
+  )) as PancakeOracle;
+
+  const keeper = new OracleKeeper(oracle);
+
+  console.log(`Updating the PancakeOracle at ${entry.address}`);
+  keeper.start(Number(process.env.ORACLE_KEEPER_INTERVAL ?? 60_000));
+}
+
+// We recommend this pattern to be able to use async/await everywhere
+// and properly handle errors.
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,425 @@
+import { BigNumber, Contract } from 'ethers';
+import { ethers, upgrades } from 'hardhat';
+
+import {
+  CakeVault,
+  CasaDePapel,
+  Dinero,
+  DineroLeveragedVenusVault,
+  DineroVault,
+  DineroVenusVaultShares,
+  ERC20,
+  InterestToken,
+  LPVault,
+  Oracle,
+  PancakeOracle,
+  PauseGuardian,
+  ProtocolReserve,
+  SafeVenus,
+} from '../typechain';
+import { DeploymentConfig, MarketConfig } from './config';
+import { loadManifest, Manifest, saveManifest } from './manifest';
+
+export interface DeployedProtocol {
+  dinero: Dinero;
+  interestToken: InterestToken;
+  pancakeOracle: PancakeOracle;
+  oracle: Oracle;
+  casaDePapel: CasaDePapel;
+  safeVenus: SafeVenus;
+  dineroVault: DineroVault;
+  dineroLeveragedVenusVault: DineroLeveragedVenusVault;
+  venusVaultShares: Record<string, DineroVenusVaultShares>;
+  pauseGuardian: PauseGuardian;
+  protocolReserve: ProtocolReserve;
+  vaults: Record<string, CakeVault | LPVault>;
+  markets: Record<string, Contract>;
+}
+
+/**
+ * @param log Receives a line per deployment and transaction. Defaults to `console.log`.
+ */
+export interface PipelineOptions {
+  log?: (message: string) => void;
+}
+
+// BigNumbers are saved as decimal strings to keep the manifest readable.
+const serialize = (arguments_: ReadonlyArray<unknown>): Array<unknown> =>
+  arguments_.map((argument) =>
+    BigNumber.isBigNumber(argument) ? argument.toString() : argument
+  );
+
+/**
+ * Deploys the protocol as UUPS proxies in dependency order and wires the roles between them.
+ *
+ * @notice It resumes from the manifest. Proxies in the manifest with code on chain are reused and every wiring step checks the chain state first. So it is safe to run it again after a failure.
+ *
+ * @param config The parameters of the network.
+ * @param manifestPath The JSON file where the proxy addresses are saved.
+ */
+export const deployProtocol = async (
+  config: DeploymentConfig,
+  manifestPath: string,
+  { log = console.log }: PipelineOptions = {}
+): Promise<DeployedProtocol> => {
+  const manifest: Manifest = loadManifest(manifestPath);
+  const [deployer] = await ethers.getSigners();
+  const treasury = config.treasury ?? deployer.address;
+  const developer = config.developer ?? deployer.address;
+
+  const deployProxy = async <T extends Contract>(
+    key: string,
+    contract: string,
+    arguments_: ReadonlyArray<unknown> = []
+  ): Promise<T> => {
+    const entry = manifest[key];
+
+    if (entry && (await ethers.provider.getCode(entry.address)) !== '0x') {
+      log(`${key}: reusing ${entry.address}`);
+      return (await ethers.getContractAt(contract, entry.address)) as T;
+    }
+
+    const factory = await ethers.getContractFactory(contract);
+    const instance = await upgrades.deployProxy(factory, [...arguments_], {
+      kind: 'uups',
+    });
+    await instance.deployed();
+
+    manifest[key] = {
+      contract,
+      address: instance.address,
+      implementation: await upgrades.erc1967.getImplementationAddress(
+        instance.address
+      ),
+      args: serialize(arguments_),
+    };
+    saveManifest(manifestPath, manifest);
+
+    log(`${key}: deployed ${contract} at ${instance.address}`);
+    return instance as T;
+  };
+
+  // Roles are the keccak256 of their name. See {Dinero} and {InterestToken}.
+  const grantRole = async (
+    token: Dinero | InterestToken,
+    role: 'MINTER_ROLE' | 'BURNER_ROLE' | 'RESERVE_ROLE',
+    account: string
+  ): Promise<void> => {
+    if (await token.hasRole(ethers.utils.id(role), account)) return;
+
+    await (await token.grantRole(ethers.utils.id(role), account)).wait();
+    log(`${await token.symbol()}: granted ${role} to ${account}`);
+  };
+
+  // Tokens
+  const dinero = await deployProxy<Dinero>('Dinero', 'Dinero');
+  const interestToken = await deployProxy<InterestToken>(
+    'InterestToken',
+    'InterestToken'
+  );
+
+  // Oracles
+  const pancakeOracle = await deployProxy<PancakeOracle>(
+    'PancakeOracle',
+    'PancakeOracle',
+    [config.pancakeOracle.windowSize, config.pancakeOracle.granularity]
+  );
+  const oracle = await deployProxy<Oracle>('Oracle', 'Oracle', [
+    pancakeOracle.address,
+  ]);
+
+  // Farms
+  const casaDePapel = await deployProxy<CasaDePapel>(
+    'CasaDePapel',
+    'CasaDePapel',
+    [
+      interestToken.address,
+      developer,
+      config.casaDePapel.interestTokenPerBlock,
+      config.casaDePapel.startBlock ?? (await ethers.provider.getBlockNumber()),
+    ]
+  );
+
+  const safeVenus = await deployProxy<SafeVenus>('SafeVenus', 'SafeVenus', [
+    oracle.address,
+  ]);
+
+  // Vaults
+  const vaults: Record<string, CakeVault | LPVault> = {};
+
+  for (const market of config.markets) {
+    if (market.kind !== 'InterestERC20Market') continue;
+
+    vaults[market.name] =
+      market.vault === 'CakeVault'
+        ? await deployProxy<CakeVault>(`${market.name}Vault`, 'CakeVault')
+        : await deployProxy<LPVault>(`${market.name}Vault`, 'LPVault', [
+            market.collateral,
+            market.vault.poolId,
+          ]);
+  }
+
+  const dineroVault = await deployProxy<DineroVault>(
+    'DineroVault',
+    'DineroVault',
+    [dinero.address]
+  );
+
+  const dineroLeveragedVenusVault =
+    await deployProxy<DineroLeveragedVenusVault>(
+      'DineroLeveragedVenusVault',
+      'DineroLeveragedVenusVault',
+      [dinero.address, safeVenus.address, treasury]
+    );
+
+  const pauseGuardian = await deployProxy<PauseGuardian>(
+    'PauseGuardian',
+    'PauseGuardian'
+  );
+
+  const protocolReserve = await deployProxy<ProtocolReserve>(
+    'ProtocolReserve',
+    'ProtocolReserve',
+    [dinero.address]
+  );
+
+  // Markets
+  const marketArguments = (market: MarketConfig): Array<unknown> => {
+    const parameters = [
+      market.interestRate,
+      market.maxLTVRatio,
+      market.liquidationFee,
+      market.maxBorrowAmount,
+    ];
+
+    switch (market.kind) {
+      case 'InterestERC20Market':
+        return [
+          dinero.address,
+          treasury,
+          oracle.address,
+          market.collateral,
+          vaults[market.name].address,
+          ...parameters,
+        ];
+      case 'InterestBearingMarket':
+        return [
+          dinero.address,
+          treasury,
+          oracle.address,
+          market.vToken,
+          ...parameters,
+        ];
+      default:
+        return [dinero.address, treasury, oracle.address, ...parameters];
+    }
+  };
+
+  const markets: Record<string, Contract> = {};
+
+  for (const market of config.markets) {
+    markets[market.name] = await deployProxy(
+      market.name,
+      market.kind,
+      marketArguments(market)
+    );
+  }
+
+  // Close factors
+  for (const { name, closeFactor = 0 } of config.markets) {
+    if ((await markets[name].closeFactor()).eq(closeFactor)) continue;
+
+    await (await markets[name].setCloseFactor(closeFactor)).wait();
+    log(`${name}: set close factor ${closeFactor}`);
+  }
+
+  // Roles
+  await grantRole(interestToken, 'MINTER_ROLE', casaDePapel.address);
+  // The reserve burns its Dinero to cover the bad debt of the markets.
+  await grantRole(dinero, 'RESERVE_ROLE', protocolReserve.address);
+
+  for (const { address } of [
+    dineroVault,
+    dineroLeveragedVenusVault,
+    ...Object.values(markets),
+  ]) {
+    await grantRole(dinero, 'MINTER_ROLE', address);
+    await grantRole(dinero, 'BURNER_ROLE', address);
+  }
+
+  const minters: Record<string, Contract> = {
+    DineroVault: dineroVault,
+    DineroLeveragedVenusVault: dineroLeveragedVenusVault,
+    ...markets,
+  };
+
+  for (const [key, ceiling] of Object.entries(config.mintCeilings)) {
+    const { address } = minters[key];
+
+    if ((await dinero.mintCeilingOf(address)).eq(ceiling)) continue;
+
+    await (await dinero.setMintCeiling(address, ceiling)).wait();
+    log(`DNR: set mint ceiling of ${key} to ${ceiling}`);
+  }
+
+  // The vaults only accept deposits from their market. It can only be set once.
+  for (const [name, vault] of Object.entries(vaults)) {
+    if ((await vault.MARKET()) !== ethers.constants.AddressZero) continue;
+
+    await (await vault.setMarket(markets[name].address)).wait();
+    log(`${name}Vault: set market ${markets[name].address}`);
+  }
+
+  // Pause guardian
+  for (const [key, contract] of Object.entries({
+    ...minters,
+    CasaDePapel: casaDePapel,
+    ...Object.fromEntries(
+      Object.entries(vaults).map(([name, vault]) => [`${name}Vault`, vault])
+    ),
+  })) {
+    if ((await contract.pauseGuardian()) !== pauseGuardian.address) {
+      await (await contract.setPauseGuardian(pauseGuardian.address)).wait();
+      log(`${key}: set pause guardian ${pauseGuardian.address}`);
+    }
+
+    if (await pauseGuardian.isContract(contract.address)) continue;
+
+    await (await pauseGuardian.addContract(contract.address)).wait();
+    log(`PauseGuardian: added ${key}`);
+  }
+
+  for (const account of config.guardians ?? []) {
+    if (await pauseGuardian.guardians(account)) continue;
+
+    await (await pauseGuardian.setGuardian(account, true)).wait();
+    log(`PauseGuardian: added guardian ${account}`);
+  }
+
+  // Protocol reserve
+  for (const { name, reserveFactor = 0 } of config.markets) {
+    const market = markets[name];
+
+    if (
+      (await market.reserve()) === protocolReserve.address &&
+      (await market.reserveFactor()).eq(reserveFactor)
+    )
+      continue;
+
+    await (
+      await market.setReserve(protocolReserve.address, reserveFactor)
+    ).wait();
+    log(`${name}: set reserve factor ${reserveFactor}`);
+  }
+
+  if ((await dineroLeveragedVenusVault.reserve()) !== protocolReserve.address) {
+    await (
+      await dineroLeveragedVenusVault.setReserve(protocolReserve.address)
+    ).wait();
+    log(`DineroLeveragedVenusVault: set reserve ${protocolReserve.address}`);
+  }
+
+  for (const [key, { address }] of Object.entries({
+    ...markets,
+    DineroLeveragedVenusVault: dineroLeveragedVenusVault,
+  })) {
+    if (await protocolReserve.isContract(address)) continue;
+
+    await (await protocolReserve.addContract(address)).wait();
+    log(`ProtocolReserve: added ${key}`);
+  }
+
+  // Feeds
+  const isFeedTimelocked = !(await oracle.feedDelay()).isZero();
+
+  for (const { asset, feed, feedType } of config.feeds) {
+    const currentFeed = await (feedType === 0
+      ? oracle.getUSDFeeds(asset)
+      : oracle.getBNBFeeds(asset));
+
+    if (currentFeed === feed) continue;
+
+    if (isFeedTimelocked) {
+      log(`Oracle: feed ${feed} for ${asset} must go through proposeFeed`);
+      continue;
+    }
+
+    await (await oracle.setFeed(asset, feed, feedType)).wait();
+    log(`Oracle: set feed ${feed} for ${asset}`);
+  }
+
+  const feedDelay = await oracle.feedDelay();
+
+  if (feedDelay.gt(config.feedDelay)) {
+    log(
+      `Oracle: feed delay ${config.feedDelay} must go through proposeFeedDelay`
+    );
+  } else if (feedDelay.lt(config.feedDelay)) {
+    await (await oracle.setFeedDelay(config.feedDelay)).wait();
+    log(`Oracle: set feed delay ${config.feedDelay}`);
+  }
+
+  // Supported assets
+  for (const { underlying, mintCeiling } of config.dineroVaultUnderlyings) {
+    const [isSupported, currentMintCeiling] = await Promise.all([
+      dineroVault.isUnderlyingSupported(underlying),
+      dineroVault.mintCeilingOf(underlying),
+    ]);
+
+    if (isSupported && currentMintCeiling.eq(mintCeiling)) continue;
+
+    await (await dineroVault.addUnderlying(underlying, mintCeiling)).wait();
+    log(`DineroVault: added underlying ${underlying}`);
+  }
+
+  for (const vTokenAddress of config.leveragedVaultVTokens) {
+    const vToken = await ethers.getContractAt('IVToken', vTokenAddress);
+    const underlying = await vToken.underlying();
+
+    if (
+      (await dineroLeveragedVenusVault.vTokenOf(underlying)) === vTokenAddress
+    )
+      continue;
+
+    await (await dineroLeveragedVenusVault.addVToken(vTokenAddress)).wait();
+    log(`DineroLeveragedVenusVault: added vToken ${vTokenAddress}`);
+  }
+
+  // ERC4626 shares of the positions in the leveraged vault, by the symbol of the underlying.
+  const venusVaultShares: Record<string, DineroVenusVaultShares> = {};
+
+  for (const vTokenAddress of config.leveragedVaultVTokens) {
+    const vToken = await ethers.getContractAt('IVToken', vTokenAddress);
+    const underlying = await vToken.underlying();
+    const symbol = await (
+      (await ethers.getContractAt('ERC20', underlying)) as ERC20
+    ).symbol();
+
+    venusVaultShares[symbol] = await deployProxy<DineroVenusVaultShares>(
+      `${symbol}VenusVaultShares`,
+      'DineroVenusVaultShares',
+      [
+        dineroLeveragedVenusVault.address,
+        underlying,
+        `Interest Venus ${symbol}`,
+        `iv${symbol}`,
+      ]
+    );
+  }
+
+  return {
+    dinero,
+    interestToken,
+    pancakeOracle,
+    oracle,
+    casaDePapel,
+    safeVenus,
+    dineroVault,
+    dineroLeveragedVenusVault,
+    venusVaultShares,
+    pauseGuardian,
+    protocolReserve,
+    vaults,
+    markets,
+  };
+};
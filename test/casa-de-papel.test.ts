@@ -1019,6 +1019,7 @@ describe('Case de Papel', () => {
         'UpdatePool'
       );
       await network.provider.send('evm_setAutomine', [true]);
+      await network.provider.send('evm_setIntervalMining', [0]);
     });
     it('does not mint tokens to the account if there are no rewards', async () => {
       await casaDePapel.connect(owner).setIntPerBlock(0, false);
@@ -0,0 +1,140 @@
+// Registers the local BSC stand-in when the tests run with LOCAL=true
+import './lib/test-utils';
+
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { DEPLOYMENT_CONFIG } from '../scripts/config';
+import { loadManifest } from '../scripts/manifest';
+import { deployProtocol } from '../scripts/pipeline';
+import { BTC, CAKE, USDC, vUSDC } from './lib/constants';
+
+const CONFIG = DEPLOYMENT_CONFIG.hardhat;
+
+// eslint-disable-next-line @typescript-eslint/no-empty-function
+const silent = () => {};
+
+describe('Deployment pipeline', function () {
+  this.timeout(600_000);
+
+  let manifestPath: string;
+
+  beforeEach(() => {
+    manifestPath = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'dinero-')),
+      'hardhat.json'
+    );
+  });
+
+  it('deploys and wires the protocol', async () => {
+    const {
+      dinero,
+      interestToken,
+      oracle,
+      casaDePapel,
+      dineroVault,
+      dineroLeveragedVenusVault,
+      venusVaultShares,
+      pauseGuardian,
+      protocolReserve,
+      vaults,
+      markets,
+    } = await deployProtocol(CONFIG, manifestPath, { log: silent });
+
+    const manifest = loadManifest(manifestPath);
+
+    expect(Object.keys(markets)).to.be.deep.equal(
+      CONFIG.markets.map(({ name }) => name)
+    );
+    expect(manifest.Dinero.address).to.be.equal(dinero.address);
+    expect(manifest.CakeMarket.contract).to.be.equal('InterestERC20Market');
+
+    const [minterRole, burnerRole] = await Promise.all([
+      dinero.MINTER_ROLE(),
+      dinero.BURNER_ROLE(),
+    ]);
+
+    for (const { address } of [
+      dineroVault,
+      dineroLeveragedVenusVault,
+      ...Object.values(markets),
+    ]) {
+      expect(await dinero.hasRole(minterRole, address)).to.be.equal(true);
+      expect(await dinero.hasRole(burnerRole, address)).to.be.equal(true);
+    }
+
+    expect(
+      await interestToken.hasRole(
+        await interestToken.MINTER_ROLE(),
+        casaDePapel.address
+      )
+    ).to.be.equal(true);
+
+    for (const [name, vault] of Object.entries(vaults)) {
+      expect(await vault.MARKET()).to.be.equal(markets[name].address);
+      expect(await markets[name].VAULT()).to.be.equal(vault.address);
+    }
+
+    expect(await oracle.getUSDFeeds(BTC)).not.to.be.equal(
+      ethers.constants.AddressZero
+    );
+    expect(await oracle.getBNBFeeds(CAKE)).not.to.be.equal(
+      ethers.constants.AddressZero
+    );
+    expect(await markets.CakeMarket.closeFactor()).to.be.equal(
+      CONFIG.markets[2].closeFactor
+    );
+    expect(await oracle.feedDelay()).to.be.equal(CONFIG.feedDelay);
+    expect(await dinero.mintCeilingOf(dineroVault.address)).to.be.equal(
+      CONFIG.mintCeilings.DineroVault
+    );
+    expect(await pauseGuardian.getContracts()).to.have.lengthOf(
+      Object.keys(markets).length + Object.keys(vaults).length + 3
+    );
+    expect(await casaDePapel.pauseGuardian()).to.be.equal(
+      pauseGuardian.address
+    );
+    expect(await markets.CakeMarket.reserve()).to.be.equal(
+      protocolReserve.address
+    );
+    expect(await markets.CakeMarket.reserveFactor()).to.be.equal(
+      CONFIG.markets[2].reserveFactor
+    );
+    expect(await dineroLeveragedVenusVault.reserve()).to.be.equal(
+      protocolReserve.address
+    );
+    expect(await protocolReserve.getContracts()).to.have.lengthOf(
+      Object.keys(markets).length + 1
+    );
+    expect(
+      await dinero.hasRole(await dinero.RESERVE_ROLE(), protocolReserve.address)
+    ).to.be.equal(true);
+    expect(await dineroVault.isUnderlyingSupported(USDC)).to.be.equal(true);
+    expect(await dineroLeveragedVenusVault.vTokenOf(USDC)).to.be.equal(vUSDC);
+    expect(await venusVaultShares.USDC.asset()).to.be.equal(USDC);
+    expect(await venusVaultShares.USDC.VAULT()).to.be.equal(
+      dineroLeveragedVenusVault.address
+    );
+  });
+
+  it('resumes from the manifest', async () => {
+    await deployProtocol(CONFIG, manifestPath, { log: silent });
+
+    const manifest = loadManifest(manifestPath);
+    const blockNumber = await ethers.provider.getBlockNumber();
+    const logs: Array<string> = [];
+
+    await deployProtocol(CONFIG, manifestPath, {
+      log: (message) => logs.push(message),
+    });
+
+    expect(loadManifest(manifestPath)).to.be.deep.equal(manifest);
+    expect(await ethers.provider.getBlockNumber()).to.be.equal(blockNumber);
+    expect(logs.every((message) => message.includes('reusing'))).to.be.equal(
+      true
+    );
+  });
+});
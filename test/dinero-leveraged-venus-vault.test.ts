@@ -14,6 +14,7 @@ import {
   MockOracle,
   MockSafeVenus,
   MockVenusToken,
+  ProtocolReserve,
   SafeVenus,
   TestDineroVenusVault,
   TestDineroVenusVaultV2,
@@ -316,6 +317,17 @@ describe('Dinero Leverage Venus Vault', () => {
         dineroVenusVault.setCollateralLimit(parseEther('0.91'))
       ).to.revertedWith('DV: must be lower than 90%');
     });
+    it('updates the reserve', async () => {
+      await expect(
+        dineroVenusVault.connect(alice).setReserve(alice.address)
+      ).to.revertedWith('Ownable: caller is not the owner');
+
+      await expect(dineroVenusVault.connect(owner).setReserve(alice.address))
+        .to.emit(dineroVenusVault, 'Reserve')
+        .withArgs(alice.address);
+
+      expect(await dineroVenusVault.reserve()).to.be.equal(alice.address);
+    });
     it('can pause and unpause the contract', async () => {
       expect(await dineroVenusVault.paused()).to.be.equal(false);
 
@@ -1482,6 +1494,51 @@ describe('Dinero Leverage Venus Vault', () => {
         parseEther('1')
       );
     });
+    it('covers the losses with the reserve before charging the depositors', async () => {
+      const reserve: ProtocolReserve = await deployUUPS('ProtocolReserve', [
+        dinero.address,
+      ]);
+
+      await Promise.all([
+        dineroVenusVault.setSafeVenus(safeVenus.address),
+        dineroVenusVault.connect(owner).setReserve(reserve.address),
+        reserve.connect(owner).addContract(dineroVenusVault.address),
+        USDC_USDC_WHALE.transfer(reserve.address, parseEther('900000')),
+      ]);
+
+      await dineroVenusVault
+        .connect(usdcWhale)
+        .deposit(USDC, parseEther('1000000'));
+
+      // To emulate a real life scenario, losses only happen when we leverage the vault position.
+      await dineroVenusVault.connect(owner).borrow(vUSDC, parseEther('790000'));
+
+      await dineroVenusVault.burnERC20(USDC, parseEther('790000'));
+
+      await network.provider.send('hardhat_mine', [
+        `0x${Number(100).toString(16)}`,
+      ]);
+
+      await expect(
+        dineroVenusVault.connect(usdcWhale).deposit(USDC, parseEther('50000'))
+      )
+        .to.emit(reserve, 'CoverLoss')
+        .to.not.emit(dineroVenusVault, 'Loss');
+
+      const [totalLoss, whaleAccount, reserveBalance] = await Promise.all([
+        dineroVenusVault.totalLossOf(vUSDC),
+        dineroVenusVault.accountOf(USDC, usdcWhale.address),
+        USDCContract.balanceOf(reserve.address),
+      ]);
+
+      expect(totalLoss).to.be.equal(0);
+      expect(whaleAccount.lossVTokensAccrued).to.be.equal(0);
+      // The reserve paid the burned USDC. The interest and the XVS rewards of the position change the loss slightly.
+      expect(reserveBalance).to.be.closeTo(
+        parseEther('110000'),
+        parseEther('100')
+      );
+    });
     it('calculates losses proportionally', async () => {
       await Promise.all([
         impersonate(USDC_WHALE_TWO),
@@ -0,0 +1,528 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import { ethers, upgrades } from 'hardhat';
+
+import {
+  createMarket,
+  FactoryMarketParameters,
+  getFactoryMarkets,
+  MARKET_FACTORY_KIND,
+} from '../lib';
+import {
+  Dinero,
+  DineroMarketFactory,
+  InterestBearingMarket,
+  InterestBNBMarket,
+  InterestERC20Market,
+  MockERC20,
+  MockTWAP,
+  Oracle,
+  PauseGuardian,
+  ProtocolReserve,
+} from '../typechain';
+import {
+  BTC,
+  BURNER_ROLE,
+  DEFAULT_ADMIN_ROLE,
+  MINTER_ROLE,
+  vBTC,
+} from './lib/constants';
+import { deploy, deployUUPS } from './lib/test-utils';
+
+const { parseEther } = ethers.utils;
+
+const PARAMETERS: FactoryMarketParameters = {
+  interestRate: ethers.BigNumber.from(12e8),
+  maxLTVRatio: parseEther('0.5'),
+  liquidationFee: parseEther('0.1'),
+  maxBorrowAmount: parseEther('1000000'),
+  mintCeiling: parseEther('1100000'),
+  closeFactor: parseEther('0.5'),
+  reserveFactor: parseEther('0.2'),
+};
+
+describe('DineroMarketFactory', () => {
+  let factory: DineroMarketFactory;
+  let dinero: Dinero;
+  let oracle: Oracle;
+  let mockTWAP: MockTWAP;
+  let collateral: MockERC20;
+  let bnbImplementation: InterestBNBMarket;
+  let erc20Implementation: InterestERC20Market;
+  let bearingImplementation: InterestBearingMarket;
+  let pauseGuardian: PauseGuardian;
+  let reserve: ProtocolReserve;
+
+  let owner: SignerWithAddress;
+  let alice: SignerWithAddress;
+  let treasury: SignerWithAddress;
+
+  beforeEach(async () => {
+    [owner, alice, treasury] = await ethers.getSigners();
+
+    [
+      dinero,
+      mockTWAP,
+      collateral,
+      bnbImplementation,
+      erc20Implementation,
+      bearingImplementation,
+    ] = await Promise.all([
+      deployUUPS('Dinero', []),
+      deploy('MockTWAP'),
+      deploy('MockERC20', ['Collateral', 'COL', parseEther('1000')]),
+      deploy('InterestBNBMarket'),
+      deploy('InterestERC20Market'),
+      deploy('InterestBearingMarket'),
+    ]);
+
+    [oracle, pauseGuardian, reserve] = await Promise.all([
+      deployUUPS('Oracle', [mockTWAP.address]),
+      deployUUPS('PauseGuardian', []),
+      deployUUPS('ProtocolReserve', [dinero.address]),
+    ]);
+
+    factory = await deployUUPS('DineroMarketFactory', [
+      dinero.address,
+      treasury.address,
+      oracle.address,
+    ]);
+
+    await Promise.all([
+      dinero.connect(owner).grantRole(DEFAULT_ADMIN_ROLE, factory.address),
+      pauseGuardian.connect(owner).setRegistrar(factory.address, true),
+      reserve.connect(owner).setRegistrar(factory.address, true),
+      factory.connect(owner).setPauseGuardian(pauseGuardian.address),
+      factory.connect(owner).setReserve(reserve.address),
+      factory
+        .connect(owner)
+        .setImplementation(
+          MARKET_FACTORY_KIND.InterestBNBMarket,
+          bnbImplementation.address
+        ),
+      factory
+        .connect(owner)
+        .setImplementation(
+          MARKET_FACTORY_KIND.InterestERC20Market,
+          erc20Implementation.address
+        ),
+      factory
+        .connect(owner)
+        .setImplementation(
+          MARKET_FACTORY_KIND.InterestBearingMarket,
+          bearingImplementation.address
+        ),
+    ]);
+  });
+
+  describe('function: initialize', () => {
+    it('reverts if you call it after deployment', async () => {
+      await expect(
+        factory.initialize(dinero.address, treasury.address, oracle.address)
+      ).to.revertedWith('Initializable: contract is already initialized');
+    });
+    it('sets the initial state', async () => {
+      const [_owner, _dinero, feeTo, _oracle] = await Promise.all([
+        factory.owner(),
+        factory.DINERO(),
+        factory.FEE_TO(),
+        factory.ORACLE(),
+      ]);
+
+      expect(_owner).to.be.equal(owner.address);
+      expect(_dinero).to.be.equal(dinero.address);
+      expect(feeTo).to.be.equal(treasury.address);
+      expect(_oracle).to.be.equal(oracle.address);
+    });
+  });
+
+  describe('function: setPauseGuardian', () => {
+    it('reverts if it is not called by the owner or the guardian is the zero address', async () => {
+      await expect(
+        factory.connect(alice).setPauseGuardian(pauseGuardian.address)
+      ).to.revertedWith('Ownable: caller is not the owner');
+      await expect(
+        factory.connect(owner).setPauseGuardian(ethers.constants.AddressZero)
+      ).to.revertedWith('DMF: no zero address');
+    });
+    it('sets the pause guardian of the new markets', async () => {
+      await expect(factory.connect(owner).setPauseGuardian(alice.address))
+        .to.emit(factory, 'PauseGuardian')
+        .withArgs(alice.address);
+
+      expect(await factory.pauseGuardian()).to.be.equal(alice.address);
+    });
+  });
+
+  describe('function: setReserve', () => {
+    it('reverts if it is not called by the owner or the reserve is the zero address', async () => {
+      await expect(
+        factory.connect(alice).setReserve(reserve.address)
+      ).to.revertedWith('Ownable: caller is not the owner');
+      await expect(
+        factory.connect(owner).setReserve(ethers.constants.AddressZero)
+      ).to.revertedWith('DMF: no zero address');
+    });
+    it('sets the reserve of the new markets', async () => {
+      await expect(factory.connect(owner).setReserve(alice.address))
+        .to.emit(factory, 'Reserve')
+        .withArgs(alice.address);
+
+      expect(await factory.reserve()).to.be.equal(alice.address);
+    });
+  });
+
+  describe('function: setImplementation', () => {
+    it('reverts if it is not called by the owner', async () => {
+      await expect(
+        factory
+          .connect(alice)
+          .setImplementation(
+            MARKET_FACTORY_KIND.InterestBNBMarket,
+            bnbImplementation.address
+          )
+      ).to.revertedWith('Ownable: caller is not the owner');
+    });
+    it('reverts if the implementation is not a contract', async () => {
+      await expect(
+        factory
+          .connect(owner)
+          .setImplementation(
+            MARKET_FACTORY_KIND.InterestBNBMarket,
+            alice.address
+          )
+      ).to.revertedWith('DMF: not a contract');
+    });
+    it('sets the implementation of a kind', async () => {
+      await expect(
+        factory
+          .connect(owner)
+          .setImplementation(
+            MARKET_FACTORY_KIND.InterestERC20Market,
+            bnbImplementation.address
+          )
+      )
+        .to.emit(factory, 'Implementation')
+        .withArgs(
+          MARKET_FACTORY_KIND.InterestERC20Market,
+          bnbImplementation.address
+        );
+
+      expect(
+        await factory.implementationOf(MARKET_FACTORY_KIND.InterestERC20Market)
+      ).to.be.equal(bnbImplementation.address);
+    });
+  });
+
+  describe('function: createBNBMarket', () => {
+    it('reverts if it is not called by the owner', async () => {
+      await expect(
+        factory.connect(alice).createBNBMarket(PARAMETERS)
+      ).to.revertedWith('Ownable: caller is not the owner');
+    });
+    it('reverts if the parameters are out of bounds', async () => {
+      await expect(
+        factory
+          .connect(owner)
+          .createBNBMarket({ ...PARAMETERS, interestRate: 13e8 + 1 })
+      ).to.revertedWith('DMF: interest rate too high');
+      await expect(
+        factory
+          .connect(owner)
+          .createBNBMarket({ ...PARAMETERS, maxLTVRatio: parseEther('0.49') })
+      ).to.revertedWith('DMF: ltv ratio out of bounds');
+      await expect(
+        factory
+          .connect(owner)
+          .createBNBMarket({ ...PARAMETERS, maxLTVRatio: parseEther('0.91') })
+      ).to.revertedWith('DMF: ltv ratio out of bounds');
+      await expect(
+        factory.connect(owner).createBNBMarket({
+          ...PARAMETERS,
+          liquidationFee: parseEther('0.16'),
+        })
+      ).to.revertedWith('DMF: liquidation fee too high');
+      await expect(
+        factory
+          .connect(owner)
+          .createBNBMarket({ ...PARAMETERS, maxBorrowAmount: 0 })
+      ).to.revertedWith('DMF: max borrow out of bounds');
+      await expect(
+        factory.connect(owner).createBNBMarket({
+          ...PARAMETERS,
+          maxBorrowAmount: parseEther('1100001'),
+        })
+      ).to.revertedWith('DMF: max borrow out of bounds');
+      await expect(
+        factory.connect(owner).createBNBMarket({
+          ...PARAMETERS,
+          closeFactor: parseEther('1').add(1),
+        })
+      ).to.revertedWith('DMF: close factor too high');
+      await expect(
+        factory.connect(owner).createBNBMarket({
+          ...PARAMETERS,
+          reserveFactor: parseEther('1').add(1),
+        })
+      ).to.revertedWith('DMF: reserve factor too high');
+    });
+    it('reverts if the factory has no pause guardian or reserve', async () => {
+      const newFactory: DineroMarketFactory = await deployUUPS(
+        'DineroMarketFactory',
+        [dinero.address, treasury.address, oracle.address]
+      );
+
+      await newFactory
+        .connect(owner)
+        .setImplementation(
+          MARKET_FACTORY_KIND.InterestBNBMarket,
+          bnbImplementation.address
+        );
+
+      await expect(
+        newFactory.connect(owner).createBNBMarket(PARAMETERS)
+      ).to.revertedWith('DMF: no pause guardian');
+
+      await newFactory.connect(owner).setPauseGuardian(pauseGuardian.address);
+
+      await expect(
+        newFactory.connect(owner).createBNBMarket(PARAMETERS)
+      ).to.revertedWith('DMF: no reserve');
+    });
+    it('reverts if the factory cannot register the market', async () => {
+      await pauseGuardian.connect(owner).setRegistrar(factory.address, false);
+
+      await expect(
+        factory.connect(owner).createBNBMarket(PARAMETERS)
+      ).to.revertedWith('PG: only registrar');
+
+      await pauseGuardian.connect(owner).setRegistrar(factory.address, true);
+      await reserve.connect(owner).setRegistrar(factory.address, false);
+
+      await expect(
+        factory.connect(owner).createBNBMarket(PARAMETERS)
+      ).to.revertedWith('PR: only registrar');
+    });
+    it('reverts if the kind has no implementation', async () => {
+      const newFactory: DineroMarketFactory = await deployUUPS(
+        'DineroMarketFactory',
+        [dinero.address, treasury.address, oracle.address]
+      );
+
+      await expect(
+        newFactory.connect(owner).createBNBMarket(PARAMETERS)
+      ).to.revertedWith('DMF: no implementation');
+    });
+    it('reverts if the factory cannot grant the Dinero roles', async () => {
+      await dinero
+        .connect(owner)
+        .revokeRole(DEFAULT_ADMIN_ROLE, factory.address);
+
+      await expect(factory.connect(owner).createBNBMarket(PARAMETERS)).to
+        .reverted;
+    });
+    it('creates an initialized and upgradeable market', async () => {
+      const { market, collateral, implementation, transaction } =
+        await createMarket(factory.connect(owner), {
+          kind: 'InterestBNBMarket',
+          ...PARAMETERS,
+        });
+
+      await expect(transaction)
+        .to.emit(factory, 'CreateMarket')
+        .withArgs(
+          MARKET_FACTORY_KIND.InterestBNBMarket,
+          ethers.constants.AddressZero,
+          market,
+          bnbImplementation.address
+        );
+
+      const bnbMarket = (await ethers.getContractAt(
+        'InterestBNBMarket',
+        market
+      )) as InterestBNBMarket;
+
+      const [
+        _owner,
+        _dinero,
+        feeTo,
+        _oracle,
+        loan,
+        maxLTVRatio,
+        liquidationFee,
+        maxBorrowAmount,
+        isMinter,
+        isBurner,
+        isMarket,
+        mintCeiling,
+        closeFactor,
+        _reserve,
+        reserveFactor,
+        _pauseGuardian,
+        isPausable,
+        isCovered,
+      ] = await Promise.all([
+        bnbMarket.owner(),
+        bnbMarket.DINERO(),
+        bnbMarket.FEE_TO(),
+        bnbMarket.ORACLE(),
+        bnbMarket.loan(),
+        bnbMarket.maxLTVRatio(),
+        bnbMarket.liquidationFee(),
+        bnbMarket.maxBorrowAmount(),
+        dinero.hasRole(MINTER_ROLE, market),
+        dinero.hasRole(BURNER_ROLE, market),
+        factory.isMarket(market),
+        dinero.mintCeilingOf(market),
+        bnbMarket.closeFactor(),
+        bnbMarket.reserve(),
+        bnbMarket.reserveFactor(),
+        bnbMarket.pauseGuardian(),
+        pauseGuardian.isContract(market),
+        reserve.isContract(market),
+      ]);
+
+      expect(collateral).to.be.equal(ethers.constants.AddressZero);
+      expect(implementation).to.be.equal(bnbImplementation.address);
+      expect(
+        await upgrades.erc1967.getImplementationAddress(market)
+      ).to.be.equal(bnbImplementation.address);
+      expect(_owner).to.be.equal(owner.address);
+      expect(_dinero).to.be.equal(dinero.address);
+      expect(feeTo).to.be.equal(treasury.address);
+      expect(_oracle).to.be.equal(oracle.address);
+      expect(loan.INTEREST_RATE).to.be.equal(PARAMETERS.interestRate);
+      expect(maxLTVRatio).to.be.equal(PARAMETERS.maxLTVRatio);
+      expect(liquidationFee).to.be.equal(PARAMETERS.liquidationFee);
+      expect(maxBorrowAmount).to.be.equal(PARAMETERS.maxBorrowAmount);
+      expect(isMinter).to.be.equal(true);
+      expect(isBurner).to.be.equal(true);
+      expect(isMarket).to.be.equal(true);
+      expect(mintCeiling).to.be.equal(PARAMETERS.mintCeiling);
+      expect(closeFactor).to.be.equal(PARAMETERS.closeFactor);
+      expect(_reserve).to.be.equal(reserve.address);
+      expect(reserveFactor).to.be.equal(PARAMETERS.reserveFactor);
+      expect(_pauseGuardian).to.be.equal(pauseGuardian.address);
+      expect(isPausable).to.be.equal(true);
+      expect(isCovered).to.be.equal(true);
+
+      await expect(
+        bnbMarket.initialize(
+          dinero.address,
+          alice.address,
+          oracle.address,
+          0,
+          0,
+          0,
+          0
+        )
+      ).to.revertedWith('Initializable: contract is already initialized');
+    });
+  });
+
+  describe('function: createERC20Market', () => {
+    it('reverts if it is not called by the owner', async () => {
+      await expect(
+        factory
+          .connect(alice)
+          .createERC20Market(
+            collateral.address,
+            ethers.constants.AddressZero,
+            PARAMETERS
+          )
+      ).to.revertedWith('Ownable: caller is not the owner');
+    });
+    it('reverts if the parameters are out of bounds', async () => {
+      await expect(
+        factory
+          .connect(owner)
+          .createERC20Market(collateral.address, ethers.constants.AddressZero, {
+            ...PARAMETERS,
+            maxLTVRatio: parseEther('0.95'),
+          })
+      ).to.revertedWith('DMF: ltv ratio out of bounds');
+    });
+    it('creates a market registered under its collateral', async () => {
+      const { market, collateral: _collateral } = await createMarket(
+        factory.connect(owner),
+        {
+          kind: 'InterestERC20Market',
+          collateral: collateral.address,
+          ...PARAMETERS,
+        }
+      );
+
+      const erc20Market = (await ethers.getContractAt(
+        'InterestERC20Market',
+        market
+      )) as InterestERC20Market;
+
+      const [marketCollateral, vault, owner_] = await Promise.all([
+        erc20Market.COLLATERAL(),
+        erc20Market.VAULT(),
+        erc20Market.owner(),
+      ]);
+
+      expect(_collateral).to.be.equal(collateral.address);
+      expect(marketCollateral).to.be.equal(collateral.address);
+      expect(vault).to.be.equal(ethers.constants.AddressZero);
+      expect(owner_).to.be.equal(owner.address);
+
+      expect(
+        await getFactoryMarkets(factory, collateral.address)
+      ).to.deep.equal([market]);
+      expect(
+        await getFactoryMarkets(factory, ethers.constants.AddressZero)
+      ).to.have.lengthOf(0);
+    });
+  });
+
+  describe('function: createBearingMarket', () => {
+    it('reverts if it is not called by the owner', async () => {
+      await expect(
+        factory.connect(alice).createBearingMarket(vBTC, PARAMETERS)
+      ).to.revertedWith('Ownable: caller is not the owner');
+    });
+    it('creates a market registered under the underlying of the vToken', async () => {
+      const { market, collateral: _collateral } = await createMarket(
+        factory.connect(owner),
+        { kind: 'InterestBearingMarket', vToken: vBTC, ...PARAMETERS }
+      );
+
+      const bearingMarket = (await ethers.getContractAt(
+        'InterestBearingMarket',
+        market
+      )) as InterestBearingMarket;
+
+      expect(_collateral).to.be.equal(BTC);
+      expect(await bearingMarket.VTOKEN()).to.be.equal(vBTC);
+      expect(await getFactoryMarkets(factory, BTC)).to.deep.equal([market]);
+    });
+  });
+
+  it('keeps a registry of all markets', async () => {
+    const first = await createMarket(factory.connect(owner), {
+      kind: 'InterestBNBMarket',
+      ...PARAMETERS,
+    });
+    const second = await createMarket(factory.connect(owner), {
+      kind: 'InterestBNBMarket',
+      ...PARAMETERS,
+    });
+    const third = await createMarket(factory.connect(owner), {
+      kind: 'InterestERC20Market',
+      collateral: collateral.address,
+      ...PARAMETERS,
+    });
+
+    expect(await getFactoryMarkets(factory)).to.deep.equal([
+      first.market,
+      second.market,
+      third.market,
+    ]);
+    expect(
+      await getFactoryMarkets(factory, ethers.constants.AddressZero)
+    ).to.deep.equal([first.market, second.market]);
+    expect(await factory.isMarket(alice.address)).to.be.equal(false);
+  });
+});
@@ -5,6 +5,7 @@ import { ethers } from 'hardhat';
 import {
   Dinero,
   DineroVault,
+  MockDineroVaultV1,
   MockERC20,
   MockERC20Decimals,
   TestDineroVaultV2,
@@ -16,6 +17,8 @@ const { parseEther } = ethers.utils;
 
 const { MaxUint256, AddressZero } = ethers.constants;
 
+const MINT_CEILING = parseEther('1000000');
+
 describe('Dinero Vault', () => {
   let vault: DineroVault;
   let dinero: Dinero;
@@ -25,9 +28,10 @@ describe('Dinero Vault', () => {
 
   let owner: SignerWithAddress;
   let alice: SignerWithAddress;
+  let bob: SignerWithAddress;
 
   beforeEach(async () => {
-    [[owner, alice], [USDC, USDT, UST], dinero] = await Promise.all([
+    [[owner, alice, bob], [USDC, USDT, UST], dinero] = await Promise.all([
       ethers.getSigners(),
       multiDeploy(
         ['MockERC20Decimals', 'MockERC20', 'MockERC20Decimals'],
@@ -43,9 +47,9 @@ describe('Dinero Vault', () => {
     vault = await deployUUPS('DineroVault', [dinero.address]);
 
     await Promise.all([
-      vault.connect(owner).addUnderlying(UST.address),
-      vault.connect(owner).addUnderlying(USDC.address),
-      vault.connect(owner).addUnderlying(USDT.address),
+      vault.connect(owner).addUnderlying(UST.address, MINT_CEILING),
+      vault.connect(owner).addUnderlying(USDC.address, MINT_CEILING),
+      vault.connect(owner).addUnderlying(USDT.address, MINT_CEILING),
       UST.mint(alice.address, parseEther('10000000')),
       USDC.mint(alice.address, parseEther('1000000')),
       USDT.mint(alice.address, parseEther('1000000')),
@@ -268,15 +272,233 @@ describe('Dinero Vault', () => {
     });
   });
 
+  describe('function: setPegStability', () => {
+    it('reverts if it is not called by the owner or the fees are too high', async () => {
+      await expect(
+        vault
+          .connect(alice)
+          .setPegStability(USDC.address, parseEther('1000'), 0, 0)
+      ).to.be.revertedWith('Ownable: caller is not the owner');
+
+      await expect(
+        vault
+          .connect(owner)
+          .setPegStability(
+            USDC.address,
+            parseEther('1000'),
+            parseEther('0.05').add(1),
+            0
+          )
+      ).to.be.revertedWith('DV: fee too high');
+
+      await expect(
+        vault
+          .connect(owner)
+          .setPegStability(
+            USDC.address,
+            parseEther('1000'),
+            0,
+            parseEther('0.05').add(1)
+          )
+      ).to.be.revertedWith('DV: fee too high');
+    });
+    it('updates the peg stability pool of an underlying', async () => {
+      await expect(
+        vault
+          .connect(owner)
+          .setPegStability(
+            USDC.address,
+            parseEther('1000'),
+            parseEther('0.001'),
+            parseEther('0.002')
+          )
+      )
+        .to.emit(vault, 'PegStability')
+        .withArgs(
+          USDC.address,
+          parseEther('1000'),
+          parseEther('0.001'),
+          parseEther('0.002')
+        );
+
+      const config = await vault.pegStabilityOf(USDC.address);
+
+      expect(config.debtCeiling).to.be.equal(parseEther('1000'));
+      expect(config.mintFee).to.be.equal(parseEther('0.001'));
+      expect(config.redeemFee).to.be.equal(parseEther('0.002'));
+    });
+  });
+
+  describe('peg stability pool', () => {
+    beforeEach(async () => {
+      await Promise.all([
+        vault
+          .connect(owner)
+          .setPegStability(
+            USDC.address,
+            parseEther('1000'),
+            parseEther('0.001'),
+            parseEther('0.002')
+          ),
+        USDT.mint(bob.address, parseEther('1000')),
+        USDT.connect(bob).approve(vault.address, MaxUint256),
+      ]);
+    });
+
+    it('reverts if the underlying is not supported, the amount is 0 or the debt ceiling is reached', async () => {
+      await expect(
+        vault.connect(alice).mint(owner.address, 1, alice.address)
+      ).to.be.revertedWith('DV: not supported');
+
+      await expect(
+        vault.connect(alice).mint(USDC.address, 0, alice.address)
+      ).to.be.revertedWith('DV: no amount 0');
+
+      await expect(
+        vault.connect(alice).mint(USDT.address, 1, alice.address)
+      ).to.be.revertedWith('DV: debt ceiling reached');
+
+      await vault.connect(alice).mint(USDC.address, 600_000_000, alice.address);
+
+      await expect(
+        vault.connect(alice).mint(USDC.address, 400_000_001, alice.address)
+      ).to.be.revertedWith('DV: debt ceiling reached');
+    });
+    it('mints Dinero minus the fee to anyone', async () => {
+      const [preview, fee] = await vault.previewMint(
+        USDC.address,
+        1_000_000_000
+      );
+
+      expect(preview).to.be.equal(parseEther('999'));
+      expect(fee).to.be.equal(parseEther('1'));
+
+      await expect(
+        vault.connect(alice).mint(USDC.address, 1_000_000_000, bob.address)
+      )
+        .to.emit(USDC, 'Transfer')
+        .withArgs(alice.address, vault.address, 1_000_000_000)
+        .to.emit(dinero, 'Transfer')
+        .withArgs(AddressZero, bob.address, parseEther('999'))
+        .to.emit(vault, 'Mint')
+        .withArgs(
+          alice.address,
+          bob.address,
+          USDC.address,
+          1_000_000_000,
+          parseEther('999'),
+          parseEther('1')
+        );
+
+      const [reserve, feesEarned, bobDineroBalance, aliceVaultUSDCBalance] =
+        await Promise.all([
+          vault.reserveOf(USDC.address),
+          vault.feesEarned(),
+          dinero.balanceOf(bob.address),
+          vault.balanceOf(USDC.address, alice.address),
+        ]);
+
+      expect(reserve).to.be.equal(1_000_000_000);
+      expect(feesEarned).to.be.equal(parseEther('1'));
+      expect(bobDineroBalance).to.be.equal(parseEther('999'));
+      expect(aliceVaultUSDCBalance).to.be.equal(0);
+    });
+    it('reverts if the underlying is not supported, the amount is 0 or the reserves are too low', async () => {
+      await expect(
+        vault.connect(alice).redeem(owner.address, 1, alice.address)
+      ).to.be.revertedWith('DV: not supported');
+
+      await expect(
+        vault.connect(alice).redeem(USDC.address, 0, alice.address)
+      ).to.be.revertedWith('DV: no amount 0');
+
+      // Deposits are not part of the pool
+      await vault.connect(alice).deposit(USDC.address, 1_000_000);
+
+      await expect(
+        vault.connect(alice).redeem(USDC.address, 1, alice.address)
+      ).to.be.revertedWith('DV: not enough reserves');
+    });
+    it('redeems any Dinero for the underlying in the pool plus the fee', async () => {
+      await vault
+        .connect(alice)
+        .mint(USDC.address, 1_000_000_000, alice.address);
+
+      // Bob gets Dinero with USDT and swaps it for USDC
+      await vault.connect(bob).deposit(USDT.address, parseEther('1000'));
+
+      const [preview, fee] = await vault.previewRedeem(
+        USDC.address,
+        500_000_000
+      );
+
+      expect(preview).to.be.equal(parseEther('501'));
+      expect(fee).to.be.equal(parseEther('1'));
+
+      await expect(
+        vault.connect(bob).redeem(USDC.address, 500_000_000, alice.address)
+      )
+        .to.emit(dinero, 'Transfer')
+        .withArgs(bob.address, AddressZero, parseEther('501'))
+        .to.emit(USDC, 'Transfer')
+        .withArgs(vault.address, alice.address, 500_000_000)
+        .to.emit(vault, 'Redeem')
+        .withArgs(
+          bob.address,
+          alice.address,
+          USDC.address,
+          500_000_000,
+          parseEther('501'),
+          parseEther('1')
+        );
+
+      const [reserve, feesEarned, bobDineroBalance] = await Promise.all([
+        vault.reserveOf(USDC.address),
+        vault.feesEarned(),
+        dinero.balanceOf(bob.address),
+      ]);
+
+      expect(reserve).to.be.equal(500_000_000);
+      expect(feesEarned).to.be.equal(parseEther('2'));
+      expect(bobDineroBalance).to.be.equal(parseEther('499'));
+
+      await expect(
+        vault.connect(bob).redeem(USDC.address, 500_000_001, bob.address)
+      ).to.be.revertedWith('DV: not enough reserves');
+    });
+    it('allows the owner to collect the fees', async () => {
+      await vault
+        .connect(alice)
+        .mint(USDC.address, 1_000_000_000, alice.address);
+
+      await expect(
+        vault.connect(alice).collectFees(alice.address)
+      ).to.be.revertedWith('Ownable: caller is not the owner');
+
+      await expect(vault.connect(owner).collectFees(owner.address))
+        .to.emit(dinero, 'Transfer')
+        .withArgs(AddressZero, owner.address, parseEther('1'))
+        .to.emit(vault, 'CollectFees')
+        .withArgs(owner.address, parseEther('1'));
+
+      expect(await vault.feesEarned()).to.be.equal(0);
+      // Every Dinero minted by the pool is backed by the reserves
+      expect(await dinero.totalSupply()).to.be.equal(parseEther('1000'));
+    });
+  });
+
   describe('owner functions', () => {
     it('revert if called by a non-owner', async () => {
       await Promise.all([
         expect(
-          vault.connect(alice).addUnderlying(UST.address)
+          vault.connect(alice).addUnderlying(UST.address, MINT_CEILING)
         ).to.be.revertedWith('Ownable: caller is not the owner'),
         expect(
           vault.connect(alice).removeUnderlying(UST.address)
         ).to.be.revertedWith('Ownable: caller is not the owner'),
+        expect(
+          vault.connect(alice).setMintCeiling(UST.address, 0)
+        ).to.be.revertedWith('Ownable: caller is not the owner'),
       ]);
     });
     it('allows the owner to remove and add support for underlying', async () => {
@@ -298,17 +520,119 @@ describe('Dinero Vault', () => {
       await expect(vault.connect(alice).deposit(USDT.address, 1)).to.be
         .reverted;
 
-      await expect(vault.connect(owner).addUnderlying(USDT.address))
+      await expect(
+        vault.connect(owner).addUnderlying(USDT.address, parseEther('10'))
+      )
         .to.emit(vault, 'AddUnderlying')
-        .withArgs(USDT.address);
+        .withArgs(USDT.address)
+        .to.emit(vault, 'MintCeiling')
+        .withArgs(USDT.address, parseEther('10'));
 
       const isUSDTSupported3 = await vault.isUnderlyingSupported(USDT.address);
 
       expect(isUSDTSupported3).to.be.equal(true);
+      expect(await vault.isWithdrawOnly(USDT.address)).to.be.equal(false);
+      expect(await vault.mintCeilingOf(USDT.address)).to.be.equal(
+        parseEther('10')
+      );
 
       await expect(vault.connect(alice).deposit(USDT.address, 1)).to.not.be
         .reverted;
     });
+    it('allows users to withdraw and redeem a removed underlying', async () => {
+      await vault
+        .connect(owner)
+        .setPegStability(USDC.address, MINT_CEILING, 0, 0);
+
+      await vault.connect(alice).deposit(USDC.address, 1_000_000);
+      await vault.connect(alice).mint(USDC.address, 2_000_000, alice.address);
+
+      await vault.connect(owner).removeUnderlying(USDC.address);
+
+      expect(await vault.isWithdrawOnly(USDC.address)).to.be.equal(true);
+
+      await expect(
+        vault.connect(alice).deposit(USDC.address, 1_000_000)
+      ).to.be.revertedWith('DV: not supported');
+      await expect(
+        vault.connect(alice).mint(USDC.address, 1_000_000, alice.address)
+      ).to.be.revertedWith('DV: not supported');
+
+      await expect(vault.connect(alice).withdraw(USDC.address, 1_000_000))
+        .to.emit(vault, 'Withdraw')
+        .withArgs(alice.address, USDC.address, 1_000_000, parseEther('1'))
+        .to.emit(vault, 'Reserves')
+        .withArgs(USDC.address, 0, 2_000_000);
+
+      await expect(
+        vault.connect(alice).redeem(USDC.address, 2_000_000, alice.address)
+      )
+        .to.emit(vault, 'Redeem')
+        .to.emit(vault, 'Reserves')
+        .withArgs(USDC.address, 0, 0);
+
+      expect(await dinero.balanceOf(alice.address)).to.be.equal(0);
+    });
+    it('limits the Dinero minted with each underlying', async () => {
+      await Promise.all([
+        vault.connect(owner).setPegStability(USDC.address, MINT_CEILING, 0, 0),
+        vault.connect(owner).setMintCeiling(UST.address, parseEther('1')),
+      ]);
+
+      await expect(
+        vault.connect(owner).setMintCeiling(USDC.address, parseEther('3'))
+      )
+        .to.emit(vault, 'MintCeiling')
+        .withArgs(USDC.address, parseEther('3'));
+
+      expect(await vault.getMintCapacity(USDC.address)).to.be.equal(
+        parseEther('3')
+      );
+
+      await expect(vault.connect(alice).deposit(USDC.address, 1_000_000))
+        .to.emit(vault, 'Reserves')
+        .withArgs(USDC.address, 1_000_000, 0);
+
+      await expect(
+        vault.connect(alice).mint(USDC.address, 1_500_000, alice.address)
+      )
+        .to.emit(vault, 'Reserves')
+        .withArgs(USDC.address, 1_000_000, 1_500_000);
+
+      const [totalReserves, totalDeposit, reserve] = await vault.getReserves(
+        USDC.address
+      );
+
+      expect(totalReserves).to.be.equal(2_500_000);
+      expect(totalDeposit).to.be.equal(1_000_000);
+      expect(reserve).to.be.equal(1_500_000);
+      expect(await vault.getMintCapacity(USDC.address)).to.be.equal(
+        parseEther('0.5')
+      );
+
+      // Deposits and the pool share the ceiling
+      await expect(
+        vault.connect(alice).deposit(USDC.address, 500_001)
+      ).to.be.revertedWith('DV: mint ceiling reached');
+      await expect(
+        vault.connect(alice).mint(USDC.address, 500_001, alice.address)
+      ).to.be.revertedWith('DV: mint ceiling reached');
+
+      // UST has 20 decimals
+      await expect(
+        vault.connect(alice).deposit(UST.address, parseEther('100').add(100))
+      ).to.be.revertedWith('DV: mint ceiling reached');
+
+      await vault.connect(alice).deposit(UST.address, parseEther('100'));
+
+      // Lowering the ceiling does not affect the current reserves
+      await vault.connect(owner).setMintCeiling(USDC.address, parseEther('1'));
+
+      expect(await vault.getMintCapacity(USDC.address)).to.be.equal(0);
+
+      await expect(vault.connect(alice).withdraw(USDC.address, 1_000_000)).to
+        .not.be.reverted;
+    });
   });
   describe('upgrade functionality', () => {
     it('reverts if a non-owner tries to upgrade', async () => {
@@ -336,5 +660,66 @@ describe('Dinero Vault', () => {
       expect(version).to.be.equal('V2');
       expect(aliceVaultUSDTBalance).to.be.equal(parseEther('75'));
     });
+    it('migrates the deposits of the first version of the vault', async () => {
+      const vaultV1: MockDineroVaultV1 = await deployUUPS('MockDineroVaultV1', [
+        dinero.address,
+      ]);
+
+      await Promise.all([
+        vaultV1.connect(owner).addUnderlying(USDC.address),
+        USDC.connect(alice).approve(vaultV1.address, MaxUint256),
+        dinero.connect(owner).grantRole(MINTER_ROLE, vaultV1.address),
+        dinero.connect(owner).grantRole(BURNER_ROLE, vaultV1.address),
+      ]);
+
+      await vaultV1.connect(alice).deposit(USDC.address, 1_000_000);
+
+      const vaultV2: DineroVault = await upgrade(vaultV1, 'DineroVault');
+
+      await expect(
+        vaultV2.connect(alice).initializeV2([USDC.address], [parseEther('10')])
+      ).to.revertedWith('Ownable: caller is not the owner');
+
+      await expect(
+        vaultV2
+          .connect(owner)
+          .initializeV2([USDC.address], [parseEther('10'), 0])
+      ).to.revertedWith('DV: wrong length');
+
+      await expect(
+        vaultV2.connect(owner).initializeV2([USDC.address], [parseEther('10')])
+      )
+        .to.emit(vaultV2, 'MintCeiling')
+        .withArgs(USDC.address, parseEther('10'))
+        .to.emit(vaultV2, 'Reserves')
+        .withArgs(USDC.address, 1_000_000, 0);
+
+      await expect(
+        vaultV2.connect(owner).initializeV2([USDC.address], [parseEther('10')])
+      ).to.revertedWith('DV: already initialized');
+
+      expect(await vaultV2.getMintCapacity(USDC.address)).to.be.equal(
+        parseEther('9')
+      );
+
+      await vaultV2.connect(alice).deposit(USDC.address, 1_000_000);
+
+      await expect(vaultV2.connect(alice).withdraw(USDC.address, 2_000_000))
+        .to.emit(vaultV2, 'Withdraw')
+        .withArgs(alice.address, USDC.address, 2_000_000, parseEther('2'));
+
+      const [totalDeposit, balance] = await Promise.all([
+        vaultV2.totalDepositOf(USDC.address),
+        vaultV2.balanceOf(USDC.address, alice.address),
+      ]);
+
+      expect(totalDeposit).to.be.equal(0);
+      expect(balance).to.be.equal(0);
+    });
+    it('does not migrate vaults deployed with the latest version', async () => {
+      await expect(
+        vault.connect(owner).initializeV2([USDC.address], [MINT_CEILING])
+      ).to.revertedWith('DV: already initialized');
+    });
   });
 });
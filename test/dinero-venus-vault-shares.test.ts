@@ -0,0 +1,375 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import { Contract } from 'ethers';
+import { ethers, network } from 'hardhat';
+
+import ERC20ABI from '../abi/erc20.json';
+import {
+  Dinero,
+  DineroVenusVaultShares,
+  MockOracle,
+  SafeVenus,
+  TestDineroVenusVault,
+} from '../typechain';
+import {
+  BURNER_ROLE,
+  DAI,
+  MINTER_ROLE,
+  USDC,
+  USDC_USD_PRICE_FEED,
+  USDC_WHALE_ONE,
+  vUSDC,
+  XVS,
+  XVS_USD_PRICE_FEED,
+} from './lib/constants';
+import { deploy, deployUUPS, impersonate } from './lib/test-utils';
+
+const { parseEther, parseUnits } = ethers.utils;
+
+// Shares have 3 more decimals than USDC.
+const parseShares = (value: string) => parseUnits(value, 21);
+
+describe('DineroVenusVaultShares', () => {
+  let shares: DineroVenusVaultShares;
+  let vault: TestDineroVenusVault;
+  let dinero: Dinero;
+  let oracle: MockOracle;
+  let safeVenus: SafeVenus;
+
+  let USDCContract: Contract;
+
+  let owner: SignerWithAddress;
+  let alice: SignerWithAddress;
+  let feeTo: SignerWithAddress;
+  let usdcWhale: SignerWithAddress;
+
+  beforeEach(async () => {
+    [[owner, alice, feeTo], dinero, oracle] = await Promise.all([
+      ethers.getSigners(),
+      deployUUPS('Dinero', []),
+      deploy('MockOracle'),
+      impersonate(USDC_WHALE_ONE),
+    ]);
+
+    safeVenus = await deployUUPS('SafeVenus', [oracle.address]);
+
+    vault = await deployUUPS('TestDineroVenusVault', [
+      dinero.address,
+      safeVenus.address,
+      feeTo.address,
+    ]);
+
+    await Promise.all([
+      dinero.connect(owner).grantRole(MINTER_ROLE, vault.address),
+      dinero.connect(owner).grantRole(BURNER_ROLE, vault.address),
+      vault.connect(owner).addVToken(vUSDC),
+      oracle.__setERC20Price(XVS, XVS_USD_PRICE_FEED),
+      oracle.__setERC20Price(USDC, USDC_USD_PRICE_FEED),
+    ]);
+
+    [shares, usdcWhale] = await Promise.all([
+      deployUUPS('DineroVenusVaultShares', [
+        vault.address,
+        USDC,
+        'Interest Venus USDC',
+        'ivUSDC',
+      ]),
+      ethers.getSigner(USDC_WHALE_ONE),
+    ]);
+
+    USDCContract = new ethers.Contract(USDC, ERC20ABI, usdcWhale);
+
+    await Promise.all([
+      USDCContract.approve(shares.address, ethers.constants.MaxUint256),
+      USDCContract.approve(vault.address, ethers.constants.MaxUint256),
+    ]);
+  });
+
+  describe('function: initialize', () => {
+    it('reverts if you call it after deployment', async () => {
+      await expect(
+        shares.initialize(vault.address, USDC, 'Interest Venus USDC', 'ivUSDC')
+      ).to.revertedWith('Initializable: contract is already initialized');
+    });
+    it('reverts if the vault does not support the underlying', async () => {
+      await expect(
+        deployUUPS('DineroVenusVaultShares', [
+          vault.address,
+          DAI,
+          'Interest Venus DAI',
+          'ivDAI',
+        ])
+      ).to.revertedWith('DVS: underlying not whitelisted');
+    });
+    it('sets the initial state', async () => {
+      const [_owner, _vault, asset, name, symbol, decimals, allowance] =
+        await Promise.all([
+          shares.owner(),
+          shares.VAULT(),
+          shares.asset(),
+          shares.name(),
+          shares.symbol(),
+          shares.decimals(),
+          USDCContract.allowance(shares.address, vault.address),
+        ]);
+
+      expect(_owner).to.be.equal(owner.address);
+      expect(_vault).to.be.equal(vault.address);
+      expect(asset).to.be.equal(USDC);
+      expect(name).to.be.equal('Interest Venus USDC');
+      expect(symbol).to.be.equal('ivUSDC');
+      expect(decimals).to.be.equal(21);
+      expect(allowance).to.be.equal(ethers.constants.MaxUint256);
+    });
+  });
+
+  describe('max functions', () => {
+    it('returns 0 if the vault is paused', async () => {
+      await shares
+        .connect(usdcWhale)
+        .deposit(parseEther('1000'), usdcWhale.address);
+
+      expect(await shares.maxDeposit(usdcWhale.address)).to.be.equal(
+        ethers.constants.MaxUint256
+      );
+      expect(await shares.maxMint(usdcWhale.address)).to.be.equal(
+        ethers.constants.MaxUint256
+      );
+      expect(await shares.maxRedeem(usdcWhale.address)).to.be.equal(
+        await shares.balanceOf(usdcWhale.address)
+      );
+      expect(await shares.maxWithdraw(usdcWhale.address)).to.be.equal(
+        await shares.convertToAssets(await shares.balanceOf(usdcWhale.address))
+      );
+
+      await vault.connect(owner).pause();
+
+      const [maxDeposit, maxMint, maxRedeem, maxWithdraw] = await Promise.all([
+        shares.maxDeposit(usdcWhale.address),
+        shares.maxMint(usdcWhale.address),
+        shares.maxRedeem(usdcWhale.address),
+        shares.maxWithdraw(usdcWhale.address),
+      ]);
+
+      expect(maxDeposit).to.be.equal(0);
+      expect(maxMint).to.be.equal(0);
+      expect(maxRedeem).to.be.equal(0);
+      expect(maxWithdraw).to.be.equal(0);
+    });
+  });
+
+  describe('function: deposit and mint', () => {
+    it('reverts if it mints no shares or the vault is paused', async () => {
+      await expect(
+        shares.connect(usdcWhale).deposit(0, usdcWhale.address)
+      ).to.revertedWith('DVS: no zero shares');
+
+      await vault.connect(owner).pause();
+
+      await expect(
+        shares.connect(usdcWhale).deposit(parseEther('1000'), usdcWhale.address)
+      ).to.revertedWith('Pausable: paused');
+    });
+    it('deposits in the vault and mints shares to the receiver', async () => {
+      const preview = await shares.previewDeposit(parseEther('100000'));
+
+      expect(preview).to.be.equal(parseShares('99500'));
+
+      await expect(
+        shares.connect(usdcWhale).deposit(parseEther('100000'), alice.address)
+      )
+        .to.emit(shares, 'Deposit')
+        .withArgs(
+          usdcWhale.address,
+          alice.address,
+          parseEther('100000'),
+          preview
+        )
+        .to.emit(vault, 'Deposit');
+
+      const [balance, account, dineroBalance, totalAssets] = await Promise.all([
+        shares.balanceOf(alice.address),
+        vault.accountOf(USDC, shares.address),
+        dinero.balanceOf(shares.address),
+        shares.totalAssets(),
+      ]);
+
+      expect(balance).to.be.equal(preview);
+      expect(account.vTokens.gt(0)).to.be.equal(true);
+      // The Dinero lent by the vault stays in the shares contract.
+      expect(dineroBalance).to.be.equal(parseEther('90000'));
+      expect(account.principal).to.be.equal(parseEther('90000'));
+      expect(totalAssets).to.be.closeTo(parseEther('99500'), parseEther('1'));
+    });
+    it('takes the assets needed to mint shares', async () => {
+      await shares
+        .connect(usdcWhale)
+        .deposit(parseEther('100000'), usdcWhale.address);
+
+      const [assets, usdcBalance] = await Promise.all([
+        shares.previewMint(parseShares('1000')),
+        USDCContract.balanceOf(usdcWhale.address),
+      ]);
+
+      expect(assets.gt(parseEther('1000'))).to.be.equal(true);
+
+      await expect(
+        shares.connect(usdcWhale).mint(parseShares('1000'), alice.address)
+      ).to.emit(shares, 'Deposit');
+
+      expect(await shares.balanceOf(alice.address)).to.be.equal(
+        parseShares('1000')
+      );
+      expect(await USDCContract.balanceOf(usdcWhale.address)).to.be.closeTo(
+        usdcBalance.sub(assets),
+        parseEther('0.01')
+      );
+    });
+  });
+
+  describe('function: withdraw and redeem', () => {
+    beforeEach(async () => {
+      await shares
+        .connect(usdcWhale)
+        .deposit(parseEther('100000'), usdcWhale.address);
+    });
+
+    it('reverts if the caller does not have an allowance', async () => {
+      await expect(
+        shares
+          .connect(alice)
+          .redeem(parseShares('1000'), alice.address, usdcWhale.address)
+      ).to.revertedWith('ERC20: insufficient allowance');
+    });
+    it('redeems shares for the underlying and repays the vault Dinero', async () => {
+      const [assets, aliceUSDCBefore] = await Promise.all([
+        shares.previewRedeem(parseShares('49750')),
+        USDCContract.balanceOf(alice.address),
+      ]);
+
+      await shares
+        .connect(usdcWhale)
+        .approve(alice.address, parseShares('49750'));
+
+      await expect(
+        shares
+          .connect(alice)
+          .redeem(parseShares('49750'), alice.address, usdcWhale.address)
+      )
+        .to.emit(shares, 'Withdraw')
+        .to.emit(vault, 'Withdraw');
+
+      const [balance, allowance, aliceUSDC, dineroBalance] = await Promise.all([
+        shares.balanceOf(usdcWhale.address),
+        shares.allowance(usdcWhale.address, alice.address),
+        USDCContract.balanceOf(alice.address),
+        dinero.balanceOf(shares.address),
+      ]);
+
+      expect(balance).to.be.equal(parseShares('49750'));
+      expect(allowance).to.be.equal(0);
+      expect(aliceUSDC).to.be.closeTo(
+        aliceUSDCBefore.add(assets),
+        parseEther('0.01')
+      );
+      expect(dineroBalance).to.be.closeTo(parseEther('45000'), parseEther('1'));
+    });
+    it('withdraws the underlying for shares', async () => {
+      const [preview, aliceUSDC] = await Promise.all([
+        shares.previewWithdraw(parseEther('10000')),
+        USDCContract.balanceOf(alice.address),
+      ]);
+
+      const receipt = await (
+        await shares
+          .connect(usdcWhale)
+          .withdraw(parseEther('10000'), alice.address, usdcWhale.address)
+      ).wait();
+
+      const event = receipt.events?.find((x) => x.event === 'Withdraw');
+
+      const sharesBurned = parseShares('99500').sub(
+        await shares.balanceOf(usdcWhale.address)
+      );
+
+      expect(event?.args?.caller).to.be.equal(usdcWhale.address);
+      expect(event?.args?.receiver).to.be.equal(alice.address);
+      expect(event?.args?.owner).to.be.equal(usdcWhale.address);
+      expect(event?.args?.assets).to.be.equal(parseEther('10000'));
+      expect(event?.args?.shares).to.be.equal(sharesBurned);
+      // Venus accrues interest in the block of the withdrawal, so it burns slightly less shares than the preview.
+      expect(sharesBurned).to.be.closeTo(preview, parseShares('0.01'));
+      expect(await USDCContract.balanceOf(alice.address)).to.be.closeTo(
+        aliceUSDC.add(parseEther('10000')),
+        parseEther('0.01')
+      );
+    });
+    it('shares the losses of the vault with the share holders', async () => {
+      await vault.connect(usdcWhale).deposit(USDC, parseEther('100000'));
+
+      const totalAssets = await shares.totalAssets();
+
+      // To emulate a real life scenario, losses only happen when we leverage the vault position.
+      await vault.connect(owner).borrow(vUSDC, parseEther('60000'));
+
+      await vault.burnERC20(USDC, parseEther('60000'));
+
+      await network.provider.send('hardhat_mine', [
+        `0x${Number(100).toString(16)}`,
+      ]);
+
+      // The loss is recorded by the next interaction with the vault.
+      await expect(
+        vault.connect(usdcWhale).deposit(USDC, parseEther('1000'))
+      ).to.emit(vault, 'Loss');
+
+      // The shares contract holds about half of the vault position, so it pays about half of the loss.
+      expect(await shares.totalAssets()).to.be.closeTo(
+        totalAssets.sub(parseEther('30000')),
+        parseEther('1000')
+      );
+
+      const [assets, aliceUSDC] = await Promise.all([
+        shares.previewRedeem(parseShares('99500')),
+        USDCContract.balanceOf(alice.address),
+      ]);
+
+      await shares
+        .connect(usdcWhale)
+        .redeem(parseShares('99500'), alice.address, usdcWhale.address);
+
+      expect(await USDCContract.balanceOf(alice.address)).to.be.closeTo(
+        aliceUSDC.add(assets),
+        parseEther('0.01')
+      );
+      expect(await shares.totalSupply()).to.be.equal(0);
+    });
+    it('reverts if the vault does not send enough assets to pay the receiver', async () => {
+      await vault.connect(usdcWhale).deposit(USDC, parseEther('100000'));
+
+      // The vault keeps the USDC it borrows, which it sends before redeeming from Venus.
+      await vault.connect(owner).borrow(vUSDC, parseEther('60000'));
+
+      // The vault deleverages until its balance is within 1 USDC of the withdrawal and sends its whole balance.
+      const assets = (await USDCContract.balanceOf(vault.address)).add(
+        parseEther('0.5')
+      );
+
+      await expect(
+        shares
+          .connect(usdcWhale)
+          .withdraw(assets, alice.address, usdcWhale.address)
+      ).to.revertedWith('DVS: not enough assets');
+
+      await expect(
+        shares
+          .connect(usdcWhale)
+          .redeem(
+            await shares.previewWithdraw(assets),
+            alice.address,
+            usdcWhale.address
+          )
+      ).to.revertedWith('DVS: not enough assets');
+    });
+  });
+});
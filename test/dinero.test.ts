@@ -2,12 +2,13 @@ import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
 import { expect } from 'chai';
 import { ethers } from 'hardhat';
 
-import { Dinero, TestDineroV2 } from '../typechain';
+import { Dinero, MockDineroV1, TestDineroV2 } from '../typechain';
 import {
   BURNER_ROLE,
   DEFAULT_ADMIN_ROLE,
   DEVELOPER_ROLE,
   MINTER_ROLE,
+  RESERVE_ROLE,
 } from './lib/constants';
 import { deployUUPS, upgrade } from './lib/test-utils';
 
@@ -100,6 +101,125 @@ describe('Dinero', () => {
       );
     });
   });
+  describe('mint ceilings', () => {
+    beforeEach(async () => {
+      await Promise.all([
+        dinero.connect(owner).grantRole(BURNER_ROLE, owner.address),
+        dinero.connect(owner).grantRole(MINTER_ROLE, owner.address),
+      ]);
+    });
+
+    it('reverts if an account without the DEFAULT_ADMIN_ROLE sets a ceiling', async () => {
+      await expect(
+        dinero.connect(alice).setMintCeiling(owner.address, parseEther('10'))
+      ).to.revertedWith(
+        'AccessControl: account 0x70997970c51812dc3a010c7d01b50e0d17dc79c8 is missing role 0x0000000000000000000000000000000000000000000000000000000000000000'
+      );
+    });
+    it('does not cap minters without a ceiling', async () => {
+      await dinero.connect(owner).mint(alice.address, parseEther('1000'));
+
+      expect(await dinero.mintedOf(owner.address)).to.be.equal(
+        parseEther('1000')
+      );
+      expect(await dinero.mintableOf(owner.address)).to.be.equal(
+        ethers.constants.MaxUint256
+      );
+    });
+    it('caps the Dinero a minter has outstanding', async () => {
+      await expect(
+        dinero.connect(owner).setMintCeiling(owner.address, parseEther('100'))
+      )
+        .to.emit(dinero, 'MintCeiling')
+        .withArgs(owner.address, parseEther('100'));
+
+      await dinero.connect(owner).mint(alice.address, parseEther('60'));
+
+      expect(await dinero.mintableOf(owner.address)).to.be.equal(
+        parseEther('40')
+      );
+
+      await expect(
+        dinero.connect(owner).mint(alice.address, parseEther('41'))
+      ).to.revertedWith('DNR: mint ceiling reached');
+
+      await dinero.connect(owner).burn(alice.address, parseEther('20'));
+
+      expect(await dinero.mintedOf(owner.address)).to.be.equal(
+        parseEther('40')
+      );
+
+      await dinero.connect(owner).mint(alice.address, parseEther('60'));
+
+      expect(await dinero.mintedOf(owner.address)).to.be.equal(
+        parseEther('100')
+      );
+      expect(await dinero.mintableOf(owner.address)).to.be.equal(0);
+
+      await dinero
+        .connect(owner)
+        .setMintCeiling(owner.address, parseEther('50'));
+
+      expect(await dinero.mintableOf(owner.address)).to.be.equal(0);
+      await expect(
+        dinero.connect(owner).mint(alice.address, 1)
+      ).to.revertedWith('DNR: mint ceiling reached');
+    });
+    it('does not go below zero when a minter burns more than it minted', async () => {
+      await dinero.connect(owner).grantRole(MINTER_ROLE, alice.address);
+
+      await dinero
+        .connect(owner)
+        .setMintCeiling(owner.address, parseEther('100'));
+
+      await dinero.connect(owner).mint(alice.address, parseEther('100'));
+      await dinero.connect(alice).mint(alice.address, parseEther('10'));
+
+      // Like a market burning the principal + interest of a loan.
+      await dinero.connect(owner).burn(alice.address, parseEther('110'));
+
+      const [ownerMinted, aliceMinted, ownerMintable] = await Promise.all([
+        dinero.mintedOf(owner.address),
+        dinero.mintedOf(alice.address),
+        dinero.mintableOf(owner.address),
+      ]);
+
+      expect(ownerMinted).to.be.equal(0);
+      expect(aliceMinted).to.be.equal(parseEther('10'));
+      // The burn below zero does not raise the ceiling.
+      expect(ownerMintable).to.be.equal(parseEther('100'));
+    });
+    it('reverts if an account without the RESERVE_ROLE burns for a minter', async () => {
+      // The owner has the BURNER_ROLE.
+      await expect(
+        dinero.connect(owner).burnFor(alice.address, owner.address, 0)
+      ).to.revertedWith(
+        'AccessControl: account 0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266 is missing role 0xbf575aa07286781f90c1bdc8f4940c6c29874a0c25a1f1fe7661650b409c01ff'
+      );
+    });
+    it('charges a burn to another minter', async () => {
+      await Promise.all([
+        dinero.connect(owner).grantRole(MINTER_ROLE, alice.address),
+        dinero.connect(owner).grantRole(RESERVE_ROLE, owner.address),
+      ]);
+
+      await dinero.connect(alice).mint(owner.address, parseEther('10'));
+
+      await dinero
+        .connect(owner)
+        .burnFor(alice.address, owner.address, parseEther('4'));
+
+      const [ownerMinted, aliceMinted, ownerBalance] = await Promise.all([
+        dinero.mintedOf(owner.address),
+        dinero.mintedOf(alice.address),
+        dinero.balanceOf(owner.address),
+      ]);
+
+      expect(ownerMinted).to.be.equal(0);
+      expect(aliceMinted).to.be.equal(parseEther('6'));
+      expect(ownerBalance).to.be.equal(parseEther('6'));
+    });
+  });
   describe('Upgrade functionality', async () => {
     it('reverts if a non-developer role tries to upgrade', async () => {
       await dinero.connect(owner).renounceRole(DEVELOPER_ROLE, owner.address);
@@ -108,6 +228,66 @@ describe('Dinero', () => {
         'AccessControl: account 0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266 is missing role 0x4504b9dfd7400a1522f49a8b4a100552da9236849581fd59b7363eb48c6a474c'
       );
     });
+    it('reverts if Dinero deployed with the latest version is migrated', async () => {
+      await expect(
+        dinero.connect(owner).initializeV2([owner.address], [1])
+      ).to.revertedWith('DNR: already initialized');
+    });
+    it('seeds the Dinero minted before the mint ceilings', async () => {
+      const dineroV1: MockDineroV1 = await deployUUPS('MockDineroV1');
+
+      await dineroV1.connect(owner).grantRole(MINTER_ROLE, owner.address);
+      await dineroV1.connect(owner).grantRole(BURNER_ROLE, owner.address);
+
+      // The supply created by the minter before the upgrade.
+      await dineroV1.connect(owner).mint(alice.address, parseEther('1000'));
+
+      const upgradedDinero: Dinero = await upgrade(dineroV1, 'Dinero');
+
+      await expect(
+        upgradedDinero.connect(alice).initializeV2([owner.address], [1])
+      ).to.revertedWith(
+        'AccessControl: account 0x70997970c51812dc3a010c7d01b50e0d17dc79c8 is missing role 0x0000000000000000000000000000000000000000000000000000000000000000'
+      );
+      await expect(
+        upgradedDinero.connect(owner).initializeV2([owner.address], [])
+      ).to.revertedWith('DNR: wrong length');
+
+      await upgradedDinero
+        .connect(owner)
+        .initializeV2([owner.address], [parseEther('1000')]);
+
+      await upgradedDinero
+        .connect(owner)
+        .setMintCeiling(owner.address, parseEther('1200'));
+
+      expect(await upgradedDinero.mintedOf(owner.address)).to.be.equal(
+        parseEther('1000')
+      );
+
+      // Burning the supply minted before the upgrade does not raise the ceiling.
+      await upgradedDinero
+        .connect(owner)
+        .burn(alice.address, parseEther('1000'));
+
+      expect(await upgradedDinero.mintableOf(owner.address)).to.be.equal(
+        parseEther('1200')
+      );
+
+      await upgradedDinero
+        .connect(owner)
+        .mint(alice.address, parseEther('1200'));
+
+      await expect(
+        upgradedDinero.connect(owner).mint(alice.address, 1)
+      ).to.revertedWith('DNR: mint ceiling reached');
+
+      await expect(
+        upgradedDinero
+          .connect(owner)
+          .initializeV2([owner.address], [parseEther('1000')])
+      ).to.revertedWith('DNR: already initialized');
+    });
     it('updates to version 2', async () => {
       await dinero.connect(owner).grantRole(MINTER_ROLE, owner.address);
 
@@ -119,7 +299,7 @@ describe('Dinero', () => {
 
       const dineroV2: TestDineroV2 = await upgrade(dinero, 'TestDineroV2');
 
-      await dineroV2.connect(owner).initializeV2(1);
+      await dineroV2.connect(owner).initializeV3(1);
 
       await dineroV2.connect(owner).mint(alice.address, parseEther('250'));
 
@@ -13,14 +13,16 @@ import {
   Dinero,
   ErrorInterestBearingSendBNBRequireMessage,
   ErrorInterestBearingSendBNBRequireNoMessage,
+  InterestBearingMarket,
   InterestBNBBearingMarket,
+  MockInterestBNBBearingMarketV1,
   MockOracle,
   MockTWAP,
   Oracle,
   ReentrantInterestBearingBNBMarketLiquidate,
   ReentrantInterestBearingBNBMarketRequest,
   ReentrantInterestBearingBNBMarketWithdrawCollateral,
-  TestInterestBNBBearingMarketV2,
+  TestInterestBearingMarketV2,
 } from '../typechain';
 import {
   ADD_COLLATERAL_REQUEST,
@@ -77,7 +79,7 @@ const convertBorrowToLiquidationCollateral = (
     .div(exchangeRate);
 
 describe('Interest BNB Bearing Market', () => {
-  let market: InterestBNBBearingMarket;
+  let market: InterestBearingMarket;
   let dinero: Dinero;
   let oracle: Oracle;
   let mockTWAP: MockTWAP;
@@ -147,10 +149,11 @@ describe('Interest BNB Bearing Market', () => {
 
     oracle = await deployUUPS('Oracle', [mockTWAP.address]);
 
-    market = await deployUUPS('InterestBNBBearingMarket', [
+    market = await deployUUPS('InterestBearingMarket', [
       dinero.address,
       treasury.address,
       oracle.address,
+      vBNB,
       INTEREST_RATE,
       ethers.BigNumber.from('500000000000000000'),
       ethers.BigNumber.from('100000000000000000'),
@@ -173,6 +176,7 @@ describe('Interest BNB Bearing Market', () => {
             dinero.address,
             treasury.address,
             oracle.address,
+            vBNB,
             INTEREST_RATE,
             ethers.BigNumber.from('500000000000000000'),
             LIQUIDATION_FEE,
@@ -182,10 +186,11 @@ describe('Interest BNB Bearing Market', () => {
     });
     it('reverts if you set a max tvl ratio out of bounds', async () => {
       await expect(
-        deployUUPS('InterestBNBBearingMarket', [
+        deployUUPS('InterestBearingMarket', [
           dinero.address,
           treasury.address,
           oracle.address,
+          vBNB,
           INTEREST_RATE,
           ethers.BigNumber.from('900000000000000001'),
           LIQUIDATION_FEE,
@@ -193,10 +198,11 @@ describe('Interest BNB Bearing Market', () => {
         ])
       ).to.revertedWith('DM: ltc ratio out of bounds');
       await expect(
-        deployUUPS('InterestBNBBearingMarket', [
+        deployUUPS('InterestBearingMarket', [
           dinero.address,
           treasury.address,
           oracle.address,
+          vBNB,
           INTEREST_RATE,
           ethers.BigNumber.from('490000000000000000'),
           LIQUIDATION_FEE,
@@ -241,7 +247,9 @@ describe('Interest BNB Bearing Market', () => {
   });
 
   it('sends the fees earned to the feeTo address', async () => {
-    await market.connect(alice).addCollateral({ value: parseEther('10') });
+    await market
+      .connect(alice)
+      .addCollateral(parseEther('10'), { value: parseEther('10') });
 
     await market.connect(alice).borrow(alice.address, parseEther('700'));
 
@@ -298,7 +306,9 @@ describe('Interest BNB Bearing Market', () => {
       await network.provider.send('evm_setAutomine', [false]);
 
       // Add 10 BNB as collateral
-      await market.connect(alice).addCollateral({ value: parseEther('10') });
+      await market
+        .connect(alice)
+        .addCollateral(parseEther('10'), { value: parseEther('10') });
 
       await advanceBlock(ethers);
 
@@ -331,7 +341,9 @@ describe('Interest BNB Bearing Market', () => {
     });
     it('accrues the interest rate', async () => {
       // Add 10 BNB as collateral
-      await market.connect(alice).addCollateral({ value: parseEther('10') });
+      await market
+        .connect(alice)
+        .addCollateral(parseEther('10'), { value: parseEther('10') });
 
       await market.connect(alice).borrow(alice.address, parseEther('1500'));
 
@@ -367,10 +379,11 @@ describe('Interest BNB Bearing Market', () => {
 
   describe('function: updateExchangeRate', () => {
     it('reverts if the exchange rate is 0', async () => {
-      const market = await deployUUPS('InterestBNBBearingMarket', [
+      const market = await deployUUPS('InterestBearingMarket', [
         dinero.address,
         treasury.address,
         mockOracle.address,
+        vBNB,
         INTEREST_RATE,
         ethers.BigNumber.from('500000000000000000'),
         ethers.BigNumber.from('100000000000000000'),
@@ -382,10 +395,11 @@ describe('Interest BNB Bearing Market', () => {
       );
     });
     it('updates the exchange rate for vBNB', async () => {
-      const market = await deployUUPS('InterestBNBBearingMarket', [
+      const market = await deployUUPS('InterestBearingMarket', [
         dinero.address,
         treasury.address,
         mockOracle.address,
+        vBNB,
         INTEREST_RATE,
         ethers.BigNumber.from('500000000000000000'),
         ethers.BigNumber.from('100000000000000000'),
@@ -446,11 +460,29 @@ describe('Interest BNB Bearing Market', () => {
       await network.provider.send('hardhat_setCode', [vBNB, code]);
 
       await expect(
-        market.connect(alice).addCollateral({ value: parseEther('2') })
+        market
+          .connect(alice)
+          .addCollateral(parseEther('2'), { value: parseEther('2') })
       ).to.revertedWith('DM: unable to send bnb');
 
       await network.provider.send('hardhat_setCode', [vBNB, vBNBCode]);
     });
+    it('reverts if the BNB sent is not the amount', async () => {
+      await expect(
+        market
+          .connect(alice)
+          .addCollateral(parseEther('2'), { value: parseEther('1') })
+      ).to.revertedWith('DM: invalid value');
+      await expect(
+        market
+          .connect(alice)
+          .request(
+            [ADD_COLLATERAL_REQUEST],
+            [defaultAbiCoder.encode(['uint256'], [parseEther('1')])],
+            { value: parseEther('2') }
+          )
+      ).to.revertedWith('DM: invalid value');
+    });
     it('accepts BNB deposits', async () => {
       const [
         aliceCollateral,
@@ -470,11 +502,15 @@ describe('Interest BNB Bearing Market', () => {
       expect(aliceRewards).to.be.equal(0);
 
       await expect(
-        market.connect(alice).addCollateral({ value: parseEther('10') })
+        market
+          .connect(alice)
+          .addCollateral(parseEther('10'), { value: parseEther('10') })
       ).to.emit(market, 'AddCollateral');
 
       await expect(
-        market.connect(bob).addCollateral({ value: parseEther('5') })
+        market
+          .connect(bob)
+          .addCollateral(parseEther('5'), { value: parseEther('5') })
       )
         .to.emit(market, 'AddCollateral')
         .to.emit(VenusControllerContract, 'DistributedSupplierVenus')
@@ -520,7 +556,9 @@ describe('Interest BNB Bearing Market', () => {
       );
 
       await expect(
-        market.connect(alice).addCollateral({ value: parseEther('5') })
+        market
+          .connect(alice)
+          .addCollateral(parseEther('5'), { value: parseEther('5') })
       )
         .to.emit(market, 'AddCollateral')
         .to.emit(VenusControllerContract, 'Claim')
@@ -567,7 +605,9 @@ describe('Interest BNB Bearing Market', () => {
       );
 
       await expect(
-        market.connect(alice).addCollateral({ value: parseEther('5') })
+        market
+          .connect(alice)
+          .addCollateral(parseEther('5'), { value: parseEther('5') })
       ).to.emit(XVSContract, 'Transfer');
 
       const [totalRewardsPerVToken4, aliceRewards4] = await Promise.all([
@@ -597,7 +637,9 @@ describe('Interest BNB Bearing Market', () => {
 
   describe('function: withdrawCollateral', () => {
     it('reverts if the user is insolvent', async () => {
-      await market.connect(alice).addCollateral({ value: parseEther('10') });
+      await market
+        .connect(alice)
+        .addCollateral(parseEther('10'), { value: parseEther('10') });
 
       await market.connect(alice).borrow(bob.address, parseEther('2000'));
 
@@ -627,7 +669,9 @@ describe('Interest BNB Bearing Market', () => {
           network.provider.send('eth_getCode', [mockVenus.address]),
         ]);
 
-      await market.connect(alice).addCollateral({ value: parseEther('2') });
+      await market
+        .connect(alice)
+        .addCollateral(parseEther('2'), { value: parseEther('2') });
 
       await Promise.all([
         network.provider.send('hardhat_setCode', [vBNB, errorVBNbCode]),
@@ -650,7 +694,9 @@ describe('Interest BNB Bearing Market', () => {
       ]);
     });
     it('allows collateral to be withdrawn in vBNB', async () => {
-      await market.connect(alice).addCollateral({ value: parseEther('10') });
+      await market
+        .connect(alice)
+        .addCollateral(parseEther('10'), { value: parseEther('10') });
 
       await market.connect(alice).borrow(alice.address, parseEther('100'));
 
@@ -706,7 +752,9 @@ describe('Interest BNB Bearing Market', () => {
         aliceCollateral.mul(totalRewardsPerVToken).div(ONE_V_TOKEN)
       );
 
-      await market.connect(bob).addCollateral({ value: parseEther('5') });
+      await market
+        .connect(bob)
+        .addCollateral(parseEther('5'), { value: parseEther('5') });
 
       // Make sure accrue gets called
       await advanceTime(100, ethers); // advance 100 seconds
@@ -760,7 +808,9 @@ describe('Interest BNB Bearing Market', () => {
     });
 
     it('allows BNB to be withdrawn', async () => {
-      await market.connect(alice).addCollateral({ value: parseEther('10') });
+      await market
+        .connect(alice)
+        .addCollateral(parseEther('10'), { value: parseEther('10') });
 
       await market.connect(alice).borrow(alice.address, parseEther('100'));
 
@@ -827,7 +877,9 @@ describe('Interest BNB Bearing Market', () => {
       );
       expect(aliceVBNBBalance2).to.be.equal(aliceVBNBBalance);
 
-      await market.connect(bob).addCollateral({ value: parseEther('5') });
+      await market
+        .connect(bob)
+        .addCollateral(parseEther('5'), { value: parseEther('5') });
 
       // Make sure accrue gets called
       await advanceTime(100, ethers); // advance 100 seconds
@@ -900,14 +952,18 @@ describe('Interest BNB Bearing Market', () => {
       ).to.revertedWith('MKT: no zero address');
     });
     it('reverts if the user is insolvent', async () => {
-      await market.connect(alice).addCollateral({ value: parseEther('2') });
+      await market
+        .connect(alice)
+        .addCollateral(parseEther('2'), { value: parseEther('2') });
 
       await expect(
         market.connect(alice).borrow(bob.address, parseEther('500'))
       ).to.revertedWith('MKT: sender is insolvent');
     });
     it('allows a user to borrow as long as he remains solvent', async () => {
-      await market.connect(alice).addCollateral({ value: parseEther('2') });
+      await market
+        .connect(alice)
+        .addCollateral(parseEther('2'), { value: parseEther('2') });
 
       const [totalLoan, aliceLoan, aliceDineroBalance, bobDineroBalance] =
         await Promise.all([
@@ -996,7 +1052,9 @@ describe('Interest BNB Bearing Market', () => {
       );
     });
     it('allows a user to repay a debt', async () => {
-      await market.connect(alice).addCollateral({ value: parseEther('2') });
+      await market
+        .connect(alice)
+        .addCollateral(parseEther('2'), { value: parseEther('2') });
 
       await market.connect(alice).borrow(alice.address, parseEther('300'));
 
@@ -1155,23 +1213,40 @@ describe('Interest BNB Bearing Market', () => {
       await expect(
         market
           .connect(alice)
-          .liquidate([], [], recipient.address, true, [
-            alice.address,
-            alice.address,
-          ])
+          .liquidate(
+            [],
+            [],
+            recipient.address,
+            true,
+            [alice.address, alice.address],
+            0,
+            ethers.constants.MaxUint256
+          )
       ).to.revertedWith('DM: no dinero at last index');
     });
     it('reverts if there is a path and underlying is false', async () => {
       await expect(
         market
           .connect(alice)
-          .liquidate([], [], recipient.address, false, [dinero.address])
+          .liquidate(
+            [],
+            [],
+            recipient.address,
+            false,
+            [dinero.address],
+            0,
+            ethers.constants.MaxUint256
+          )
       ).to.revertedWith('DM: cannot sell VTokens');
     });
     it('reverts if there are no positions to liquidate', async () => {
       await Promise.all([
-        market.connect(alice).addCollateral({ value: parseEther('10') }),
-        market.connect(bob).addCollateral({ value: parseEther('10') }),
+        market
+          .connect(alice)
+          .addCollateral(parseEther('10'), { value: parseEther('10') }),
+        market
+          .connect(bob)
+          .addCollateral(parseEther('10'), { value: parseEther('10') }),
       ]);
 
       // Collateral should allow them to borrow up to 2500
@@ -1193,7 +1268,9 @@ describe('Interest BNB Bearing Market', () => {
             [principalToLiquidate, principalToLiquidate],
             recipient.address,
             false,
-            []
+            [],
+            0,
+            ethers.constants.MaxUint256
           )
       ).to.revertedWith('DM: no liquidations');
     });
@@ -1201,16 +1278,25 @@ describe('Interest BNB Bearing Market', () => {
       await expect(
         market
           .connect(owner)
-          .liquidate([], [], recipient.address, true, [XVS, dinero.address])
+          .liquidate(
+            [],
+            [],
+            recipient.address,
+            true,
+            [XVS, dinero.address],
+            0,
+            ethers.constants.MaxUint256
+          )
       ).to.revertedWith('DM: not allowed to sell XVS');
     });
     it('reverts if the principal to liquidate is very low', async () => {
-      const market: InterestBNBBearingMarket = await deployUUPS(
-        'InterestBNBBearingMarket',
+      const market: InterestBearingMarket = await deployUUPS(
+        'InterestBearingMarket',
         [
           dinero.address,
           treasury.address,
           mockOracle.address,
+          vBNB,
           INTEREST_RATE,
           ethers.BigNumber.from('500000000000000000'),
           ethers.BigNumber.from('100000000000000000'),
@@ -1225,9 +1311,15 @@ describe('Interest BNB Bearing Market', () => {
       await Promise.all([
         dinero.connect(owner).grantRole(BURNER_ROLE, market.address),
         dinero.connect(owner).grantRole(MINTER_ROLE, market.address),
-        market.connect(alice).addCollateral({ value: parseEther('10') }),
-        market.connect(bob).addCollateral({ value: parseEther('10') }),
-        market.connect(jose).addCollateral({ value: parseEther('7') }),
+        market
+          .connect(alice)
+          .addCollateral(parseEther('10'), { value: parseEther('10') }),
+        market
+          .connect(bob)
+          .addCollateral(parseEther('10'), { value: parseEther('10') }),
+        market
+          .connect(jose)
+          .addCollateral(parseEther('7'), { value: parseEther('7') }),
       ]);
 
       await Promise.all([
@@ -1256,17 +1348,20 @@ describe('Interest BNB Bearing Market', () => {
             ],
             recipient.address,
             true,
-            [WBNB, dinero.address]
+            [WBNB, dinero.address],
+            0,
+            ethers.constants.MaxUint256
           )
       ).to.revertedWith('DM: principal too low');
     });
     it('allows for full liquidation', async () => {
-      const market: InterestBNBBearingMarket = await deployUUPS(
-        'InterestBNBBearingMarket',
+      const market: InterestBearingMarket = await deployUUPS(
+        'InterestBearingMarket',
         [
           dinero.address,
           treasury.address,
           mockOracle.address,
+          vBNB,
           INTEREST_RATE,
           ethers.BigNumber.from('500000000000000000'),
           ethers.BigNumber.from('100000000000000000'),
@@ -1282,7 +1377,9 @@ describe('Interest BNB Bearing Market', () => {
         dinero.connect(owner).grantRole(MINTER_ROLE, market.address),
       ]);
 
-      await market.connect(alice).addCollateral({ value: parseEther('10') });
+      await market
+        .connect(alice)
+        .addCollateral(parseEther('10'), { value: parseEther('10') });
 
       await market.connect(alice).borrow(alice.address, parseEther('2200'));
 
@@ -1296,7 +1393,9 @@ describe('Interest BNB Bearing Market', () => {
           [parseEther('2200')],
           recipient.address,
           false,
-          []
+          [],
+          0,
+          ethers.constants.MaxUint256
         );
 
       const totalLoan = await market.totalLoan();
@@ -1305,12 +1404,13 @@ describe('Interest BNB Bearing Market', () => {
       expect(totalLoan.elastic).to.be.equal(0);
     });
     it('liquidates a user by selling redeeming the collateral and burning the acquired dinero', async () => {
-      const market: InterestBNBBearingMarket = await deployUUPS(
-        'InterestBNBBearingMarket',
+      const market: InterestBearingMarket = await deployUUPS(
+        'InterestBearingMarket',
         [
           dinero.address,
           treasury.address,
           mockOracle.address,
+          vBNB,
           INTEREST_RATE,
           ethers.BigNumber.from('500000000000000000'),
           ethers.BigNumber.from('100000000000000000'),
@@ -1327,9 +1427,15 @@ describe('Interest BNB Bearing Market', () => {
       ]);
 
       await Promise.all([
-        market.connect(alice).addCollateral({ value: parseEther('10') }),
-        market.connect(bob).addCollateral({ value: parseEther('10') }),
-        market.connect(jose).addCollateral({ value: parseEther('7') }),
+        market
+          .connect(alice)
+          .addCollateral(parseEther('10'), { value: parseEther('10') }),
+        market
+          .connect(bob)
+          .addCollateral(parseEther('10'), { value: parseEther('10') }),
+        market
+          .connect(jose)
+          .addCollateral(parseEther('7'), { value: parseEther('7') }),
       ]);
 
       await Promise.all([
@@ -1425,7 +1531,9 @@ describe('Interest BNB Bearing Market', () => {
             [parseEther('2200'), parseEther('500'), parseEther('1200')],
             recipient.address,
             true,
-            [WBNB, dinero.address]
+            [WBNB, dinero.address],
+            0,
+            ethers.constants.MaxUint256
           )
       )
         .to.emit(market, 'Accrue')
@@ -1565,12 +1673,13 @@ describe('Interest BNB Bearing Market', () => {
       expect(recipientVBNBBalance2).to.be.equal(recipientVBNBBalance);
     });
     it('liquidates a user by using the caller dinero and getting the underlying as a reward', async () => {
-      const market: InterestBNBBearingMarket = await deployUUPS(
-        'InterestBNBBearingMarket',
+      const market: InterestBearingMarket = await deployUUPS(
+        'InterestBearingMarket',
         [
           dinero.address,
           treasury.address,
           mockOracle.address,
+          vBNB,
           INTEREST_RATE,
           ethers.BigNumber.from('500000000000000000'),
           ethers.BigNumber.from('100000000000000000'),
@@ -1587,9 +1696,15 @@ describe('Interest BNB Bearing Market', () => {
       ]);
 
       await Promise.all([
-        market.connect(alice).addCollateral({ value: parseEther('10') }),
-        market.connect(bob).addCollateral({ value: parseEther('10') }),
-        market.connect(jose).addCollateral({ value: parseEther('7') }),
+        market
+          .connect(alice)
+          .addCollateral(parseEther('10'), { value: parseEther('10') }),
+        market
+          .connect(bob)
+          .addCollateral(parseEther('10'), { value: parseEther('10') }),
+        market
+          .connect(jose)
+          .addCollateral(parseEther('7'), { value: parseEther('7') }),
       ]);
 
       await Promise.all([
@@ -1686,7 +1801,9 @@ describe('Interest BNB Bearing Market', () => {
             [parseEther('2450'), parseEther('500'), parseEther('1200')],
             recipient.address,
             true,
-            []
+            [],
+            0,
+            ethers.constants.MaxUint256
           )
       )
         .to.emit(market, 'Accrue')
@@ -1890,12 +2007,13 @@ describe('Interest BNB Bearing Market', () => {
       expect(ownerVBNBBalance).to.be.equal(0);
     });
     it('liquidates a user by using the caller dinero and getting VBNB as a reward', async () => {
-      const market: InterestBNBBearingMarket = await deployUUPS(
-        'InterestBNBBearingMarket',
+      const market: InterestBearingMarket = await deployUUPS(
+        'InterestBearingMarket',
         [
           dinero.address,
           treasury.address,
           mockOracle.address,
+          vBNB,
           INTEREST_RATE,
           ethers.BigNumber.from('500000000000000000'),
           ethers.BigNumber.from('100000000000000000'),
@@ -1912,9 +2030,15 @@ describe('Interest BNB Bearing Market', () => {
       ]);
 
       await Promise.all([
-        market.connect(alice).addCollateral({ value: parseEther('10') }),
-        market.connect(bob).addCollateral({ value: parseEther('10') }),
-        market.connect(jose).addCollateral({ value: parseEther('7') }),
+        market
+          .connect(alice)
+          .addCollateral(parseEther('10'), { value: parseEther('10') }),
+        market
+          .connect(bob)
+          .addCollateral(parseEther('10'), { value: parseEther('10') }),
+        market
+          .connect(jose)
+          .addCollateral(parseEther('7'), { value: parseEther('7') }),
       ]);
 
       await Promise.all([
@@ -2011,7 +2135,9 @@ describe('Interest BNB Bearing Market', () => {
             [parseEther('2450'), parseEther('500'), parseEther('1200')],
             recipient.address,
             false,
-            []
+            [],
+            0,
+            ethers.constants.MaxUint256
           )
       )
         .to.emit(market, 'Accrue')
@@ -2215,15 +2341,17 @@ describe('Interest BNB Bearing Market', () => {
       await market.connect(owner).renounceOwnership();
 
       await expect(
-        upgrade(market, 'TestInterestBNBBearingMarketV2')
+        upgrade(market, 'TestInterestBearingMarketV2')
       ).to.revertedWith('Ownable: caller is not the owner');
     });
     it('upgrades to version 2', async () => {
-      await market.connect(alice).addCollateral({ value: parseEther('10') });
+      await market
+        .connect(alice)
+        .addCollateral(parseEther('10'), { value: parseEther('10') });
 
-      const marketV2: TestInterestBNBBearingMarketV2 = await upgrade(
+      const marketV2: TestInterestBearingMarketV2 = await upgrade(
         market,
-        'TestInterestBNBBearingMarketV2'
+        'TestInterestBearingMarketV2'
       );
 
       const [exchangeRate, aliceVBNBBalance] = await Promise.all([
@@ -2259,6 +2387,91 @@ describe('Interest BNB Bearing Market', () => {
         1e4
       );
     });
+    it('upgrades the first version of the BNB bearing market', async () => {
+      const marketV1: MockInterestBNBBearingMarketV1 = await deployUUPS(
+        'MockInterestBNBBearingMarketV1',
+        [
+          dinero.address,
+          treasury.address,
+          oracle.address,
+          INTEREST_RATE,
+          parseEther('0.5'),
+          LIQUIDATION_FEE,
+          ethers.constants.MaxUint256,
+        ]
+      );
+
+      await marketV1.connect(alice).addCollateral({ value: parseEther('10') });
+      await marketV1.connect(bob).addCollateral({ value: parseEther('5') });
+
+      const [aliceCollateral, bobCollateral, totalVCollateral, bobRewards] =
+        await Promise.all([
+          marketV1.userCollateral(alice.address),
+          marketV1.userCollateral(bob.address),
+          marketV1.totalVCollateral(),
+          marketV1.rewardsOf(bob.address),
+        ]);
+
+      // The upgrade validates that the storage layouts are compatible.
+      const upgradedMarket: InterestBNBBearingMarket = await upgrade(
+        marketV1,
+        'InterestBNBBearingMarket'
+      );
+
+      await Promise.all([
+        dinero.connect(owner).grantRole(MINTER_ROLE, upgradedMarket.address),
+        dinero.connect(owner).grantRole(BURNER_ROLE, upgradedMarket.address),
+      ]);
+
+      const [
+        vToken,
+        collateral,
+        maxLTVRatio,
+        feeTo,
+        aliceCollateral2,
+        bobCollateral2,
+        totalVCollateral2,
+        bobRewards2,
+      ] = await Promise.all([
+        upgradedMarket.VTOKEN(),
+        upgradedMarket.COLLATERAL(),
+        upgradedMarket.maxLTVRatio(),
+        upgradedMarket.FEE_TO(),
+        upgradedMarket.userCollateral(alice.address),
+        upgradedMarket.userCollateral(bob.address),
+        upgradedMarket.totalVCollateral(),
+        upgradedMarket.rewardsOf(bob.address),
+      ]);
+
+      expect(vToken).to.be.equal(vBNB);
+      expect(collateral).to.be.equal(ethers.constants.AddressZero);
+      expect(maxLTVRatio).to.be.equal(parseEther('0.5'));
+      expect(feeTo).to.be.equal(treasury.address);
+      expect(aliceCollateral2).to.be.equal(aliceCollateral);
+      expect(bobCollateral2).to.be.equal(bobCollateral);
+      expect(totalVCollateral2).to.be.equal(totalVCollateral);
+      expect(totalVCollateral2).to.be.equal(aliceCollateral.add(bobCollateral));
+      expect(bobRewards2).to.be.equal(bobRewards);
+
+      // The reentrancy guard works without being initialized.
+      await expect(
+        upgradedMarket
+          .connect(alice)
+          .addCollateral(parseEther('2'), { value: parseEther('2') })
+      ).to.emit(upgradedMarket, 'AddCollateral');
+
+      await expect(
+        upgradedMarket.connect(bob).withdrawCollateral(bobCollateral, false)
+      ).to.emit(upgradedMarket, 'WithdrawCollateral');
+
+      expect(await upgradedMarket.userCollateral(bob.address)).to.be.equal(0);
+      expect(await upgradedMarket.totalVCollateral()).to.be.equal(
+        await upgradedMarket.userCollateral(alice.address)
+      );
+      expect(await upgradedMarket.userCollateral(alice.address)).to.be.gt(
+        aliceCollateral
+      );
+    });
   });
 
   it('reverts if you pass an unknown request', async () => {
@@ -2485,7 +2698,9 @@ describe('Interest BNB Bearing Market', () => {
 
   describe('function: request withdraw collateral', () => {
     it('reverts if the user is insolvent', async () => {
-      await market.connect(alice).addCollateral({ value: parseEther('10') });
+      await market
+        .connect(alice)
+        .addCollateral(parseEther('10'), { value: parseEther('10') });
 
       await market.connect(alice).borrow(bob.address, parseEther('2000'));
 
@@ -2523,7 +2738,9 @@ describe('Interest BNB Bearing Market', () => {
           network.provider.send('eth_getCode', [mockVenus.address]),
         ]);
 
-      await market.connect(alice).addCollateral({ value: parseEther('2') });
+      await market
+        .connect(alice)
+        .addCollateral(parseEther('2'), { value: parseEther('2') });
 
       await Promise.all([
         network.provider.send('hardhat_setCode', [vBNB, errorVBNbCode]),
@@ -2551,7 +2768,9 @@ describe('Interest BNB Bearing Market', () => {
       ]);
     });
     it('allows collateral to be withdrawn in vBNB', async () => {
-      await market.connect(alice).addCollateral({ value: parseEther('10') });
+      await market
+        .connect(alice)
+        .addCollateral(parseEther('10'), { value: parseEther('10') });
 
       await market.connect(alice).borrow(alice.address, parseEther('100'));
 
@@ -2612,7 +2831,9 @@ describe('Interest BNB Bearing Market', () => {
         aliceCollateral.mul(totalRewardsPerVToken).div(ONE_V_TOKEN)
       );
 
-      await market.connect(bob).addCollateral({ value: parseEther('5') });
+      await market
+        .connect(bob)
+        .addCollateral(parseEther('5'), { value: parseEther('5') });
 
       // Make sure accrue gets called
       await advanceTime(100, ethers); // advance 100 seconds
@@ -2671,7 +2892,9 @@ describe('Interest BNB Bearing Market', () => {
     });
 
     it('allows BNB to be withdrawn', async () => {
-      await market.connect(alice).addCollateral({ value: parseEther('10') });
+      await market
+        .connect(alice)
+        .addCollateral(parseEther('10'), { value: parseEther('10') });
 
       await market.connect(alice).borrow(alice.address, parseEther('100'));
 
@@ -2743,7 +2966,9 @@ describe('Interest BNB Bearing Market', () => {
       );
       expect(aliceVBNBBalance2).to.be.equal(aliceVBNBBalance);
 
-      await market.connect(bob).addCollateral({ value: parseEther('5') });
+      await market
+        .connect(bob)
+        .addCollateral(parseEther('5'), { value: parseEther('5') });
 
       // Make sure accrue gets called
       await advanceTime(100, ethers); // advance 100 seconds
@@ -2859,12 +3084,13 @@ describe('Interest BNB Bearing Market', () => {
     });
 
     it('reverts if you reenter the liquidate function', async () => {
-      const market: InterestBNBBearingMarket = await deployUUPS(
-        'InterestBNBBearingMarket',
+      const market: InterestBearingMarket = await deployUUPS(
+        'InterestBearingMarket',
         [
           dinero.address,
           treasury.address,
           mockOracle.address,
+          vBNB,
           INTEREST_RATE,
           ethers.BigNumber.from('500000000000000000'),
           ethers.BigNumber.from('100000000000000000'),
@@ -2880,7 +3106,9 @@ describe('Interest BNB Bearing Market', () => {
         dinero.connect(owner).grantRole(MINTER_ROLE, market.address),
       ]);
 
-      await market.connect(alice).addCollateral({ value: parseEther('10') });
+      await market
+        .connect(alice)
+        .addCollateral(parseEther('10'), { value: parseEther('10') });
 
       await market.connect(alice).borrow(alice.address, parseEther('2200'));
 
@@ -2927,7 +3155,9 @@ describe('Interest BNB Bearing Market', () => {
       ).to.revertedWith('MKT: no zero address');
     });
     it('reverts if the user is insolvent', async () => {
-      await market.connect(alice).addCollateral({ value: parseEther('2') });
+      await market
+        .connect(alice)
+        .addCollateral(parseEther('2'), { value: parseEther('2') });
 
       await expect(
         market
@@ -2944,7 +3174,9 @@ describe('Interest BNB Bearing Market', () => {
       ).to.revertedWith('MKT: sender is insolvent');
     });
     it('allows a user to borrow as long as he remains solvent', async () => {
-      await market.connect(alice).addCollateral({ value: parseEther('2') });
+      await market
+        .connect(alice)
+        .addCollateral(parseEther('2'), { value: parseEther('2') });
 
       const [totalLoan, aliceLoan, aliceDineroBalance, bobDineroBalance] =
         await Promise.all([
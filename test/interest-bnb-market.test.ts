@@ -1,6 +1,6 @@
 import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
 import { expect } from 'chai';
-import { Contract } from 'ethers';
+import { BigNumberish, Contract } from 'ethers';
 import { ethers, network } from 'hardhat';
 
 import PCSFactoryABI from '../abi/pcs-factory.json';
@@ -21,10 +21,13 @@ import {
   ADD_COLLATERAL_REQUEST,
   BORROW_REQUEST,
   BURNER_ROLE,
+  CAKE,
+  LEVERAGE_REQUEST,
   MINTER_ROLE,
   PCS_FACTORY,
   PCS_ROUTER,
   REPAY_REQUEST,
+  REPAY_WITH_COLLATERAL_REQUEST,
   WBNB,
   WBNB_WHALE,
   WITHDRAW_COLLATERAL_REQUEST,
@@ -48,6 +51,30 @@ const LIQUIDATION_FEE = ethers.BigNumber.from('100000000000000000');
 
 const { parseEther, defaultAbiCoder } = ethers.utils;
 
+// Sells `amount` of collateral for at least `minAmountOut` Dinero to repay `principal`.
+const encodeRepayWithCollateral = (
+  amount: BigNumberish,
+  principal: BigNumberish,
+  minAmountOut: BigNumberish,
+  path: Array<string>
+) =>
+  defaultAbiCoder.encode(
+    ['uint256', 'uint256', 'uint256', 'address[]'],
+    [amount, principal, minAmountOut, path]
+  );
+
+// Borrows and buys collateral up to `loops` times to reach `targetLTV`.
+const encodeLeverage = (
+  targetLTV: BigNumberish,
+  loops: BigNumberish,
+  minAmountOut: BigNumberish,
+  path: Array<string>
+) =>
+  defaultAbiCoder.encode(
+    ['uint256', 'uint256', 'uint256', 'address[]'],
+    [targetLTV, loops, minAmountOut, path]
+  );
+
 describe('InterestBNBMarket', () => {
   let market: InterestBNBMarket;
   let dinero: Dinero;
@@ -425,6 +452,22 @@ describe('InterestBNBMarket', () => {
         parseEther('3')
       );
     });
+
+    it('reverts if the router sends BNB outside a leverage', async () => {
+      const routerSigner = await impersonate(PCS_ROUTER);
+
+      await network.provider.send('hardhat_setBalance', [
+        PCS_ROUTER,
+        ethers.utils.hexValue(parseEther('10')),
+      ]);
+
+      await expect(
+        routerSigner.sendTransaction({
+          to: market.address,
+          value: parseEther('1'),
+        })
+      ).to.revertedWith('MKT: not leveraging');
+    });
   });
 
   describe('function: withdrawCollateral', () => {
@@ -657,6 +700,104 @@ describe('InterestBNBMarket', () => {
       ).to.be.equal(true);
     });
   });
+  describe('function: position views', () => {
+    it('returns empty values for accounts without loans', async () => {
+      const [debt, collateralInUSD, ltv, liquidationPrice, maxBorrowAmount] =
+        await Promise.all([
+          market.getDebtOf(alice.address),
+          market.getCollateralInUSD(alice.address),
+          market.getLTV(alice.address),
+          market.getLiquidationPrice(alice.address),
+          market.getMaxBorrowAmountOf(alice.address),
+        ]);
+
+      expect(debt).to.be.equal(0);
+      expect(collateralInUSD).to.be.equal(0);
+      expect(ltv).to.be.equal(0);
+      expect(liquidationPrice).to.be.equal(0);
+      expect(maxBorrowAmount).to.be.equal(0);
+    });
+    it('returns the health of a borrower', async () => {
+      await market
+        .connect(alice)
+        .addCollateral(alice.address, { value: parseEther('2') });
+
+      await market.connect(alice).borrow(alice.address, parseEther('200'));
+
+      const exchangeRate = await market.exchangeRate();
+      const collateralInUSD = parseEther('2')
+        .mul(exchangeRate)
+        .div(parseEther('1'));
+
+      expect(await market.getCollateralInUSD(alice.address)).to.be.equal(
+        collateralInUSD
+      );
+      expect(await market.getDebtOf(alice.address)).to.be.equal(
+        parseEther('200')
+      );
+      expect(await market.getLTV(alice.address)).to.be.equal(
+        parseEther('200').mul(parseEther('1')).div(collateralInUSD)
+      );
+      // 200 DNR / (2 BNB * 50%)
+      expect(await market.getLiquidationPrice(alice.address)).to.be.equal(
+        parseEther('200')
+      );
+
+      await advanceBlockAndTime(10_000, ethers);
+
+      // Accrued interest is included without calling accrue
+      const [debt, totalDebt] = await Promise.all([
+        market.getDebtOf(alice.address),
+        market.getTotalDebt(),
+      ]);
+
+      await market.accrue();
+
+      const totalLoan = await market.totalLoan();
+
+      expect(debt).to.be.closeTo(totalLoan.elastic, parseEther('0.0001'));
+      expect(debt).to.be.gt(parseEther('200'));
+      expect(totalDebt).to.be.closeTo(totalLoan.elastic, parseEther('0.0001'));
+
+      const maxBorrowAmount = await market.getMaxBorrowAmountOf(alice.address);
+
+      expect(maxBorrowAmount).to.be.closeTo(
+        collateralInUSD.div(2).sub(totalLoan.elastic),
+        parseEther('0.0001')
+      );
+
+      await expect(
+        market
+          .connect(alice)
+          .borrow(alice.address, maxBorrowAmount.add(parseEther('0.001')))
+      ).to.revertedWith('MKT: sender is insolvent');
+
+      await market
+        .connect(alice)
+        .borrow(alice.address, maxBorrowAmount.sub(parseEther('0.001')));
+
+      expect(await market.getLTV(alice.address)).to.be.closeTo(
+        parseEther('0.5'),
+        parseEther('0.0001')
+      );
+    });
+    it('caps the max borrow amount at the maxBorrowAmount', async () => {
+      await market
+        .connect(alice)
+        .addCollateral(alice.address, { value: parseEther('2') });
+
+      await market.connect(owner).setMaxBorrowAmount(parseEther('100'));
+
+      expect(await market.getMaxBorrowAmountOf(alice.address)).to.be.equal(
+        parseEther('100')
+      );
+
+      await market.connect(alice).borrow(alice.address, parseEther('100'));
+
+      expect(await market.getMaxBorrowAmountOf(alice.address)).to.be.equal(0);
+    });
+  });
+
   describe('function: setMaxLTVRatio', () => {
     it('reverts if it is not called by the owner', async () => {
       await expect(market.connect(alice).setMaxLTVRatio(0)).to.revertedWith(
@@ -711,6 +852,295 @@ describe('InterestBNBMarket', () => {
       );
     });
   });
+  describe('function: setCloseFactor', () => {
+    it('reverts if it is not called by the owner', async () => {
+      await expect(market.connect(alice).setCloseFactor(0)).to.revertedWith(
+        'Ownable: caller is not the owner'
+      );
+    });
+    it('reverts if we set a close factor higher than 100%', async () => {
+      await expect(
+        market.connect(owner).setCloseFactor(parseEther('1').add(1))
+      ).to.revertedWith('MKT: too high');
+    });
+    it('updates the close factor', async () => {
+      expect(await market.closeFactor()).to.be.equal(0);
+
+      await expect(market.connect(owner).setCloseFactor(parseEther('0.5')))
+        .to.emit(market, 'CloseFactor')
+        .withArgs(parseEther('0.5'));
+
+      expect(await market.closeFactor()).to.be.equal(parseEther('0.5'));
+    });
+  });
+
+  describe('function: setAuction', () => {
+    it('reverts if it is not called by the owner', async () => {
+      await expect(market.connect(alice).setAuction(0, 0)).to.revertedWith(
+        'Ownable: caller is not the owner'
+      );
+    });
+    it('reverts if the start fee is higher than the liquidation fee', async () => {
+      await expect(
+        market.connect(owner).setAuction(LIQUIDATION_FEE.add(1), 3600)
+      ).to.revertedWith('MKT: too high');
+    });
+    it('updates the auction', async () => {
+      await expect(market.connect(owner).setAuction(parseEther('0.02'), 3600))
+        .to.emit(market, 'LiquidationAuction')
+        .withArgs(parseEther('0.02'), 3600);
+
+      const auction = await market.auction();
+
+      expect(auction.startFee).to.be.equal(parseEther('0.02'));
+      expect(auction.duration).to.be.equal(3600);
+    });
+  });
+  describe('function: updateAuctions', () => {
+    const START_FEE = parseEther('0.02');
+
+    let auctionMarket: InterestBNBMarket;
+
+    beforeEach(async () => {
+      auctionMarket = await deployUUPS('InterestBNBMarket', [
+        dinero.address,
+        treasury.address,
+        mockOracle.address,
+        INTEREST_RATE,
+        MAX_LTV,
+        LIQUIDATION_FEE,
+        ethers.constants.MaxUint256,
+      ]);
+
+      await mockOracle.__setBNBUSDPrice(parseEther('500'));
+
+      await Promise.all([
+        dinero.connect(owner).grantRole(MINTER_ROLE, auctionMarket.address),
+        dinero.connect(owner).grantRole(BURNER_ROLE, auctionMarket.address),
+        auctionMarket.connect(owner).setAuction(START_FEE, 3600),
+      ]);
+
+      await Promise.all([
+        auctionMarket
+          .connect(alice)
+          .addCollateral(alice.address, { value: parseEther('2') }),
+        auctionMarket
+          .connect(jose)
+          .addCollateral(jose.address, { value: parseEther('10') }),
+      ]);
+
+      await Promise.all([
+        auctionMarket.connect(alice).borrow(alice.address, parseEther('450')),
+        auctionMarket.connect(jose).borrow(jose.address, parseEther('1000')),
+      ]);
+    });
+
+    it('uses the liquidation fee if the auction mode is disabled', async () => {
+      await auctionMarket.connect(owner).setAuction(START_FEE, 0);
+
+      expect(
+        await auctionMarket.getLiquidationFeeOf(alice.address)
+      ).to.be.equal(LIQUIDATION_FEE);
+    });
+    it('starts and ends the auction of insolvent accounts', async () => {
+      expect(
+        await auctionMarket.getLiquidationFeeOf(alice.address)
+      ).to.be.equal(START_FEE);
+
+      // Alice is solvent
+      await expect(
+        auctionMarket.updateAuctions([alice.address, jose.address])
+      ).to.not.emit(auctionMarket, 'StartAuction');
+
+      // Drop BNB to 250. Alice can now be liquidated
+      await mockOracle.__setBNBUSDPrice(parseEther('250'));
+
+      await expect(auctionMarket.updateAuctions([alice.address, jose.address]))
+        .to.emit(auctionMarket, 'StartAuction')
+        .withArgs(alice.address);
+
+      const start = await auctionMarket.auctionStartOf(alice.address);
+
+      expect(start.gt(0)).to.be.equal(true);
+      expect(await auctionMarket.auctionStartOf(jose.address)).to.be.equal(0);
+
+      // Starting it again does not reset the timestamp
+      await auctionMarket.updateAuctions([alice.address]);
+
+      expect(await auctionMarket.auctionStartOf(alice.address)).to.be.equal(
+        start
+      );
+
+      await advanceBlockAndTime(1800, ethers);
+
+      const { timestamp } = await ethers.provider.getBlock('latest');
+
+      // The fee grows linearly from 2% to 10% in an hour
+      expect(
+        await auctionMarket.getLiquidationFeeOf(alice.address)
+      ).to.be.equal(
+        START_FEE.add(
+          LIQUIDATION_FEE.sub(START_FEE)
+            .mul(start.sub(timestamp).abs())
+            .div(3600)
+        )
+      );
+
+      await advanceBlockAndTime(3600, ethers);
+
+      expect(
+        await auctionMarket.getLiquidationFeeOf(alice.address)
+      ).to.be.equal(LIQUIDATION_FEE);
+
+      // Alice is solvent again
+      await mockOracle.__setBNBUSDPrice(parseEther('500'));
+
+      await expect(auctionMarket.updateAuctions([alice.address]))
+        .to.emit(auctionMarket, 'EndAuction')
+        .withArgs(alice.address);
+
+      expect(await auctionMarket.auctionStartOf(alice.address)).to.be.equal(0);
+      expect(
+        await auctionMarket.getLiquidationFeeOf(alice.address)
+      ).to.be.equal(START_FEE);
+    });
+    it('liquidates with the fee of the auction', async () => {
+      await mockOracle.__setBNBUSDPrice(parseEther('250'));
+
+      await auctionMarket.updateAuctions([alice.address]);
+
+      const start = await auctionMarket.auctionStartOf(alice.address);
+
+      await advanceTime(1800, ethers);
+
+      const collateral = await auctionMarket.userCollateral(alice.address);
+
+      await expect(
+        auctionMarket
+          .connect(owner)
+          .liquidate(
+            [alice.address],
+            [parseEther('450')],
+            recipient.address,
+            [],
+            0,
+            ethers.constants.MaxUint256
+          )
+      )
+        .to.emit(auctionMarket, 'EndAuction')
+        .withArgs(alice.address);
+
+      const [{ timestamp }, collateral2] = await Promise.all([
+        ethers.provider.getBlock('latest'),
+        auctionMarket.userCollateral(alice.address),
+      ]);
+
+      const fee = START_FEE.add(
+        LIQUIDATION_FEE.sub(START_FEE).mul(start.sub(timestamp).abs()).div(3600)
+      );
+
+      expect(await auctionMarket.userLoan(alice.address)).to.be.equal(0);
+      expect(await auctionMarket.auctionStartOf(alice.address)).to.be.equal(0);
+      // Alice pays less than the 10% liquidation fee. Debt accrued in 30 minutes is negligible.
+      expect(collateral.sub(collateral2)).to.be.lt(
+        parseEther('450').mul(parseEther('1.1')).div(parseEther('250'))
+      );
+      expect(collateral.sub(collateral2)).to.be.closeTo(
+        parseEther('450').mul(parseEther('1').add(fee)).div(parseEther('250')),
+        parseEther('0.001')
+      );
+    });
+    it('starts the auction with the first liquidation', async () => {
+      await mockOracle.__setBNBUSDPrice(parseEther('250'));
+
+      expect(await auctionMarket.auctionStartOf(alice.address)).to.be.equal(0);
+
+      const collateral = await auctionMarket.userCollateral(alice.address);
+
+      await expect(
+        auctionMarket
+          .connect(owner)
+          .liquidate(
+            [alice.address],
+            [parseEther('100')],
+            recipient.address,
+            [],
+            0,
+            ethers.constants.MaxUint256
+          )
+      )
+        .to.emit(auctionMarket, 'StartAuction')
+        .withArgs(alice.address);
+
+      const [{ timestamp }, start, collateral2] = await Promise.all([
+        ethers.provider.getBlock('latest'),
+        auctionMarket.auctionStartOf(alice.address),
+        auctionMarket.userCollateral(alice.address),
+      ]);
+
+      expect(start).to.be.equal(timestamp);
+      // The first liquidation pays the start fee.
+      expect(collateral.sub(collateral2)).to.be.closeTo(
+        parseEther('100')
+          .mul(parseEther('1').add(START_FEE))
+          .div(parseEther('250')),
+        parseEther('0.001')
+      );
+
+      await advanceBlockAndTime(3600, ethers);
+
+      expect(
+        await auctionMarket.getLiquidationFeeOf(alice.address)
+      ).to.be.equal(LIQUIDATION_FEE);
+    });
+    it('ends the auction if the borrower adds collateral', async () => {
+      await mockOracle.__setBNBUSDPrice(parseEther('250'));
+
+      await auctionMarket.updateAuctions([alice.address]);
+
+      // Alice is still insolvent
+      await expect(
+        auctionMarket
+          .connect(alice)
+          .addCollateral(alice.address, { value: parseEther('0.1') })
+      ).to.not.emit(auctionMarket, 'EndAuction');
+
+      expect(await auctionMarket.auctionStartOf(alice.address)).to.be.gt(0);
+
+      await expect(
+        auctionMarket
+          .connect(alice)
+          .addCollateral(alice.address, { value: parseEther('2') })
+      )
+        .to.emit(auctionMarket, 'EndAuction')
+        .withArgs(alice.address);
+
+      expect(await auctionMarket.auctionStartOf(alice.address)).to.be.equal(0);
+      expect(
+        await auctionMarket.getLiquidationFeeOf(alice.address)
+      ).to.be.equal(START_FEE);
+    });
+    it('ends the auction if the borrower repays', async () => {
+      await mockOracle.__setBNBUSDPrice(parseEther('250'));
+
+      await auctionMarket.updateAuctions([alice.address]);
+
+      // Alice is still insolvent
+      await expect(
+        auctionMarket.connect(alice).repay(alice.address, parseEther('10'))
+      ).to.not.emit(auctionMarket, 'EndAuction');
+
+      expect(await auctionMarket.auctionStartOf(alice.address)).to.be.gt(0);
+
+      await expect(
+        auctionMarket.connect(alice).repay(alice.address, parseEther('300'))
+      )
+        .to.emit(auctionMarket, 'EndAuction')
+        .withArgs(alice.address);
+
+      expect(await auctionMarket.auctionStartOf(alice.address)).to.be.equal(0);
+    });
+  });
   describe('function: setInterestRate', () => {
     it('reverts if it is not called by the owner', async () => {
       await expect(market.connect(alice).setInterestRate(0)).to.revertedWith(
@@ -736,6 +1166,105 @@ describe('InterestBNBMarket', () => {
       );
     });
   });
+  describe('function: setInterestRateModel', () => {
+    it('reverts if it is not called by the owner', async () => {
+      await expect(
+        market.connect(alice).setInterestRateModel(alice.address)
+      ).to.revertedWith('Ownable: caller is not the owner');
+    });
+    it('accrues with the previous rate and uses the model after', async () => {
+      const model = await deploy('JumpRateModel', [
+        0,
+        ethers.BigNumber.from(1e9),
+        ethers.BigNumber.from(2e10),
+        parseEther('0.5'),
+      ]);
+
+      await market
+        .connect(alice)
+        .addCollateral(alice.address, { value: parseEther('10') });
+
+      await market.connect(alice).borrow(alice.address, parseEther('700'));
+
+      await market.connect(owner).setMaxBorrowAmount(parseEther('1000'));
+
+      expect(await market.getInterestRate()).to.be.equal(INTEREST_RATE);
+
+      await advanceTime(10_000, ethers);
+
+      await expect(market.connect(owner).setInterestRateModel(model.address))
+        .to.emit(market, 'InterestRateModel')
+        .withArgs(model.address)
+        .to.emit(market, 'Accrue');
+
+      const totalLoan = await market.totalLoan();
+
+      expect(await market.interestRateModel()).to.be.equal(model.address);
+      // 0.5 * 1e9 + (0.7 - 0.5) * 2e10
+      expect(await market.getInterestRate()).to.be.equal(
+        await model.getInterestRate(totalLoan.elastic, parseEther('1000'))
+      );
+      expect(await market.getInterestRate()).to.be.gt(
+        ethers.BigNumber.from(45e8)
+      );
+
+      await advanceTime(10_000, ethers);
+
+      const rate = await market.getInterestRate();
+
+      await expect(market.accrue()).to.emit(market, 'Accrue');
+
+      expect((await market.totalLoan()).elastic).to.be.closeTo(
+        totalLoan.elastic.add(
+          totalLoan.elastic.mul(rate).mul(10_000).div(parseEther('1'))
+        ),
+        parseEther('0.0001')
+      );
+
+      await market
+        .connect(owner)
+        .setInterestRateModel(ethers.constants.AddressZero);
+
+      expect(await market.getInterestRate()).to.be.equal(INTEREST_RATE);
+    });
+    it('caps the rate of the model', async () => {
+      const model = await deploy('MockMarketInterestRateModel');
+
+      await market.connect(owner).setInterestRateModel(model.address);
+
+      // 1e18 / 31_536_000 = ~100% a year.
+      await model.__setRate(31_709_791_983);
+
+      expect(await market.getInterestRate()).to.be.equal(31_709_791_983);
+
+      await model.__setRate(parseEther('1'));
+
+      expect(await market.getInterestRate()).to.be.equal(31_709_791_983);
+    });
+    it('uses the fixed rate if the model reverts', async () => {
+      const model = await deploy('MockMarketInterestRateModel');
+
+      await market
+        .connect(alice)
+        .addCollateral(alice.address, { value: parseEther('10') });
+
+      await market.connect(alice).borrow(alice.address, parseEther('700'));
+
+      await market.connect(owner).setInterestRateModel(model.address);
+
+      await model.__setShouldRevert(true);
+
+      expect(await market.getInterestRate()).to.be.equal(INTEREST_RATE);
+
+      await advanceTime(10_000, ethers);
+
+      // Repays and liquidations accrue.
+      await expect(market.accrue()).to.emit(market, 'Accrue');
+      await expect(
+        market.connect(alice).repay(alice.address, parseEther('100'))
+      ).to.emit(market, 'Repay');
+    });
+  });
   describe('function: liquidate', () => {
     it('reverts if you try to reenter', async () => {
       const market = await deployUUPS('InterestBNBMarket', [
@@ -805,16 +1334,83 @@ describe('InterestBNBMarket', () => {
       await expect(
         market
           .connect(owner)
-          .liquidate([], [], owner.address, [bob.address, dinero.address, WBNB])
+          .liquidate(
+            [],
+            [],
+            owner.address,
+            [bob.address, dinero.address, WBNB],
+            0,
+            ethers.constants.MaxUint256
+          )
       ).to.revertedWith('MKT: no dinero at last index');
     });
+    it('reverts if the deadline has passed', async () => {
+      const { timestamp } = await ethers.provider.getBlock('latest');
+
+      await expect(
+        market
+          .connect(owner)
+          .liquidate([alice.address], [0], owner.address, [], 0, timestamp)
+      ).to.revertedWith('MKT: expired');
+    });
+    it('reverts if the collateral does not sell for the minimum amount of dinero', async () => {
+      const market = await deployUUPS('InterestBNBMarket', [
+        dinero.address,
+        treasury.address,
+        mockOracle.address,
+        INTEREST_RATE,
+        MAX_LTV,
+        LIQUIDATION_FEE,
+        ethers.constants.MaxUint256,
+      ]);
+
+      await mockOracle.__setBNBUSDPrice(parseEther('500'));
+
+      await Promise.all([
+        dinero.connect(owner).grantRole(MINTER_ROLE, market.address),
+        dinero.connect(owner).grantRole(BURNER_ROLE, market.address),
+        market.updateExchangeRate(),
+      ]);
+
+      await market
+        .connect(alice)
+        .addCollateral(alice.address, { value: parseEther('2') });
+
+      await market.connect(alice).borrow(alice.address, parseEther('499'));
+
+      // Drop BNB to 250. Alice can now be liquidated
+      await mockOracle.__setBNBUSDPrice(parseEther('250'));
+
+      // PCS pays ~450 USD per BNB, so the collateral of 400 principal is worth less than 1000 DNR.
+      await expect(
+        market
+          .connect(owner)
+          .liquidate(
+            [alice.address],
+            [parseEther('400')],
+            recipient.address,
+            [WBNB, dinero.address],
+            parseEther('1000'),
+            ethers.constants.MaxUint256
+          )
+      ).to.revertedWith('PancakeRouter: INSUFFICIENT_OUTPUT_AMOUNT');
+    });
     it('ignores accounts without opened loans', async () => {
       await market
         .connect(alice)
         .addCollateral(alice.address, { value: parseEther('2') });
 
       await expect(
-        market.connect(owner).liquidate([alice.address], [0], owner.address, [])
+        market
+          .connect(owner)
+          .liquidate(
+            [alice.address],
+            [0],
+            owner.address,
+            [],
+            0,
+            ethers.constants.MaxUint256
+          )
       ).to.revertedWith('MKT: no liquidations');
     });
     it('reverts if there are no liquidations', async () => {
@@ -827,7 +1423,14 @@ describe('InterestBNBMarket', () => {
       await expect(
         market
           .connect(owner)
-          .liquidate([alice.address], [parseEther('399')], owner.address, [])
+          .liquidate(
+            [alice.address],
+            [parseEther('399')],
+            owner.address,
+            [],
+            0,
+            ethers.constants.MaxUint256
+          )
       ).to.revertedWith('MKT: no liquidations');
     });
     it('liquidates users using caller dinero funds', async () => {
@@ -922,7 +1525,9 @@ describe('InterestBNBMarket', () => {
             [alice.address, bob.address, jose.address],
             [parseEther('400'), parseEther('200'), parseEther('1000')],
             recipient.address,
-            []
+            [],
+            0,
+            ethers.constants.MaxUint256
           )
       )
         .to.emit(market, 'ExchangeRate')
@@ -1112,7 +1717,9 @@ describe('InterestBNBMarket', () => {
             [alice.address, bob.address, jose.address],
             [parseEther('400'), parseEther('200'), parseEther('1000')],
             recipient.address,
-            [WBNB, dinero.address]
+            [WBNB, dinero.address],
+            0,
+            ethers.constants.MaxUint256
           )
       )
         .to.emit(market, 'ExchangeRate')
@@ -1242,16 +1849,146 @@ describe('InterestBNBMarket', () => {
 
       await market
         .connect(owner)
-        .liquidate([alice.address], [parseEther('499')], recipient.address, [
-          WBNB,
-          dinero.address,
-        ]);
+        .liquidate(
+          [alice.address],
+          [parseEther('499')],
+          recipient.address,
+          [WBNB, dinero.address],
+          0,
+          ethers.constants.MaxUint256
+        );
 
       const totalLoan = await market.totalLoan();
 
       expect(totalLoan.elastic).to.be.equal(0);
       expect(totalLoan.base).to.be.equal(0);
     });
+    describe('close factor and bad debt', () => {
+      let market: InterestBNBMarket;
+
+      beforeEach(async () => {
+        market = await deployUUPS('InterestBNBMarket', [
+          dinero.address,
+          treasury.address,
+          mockOracle.address,
+          INTEREST_RATE,
+          MAX_LTV,
+          LIQUIDATION_FEE,
+          ethers.constants.MaxUint256,
+        ]);
+
+        await mockOracle.__setBNBUSDPrice(parseEther('500'));
+
+        await Promise.all([
+          dinero.connect(owner).grantRole(MINTER_ROLE, market.address),
+          dinero.connect(owner).grantRole(BURNER_ROLE, market.address),
+          market.updateExchangeRate(),
+          market.connect(owner).setCloseFactor(parseEther('0.5')),
+        ]);
+
+        await Promise.all([
+          market
+            .connect(alice)
+            .addCollateral(alice.address, { value: parseEther('2') }),
+          market
+            .connect(bob)
+            .addCollateral(bob.address, { value: parseEther('10') }),
+        ]);
+
+        await Promise.all([
+          market.connect(alice).borrow(alice.address, parseEther('499')),
+          market.connect(bob).borrow(bob.address, parseEther('100')),
+        ]);
+      });
+
+      it('only closes the close factor of a loan', async () => {
+        // Drop BNB to 300. Alice can now be liquidated, but her collateral covers her loan.
+        await mockOracle.__setBNBUSDPrice(parseEther('300'));
+
+        await expect(
+          market
+            .connect(owner)
+            .liquidate(
+              [alice.address],
+              [parseEther('499')],
+              owner.address,
+              [],
+              0,
+              ethers.constants.MaxUint256
+            )
+        ).to.not.emit(market, 'BadDebt');
+
+        expect(await market.userLoan(alice.address)).to.be.equal(
+          parseEther('249.5')
+        );
+        expect(await market.badDebt()).to.be.equal(0);
+      });
+
+      it('closes an underwater loan with all its collateral and covers the bad debt with the fees', async () => {
+        // Drop BNB to 100. Alice's collateral is worth 200 USD for a debt of ~499 DNR.
+        await mockOracle.__setBNBUSDPrice(parseEther('100'));
+
+        const ownerBalance = await dinero.balanceOf(owner.address);
+
+        await expect(
+          market
+            .connect(owner)
+            .liquidate(
+              [alice.address],
+              [parseEther('499')],
+              owner.address,
+              [],
+              0,
+              ethers.constants.MaxUint256
+            )
+        )
+          .to.emit(market, 'BadDebt')
+          .to.emit(market, 'CoverBadDebt');
+
+        const [aliceLoan, aliceCollateral, loan, badDebt, ownerBalance2] =
+          await Promise.all([
+            market.userLoan(alice.address),
+            market.userCollateral(alice.address),
+            market.loan(),
+            market.badDebt(),
+            dinero.balanceOf(owner.address),
+          ]);
+
+        // The loan is closed in full, even though the liquidator asked for more than the close factor.
+        expect(aliceLoan).to.be.equal(0);
+        expect(aliceCollateral).to.be.equal(0);
+        expect(loan.feesEarned).to.be.equal(0);
+
+        // The liquidator pays the 200 USD of collateral minus the 10% liquidation fee and the protocol fee.
+        const debt = parseEther('200')
+          .mul(parseEther('1'))
+          .div(parseEther('1.1'));
+        const protocolFee = debt.div(10).div(10);
+
+        expect(ownerBalance.sub(ownerBalance2)).to.be.closeTo(
+          debt.add(protocolFee),
+          1
+        );
+        // The protocol fee covers part of the bad debt.
+        expect(badDebt).to.be.closeTo(
+          parseEther('499').sub(debt).sub(protocolFee),
+          parseEther('0.01')
+        );
+
+        // The fees of Bob's loan cover the rest of the bad debt before being sent to the treasury.
+        await advanceTime(63_113_904, ethers); // advance 2 years
+
+        await expect(market.getEarnings())
+          .to.emit(market, 'CoverBadDebt')
+          .to.emit(market, 'GetEarnings')
+          .withArgs(treasury.address, 0);
+
+        const badDebt2 = await market.badDebt();
+
+        expect(badDebt2).to.be.lt(badDebt);
+        expect(badDebt2).to.be.gt(0);
+      });
+    });
   });
 
   describe('function: request addCollateral', () => {
@@ -1653,6 +2390,277 @@ describe('InterestBNBMarket', () => {
     });
   });
 
+  describe('function: request repay with collateral', () => {
+    beforeEach(async () => {
+      await market
+        .connect(alice)
+        .addCollateral(alice.address, { value: parseEther('2') });
+
+      await market.connect(alice).borrow(alice.address, parseEther('300'));
+    });
+
+    it('reverts if the arguments are invalid', async () => {
+      await expect(
+        market
+          .connect(alice)
+          .request(
+            [REPAY_WITH_COLLATERAL_REQUEST],
+            [encodeRepayWithCollateral(0, 1, 0, [WBNB, dinero.address])]
+          )
+      ).to.revertedWith('DM: no zero amount');
+      await expect(
+        market
+          .connect(alice)
+          .request(
+            [REPAY_WITH_COLLATERAL_REQUEST],
+            [encodeRepayWithCollateral(1, 0, 0, [WBNB, dinero.address])]
+          )
+      ).to.revertedWith('MKT: principal cannot be 0');
+      await expect(
+        market
+          .connect(alice)
+          .request(
+            [REPAY_WITH_COLLATERAL_REQUEST],
+            [encodeRepayWithCollateral(1, 1, 0, [dinero.address, WBNB])]
+          )
+      ).to.revertedWith('MKT: no dinero at last index');
+    });
+
+    it('reverts if the sale returns less than the minimum amount', async () => {
+      await expect(
+        market
+          .connect(alice)
+          .request(
+            [REPAY_WITH_COLLATERAL_REQUEST],
+            [
+              encodeRepayWithCollateral(
+                parseEther('1'),
+                parseEther('300'),
+                parseEther('1000'),
+                [WBNB, dinero.address]
+              ),
+            ]
+          )
+      ).to.revertedWith('PancakeRouter: INSUFFICIENT_OUTPUT_AMOUNT');
+    });
+
+    it('reverts if the caller is insolvent after the request', async () => {
+      await expect(
+        market
+          .connect(alice)
+          .request(
+            [REPAY_WITH_COLLATERAL_REQUEST],
+            [
+              encodeRepayWithCollateral(parseEther('1.9'), parseEther('1'), 0, [
+                WBNB,
+                dinero.address,
+              ]),
+            ]
+          )
+      ).to.revertedWith('MKT: sender is insolvent');
+    });
+
+    it('sells the collateral to repay the loan of the caller without a fee', async () => {
+      const factoryContract = new ethers.Contract(
+        PCS_FACTORY,
+        PCSFactoryABI,
+        ethers.provider
+      );
+
+      const [pair, aliceDineroBalance, feesEarned] = await Promise.all([
+        factoryContract.getPair(dinero.address, WBNB),
+        dinero.balanceOf(alice.address),
+        market.loan().then(({ feesEarned }) => feesEarned),
+        advanceTime(1000, ethers),
+      ]);
+
+      const pairContract = (
+        await ethers.getContractFactory('PancakePair')
+      ).attach(pair);
+
+      const [, amountOut] = await router.getAmountsOut(parseEther('1'), [
+        WBNB,
+        dinero.address,
+      ]);
+
+      // Repays more than the loan to close it.
+      await expect(
+        market
+          .connect(alice)
+          .request(
+            [REPAY_WITH_COLLATERAL_REQUEST],
+            [
+              encodeRepayWithCollateral(
+                parseEther('1'),
+                ethers.constants.MaxUint256,
+                amountOut,
+                [WBNB, dinero.address]
+              ),
+            ]
+          )
+      )
+        .to.emit(market, 'Accrue')
+        .to.emit(market, 'WithdrawCollateral')
+        .withArgs(alice.address, market.address, parseEther('1'))
+        .to.emit(pairContract, 'Swap')
+        .to.emit(market, 'Repay');
+
+      const [aliceLoan, aliceCollateral, totalLoan, aliceDineroBalance2, loan] =
+        await Promise.all([
+          market.userLoan(alice.address),
+          market.userCollateral(alice.address),
+          market.totalLoan(),
+          dinero.balanceOf(alice.address),
+          market.loan(),
+        ]);
+
+      expect(aliceLoan).to.be.equal(0);
+      expect(aliceCollateral).to.be.equal(parseEther('1'));
+      expect(totalLoan.base).to.be.equal(0);
+      // She keeps the Dinero left after paying the debt + interest.
+      expect(aliceDineroBalance2).to.be.closeTo(
+        aliceDineroBalance.add(amountOut).sub(parseEther('300')),
+        parseEther('1')
+      );
+      // The protocol only earns the interest.
+      expect(loan.feesEarned.sub(feesEarned).lt(parseEther('1'))).to.be.equal(
+        true
+      );
+    });
+  });
+
+  describe('function: request leverage', () => {
+    it('reverts if the arguments are invalid', async () => {
+      await market
+        .connect(alice)
+        .addCollateral(alice.address, { value: parseEther('2') });
+
+      await expect(
+        market
+          .connect(alice)
+          .request(
+            [LEVERAGE_REQUEST],
+            [encodeLeverage(MAX_LTV, 3, 0, [dinero.address, WBNB])]
+          )
+      ).to.revertedWith('MKT: ltv ratio too high');
+      await expect(
+        market
+          .connect(alice)
+          .request(
+            [LEVERAGE_REQUEST],
+            [encodeLeverage(parseEther('0.4'), 3, 0, [WBNB, dinero.address])]
+          )
+      ).to.revertedWith('MKT: invalid path');
+      await expect(
+        market
+          .connect(alice)
+          .request(
+            [LEVERAGE_REQUEST],
+            [encodeLeverage(parseEther('0.4'), 3, 0, [dinero.address, CAKE])]
+          )
+      ).to.revertedWith('MKT: invalid path');
+    });
+
+    it('reverts if the loops buy less than the minimum amount', async () => {
+      await market
+        .connect(alice)
+        .addCollateral(alice.address, { value: parseEther('2') });
+
+      await expect(
+        market
+          .connect(alice)
+          .request(
+            [LEVERAGE_REQUEST],
+            [
+              encodeLeverage(parseEther('0.4'), 3, parseEther('100'), [
+                dinero.address,
+                WBNB,
+              ]),
+            ]
+          )
+      ).to.revertedWith('MKT: not enough collateral');
+    });
+
+    it('borrows and buys collateral until it reaches the target ltv', async () => {
+      const aliceDineroBalance = await dinero.balanceOf(alice.address);
+
+      await expect(
+        market
+          .connect(alice)
+          .request(
+            [ADD_COLLATERAL_REQUEST, LEVERAGE_REQUEST],
+            [
+              defaultAbiCoder.encode(
+                ['address', 'uint256'],
+                [alice.address, parseEther('2')]
+              ),
+              encodeLeverage(parseEther('0.45'), 6, parseEther('1'), [
+                dinero.address,
+                WBNB,
+              ]),
+            ],
+            { value: parseEther('2') }
+          )
+      )
+        .to.emit(market, 'Borrow')
+        .to.emit(market, 'AddCollateral');
+
+      const [
+        aliceCollateral,
+        aliceLoan,
+        aliceLTV,
+        aliceDineroBalance2,
+        marketDineroBalance,
+        routerCollateral,
+      ] = await Promise.all([
+        market.userCollateral(alice.address),
+        market.userLoan(alice.address),
+        market.getLTV(alice.address),
+        dinero.balanceOf(alice.address),
+        dinero.balanceOf(market.address),
+        market.userCollateral(PCS_ROUTER),
+      ]);
+
+      // The collateral bought with the loan is added to her position.
+      expect(aliceCollateral.gt(parseEther('3'))).to.be.equal(true);
+      expect(aliceLoan.gt(0)).to.be.equal(true);
+      expect(aliceLTV.lte(parseEther('0.45'))).to.be.equal(true);
+      expect(aliceLTV.gt(parseEther('0.4'))).to.be.equal(true);
+      // All Dinero borrowed was sold.
+      expect(aliceDineroBalance2).to.be.equal(aliceDineroBalance);
+      expect(marketDineroBalance).to.be.equal(0);
+      // The BNB sent by the router is not credited to it.
+      expect(routerCollateral).to.be.equal(0);
+    });
+
+    it('stops once the target ltv is reached', async () => {
+      await market
+        .connect(alice)
+        .addCollateral(alice.address, { value: parseEther('2') });
+
+      await market
+        .connect(alice)
+        .request(
+          [LEVERAGE_REQUEST],
+          [encodeLeverage(parseEther('0.3'), 10, 0, [dinero.address, WBNB])]
+        );
+
+      const aliceLoan = await market.userLoan(alice.address);
+
+      // Her ltv is already above the new target.
+      await expect(
+        market
+          .connect(alice)
+          .request(
+            [LEVERAGE_REQUEST],
+            [encodeLeverage(parseEther('0.2'), 10, 0, [dinero.address, WBNB])]
+          )
+      ).to.not.emit(market, 'Borrow');
+
+      expect(await market.userLoan(alice.address)).to.be.equal(aliceLoan);
+    });
+  });
+
   it('reverts if you try to reenter on a request call', async () => {
     const reenterContract = (await deploy('ReentrantInterestBNBMarketRequest', [
       market.address,
@@ -12,10 +12,11 @@ import WBNBABI from '../abi/wbnb.json';
 import {
   Dinero,
   ERC20,
-  InterestERC20BearingMarket,
+  InterestBearingMarket,
+  MockInterestERC20BearingMarketV1,
   MockOracle,
   Oracle,
-  TestInterestERC20BearingMarketV2,
+  TestInterestBearingMarketV2,
 } from '../typechain';
 import {
   ADD_COLLATERAL_REQUEST,
@@ -79,7 +80,7 @@ const convertBorrowToLiquidationCollateral = (
     .div(exchangeRate);
 
 describe('Interest ERC20 Bearing Market', () => {
-  let market: InterestERC20BearingMarket;
+  let market: InterestBearingMarket;
   let dinero: Dinero;
   let oracle: Oracle;
   let mockOracle: MockOracle;
@@ -175,11 +176,10 @@ describe('Interest ERC20 Bearing Market', () => {
 
     await oracle.connect(owner).setFeed(BTC, BTC_USD_PRICE_FEED, 0);
 
-    market = await deployUUPS('InterestERC20BearingMarket', [
+    market = await deployUUPS('InterestBearingMarket', [
       dinero.address,
       treasury.address,
       oracle.address,
-      BTC,
       vBTC,
       INTEREST_RATE,
       ethers.utils.parseEther('0.5'),
@@ -211,7 +211,6 @@ describe('Interest ERC20 Bearing Market', () => {
             dinero.address,
             treasury.address,
             oracle.address,
-            BTC,
             vBTC,
             INTEREST_RATE,
             ethers.utils.parseEther('0.5'),
@@ -222,31 +221,43 @@ describe('Interest ERC20 Bearing Market', () => {
     });
     it('reverts if you set a max tvl ratio out of bounds', async () => {
       await expect(
-        deployUUPS('InterestERC20BearingMarket', [
+        deployUUPS('InterestBearingMarket', [
           dinero.address,
           treasury.address,
           oracle.address,
-          BTC,
           vBTC,
           INTEREST_RATE,
           ethers.utils.parseEther('0.91'),
           LIQUIDATION_FEE,
           ethers.constants.MaxUint256,
         ])
-      ).to.revertedWith('MKT: ltc ratio out of bounds');
+      ).to.revertedWith('DM: ltc ratio out of bounds');
       await expect(
-        deployUUPS('InterestERC20BearingMarket', [
+        deployUUPS('InterestBearingMarket', [
           dinero.address,
           treasury.address,
           oracle.address,
-          BTC,
           vBTC,
           INTEREST_RATE,
           ethers.utils.parseEther('0.49'),
           LIQUIDATION_FEE,
           ethers.constants.MaxUint256,
         ])
-      ).to.revertedWith('MKT: ltc ratio out of bounds');
+      ).to.revertedWith('DM: ltc ratio out of bounds');
+    });
+    it('reverts if the vToken is not listed in Venus', async () => {
+      await expect(
+        deployUUPS('InterestBearingMarket', [
+          dinero.address,
+          treasury.address,
+          oracle.address,
+          BTC,
+          INTEREST_RATE,
+          ethers.utils.parseEther('0.5'),
+          LIQUIDATION_FEE,
+          ethers.constants.MaxUint256,
+        ])
+      ).to.revertedWith('DM: vToken not listed');
     });
     it('sets the initial state and approvals correctly', async () => {
       const [
@@ -295,17 +306,16 @@ describe('Interest ERC20 Bearing Market', () => {
   });
 
   it('maximizes the allowance for the router and vToken', async () => {
-    const market = (await deployUUPS('InterestERC20BearingMarket', [
+    const market = (await deployUUPS('InterestBearingMarket', [
       dinero.address,
       treasury.address,
       mockOracle.address,
-      BTC,
       vBTC,
       INTEREST_RATE,
       ethers.utils.parseEther('0.5'),
       LIQUIDATION_FEE,
       ethers.constants.MaxUint256,
-    ])) as InterestERC20BearingMarket;
+    ])) as InterestBearingMarket;
 
     await Promise.all([
       dinero.connect(owner).grantRole(MINTER_ROLE, market.address),
@@ -337,11 +347,15 @@ describe('Interest ERC20 Bearing Market', () => {
 
     await market
       .connect(owner)
-      .liquidate([alice.address], [parseEther('200000')], owner.address, true, [
-        BTC,
-        WBNB,
-        dinero.address,
-      ]);
+      .liquidate(
+        [alice.address],
+        [parseEther('200000')],
+        owner.address,
+        true,
+        [BTC, WBNB, dinero.address],
+        0,
+        ethers.constants.MaxUint256
+      );
 
     const [routerAllowance, vBTCAllowance] = await Promise.all([
       BTCContract.allowance(market.address, PCS_ROUTER),
@@ -488,17 +502,16 @@ describe('Interest ERC20 Bearing Market', () => {
 
   describe('function: updateExchangeRate', () => {
     it('reverts if the exchange rate is 0', async () => {
-      const market = (await deployUUPS('InterestERC20BearingMarket', [
+      const market = (await deployUUPS('InterestBearingMarket', [
         dinero.address,
         treasury.address,
         mockOracle.address,
-        BTC,
         vBTC,
         INTEREST_RATE,
         ethers.utils.parseEther('0.5'),
         LIQUIDATION_FEE,
         ethers.constants.MaxUint256,
-      ])) as InterestERC20BearingMarket;
+      ])) as InterestBearingMarket;
 
       await mockOracle.__setERC20Price(BTC, 0);
 
@@ -507,17 +520,16 @@ describe('Interest ERC20 Bearing Market', () => {
       );
     });
     it('updates the exchange rate for vBNB', async () => {
-      const market = (await deployUUPS('InterestERC20BearingMarket', [
+      const market = (await deployUUPS('InterestBearingMarket', [
         dinero.address,
         treasury.address,
         mockOracle.address,
-        BTC,
         vBTC,
         INTEREST_RATE,
         ethers.utils.parseEther('0.5'),
         LIQUIDATION_FEE,
         ethers.constants.MaxUint256,
-      ])) as InterestERC20BearingMarket;
+      ])) as InterestBearingMarket;
 
       await mockOracle.__setERC20Price(BTC, parseEther('50000'));
 
@@ -578,7 +590,7 @@ describe('Interest ERC20 Bearing Market', () => {
 
       await expect(
         market.connect(alice).addCollateral(parseEther('1'))
-      ).to.revertedWith('DV: failed to mint');
+      ).to.revertedWith('DM: failed to mint');
 
       await network.provider.send('hardhat_setCode', [vBTC, vBTCCode]);
     });
@@ -749,7 +761,7 @@ describe('Interest ERC20 Bearing Market', () => {
 
       await expect(
         market.connect(alice).withdrawCollateral(ONE_V_TOKEN, true)
-      ).to.revertedWith('DV: failed to redeem');
+      ).to.revertedWith('DM: failed to redeem');
 
       await Promise.all([
         network.provider.send('hardhat_setCode', [vBTC, vBTCCode]),
@@ -1217,14 +1229,30 @@ describe('Interest ERC20 Bearing Market', () => {
       await expect(
         market
           .connect(alice)
-          .liquidate([], [], recipient.address, true, [alice.address])
+          .liquidate(
+            [],
+            [],
+            recipient.address,
+            true,
+            [alice.address],
+            0,
+            ethers.constants.MaxUint256
+          )
       ).to.revertedWith('DM: no dinero at last index');
     });
     it('reverts if there is a path and underlying is false', async () => {
       await expect(
         market
           .connect(alice)
-          .liquidate([], [], recipient.address, false, [dinero.address])
+          .liquidate(
+            [],
+            [],
+            recipient.address,
+            false,
+            [dinero.address],
+            0,
+            ethers.constants.MaxUint256
+          )
       ).to.revertedWith('DM: cannot sell VTokens');
     });
     it('reverts if there are no positions to liquidate', async () => {
@@ -1253,7 +1281,9 @@ describe('Interest ERC20 Bearing Market', () => {
             [principalToLiquidate, principalToLiquidate],
             recipient.address,
             false,
-            []
+            [],
+            0,
+            ethers.constants.MaxUint256
           )
       ).to.revertedWith('DM: no liquidations');
     });
@@ -1261,7 +1291,15 @@ describe('Interest ERC20 Bearing Market', () => {
       await expect(
         market
           .connect(owner)
-          .liquidate([], [], recipient.address, true, [XVS, dinero.address])
+          .liquidate(
+            [],
+            [],
+            recipient.address,
+            true,
+            [XVS, dinero.address],
+            0,
+            ethers.constants.MaxUint256
+          )
       ).to.revertedWith('DM: not allowed to sell XVS');
     });
     it('reverts if the principal to liquidate is very low', async () => {
@@ -1269,17 +1307,16 @@ describe('Interest ERC20 Bearing Market', () => {
 
       const jose = await ethers.getSigner(BTC_WHALE_THREE);
 
-      const market = (await deployUUPS('InterestERC20BearingMarket', [
+      const market = (await deployUUPS('InterestBearingMarket', [
         dinero.address,
         treasury.address,
         mockOracle.address,
-        BTC,
         vBTC,
         INTEREST_RATE,
         ethers.utils.parseEther('0.5'),
         LIQUIDATION_FEE,
         ethers.constants.MaxUint256,
-      ])) as InterestERC20BearingMarket;
+      ])) as InterestBearingMarket;
 
       await mockOracle.__setERC20Price(BTC, parseEther('50000'));
 
@@ -1333,7 +1370,9 @@ describe('Interest ERC20 Bearing Market', () => {
             ],
             recipient.address,
             true,
-            [WBNB, dinero.address]
+            [WBNB, dinero.address],
+            0,
+            ethers.constants.MaxUint256
           )
       ).to.revertedWith('DM: principal too low');
     });
@@ -1342,17 +1381,16 @@ describe('Interest ERC20 Bearing Market', () => {
 
       const jose = await ethers.getSigner(BTC_WHALE_THREE);
 
-      const market = (await deployUUPS('InterestERC20BearingMarket', [
+      const market = (await deployUUPS('InterestBearingMarket', [
         dinero.address,
         treasury.address,
         mockOracle.address,
-        BTC,
         vBTC,
         INTEREST_RATE,
         ethers.utils.parseEther('0.5'),
         LIQUIDATION_FEE,
         ethers.constants.MaxUint256,
-      ])) as InterestERC20BearingMarket;
+      ])) as InterestBearingMarket;
 
       await mockOracle.__setERC20Price(BTC, parseEther('50000'));
 
@@ -1388,7 +1426,9 @@ describe('Interest ERC20 Bearing Market', () => {
           [parseEther('35000')],
           recipient.address,
           false,
-          []
+          [],
+          0,
+          ethers.constants.MaxUint256
         );
 
       const totalLoan = await market.totalLoan();
@@ -1401,17 +1441,16 @@ describe('Interest ERC20 Bearing Market', () => {
 
       const jose = await ethers.getSigner(BTC_WHALE_THREE);
 
-      const market = (await deployUUPS('InterestERC20BearingMarket', [
+      const market = (await deployUUPS('InterestBearingMarket', [
         dinero.address,
         treasury.address,
         mockOracle.address,
-        BTC,
         vBTC,
         INTEREST_RATE,
         ethers.utils.parseEther('0.5'),
         LIQUIDATION_FEE,
         ethers.constants.MaxUint256,
-      ])) as InterestERC20BearingMarket;
+      ])) as InterestBearingMarket;
 
       await mockOracle.__setERC20Price(BTC, parseEther('50000'));
 
@@ -1545,7 +1584,9 @@ describe('Interest ERC20 Bearing Market', () => {
             [parseEther('35000'), parseEther('25000'), parseEther('12000')],
             recipient.address,
             true,
-            [BTC, WBNB, dinero.address]
+            [BTC, WBNB, dinero.address],
+            0,
+            ethers.constants.MaxUint256
           )
       )
         .to.emit(market, 'Accrue')
@@ -1696,17 +1737,16 @@ describe('Interest ERC20 Bearing Market', () => {
 
       const jose = await ethers.getSigner(BTC_WHALE_THREE);
 
-      const market = (await deployUUPS('InterestERC20BearingMarket', [
+      const market = (await deployUUPS('InterestBearingMarket', [
         dinero.address,
         treasury.address,
         mockOracle.address,
-        BTC,
         vBTC,
         INTEREST_RATE,
         ethers.utils.parseEther('0.5'),
         LIQUIDATION_FEE,
         ethers.constants.MaxUint256,
-      ])) as InterestERC20BearingMarket;
+      ])) as InterestBearingMarket;
 
       await mockOracle.__setERC20Price(BTC, parseEther('50000'));
 
@@ -1836,7 +1876,9 @@ describe('Interest ERC20 Bearing Market', () => {
             [parseEther('35000'), parseEther('25000'), parseEther('12000')],
             recipient.address,
             true,
-            []
+            [],
+            0,
+            ethers.constants.MaxUint256
           )
       )
         .to.emit(market, 'Accrue')
@@ -2032,17 +2074,16 @@ describe('Interest ERC20 Bearing Market', () => {
 
       const jose = await ethers.getSigner(BTC_WHALE_THREE);
 
-      const market = (await deployUUPS('InterestERC20BearingMarket', [
+      const market = (await deployUUPS('InterestBearingMarket', [
         dinero.address,
         treasury.address,
         mockOracle.address,
-        BTC,
         vBTC,
         INTEREST_RATE,
         ethers.utils.parseEther('0.5'),
         LIQUIDATION_FEE,
         ethers.constants.MaxUint256,
-      ])) as InterestERC20BearingMarket;
+      ])) as InterestBearingMarket;
 
       await mockOracle.__setERC20Price(BTC, parseEther('50000'));
 
@@ -2171,7 +2212,9 @@ describe('Interest ERC20 Bearing Market', () => {
             [parseEther('35000'), parseEther('25000'), parseEther('12000')],
             recipient.address,
             false,
-            []
+            [],
+            0,
+            ethers.constants.MaxUint256
           )
       )
         .to.emit(market, 'Accrue')
@@ -2378,7 +2421,7 @@ describe('Interest ERC20 Bearing Market', () => {
             [ADD_COLLATERAL_REQUEST],
             [defaultAbiCoder.encode(['uint256'], [parseEther('1')])]
           )
-      ).to.revertedWith('DV: failed to mint');
+      ).to.revertedWith('DM: failed to mint');
 
       await network.provider.send('hardhat_setCode', [vBTC, vBTCCode]);
     });
@@ -2592,7 +2635,7 @@ describe('Interest ERC20 Bearing Market', () => {
             [WITHDRAW_COLLATERAL_REQUEST],
             [defaultAbiCoder.encode(['uint256', 'bool'], [ONE_V_TOKEN, true])]
           )
-      ).to.revertedWith('DV: failed to redeem');
+      ).to.revertedWith('DM: failed to redeem');
 
       await Promise.all([
         network.provider.send('hardhat_setCode', [vBTC, vBTCCode]),
@@ -3074,15 +3117,15 @@ describe('Interest ERC20 Bearing Market', () => {
       await market.connect(owner).renounceOwnership();
 
       await expect(
-        upgrade(market, 'TestInterestERC20BearingMarketV2')
+        upgrade(market, 'TestInterestBearingMarketV2')
       ).to.revertedWith('Ownable: caller is not the owner');
     });
     it('upgrades to version 2', async () => {
       await market.connect(alice).addCollateral(parseEther('10'));
 
-      const marketV2: TestInterestERC20BearingMarketV2 = await upgrade(
+      const marketV2: TestInterestBearingMarketV2 = await upgrade(
         market,
-        'TestInterestERC20BearingMarketV2'
+        'TestInterestBearingMarketV2'
       );
 
       const [aliceVBTCBalance, exchangeRate] = await Promise.all([
@@ -3118,5 +3161,58 @@ describe('Interest ERC20 Bearing Market', () => {
         1e4
       );
     });
+    it('upgrades the first version of the ERC20 bearing market', async () => {
+      const marketV1: MockInterestERC20BearingMarketV1 = await deployUUPS(
+        'MockInterestERC20BearingMarketV1',
+        [
+          dinero.address,
+          treasury.address,
+          oracle.address,
+          BTC,
+          vBTC,
+          INTEREST_RATE,
+          ethers.utils.parseEther('0.5'),
+          LIQUIDATION_FEE,
+          ethers.constants.MaxUint256,
+        ]
+      );
+
+      // The upgrade validates that the storage layouts are compatible.
+      const upgradedMarket: InterestBearingMarket = await upgrade(
+        marketV1,
+        'InterestBearingMarket'
+      );
+
+      await Promise.all([
+        dinero.connect(owner).grantRole(MINTER_ROLE, upgradedMarket.address),
+        dinero.connect(owner).grantRole(BURNER_ROLE, upgradedMarket.address),
+        BTCContract.connect(alice).approve(
+          upgradedMarket.address,
+          ethers.constants.MaxUint256
+        ),
+      ]);
+
+      const [vToken, collateral, maxLTVRatio, feeTo] = await Promise.all([
+        upgradedMarket.VTOKEN(),
+        upgradedMarket.COLLATERAL(),
+        upgradedMarket.maxLTVRatio(),
+        upgradedMarket.FEE_TO(),
+      ]);
+
+      expect(vToken).to.be.equal(vBTC);
+      expect(collateral).to.be.equal(BTC);
+      expect(maxLTVRatio).to.be.equal(parseEther('0.5'));
+      expect(feeTo).to.be.equal(treasury.address);
+
+      // The reentrancy guard works without being initialized.
+      await expect(
+        upgradedMarket.connect(alice).addCollateral(parseEther('10'))
+      ).to.emit(upgradedMarket, 'AddCollateral');
+
+      expect(await upgradedMarket.totalVCollateral()).to.be.equal(
+        await upgradedMarket.userCollateral(alice.address)
+      );
+      expect(await upgradedMarket.totalVCollateral()).to.be.gt(0);
+    });
   });
 }).timeout(50_000);
@@ -1,6 +1,7 @@
 import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
 import { expect } from 'chai';
-import { ethers } from 'hardhat';
+import { BigNumber, BigNumberish } from 'ethers';
+import { ethers, network } from 'hardhat';
 
 import ERC20ABI from '../abi/erc20.json';
 import PCSFactoryABI from '../abi/pcs-factory.json';
@@ -23,6 +24,7 @@ import {
   MINTER_ROLE,
   PCS_FACTORY,
   PCS_ROUTER,
+  REPAY_WITH_COLLATERAL_REQUEST,
   WBNB,
   WBNB_CAKE_LP_HOLDER,
   WBNB_CAKE_LP_HOLDER_TWO,
@@ -38,7 +40,7 @@ import {
   multiDeploy,
 } from './lib/test-utils';
 
-const { parseEther } = ethers.utils;
+const { parseEther, defaultAbiCoder } = ethers.utils;
 
 const INTEREST_RATE = ethers.BigNumber.from(12e8);
 
@@ -403,7 +405,9 @@ describe('InterestERC20Market', () => {
             [parseEther('700')],
             alice.address,
             [CAKE, WBNB, dinero.address],
-            []
+            [],
+            0,
+            ethers.constants.MaxUint256
           )
       ).to.revertedWith('MKT: provide a path for token1');
 
@@ -415,7 +419,9 @@ describe('InterestERC20Market', () => {
             [parseEther('700')],
             alice.address,
             [CAKE, WBNB, dinero.address],
-            [WBNB]
+            [WBNB],
+            0,
+            ethers.constants.MaxUint256
           )
       ).to.revertedWith('MKT: provide a path for token1');
 
@@ -427,11 +433,97 @@ describe('InterestERC20Market', () => {
             [parseEther('700')],
             alice.address,
             [CAKE, WBNB, dinero.address],
-            [WBNB, CAKE, WBNB]
+            [WBNB, CAKE, WBNB],
+            0,
+            ethers.constants.MaxUint256
           )
       ).to.revertedWith('MKT: no dinero on last index');
     });
 
+    it('reverts if both tokens do not sell for the minimum amount of dinero', async () => {
+      const [market] = await makeMockOracleMarket();
+
+      await market
+        .connect(alice)
+        .addCollateral(alice.address, parseEther('10'));
+
+      await market.connect(alice).borrow(alice.address, parseEther('700'));
+
+      await mockOracle.__setERC20Price(
+        WBNB_CAKE_PAIR_LP_TOKEN,
+        LP_TOKEN_USD_PRICE
+      );
+
+      await expect(
+        market
+          .connect(owner)
+          .liquidate(
+            [alice.address],
+            [parseEther('700')],
+            alice.address,
+            [CAKE, WBNB, dinero.address],
+            [WBNB, dinero.address],
+            ethers.constants.MaxUint256,
+            ethers.constants.MaxUint256
+          )
+      ).to.revertedWith('PancakeRouter: INSUFFICIENT_OUTPUT_AMOUNT');
+    });
+
+    it('applies the minimum amount of dinero to the sale of both tokens', async () => {
+      const [market] = await makeMockOracleMarket();
+
+      await market
+        .connect(alice)
+        .addCollateral(alice.address, parseEther('10'));
+
+      await market.connect(alice).borrow(alice.address, parseEther('700'));
+
+      await mockOracle.__setERC20Price(
+        WBNB_CAKE_PAIR_LP_TOKEN,
+        LP_TOKEN_USD_PRICE
+      );
+
+      const liquidate = (minAmountOut: BigNumberish) =>
+        market
+          .connect(recipient)
+          .liquidate(
+            [alice.address],
+            [parseEther('700')],
+            recipient.address,
+            [CAKE, WBNB, dinero.address],
+            [WBNB, dinero.address],
+            minAmountOut,
+            ethers.constants.MaxUint256
+          );
+
+      const snapshot = await network.provider.send('evm_snapshot');
+
+      const receipt = await (await liquidate(0)).wait();
+
+      // The DINERO bought by both tokens.
+      let amountOut = BigNumber.from(0);
+
+      for (const log of receipt.logs) {
+        if (log.address !== dinero.address) continue;
+
+        const { name, args } = dinero.interface.parseLog(log);
+
+        if (
+          name === 'Transfer' &&
+          args.to === recipient.address &&
+          args.from !== ethers.constants.AddressZero
+        )
+          amountOut = amountOut.add(args.value);
+      }
+
+      await network.provider.send('evm_revert', [snapshot]);
+
+      // Each token buys about half of the DINERO, so the minimum only holds for both sales.
+      await expect(liquidate(amountOut.mul(99).div(100))).to.emit(
+        market,
+        'WithdrawCollateral'
+      );
+    });
     it('liquidates accounts by selling the collecteral', async () => {
       const [market] = await makeMockOracleMarket();
 
@@ -498,7 +590,9 @@ describe('InterestERC20Market', () => {
           [parseEther('700'), parseEther('500')],
           recipient.address,
           [CAKE, WBNB, dinero.address],
-          [WBNB, dinero.address] // Enables the use of the router for non LP-tokens.
+          [WBNB, dinero.address], // Enables the use of the router for non LP-tokens.
+          0,
+          ethers.constants.MaxUint256
         )
       )
         .to.emit(market, 'WithdrawCollateral')
@@ -591,4 +685,55 @@ describe('InterestERC20Market', () => {
       );
     });
   });
+
+  describe('function: request repay with collateral', () => {
+    it('removes the liquidity and sells both tokens to repay the loan', async () => {
+      await market
+        .connect(alice)
+        .addCollateral(alice.address, parseEther('10'));
+
+      await market.connect(alice).borrow(alice.address, parseEther('300'));
+
+      const aliceDineroBalance = await dinero.balanceOf(alice.address);
+
+      await expect(
+        market
+          .connect(alice)
+          .request(
+            [REPAY_WITH_COLLATERAL_REQUEST],
+            [
+              defaultAbiCoder.encode(
+                ['uint256', 'uint256', 'uint256', 'address[]', 'address[]'],
+                [
+                  parseEther('5'),
+                  ethers.constants.MaxUint256,
+                  parseEther('300'),
+                  [CAKE, WBNB, dinero.address],
+                  [WBNB, dinero.address],
+                ]
+              ),
+            ]
+          )
+      )
+        .to.emit(vault, 'Withdraw')
+        .withArgs(alice.address, market.address, parseEther('5'))
+        .to.emit(market, 'WithdrawCollateral')
+        .withArgs(alice.address, market.address, parseEther('5'))
+        .to.emit(market, 'Repay');
+
+      const [aliceLoan, aliceCollateral, totalCollateral, aliceDineroBalance2] =
+        await Promise.all([
+          market.userLoan(alice.address),
+          market.userCollateral(alice.address),
+          market.totalCollateral(),
+          dinero.balanceOf(alice.address),
+        ]);
+
+      expect(aliceLoan).to.be.equal(0);
+      expect(aliceCollateral).to.be.equal(parseEther('5'));
+      expect(totalCollateral).to.be.equal(parseEther('5'));
+      // The sale covered the debt and she kept the rest.
+      expect(aliceDineroBalance2.gt(aliceDineroBalance)).to.be.equal(true);
+    });
+  });
 }).timeout(50_000);
@@ -1,5 +1,6 @@
 import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
 import { expect } from 'chai';
+import { BigNumberish } from 'ethers';
 import { ethers, network } from 'hardhat';
 
 import ERC20ABI from '../abi/erc20.json';
@@ -11,8 +12,10 @@ import {
   Dinero,
   ERC20,
   InterestERC20Market,
+  MockLiquidationCallee,
   MockOracle,
   Oracle,
+  ReentrantLiquidationCallee,
   TestInterestERC20MarketV2,
 } from '../typechain';
 import {
@@ -24,10 +27,12 @@ import {
   CAKE_WHALE_ONE,
   CAKE_WHALE_THREE,
   CAKE_WHALE_TWO,
+  LEVERAGE_REQUEST,
   MINTER_ROLE,
   PCS_FACTORY,
   PCS_ROUTER,
   REPAY_REQUEST,
+  REPAY_WITH_COLLATERAL_REQUEST,
   WBNB,
   WBNB_WHALE,
   WITHDRAW_COLLATERAL_REQUEST,
@@ -36,6 +41,7 @@ import {
   advanceBlock,
   advanceBlockAndTime,
   advanceTime,
+  deploy,
   deployUUPS,
   impersonate,
   multiDeploy,
@@ -50,6 +56,34 @@ const MOCK_ORACLE_PRICE = parseEther('20');
 
 // CAKE PRICE IN THE BLOCK IS 9.8 USD
 
+// {MockLiquidationCallee} sells the collateral in PCS with `path`.
+const encodeCalleeData = (path: Array<string>) =>
+  defaultAbiCoder.encode(['address', 'address[]'], [PCS_ROUTER, path]);
+
+// Sells `amount` of collateral for at least `minAmountOut` Dinero to repay `principal`.
+const encodeRepayWithCollateral = (
+  amount: BigNumberish,
+  principal: BigNumberish,
+  minAmountOut: BigNumberish,
+  path: Array<string>
+) =>
+  defaultAbiCoder.encode(
+    ['uint256', 'uint256', 'uint256', 'address[]', 'address[]'],
+    [amount, principal, minAmountOut, path, []]
+  );
+
+// Borrows and buys collateral up to `loops` times to reach `targetLTV`.
+const encodeLeverage = (
+  targetLTV: BigNumberish,
+  loops: BigNumberish,
+  minAmountOut: BigNumberish,
+  path: Array<string>
+) =>
+  defaultAbiCoder.encode(
+    ['uint256', 'uint256', 'uint256', 'address[]'],
+    [targetLTV, loops, minAmountOut, path]
+  );
+
 describe('InterestERC20Market', () => {
   let market: InterestERC20Market;
   let dinero: Dinero;
@@ -286,6 +320,25 @@ describe('InterestERC20Market', () => {
     return market;
   };
 
+  const makeUnderwaterMarket = async () => {
+    const market = await makeMockOracleMarket();
+
+    await Promise.all([
+      market.connect(alice).addCollateral(alice.address, parseEther('10')),
+      market.connect(jose).addCollateral(jose.address, parseEther('10')),
+    ]);
+
+    await Promise.all([
+      market.connect(alice).borrow(alice.address, parseEther('45')),
+      market.connect(jose).borrow(jose.address, parseEther('45')),
+    ]);
+
+    // Drop CAKE to 9 USD. Alice and Jose can now be liquidated
+    await mockOracle.__setERC20Price(CAKE, parseEther('9'));
+
+    return market;
+  };
+
   describe('function: initialize', () => {
     it('gives the router full allowance', async () => {
       expect(
@@ -415,7 +468,9 @@ describe('InterestERC20Market', () => {
         [parseEther('10')],
         owner.address,
         [CAKE, WBNB, dinero.address],
-        []
+        [],
+        0,
+        ethers.constants.MaxUint256
       );
 
     const currentAllowance = await CakeContract.allowance(
@@ -1214,7 +1269,9 @@ describe('InterestERC20Market', () => {
             [parseEther('1')],
             recipient.address,
             [dinero.address, CAKE],
-            []
+            [],
+            0,
+            ethers.constants.MaxUint256
           )
       ).to.revertedWith('MKT: no dinero at last index');
     });
@@ -1239,10 +1296,54 @@ describe('InterestERC20Market', () => {
             [parseEther('10'), parseEther('10'), parseEther('10')],
             owner.address,
             [],
-            []
+            [],
+            0,
+            ethers.constants.MaxUint256
           )
       ).to.revertedWith('MKT: no liquidations');
     });
+    it('reverts if the deadline has passed', async () => {
+      const { timestamp } = await ethers.provider.getBlock('latest');
+
+      await expect(
+        market
+          .connect(owner)
+          .liquidate(
+            [alice.address],
+            [parseEther('1')],
+            owner.address,
+            [],
+            [],
+            0,
+            timestamp
+          )
+      ).to.revertedWith('MKT: expired');
+    });
+    it('reverts if the collateral does not sell for the minimum amount of dinero', async () => {
+      const market = await makeMockOracleMarket();
+
+      await market
+        .connect(alice)
+        .addCollateral(alice.address, parseEther('10'));
+
+      await market.connect(alice).borrow(alice.address, parseEther('45'));
+
+      await mockOracle.__setERC20Price(CAKE, parseEther('9'));
+
+      await expect(
+        market
+          .connect(recipient)
+          .liquidate(
+            [alice.address],
+            [parseEther('45')],
+            recipient.address,
+            [CAKE, WBNB, dinero.address],
+            [],
+            parseEther('1000'),
+            ethers.constants.MaxUint256
+          )
+      ).to.revertedWith('PancakeRouter: INSUFFICIENT_OUTPUT_AMOUNT');
+    });
 
     it('liquidates accounts on a market without a vault and using the router', async () => {
       const market = await makeMockOracleMarket();
@@ -1309,7 +1410,9 @@ describe('InterestERC20Market', () => {
           [parseEther('45'), parseEther('45')],
           recipient.address,
           [CAKE, WBNB, dinero.address], // Enables the use of the router for non LP-tokens.
-          []
+          [],
+          0,
+          ethers.constants.MaxUint256
         )
       )
         .to.emit(market, 'WithdrawCollateral')
@@ -1474,7 +1577,9 @@ describe('InterestERC20Market', () => {
             [parseEther('50'), parseEther('50'), parseEther('40')],
             recipient.address,
             [],
-            []
+            [],
+            0,
+            ethers.constants.MaxUint256
           )
       )
         .to.emit(market, 'WithdrawCollateral')
@@ -1565,6 +1670,131 @@ describe('InterestERC20Market', () => {
     });
   });
 
+  describe('function: flashLiquidate', () => {
+    let callee: MockLiquidationCallee;
+
+    beforeEach(async () => {
+      callee = await deploy('MockLiquidationCallee');
+    });
+
+    it('reverts if the liquidator does not accept the callback', async () => {
+      const market = await makeUnderwaterMarket();
+
+      await callee.__setReturnValue(ethers.constants.HashZero);
+
+      await expect(
+        market
+          .connect(recipient)
+          .flashLiquidate(
+            [alice.address, jose.address],
+            [parseEther('45'), parseEther('45')],
+            callee.address,
+            encodeCalleeData([CAKE, WBNB, dinero.address])
+          )
+      ).to.revertedWith('MKT: invalid callback');
+    });
+    it('reverts if the liquidator cannot pay the debt', async () => {
+      const market = await makeUnderwaterMarket();
+
+      // The callee receives the collateral but does not sell it for DNR.
+      await expect(
+        market
+          .connect(recipient)
+          .flashLiquidate(
+            [alice.address, jose.address],
+            [parseEther('45'), parseEther('45')],
+            callee.address,
+            encodeCalleeData([CAKE, WBNB])
+          )
+      ).to.revertedWith('ERC20: burn amount exceeds balance');
+    });
+    it('liquidates accounts without holding Dinero', async () => {
+      const market = await makeUnderwaterMarket();
+
+      // Pass time to accrue fees
+      await advanceTime(63_113_904, ethers); // advance 2 years
+
+      const [totalCollateral, loan] = await Promise.all([
+        market.totalCollateral(),
+        market.loan(),
+      ]);
+
+      expect(await dinero.balanceOf(callee.address)).to.be.equal(0);
+
+      await expect(
+        market
+          .connect(recipient)
+          .flashLiquidate(
+            [alice.address, jose.address],
+            [parseEther('45'), parseEther('45')],
+            callee.address,
+            encodeCalleeData([CAKE, WBNB, dinero.address])
+          )
+      )
+        .to.emit(market, 'WithdrawCollateral')
+        .to.emit(market, 'Repay')
+        .to.emit(market, 'Accrue')
+        .to.emit(dinero, 'Transfer');
+
+      const [
+        totalLoan,
+        totalCollateral2,
+        aliceLoan,
+        joseLoan,
+        aliceCollateral,
+        joseCollateral,
+        loan2,
+        sender,
+      ] = await Promise.all([
+        market.totalLoan(),
+        market.totalCollateral(),
+        market.userLoan(alice.address),
+        market.userLoan(jose.address),
+        market.userCollateral(alice.address),
+        market.userCollateral(jose.address),
+        market.loan(),
+        callee.sender(),
+      ]);
+
+      expect(aliceLoan).to.be.equal(0);
+      expect(joseLoan).to.be.equal(0);
+      expect(totalLoan.base).to.be.equal(0);
+      expect(totalLoan.elastic).to.be.equal(0);
+      expect(totalCollateral.sub(totalCollateral2)).to.be.equal(
+        parseEther('20').sub(aliceCollateral).sub(joseCollateral)
+      );
+      expect(loan2.feesEarned.gt(loan.feesEarned)).to.be.equal(true);
+      expect(sender).to.be.equal(recipient.address);
+      // The callee keeps the liquidation fee - slippage in DNR.
+      expect((await dinero.balanceOf(callee.address)).gt(0)).to.be.equal(true);
+      expect(await CakeContract.balanceOf(callee.address)).to.be.equal(0);
+    });
+    it('reverts if the liquidator calls the market during the callback', async () => {
+      const market = await makeUnderwaterMarket();
+
+      const reentrantCallee: ReentrantLiquidationCallee = await deploy(
+        'ReentrantLiquidationCallee',
+        [market.address]
+      );
+
+      // request, liquidate, flashLiquidate and withdrawCollateral
+      for (const mode of [0, 1, 2, 3]) {
+        await reentrantCallee.__setMode(mode);
+
+        await expect(
+          market
+            .connect(recipient)
+            .flashLiquidate(
+              [alice.address, jose.address],
+              [parseEther('45'), parseEther('45')],
+              reentrantCallee.address,
+              '0x'
+            )
+        ).to.revertedWith('ReentrancyGuard: reentrant call');
+      }
+    });
+  });
+
   it('reverts if you pass an unknown request', async () => {
     await expect(
       market
@@ -2038,6 +2268,302 @@ describe('InterestERC20Market', () => {
     });
   });
 
+  describe('function: request repay with collateral', () => {
+    beforeEach(async () => {
+      await market
+        .connect(alice)
+        .addCollateral(alice.address, parseEther('10'));
+
+      await market.connect(alice).borrow(alice.address, parseEther('30'));
+    });
+
+    it('reverts if the arguments are invalid', async () => {
+      await expect(
+        market
+          .connect(alice)
+          .request(
+            [REPAY_WITH_COLLATERAL_REQUEST],
+            [encodeRepayWithCollateral(0, 1, 0, [CAKE, WBNB, dinero.address])]
+          )
+      ).to.revertedWith('DM: no zero amount');
+      await expect(
+        market
+          .connect(alice)
+          .request(
+            [REPAY_WITH_COLLATERAL_REQUEST],
+            [encodeRepayWithCollateral(1, 0, 0, [CAKE, WBNB, dinero.address])]
+          )
+      ).to.revertedWith('MKT: principal cannot be 0');
+      await expect(
+        market
+          .connect(alice)
+          .request(
+            [REPAY_WITH_COLLATERAL_REQUEST],
+            [encodeRepayWithCollateral(1, 1, 0, [CAKE, WBNB])]
+          )
+      ).to.revertedWith('MKT: no dinero at last index');
+    });
+
+    it('reverts if the sale returns less than the minimum amount', async () => {
+      const router = new ethers.Contract(
+        PCS_ROUTER,
+        PCSRouterABI,
+        ethers.provider
+      );
+
+      const amountOut = (
+        await router.getAmountsOut(parseEther('5'), [
+          CAKE,
+          WBNB,
+          dinero.address,
+        ])
+      )[2];
+
+      await expect(
+        market
+          .connect(alice)
+          .request(
+            [REPAY_WITH_COLLATERAL_REQUEST],
+            [
+              encodeRepayWithCollateral(
+                parseEther('5'),
+                parseEther('30'),
+                amountOut.add(1),
+                [CAKE, WBNB, dinero.address]
+              ),
+            ]
+          )
+      ).to.revertedWith('PancakeRouter: INSUFFICIENT_OUTPUT_AMOUNT');
+    });
+
+    it('reverts if the caller is insolvent after the request', async () => {
+      await expect(
+        market
+          .connect(alice)
+          .request(
+            [REPAY_WITH_COLLATERAL_REQUEST],
+            [
+              encodeRepayWithCollateral(parseEther('9'), parseEther('1'), 0, [
+                CAKE,
+                WBNB,
+                dinero.address,
+              ]),
+            ]
+          )
+      ).to.revertedWith('MKT: sender is insolvent');
+    });
+
+    it('sells the collateral to repay the loan of the caller without a fee', async () => {
+      const router = new ethers.Contract(
+        PCS_ROUTER,
+        PCSRouterABI,
+        ethers.provider
+      );
+
+      const [amounts, aliceDineroBalance, aliceCakeBalance] = await Promise.all(
+        [
+          router.getAmountsOut(parseEther('5'), [CAKE, WBNB, dinero.address]),
+          dinero.balanceOf(alice.address),
+          CakeContract.balanceOf(alice.address),
+        ]
+      );
+      const amountOut = amounts[2];
+
+      await expect(
+        market
+          .connect(alice)
+          .request(
+            [REPAY_WITH_COLLATERAL_REQUEST],
+            [
+              encodeRepayWithCollateral(
+                parseEther('5'),
+                parseEther('20'),
+                amountOut,
+                [CAKE, WBNB, dinero.address]
+              ),
+            ]
+          )
+      )
+        .to.emit(market, 'Accrue')
+        .to.emit(market, 'WithdrawCollateral')
+        .withArgs(alice.address, market.address, parseEther('5'))
+        .to.emit(market, 'Repay');
+
+      const [
+        aliceLoan,
+        aliceCollateral,
+        totalCollateral,
+        aliceDineroBalance2,
+        aliceCakeBalance2,
+      ] = await Promise.all([
+        market.userLoan(alice.address),
+        market.userCollateral(alice.address),
+        market.totalCollateral(),
+        dinero.balanceOf(alice.address),
+        CakeContract.balanceOf(alice.address),
+      ]);
+
+      expect(aliceLoan).to.be.equal(parseEther('10'));
+      expect(aliceCollateral).to.be.equal(parseEther('5'));
+      expect(totalCollateral).to.be.equal(parseEther('5'));
+      // The collateral was sold, not sent to her.
+      expect(aliceCakeBalance2).to.be.equal(aliceCakeBalance);
+      // She keeps the Dinero left after paying the debt + interest.
+      expect(aliceDineroBalance2).to.be.closeTo(
+        aliceDineroBalance.add(amountOut).sub(parseEther('20')),
+        parseEther('0.01')
+      );
+    });
+  });
+
+  describe('function: request leverage', () => {
+    it('reverts if the arguments are invalid', async () => {
+      await market
+        .connect(alice)
+        .addCollateral(alice.address, parseEther('10'));
+
+      await expect(
+        market
+          .connect(alice)
+          .request(
+            [LEVERAGE_REQUEST],
+            [
+              encodeLeverage(parseEther('0.5'), 3, 0, [
+                dinero.address,
+                WBNB,
+                CAKE,
+              ]),
+            ]
+          )
+      ).to.revertedWith('MKT: ltv ratio too high');
+      await expect(
+        market
+          .connect(alice)
+          .request(
+            [LEVERAGE_REQUEST],
+            [encodeLeverage(parseEther('0.4'), 3, 0, [dinero.address, WBNB])]
+          )
+      ).to.revertedWith('MKT: invalid path');
+      await expect(
+        market
+          .connect(alice)
+          .request(
+            [LEVERAGE_REQUEST],
+            [encodeLeverage(parseEther('0.4'), 3, 0, [WBNB, CAKE])]
+          )
+      ).to.revertedWith('MKT: invalid path');
+    });
+
+    it('reverts if the loops buy less than the minimum amount', async () => {
+      await market
+        .connect(alice)
+        .addCollateral(alice.address, parseEther('10'));
+
+      await expect(
+        market
+          .connect(alice)
+          .request(
+            [LEVERAGE_REQUEST],
+            [
+              encodeLeverage(parseEther('0.4'), 3, parseEther('100'), [
+                dinero.address,
+                WBNB,
+                CAKE,
+              ]),
+            ]
+          )
+      ).to.revertedWith('MKT: not enough collateral');
+    });
+
+    it('borrows and buys collateral until it reaches the target ltv', async () => {
+      const [aliceDineroBalance, aliceCakeBalance] = await Promise.all([
+        dinero.balanceOf(alice.address),
+        CakeContract.balanceOf(alice.address),
+      ]);
+
+      await expect(
+        market
+          .connect(alice)
+          .request(
+            [ADD_COLLATERAL_REQUEST, LEVERAGE_REQUEST],
+            [
+              defaultAbiCoder.encode(
+                ['address', 'uint256'],
+                [alice.address, parseEther('10')]
+              ),
+              encodeLeverage(parseEther('0.45'), 6, parseEther('5'), [
+                dinero.address,
+                WBNB,
+                CAKE,
+              ]),
+            ]
+          )
+      )
+        .to.emit(market, 'Borrow')
+        .to.emit(market, 'AddCollateral');
+
+      const [
+        aliceCollateral,
+        totalCollateral,
+        marketCakeBalance,
+        aliceLTV,
+        aliceDineroBalance2,
+        aliceCakeBalance2,
+      ] = await Promise.all([
+        market.userCollateral(alice.address),
+        market.totalCollateral(),
+        CakeContract.balanceOf(market.address),
+        market.getLTV(alice.address),
+        dinero.balanceOf(alice.address),
+        CakeContract.balanceOf(alice.address),
+      ]);
+
+      expect(aliceCollateral.gt(parseEther('15'))).to.be.equal(true);
+      expect(totalCollateral).to.be.equal(aliceCollateral);
+      expect(marketCakeBalance).to.be.equal(aliceCollateral);
+      expect(aliceLTV.lte(parseEther('0.45'))).to.be.equal(true);
+      expect(aliceLTV.gt(parseEther('0.4'))).to.be.equal(true);
+      // She only paid the first collateral.
+      expect(aliceCakeBalance2).to.be.equal(
+        aliceCakeBalance.sub(parseEther('10'))
+      );
+      expect(aliceDineroBalance2).to.be.equal(aliceDineroBalance);
+    });
+
+    it('deposits the collateral bought in the vault', async () => {
+      const [market, vault] = await makeMarketWithVault();
+
+      await market
+        .connect(alice)
+        .addCollateral(alice.address, parseEther('10'));
+
+      await expect(
+        market
+          .connect(alice)
+          .request(
+            [LEVERAGE_REQUEST],
+            [
+              encodeLeverage(parseEther('0.4'), 3, 0, [
+                dinero.address,
+                WBNB,
+                CAKE,
+              ]),
+            ]
+          )
+      )
+        .to.emit(vault, 'Deposit')
+        .to.emit(market, 'AddCollateral');
+
+      const [aliceCollateral, aliceVaultAccount] = await Promise.all([
+        market.userCollateral(alice.address),
+        vault.userInfo(alice.address),
+      ]);
+
+      expect(aliceCollateral.gt(parseEther('10'))).to.be.equal(true);
+      expect(aliceVaultAccount.amount).to.be.equal(aliceCollateral);
+    });
+  });
+
   describe('function: request borrow', () => {
     it('reverts if the user is insolvent', async () => {
       await expect(
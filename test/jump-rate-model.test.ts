@@ -0,0 +1,97 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+
+import { JumpRateModel } from '../typechain';
+import { deploy } from './lib/test-utils';
+
+// ~5% a year
+const MULTIPLIER = ethers.BigNumber.from(1_585_489_599);
+
+// ~300% a year
+const JUMP_MULTIPLIER = ethers.BigNumber.from(95_129_375_951);
+
+const KINK = ethers.utils.parseEther('0.8');
+
+const BASE_RATE = ethers.BigNumber.from(1e8);
+
+const { parseEther } = ethers.utils;
+
+describe('JumpRateModel', () => {
+  let model: JumpRateModel;
+
+  beforeEach(async () => {
+    model = await deploy('JumpRateModel', [
+      BASE_RATE,
+      MULTIPLIER,
+      JUMP_MULTIPLIER,
+      KINK,
+    ]);
+  });
+
+  describe('constructor', () => {
+    it('reverts if the kink is higher than 100%', async () => {
+      await expect(
+        deploy('JumpRateModel', [
+          BASE_RATE,
+          MULTIPLIER,
+          JUMP_MULTIPLIER,
+          parseEther('1').add(1),
+        ])
+      ).to.revertedWith('JRM: kink too high');
+    });
+    it('reverts if the interest rate at 100% utilization is too high', async () => {
+      await expect(
+        deploy('JumpRateModel', [
+          BASE_RATE,
+          MULTIPLIER,
+          JUMP_MULTIPLIER.mul(2),
+          KINK,
+        ])
+      ).to.revertedWith('JRM: rate too high');
+    });
+    it('sets the parameters', async () => {
+      const [baseRate, multiplier, jumpMultiplier, kink] = await Promise.all([
+        model.BASE_RATE(),
+        model.MULTIPLIER(),
+        model.JUMP_MULTIPLIER(),
+        model.KINK(),
+      ]);
+
+      expect(baseRate).to.be.equal(BASE_RATE);
+      expect(multiplier).to.be.equal(MULTIPLIER);
+      expect(jumpMultiplier).to.be.equal(JUMP_MULTIPLIER);
+      expect(kink).to.be.equal(KINK);
+    });
+  });
+
+  it('returns the utilization', async () => {
+    expect(await model.getUtilization(0, 0)).to.be.equal(parseEther('1'));
+    expect(await model.getUtilization(0, parseEther('100'))).to.be.equal(0);
+    expect(
+      await model.getUtilization(parseEther('25'), parseEther('100'))
+    ).to.be.equal(parseEther('0.25'));
+    expect(
+      await model.getUtilization(parseEther('150'), parseEther('100'))
+    ).to.be.equal(parseEther('1'));
+  });
+
+  it('returns the interest rate', async () => {
+    expect(await model.getInterestRate(0, parseEther('100'))).to.be.equal(
+      BASE_RATE
+    );
+    expect(
+      await model.getInterestRate(parseEther('50'), parseEther('100'))
+    ).to.be.equal(BASE_RATE.add(MULTIPLIER.div(2)));
+    expect(
+      await model.getInterestRate(parseEther('80'), parseEther('100'))
+    ).to.be.equal(BASE_RATE.add(MULTIPLIER.mul(8).div(10)));
+    expect(
+      await model.getInterestRate(parseEther('90'), parseEther('100'))
+    ).to.be.equal(
+      BASE_RATE.add(MULTIPLIER.mul(8).div(10)).add(JUMP_MULTIPLIER.div(10))
+    );
+    expect(await model.getInterestRate(parseEther('1'), 0)).to.be.equal(
+      BASE_RATE.add(MULTIPLIER.mul(8).div(10)).add(JUMP_MULTIPLIER.div(5))
+    );
+  });
+});
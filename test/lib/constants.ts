@@ -23,6 +23,11 @@ export const BURNER_ROLE = ethers.utils.solidityKeccak256(
   ['BURNER_ROLE']
 );
 
+export const RESERVE_ROLE = ethers.utils.solidityKeccak256(
+  ['string'],
+  ['RESERVE_ROLE']
+);
+
 export const DEFAULT_ADMIN_ROLE = ethers.constants.HashZero;
 
 export const CAKE_WHALE_ONE = getAddress(
@@ -179,6 +184,10 @@ export const BORROW_REQUEST = 2;
 
 export const REPAY_REQUEST = 3;
 
+export const REPAY_WITH_COLLATERAL_REQUEST = 4;
+
+export const LEVERAGE_REQUEST = 5;
+
 // POOL IDs
 
 export const WBNB_CAKE_LP_TOKEN_POOL_ID = 251;
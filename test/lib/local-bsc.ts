@@ -0,0 +1,587 @@
+/* eslint-disable  @typescript-eslint/no-explicit-any */
+// eslint-disable-next-line node/no-unpublished-import
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { BigNumber, BigNumberish } from 'ethers';
+import { ethers, network } from 'hardhat';
+
+import {
+  CakeToken,
+  LiquidityRouter,
+  MasterChef,
+  MockChainLinkFeed,
+  MockERC20,
+  MockVBep20,
+  MockVBNB,
+  MockVenusController,
+  PancakeFactory,
+  WETH9,
+} from '../../typechain';
+import {
+  BNB_USD_PRICE_FEED,
+  BTC,
+  BTC_USD_PRICE_FEED,
+  BTC_WHALE_ONE,
+  BTC_WHALE_THREE,
+  BTC_WHALE_TWO,
+  BUSD,
+  CAKE,
+  CAKE_BNB_PRICE_FEED,
+  CAKE_MASTER_CHEF,
+  CAKE_USD_PRICE_FEED,
+  CAKE_WHALE_ONE,
+  CAKE_WHALE_THREE,
+  CAKE_WHALE_TWO,
+  DAI,
+  DAI_WHALE_ONE,
+  ETH,
+  ETH_USD_PRICE_FEED,
+  PCS_FACTORY,
+  PCS_ROUTER,
+  USDC,
+  USDC_USD_PRICE_FEED,
+  USDC_WHALE_ONE,
+  USDC_WHALE_TWO,
+  USDT,
+  vBNB,
+  vBTC,
+  vDAI,
+  VENUS_ADMIN,
+  VENUS_CONTROLLER,
+  vUSDC,
+  WBNB,
+  WBNB_CAKE_LP_HOLDER,
+  WBNB_CAKE_LP_HOLDER_TWO,
+  WBNB_CAKE_LP_TOKEN_POOL_ID,
+  WBNB_WHALE,
+  XVS,
+  XVS_USD_PRICE_FEED,
+  XVS_WHALE,
+} from './constants';
+
+const {
+  parseEther,
+  parseUnits,
+  getCreate2Address,
+  hexValue,
+  keccak256,
+  solidityPack,
+} = ethers.utils;
+
+// @desc the local stand-in replaces the BSC fork when the tests run with LOCAL=true
+export const IS_LOCAL = process.env.LOCAL === 'true';
+
+// @desc init code hash of the PancakePair on BSC. {PancakeOracle} uses it to find the pairs.
+const PCS_INIT_CODE_HASH =
+  '0x00fb7f630766e6a796048ea87d01acd3068e8ff67d078148a3fa3f4a84f69bd5';
+
+// @desc block of BSC the fork starts at
+const FORK_BLOCK_NUMBER = 16_677_000;
+
+// @desc USD prices at block 16_677_000 when known, otherwise close approximations
+const USD_PRICES: Record<string, BigNumber> = {
+  [WBNB]: parseEther('455.03129354'),
+  [CAKE]: parseEther('9.86'),
+  [BTC]: parseEther('46800'),
+  [ETH]: parseEther('3000'),
+  [XVS]: parseEther('11'),
+  [USDC]: parseEther('1'),
+  [USDT]: parseEther('1'),
+  [BUSD]: parseEther('1'),
+  [DAI]: parseEther('1'),
+};
+
+const ERC20_TOKENS: ReadonlyArray<[string, string, string]> = [
+  [BTC, 'BTCB Token', 'BTCB'],
+  [ETH, 'Ethereum Token', 'ETH'],
+  [XVS, 'Venus', 'XVS'],
+  [USDC, 'USD Coin', 'USDC'],
+  [USDT, 'Tether USD', 'USDT'],
+  [BUSD, 'BUSD Token', 'BUSD'],
+  [DAI, 'Dai Token', 'DAI'],
+];
+
+// @desc Chainlink USD feeds have 8 decimals and BNB feeds have 18 decimals
+const FEEDS: ReadonlyArray<[string, number, string, BigNumberish]> = [
+  [BNB_USD_PRICE_FEED, 8, 'BNB / USD', parseUnits('455.03129354', 8)],
+  [BTC_USD_PRICE_FEED, 8, 'BTC / USD', parseUnits('46800', 8)],
+  [CAKE_USD_PRICE_FEED, 8, 'CAKE / USD', parseUnits('9.86', 8)],
+  [CAKE_BNB_PRICE_FEED, 18, 'CAKE / BNB', '21625818173764674'],
+  [ETH_USD_PRICE_FEED, 8, 'ETH / USD', parseUnits('3000', 8)],
+  [XVS_USD_PRICE_FEED, 8, 'XVS / USD', parseUnits('11', 8)],
+  [USDC_USD_PRICE_FEED, 8, 'USDC / USD', parseUnits('1', 8)],
+];
+
+// @desc Venus markets [vToken, underlying, name, symbol]
+const V_TOKENS: ReadonlyArray<[string, string, string, string]> = [
+  [vUSDC, USDC, 'Venus USDC', 'vUSDC'],
+  [vDAI, DAI, 'Venus DAI', 'vDAI'],
+  [vBTC, BTC, 'Venus BTC', 'vBTC'],
+];
+
+// @desc Venus markets lend at about 5% a year at 80% of utilization [base, multiplier, jump multiplier, kink]
+const VENUS_INTEREST_RATE_MODEL: [BigNumber, BigNumber, BigNumber, BigNumber] =
+  [
+    ethers.constants.Zero,
+    BigNumber.from('5945585996'),
+    BigNumber.from('1189117199391'),
+    parseEther('0.8'),
+  ];
+
+const VENUS_INITIAL_EXCHANGE_RATE = parseUnits('2', 26);
+
+const VENUS_RESERVE_FACTOR = parseEther('0.2');
+
+// @desc collateral factors of the Venus markets on BSC
+const VENUS_COLLATERAL_FACTORS: Record<string, BigNumber> = {
+  [vUSDC]: parseEther('0.8'),
+  [vDAI]: parseEther('0.6'),
+  [vBTC]: parseEther('0.8'),
+  [vBNB]: parseEther('0.8'),
+};
+
+// @desc USD value supplied to every Venus market and the percentage of it that is borrowed
+const VENUS_MARKET_SUPPLY = parseEther('4000000000');
+
+const VENUS_UTILIZATION = 75;
+
+// @desc XVS distributed to the suppliers and borrowers of every Venus market per block
+const VENUS_SPEED = parseEther('0.5');
+
+// @desc balances the whales had in the fork
+const WHALE_BALANCES: ReadonlyArray<[string, string, BigNumber]> = [
+  [CAKE, CAKE_WHALE_ONE, parseEther('1000000')],
+  [CAKE, CAKE_WHALE_TWO, parseEther('1000000')],
+  [CAKE, CAKE_WHALE_THREE, parseEther('1000000')],
+  [USDC, USDC_WHALE_ONE, parseEther('1000000000')],
+  [USDC, USDC_WHALE_TWO, parseEther('1000000000')],
+  [BTC, BTC_WHALE_ONE, parseEther('1000')],
+  [BTC, BTC_WHALE_TWO, parseEther('1000')],
+  [BTC, BTC_WHALE_THREE, parseEther('1000')],
+  [DAI, DAI_WHALE_ONE, parseEther('100000000')],
+  [XVS, XVS_WHALE, parseEther('1000000')],
+];
+
+// @desc every pair is seeded with this much WBNB
+const PAIR_WBNB_LIQUIDITY = parseEther('20000');
+
+const setBalance = (address: string, amount: BigNumber): Promise<void> =>
+  network.provider.send('hardhat_setBalance', [address, hexValue(amount)]);
+
+/**
+ * @desc Returns the storage the transaction `hash` wrote in the call frames at `depth`.
+ * The constructor frame of a deployment is at depth 1.
+ */
+const getWrittenStorage = async (
+  hash: string,
+  depth: number
+): Promise<Record<string, string>> => {
+  const { structLogs } = await network.provider.send('debug_traceTransaction', [
+    hash,
+  ]);
+
+  const storage: Record<string, string> = {};
+
+  for (const log of structLogs)
+    if (log.depth === depth) Object.assign(storage, log.storage);
+
+  return storage;
+};
+
+/**
+ * @desc Copies the code of `from` and its `storage` to the address `to`.
+ */
+const cloneAt = async (
+  from: string,
+  to: string,
+  storage: Record<string, string>
+): Promise<void> => {
+  await network.provider.send('hardhat_setCode', [
+    to,
+    await ethers.provider.getCode(from),
+  ]);
+
+  for (const [slot, value] of Object.entries(storage)) {
+    await network.provider.send('hardhat_setStorageAt', [
+      to,
+      hexValue(`0x${slot}`),
+      `0x${value}`,
+    ]);
+  }
+};
+
+/**
+ * @desc Deploys the contract `name` and moves it with the state set by its constructor to the address `target`.
+ * Immutables are part of the code, so they must already point to their final addresses.
+ */
+export const deployAt = async (
+  name: string,
+  target: string,
+  parameters: Array<unknown> = [],
+  signer?: SignerWithAddress
+): Promise<any> => {
+  const factory = await ethers.getContractFactory(name, signer);
+  const contract = await factory.deploy(...parameters);
+  await contract.deployed();
+
+  await cloneAt(
+    contract.address,
+    target,
+    await getWrittenStorage(contract.deployTransaction.hash, 1)
+  );
+
+  return factory.attach(target);
+};
+
+/**
+ * @desc Returns the address of the pair of `tokenA` and `tokenB` on BSC.
+ */
+export const getBSCPairAddress = (tokenA: string, tokenB: string): string => {
+  const [token0, token1] =
+    tokenA < tokenB ? [tokenA, tokenB] : [tokenB, tokenA];
+
+  return getCreate2Address(
+    PCS_FACTORY,
+    keccak256(solidityPack(['address', 'address'], [token0, token1])),
+    PCS_INIT_CODE_HASH
+  );
+};
+
+/**
+ * @desc Creates a pair in the local {PancakeFactory} and moves it to its BSC address.
+ */
+const createPairAt = async (
+  factory: PancakeFactory,
+  tokenA: string,
+  tokenB: string
+): Promise<string> => {
+  const tx = await factory.createPair(tokenA, tokenB);
+  await tx.wait();
+
+  const target = getBSCPairAddress(tokenA, tokenB);
+
+  // Pair constructor and {initialize} run in frames called by the factory.
+  await cloneAt(
+    await factory.getPair(tokenA, tokenB),
+    target,
+    await getWrittenStorage(tx.hash, 2)
+  );
+
+  await factory.__setPair(tokenA, tokenB, target);
+
+  return target;
+};
+
+/**
+ * @desc Stands up the BSC contracts the protocol and the tests expect at their mainnet addresses.
+ * PancakeSwap, Chainlink and Venus are replaced with the mocks in contracts/mock.
+ * Whales are funded directly instead of relying on their balances at the fork block.
+ */
+export const setUpLocalBSC = async (): Promise<void> => {
+  const signers = await ethers.getSigners();
+  // The last account deploys so the balances of the accounts used by the tests remain untouched.
+  const deployer = signers[signers.length - 1];
+
+  // Some mocks store the block numbers of the fork.
+  const blockNumber = await ethers.provider.getBlockNumber();
+
+  if (FORK_BLOCK_NUMBER > blockNumber)
+    await network.provider.send('hardhat_mine', [
+      hexValue(FORK_BLOCK_NUMBER - blockNumber),
+    ]);
+
+  await setBalance(deployer.address, parseEther('100000000'));
+
+  // Tokens
+  const [cake, wbnb] = (await Promise.all([
+    deployAt('CakeToken', CAKE, [], deployer),
+    deployAt('WETH9', WBNB, [], deployer),
+  ])) as [CakeToken, WETH9];
+
+  // CAKE shares the {mint} and {approve} of {MockERC20}
+  const tokens: Record<string, MockERC20> = {
+    [CAKE]: (await ethers.getContractFactory('MockERC20')).attach(
+      CAKE
+    ) as MockERC20,
+  };
+
+  // XVS stores the allowances in 96 bits and the Binance-Peg tokens do not have infinite allowances like on BSC.
+  for (const [address, name, symbol] of ERC20_TOKENS) {
+    tokens[address] = await deployAt(
+      address === XVS ? 'MockXVS' : 'MockNoInfiniteAllowanceERC20',
+      address,
+      [name, symbol, 0],
+      deployer
+    );
+  }
+
+  // PancakeSwap
+  const factory = (await deployAt(
+    'PancakeFactory',
+    PCS_FACTORY,
+    [deployer.address],
+    deployer
+  )) as PancakeFactory;
+
+  const routers = await Promise.all(
+    ['PancakeRouter', 'ETHRouter', 'LiquidityRouter'].map(async (name) =>
+      (
+        await ethers.getContractFactory(name, deployer)
+      ).deploy(PCS_FACTORY, WBNB)
+    )
+  );
+
+  await deployAt(
+    'PancakeRouterDispatcher',
+    PCS_ROUTER,
+    routers.map((x) => x.address),
+    deployer
+  );
+
+  const router = (
+    await ethers.getContractFactory('LiquidityRouter', deployer)
+  ).attach(PCS_ROUTER) as LiquidityRouter;
+
+  await wbnb
+    .connect(deployer)
+    .deposit({ value: PAIR_WBNB_LIQUIDITY.mul(ERC20_TOKENS.length + 2) });
+
+  await wbnb.connect(deployer).approve(PCS_ROUTER, ethers.constants.MaxUint256);
+
+  for (const token of [CAKE, ...ERC20_TOKENS.map(([address]) => address)]) {
+    await createPairAt(factory, WBNB, token);
+
+    const amount = PAIR_WBNB_LIQUIDITY.mul(USD_PRICES[WBNB]).div(
+      USD_PRICES[token]
+    );
+
+    await tokens[token].connect(deployer).mint(deployer.address, amount.mul(2));
+    await tokens[token]
+      .connect(deployer)
+      .approve(PCS_ROUTER, ethers.constants.MaxUint256);
+
+    await router
+      .connect(deployer)
+      .addLiquidity(
+        WBNB,
+        token,
+        PAIR_WBNB_LIQUIDITY,
+        amount,
+        0,
+        0,
+        deployer.address,
+        ethers.constants.MaxUint256
+      );
+  }
+
+  // WBNB/CAKE liquidity for the LP token holders
+  for (const holder of [WBNB_CAKE_LP_HOLDER, WBNB_CAKE_LP_HOLDER_TWO]) {
+    await router
+      .connect(deployer)
+      .addLiquidity(
+        WBNB,
+        CAKE,
+        PAIR_WBNB_LIQUIDITY.div(2),
+        PAIR_WBNB_LIQUIDITY.mul(USD_PRICES[WBNB]).div(USD_PRICES[CAKE]).div(2),
+        0,
+        0,
+        holder,
+        ethers.constants.MaxUint256
+      );
+  }
+
+  // Master Chef
+  const syrup = await (
+    await ethers.getContractFactory('SyrupBar', deployer)
+  ).deploy(CAKE);
+
+  const masterChef = (await deployAt(
+    'MasterChef',
+    CAKE_MASTER_CHEF,
+    [
+      CAKE,
+      syrup.address,
+      deployer.address,
+      parseEther('40'),
+      await ethers.provider.getBlockNumber(),
+    ],
+    deployer
+  )) as MasterChef;
+
+  // The pools before the WBNB/CAKE pool do not receive rewards.
+  const dudToken = await (
+    await ethers.getContractFactory('MockERC20', deployer)
+  ).deploy('Dud', 'DUD', 0);
+
+  for (let pid = 1; pid < WBNB_CAKE_LP_TOKEN_POOL_ID; pid++) {
+    await masterChef.connect(deployer).add(0, dudToken.address, false);
+  }
+
+  await masterChef
+    .connect(deployer)
+    .add(4000, getBSCPairAddress(WBNB, CAKE), false);
+
+  // Chainlink
+  for (const [address, decimals, description, answer] of FEEDS) {
+    const feed = (await deployAt(
+      'MockChainLinkFeed',
+      address,
+      [decimals, description, 4],
+      deployer
+    )) as MockChainLinkFeed;
+
+    await feed.setAnswer(answer);
+  }
+
+  // Venus
+  const interestRateModel = await (
+    await ethers.getContractFactory('MockVenusJumpRateModel', deployer)
+  ).deploy(...VENUS_INTEREST_RATE_MODEL);
+
+  const venusController = (await deployAt(
+    'MockVenusController',
+    VENUS_CONTROLLER,
+    [XVS],
+    deployer
+  )) as MockVenusController;
+
+  const vTokens: Array<[string, string]> = [[vBNB, WBNB]];
+
+  for (const [address, underlying, name, symbol] of V_TOKENS) {
+    await deployAt(
+      'MockVBep20',
+      address,
+      [
+        name,
+        symbol,
+        VENUS_CONTROLLER,
+        interestRateModel.address,
+        VENUS_INITIAL_EXCHANGE_RATE,
+        VENUS_RESERVE_FACTOR,
+        underlying,
+      ],
+      deployer
+    );
+
+    vTokens.push([address, underlying]);
+  }
+
+  await deployAt(
+    'MockVBNB',
+    vBNB,
+    [
+      'Venus BNB',
+      'vBNB',
+      VENUS_CONTROLLER,
+      interestRateModel.address,
+      VENUS_INITIAL_EXCHANGE_RATE,
+      VENUS_RESERVE_FACTOR,
+    ],
+    deployer
+  );
+
+  for (const [address, underlying] of vTokens) {
+    await venusController.connect(deployer)._supportMarket(address);
+    await venusController
+      .connect(deployer)
+      ._setCollateralFactor(address, VENUS_COLLATERAL_FACTORS[address]);
+    await venusController
+      .connect(deployer)
+      .__setUnderlyingPrice(address, USD_PRICES[underlying]);
+  }
+
+  await venusController.connect(deployer).enterMarkets(vTokens.map(([x]) => x));
+
+  // The deployer supplies to and borrows from every market, so they accrue interest like on BSC.
+  // It also supplies BNB to collateralize the borrows of the markets with a lower collateral factor.
+  const supplies = vTokens.map(([address, underlying]) =>
+    VENUS_MARKET_SUPPLY.mul(address === vBNB ? 2 : 1)
+      .mul(parseEther('1'))
+      .div(USD_PRICES[underlying])
+  );
+
+  for (const [index, [address, underlying]] of vTokens.entries()) {
+    if (address === vBNB) {
+      await (
+        (
+          await ethers.getContractFactory('MockVBNB', deployer)
+        ).attach(address) as MockVBNB
+      ).mint({ value: supplies[index] });
+    } else {
+      await tokens[underlying]
+        .connect(deployer)
+        .mint(deployer.address, supplies[index]);
+      await tokens[underlying]
+        .connect(deployer)
+        .approve(address, supplies[index]);
+      await (
+        (
+          await ethers.getContractFactory('MockVBep20', deployer)
+        ).attach(address) as MockVBep20
+      ).mint(supplies[index]);
+    }
+  }
+
+  for (const [address, underlying] of vTokens) {
+    const vToken = (
+      await ethers.getContractFactory('MockVBep20', deployer)
+    ).attach(address) as MockVBep20;
+
+    const amount = VENUS_MARKET_SUPPLY.mul(VENUS_UTILIZATION)
+      .div(100)
+      .mul(parseEther('1'))
+      .div(USD_PRICES[underlying]);
+
+    // Venus returns an error code instead of reverting.
+    if (!(await vToken.callStatic.borrow(amount)).isZero())
+      throw new Error(`Failed to borrow from the Venus market ${address}`);
+
+    await vToken.borrow(amount);
+    await venusController
+      .connect(deployer)
+      ._setVenusSpeed(address, VENUS_SPEED);
+  }
+
+  await tokens[XVS].connect(deployer).mint(
+    VENUS_CONTROLLER,
+    parseEther('10000000')
+  );
+
+  // Whales
+  for (const [token, whale, amount] of WHALE_BALANCES) {
+    await tokens[token].connect(deployer).mint(whale, amount);
+  }
+
+  const accounts = [
+    ...new Set([
+      ...WHALE_BALANCES.map(([, whale]) => whale),
+      WBNB_CAKE_LP_HOLDER,
+      WBNB_CAKE_LP_HOLDER_TWO,
+      VENUS_ADMIN,
+    ]),
+  ];
+
+  await Promise.all(
+    accounts.map((account) => setBalance(account, parseEther('1000')))
+  );
+
+  // WBNB whale is the WBNB contract itself. On BSC it also holds WBNB.
+  await setBalance(WBNB_WHALE, parseEther('10000000'));
+  await network.provider.send('hardhat_impersonateAccount', [WBNB_WHALE]);
+  await wbnb
+    .connect(await ethers.getSigner(WBNB_WHALE))
+    .mint(parseEther('1000000'));
+  await network.provider.send('hardhat_stopImpersonatingAccount', [WBNB_WHALE]);
+
+  // The Master Chef mints the CAKE and SYRUP rewards.
+  await Promise.all([
+    cake.connect(deployer).transferOwnership(CAKE_MASTER_CHEF),
+    syrup.connect(deployer).transferOwnership(CAKE_MASTER_CHEF),
+  ]);
+};
+
+// Scripts also use the stand-in, but only the tests run inside mocha.
+if (IS_LOCAL && typeof before === 'function')
+  before(async function () {
+    this.timeout(300_000);
+    await setUpLocalBSC();
+  });
@@ -1,4 +1,7 @@
 /* eslint-disable  @typescript-eslint/no-explicit-any */
+// Registers the local BSC stand-in when the tests run with LOCAL=true
+import './local-bsc';
+
 // eslint-disable-next-line node/no-unpublished-import
 import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
 import { ContractAddressOrInstance } from '@openzeppelin/hardhat-upgrades/dist/utils';
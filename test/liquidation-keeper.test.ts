@@ -0,0 +1,240 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import { Contract } from 'ethers';
+import { ethers } from 'hardhat';
+
+import PCSRouterABI from '../abi/pcs-router.json';
+import WBNBABI from '../abi/wbnb.json';
+import { createRouterQuote, LiquidationKeeper } from '../lib';
+import * as typechain from '../typechain';
+import { Dinero, InterestBNBMarket, MockOracle } from '../typechain';
+import {
+  BURNER_ROLE,
+  MINTER_ROLE,
+  PCS_ROUTER,
+  WBNB,
+  WBNB_WHALE,
+} from './lib/constants';
+import { deploy, deployUUPS, impersonate } from './lib/test-utils';
+
+const INTEREST_RATE = ethers.BigNumber.from(12e8);
+
+const MAX_LTV = ethers.BigNumber.from('500000000000000000');
+
+const LIQUIDATION_FEE = ethers.BigNumber.from('100000000000000000');
+
+const { parseEther } = ethers.utils;
+
+// Keeps the test output clean.
+const logs: Array<string> = [];
+
+describe('LiquidationKeeper', () => {
+  let market: InterestBNBMarket;
+  let dinero: Dinero;
+  let mockOracle: MockOracle;
+  let router: Contract;
+
+  let owner: SignerWithAddress;
+  let alice: SignerWithAddress;
+  let bob: SignerWithAddress;
+  let jose: SignerWithAddress;
+  let keeperSigner: SignerWithAddress;
+  let treasury: SignerWithAddress;
+
+  before(async () => {
+    [owner, alice, bob, jose, keeperSigner, treasury] =
+      await ethers.getSigners();
+
+    dinero = await deployUUPS('Dinero', []);
+    await Promise.all([
+      dinero.connect(owner).grantRole(MINTER_ROLE, owner.address),
+      impersonate(WBNB_WHALE),
+    ]);
+
+    const wbnbWhaleSigner = await ethers.getSigner(WBNB_WHALE);
+
+    router = new ethers.Contract(PCS_ROUTER, PCSRouterABI, wbnbWhaleSigner);
+    const wbnb = new ethers.Contract(WBNB, WBNBABI, wbnbWhaleSigner);
+
+    await Promise.all([
+      dinero.connect(owner).mint(WBNB_WHALE, parseEther('10000000')),
+      dinero
+        .connect(wbnbWhaleSigner)
+        .approve(PCS_ROUTER, ethers.constants.MaxUint256),
+      wbnb
+        .connect(wbnbWhaleSigner)
+        .approve(PCS_ROUTER, ethers.constants.MaxUint256),
+      wbnb.deposit({ value: parseEther('22000') }),
+    ]);
+
+    // BNB/DINERO Liquidity at ~450 USD per BNB
+    await router.addLiquidity(
+      WBNB,
+      dinero.address,
+      parseEther('22200'),
+      parseEther('10000000'),
+      parseEther('22200'),
+      parseEther('10000000'),
+      owner.address,
+      ethers.constants.MaxUint256
+    );
+  });
+
+  beforeEach(async () => {
+    mockOracle = await deploy('MockOracle');
+
+    market = await deployUUPS('InterestBNBMarket', [
+      dinero.address,
+      treasury.address,
+      mockOracle.address,
+      INTEREST_RATE,
+      MAX_LTV,
+      LIQUIDATION_FEE,
+      ethers.constants.MaxUint256,
+    ]);
+
+    await mockOracle.__setBNBUSDPrice(parseEther('500'));
+
+    await Promise.all([
+      dinero.connect(owner).grantRole(MINTER_ROLE, market.address),
+      dinero.connect(owner).grantRole(BURNER_ROLE, market.address),
+      market.updateExchangeRate(),
+    ]);
+
+    await Promise.all([
+      market
+        .connect(alice)
+        .addCollateral(alice.address, { value: parseEther('2') }),
+      market
+        .connect(bob)
+        .addCollateral(bob.address, { value: parseEther('1') }),
+      market
+        .connect(jose)
+        .addCollateral(jose.address, { value: parseEther('10') }),
+    ]);
+
+    await Promise.all([
+      market.connect(alice).borrow(alice.address, parseEther('450')),
+      market.connect(bob).borrow(bob.address, parseEther('200')),
+      market.connect(jose).borrow(jose.address, parseEther('1000')),
+    ]);
+  });
+
+  it('tracks the open loans from the events', async () => {
+    const keeper = new LiquidationKeeper(
+      market.connect(keeperSigner),
+      'InterestBNBMarket',
+      { log: (message) => logs.push(message) }
+    );
+
+    await keeper.sync();
+
+    expect([...keeper.borrowers]).to.have.members([
+      alice.address,
+      bob.address,
+      jose.address,
+    ]);
+
+    await dinero.connect(owner).mint(bob.address, parseEther('10'));
+    await market
+      .connect(bob)
+      .repay(bob.address, await market.userLoan(bob.address));
+
+    await keeper.sync();
+
+    expect([...keeper.borrowers]).to.have.members([
+      alice.address,
+      jose.address,
+    ]);
+    expect(await keeper.getInsolventPositions()).to.have.lengthOf(0);
+  });
+
+  it('liquidates the insolvent borrowers with its Dinero', async () => {
+    const keeper = new LiquidationKeeper(
+      market.connect(keeperSigner),
+      'InterestBNBMarket',
+      { log: (message) => logs.push(message) }
+    );
+
+    await dinero.connect(owner).mint(keeperSigner.address, parseEther('1000'));
+
+    // Drop BNB to 250. Alice and Bob can now be liquidated
+    await mockOracle.__setBNBUSDPrice(parseEther('250'));
+
+    await keeper.sync();
+
+    const [plan] = await keeper.plan();
+
+    expect(plan.accounts).to.have.members([alice.address, bob.address]);
+    expect(plan.mode).to.be.equal('dinero');
+    expect(plan.minAmountOut).to.be.equal(0);
+
+    const [balance, josePrincipal] = await Promise.all([
+      keeperSigner.getBalance(),
+      market.userLoan(jose.address),
+    ]);
+
+    const [transaction] = await keeper.run();
+
+    await expect(transaction).to.emit(market, 'Repay');
+
+    expect(await market.userLoan(alice.address)).to.be.equal(0);
+    expect(await market.userLoan(bob.address)).to.be.equal(0);
+    expect(await market.userLoan(jose.address)).to.be.equal(josePrincipal);
+    expect(await dinero.balanceOf(keeperSigner.address)).to.be.closeTo(
+      parseEther('1000').sub(plan.cost),
+      parseEther('0.001')
+    );
+    expect(await keeperSigner.getBalance()).to.be.gt(balance);
+
+    await keeper.sync();
+
+    expect([...keeper.borrowers]).to.have.members([jose.address]);
+  });
+
+  it('sells the collateral when it is more profitable', async () => {
+    const path = [WBNB, dinero.address];
+
+    const keeper = new LiquidationKeeper(
+      market.connect(keeperSigner),
+      'InterestBNBMarket',
+      {
+        log: (message) => logs.push(message),
+        swap: {
+          path,
+          quote: createRouterQuote(
+            typechain.IPancakeRouter02__factory.connect(
+              PCS_ROUTER,
+              keeperSigner
+            ),
+            path
+          ),
+        },
+      }
+    );
+
+    // PCS pays ~450 USD per BNB while the oracle values the collateral at 250.
+    await mockOracle.__setBNBUSDPrice(parseEther('250'));
+
+    await keeper.sync();
+
+    const [plan] = await keeper.plan();
+
+    expect(plan.mode).to.be.equal('swap');
+    expect(plan.profit).to.be.gt(0);
+    // The swap must cover the cost and the quote minus the default slippage of 0.5%.
+    expect(plan.minAmountOut).to.be.equal(
+      plan.cost.add(plan.profit).mul(995).div(1000)
+    );
+
+    const balance = await dinero.balanceOf(keeperSigner.address);
+
+    await keeper.run();
+
+    expect(await market.userLoan(alice.address)).to.be.equal(0);
+    expect(await market.userLoan(bob.address)).to.be.equal(0);
+    expect(
+      (await dinero.balanceOf(keeperSigner.address)).sub(balance)
+    ).to.be.closeTo(plan.profit, parseEther('1'));
+  });
+});
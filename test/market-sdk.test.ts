@@ -0,0 +1,366 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+
+import {
+  ADD_COLLATERAL_REQUEST,
+  BORROW_REQUEST,
+  computeLiquidationFee,
+  computePosition,
+  connectInterestBNBMarket,
+  createJumpRateModel,
+  decodeRevertData,
+  decodeRevertReason,
+  encodeAddCollateral,
+  encodeLeverage,
+  encodeRepayWithCollateral,
+  encodeWithdrawCollateral,
+  getAuctionState,
+  getJumpRateModelParameters,
+  getMarketState,
+  getPosition,
+  LEVERAGE_REQUEST,
+  MarketError,
+  projectRateCurve,
+  REPAY_WITH_COLLATERAL_REQUEST,
+  SECONDS_PER_YEAR,
+  simulateBorrowCost,
+} from '../lib';
+import {
+  Dinero,
+  InterestBNBMarket,
+  JumpRateModel,
+  MockTWAP,
+  Oracle,
+} from '../typechain';
+import { BURNER_ROLE, MINTER_ROLE } from './lib/constants';
+import { advanceBlockAndTime, deploy, deployUUPS } from './lib/test-utils';
+
+const INTEREST_RATE = ethers.BigNumber.from(12e8);
+
+const MAX_LTV = ethers.BigNumber.from('500000000000000000');
+
+const LIQUIDATION_FEE = ethers.BigNumber.from('100000000000000000');
+
+const { parseEther, defaultAbiCoder } = ethers.utils;
+
+describe('Market SDK', () => {
+  let market: InterestBNBMarket;
+  let dinero: Dinero;
+  let oracle: Oracle;
+  let mockTWAP: MockTWAP;
+
+  let owner: SignerWithAddress;
+  let alice: SignerWithAddress;
+  let bob: SignerWithAddress;
+  let treasury: SignerWithAddress;
+
+  beforeEach(async () => {
+    [owner, alice, bob, treasury] = await ethers.getSigners();
+
+    [dinero, mockTWAP] = await Promise.all([
+      deployUUPS('Dinero', []),
+      deploy('MockTWAP'),
+    ]);
+
+    oracle = await deployUUPS('Oracle', [mockTWAP.address]);
+
+    market = await deployUUPS('InterestBNBMarket', [
+      dinero.address,
+      treasury.address,
+      oracle.address,
+      INTEREST_RATE,
+      MAX_LTV,
+      LIQUIDATION_FEE,
+      ethers.constants.MaxUint256,
+    ]);
+
+    await Promise.all([
+      dinero.connect(owner).grantRole(MINTER_ROLE, market.address),
+      dinero.connect(owner).grantRole(BURNER_ROLE, market.address),
+      market.updateExchangeRate(),
+    ]);
+  });
+
+  describe('encoding', () => {
+    it('encodes the collateral arguments of each market', async () => {
+      const standard = encodeAddCollateral(
+        'InterestERC20Market',
+        parseEther('2'),
+        alice.address
+      );
+      const bnb = encodeAddCollateral(
+        'InterestBNBMarket',
+        parseEther('2'),
+        alice.address
+      );
+      const bearing = encodeWithdrawCollateral(
+        'InterestERC20BearingMarket',
+        parseEther('3'),
+        alice.address,
+        true
+      );
+
+      expect(standard.action).to.be.equal(ADD_COLLATERAL_REQUEST);
+      expect(standard.value).to.be.equal(0);
+      expect(
+        defaultAbiCoder.decode(['address', 'uint256'], standard.data)
+      ).to.be.deep.equal([alice.address, parseEther('2')]);
+      expect(bnb.value).to.be.equal(parseEther('2'));
+      expect(
+        defaultAbiCoder.decode(['uint256', 'bool'], bearing.data)
+      ).to.be.deep.equal([parseEther('3'), true]);
+    });
+
+    it('encodes the repay with collateral arguments of each market', async () => {
+      const bnb = encodeRepayWithCollateral(
+        'InterestBNBMarket',
+        parseEther('1'),
+        parseEther('300'),
+        parseEther('310'),
+        [bob.address, dinero.address]
+      );
+      const pair = encodeRepayWithCollateral(
+        'InterestERC20Market',
+        parseEther('1'),
+        parseEther('300'),
+        parseEther('310'),
+        [bob.address, dinero.address],
+        [alice.address, dinero.address]
+      );
+
+      expect(bnb.action).to.be.equal(REPAY_WITH_COLLATERAL_REQUEST);
+      expect(bnb.value).to.be.equal(0);
+      expect(
+        defaultAbiCoder.decode(
+          ['uint256', 'uint256', 'uint256', 'address[]'],
+          bnb.data
+        )
+      ).to.be.deep.equal([
+        parseEther('1'),
+        parseEther('300'),
+        parseEther('310'),
+        [bob.address, dinero.address],
+      ]);
+      expect(
+        defaultAbiCoder.decode(
+          ['uint256', 'uint256', 'uint256', 'address[]', 'address[]'],
+          pair.data
+        )[4]
+      ).to.be.deep.equal([alice.address, dinero.address]);
+    });
+
+    it('encodes the leverage arguments', async () => {
+      const leverage = encodeLeverage(parseEther('0.4'), 5, parseEther('1'), [
+        dinero.address,
+        bob.address,
+      ]);
+
+      expect(leverage.action).to.be.equal(LEVERAGE_REQUEST);
+      expect(leverage.value).to.be.equal(0);
+      expect(
+        defaultAbiCoder.decode(
+          ['uint256', 'uint256', 'uint256', 'address[]'],
+          leverage.data
+        )
+      ).to.be.deep.equal([
+        parseEther('0.4'),
+        ethers.BigNumber.from(5),
+        parseEther('1'),
+        [dinero.address, bob.address],
+      ]);
+    });
+
+    it('decodes revert data', async () => {
+      expect(
+        decodeRevertData(
+          ethers.utils.hexConcat([
+            '0x08c379a0',
+            defaultAbiCoder.encode(['string'], ['MKT: sender is insolvent']),
+          ])
+        )
+      ).to.be.equal('MKT: sender is insolvent');
+      expect(
+        decodeRevertData(
+          ethers.utils.hexConcat([
+            '0x4e487b71',
+            defaultAbiCoder.encode(['uint256'], [0x11]),
+          ])
+        )
+      ).to.be.equal('Panic(0x11)');
+      expect(decodeRevertData('0x')).to.be.equal(undefined);
+      expect(decodeRevertReason(new Error('network error'))).to.be.equal(
+        undefined
+      );
+    });
+  });
+
+  describe('batch', () => {
+    it('adds collateral and borrows in one request', async () => {
+      const { batch } = connectInterestBNBMarket(market.address, alice);
+
+      const request = await batch()
+        .addCollateral(parseEther('10'))
+        .borrow(bob.address, parseEther('100'))
+        .build();
+
+      expect(request.requests).to.be.deep.equal([
+        ADD_COLLATERAL_REQUEST,
+        BORROW_REQUEST,
+      ]);
+      expect(request.value).to.be.equal(parseEther('10'));
+
+      await expect(
+        batch()
+          .addCollateral(parseEther('10'))
+          .borrow(bob.address, parseEther('100'))
+          .send()
+      )
+        .to.emit(market, 'AddCollateral')
+        .withArgs(alice.address, alice.address, parseEther('10'))
+        .to.emit(market, 'Borrow');
+
+      const [collateral, loan, bobDineroBalance] = await Promise.all([
+        market.userCollateral(alice.address),
+        market.userLoan(alice.address),
+        dinero.balanceOf(bob.address),
+      ]);
+
+      expect(collateral).to.be.equal(parseEther('10'));
+      expect(loan).to.be.equal(parseEther('100'));
+      expect(bobDineroBalance).to.be.equal(parseEther('100'));
+    });
+
+    it('decodes the revert reason of a batch', async () => {
+      const { batch } = connectInterestBNBMarket(market.address, alice);
+
+      expect(
+        await batch().borrow(alice.address, parseEther('100')).simulate()
+      ).to.be.equal('MKT: sender is insolvent');
+
+      const error = await batch()
+        .borrow(alice.address, parseEther('100'))
+        .send()
+        .catch((error_) => error_);
+
+      expect(error).to.be.instanceOf(MarketError);
+      expect(error.reason).to.be.equal('MKT: sender is insolvent');
+
+      expect(
+        await batch()
+          .addCollateral(parseEther('10'))
+          .borrow(alice.address, parseEther('100'))
+          .simulate()
+      ).to.be.equal(undefined);
+    });
+  });
+
+  describe('positions', () => {
+    it('computes the same position as the market views', async () => {
+      await connectInterestBNBMarket(market.address, alice)
+        .batch()
+        .addCollateral(parseEther('10'))
+        .borrow(alice.address, parseEther('1000'))
+        .send();
+
+      await advanceBlockAndTime(100_000, ethers);
+
+      const [position, state] = await Promise.all([
+        getPosition(market, alice.address),
+        getMarketState(market),
+      ]);
+
+      expect(position.collateral).to.be.equal(parseEther('10'));
+      expect(position.principal).to.be.equal(parseEther('1000'));
+      expect(position.debt).to.be.gt(parseEther('1000'));
+      expect(
+        computePosition(state, position.collateral, position.principal)
+      ).to.be.deep.equal(position);
+    });
+  });
+
+  describe('auctions', () => {
+    it('reads and computes the liquidation fee of an auction', async () => {
+      await market.connect(owner).setAuction(parseEther('0.02'), 3600);
+
+      const auction = await getAuctionState(market, alice.address);
+
+      expect(auction.startFee).to.be.equal(parseEther('0.02'));
+      expect(auction.maxFee).to.be.equal(LIQUIDATION_FEE);
+      expect(auction.duration).to.be.equal(3600);
+      expect(auction.startedAt).to.be.equal(0);
+      expect(auction.fee).to.be.equal(parseEther('0.02'));
+      expect(computeLiquidationFee(auction, 1000)).to.be.equal(auction.fee);
+
+      const started = { ...auction, startedAt: ethers.BigNumber.from(1000) };
+
+      expect(computeLiquidationFee(started, 2800)).to.be.equal(
+        parseEther('0.06')
+      );
+      expect(computeLiquidationFee(started, 4600)).to.be.equal(LIQUIDATION_FEE);
+    });
+  });
+
+  describe('interest rate models', () => {
+    it('simulates the interest rate and debt of a market', async () => {
+      const jumpRateModel: JumpRateModel = await deploy('JumpRateModel', [
+        ethers.BigNumber.from(1e8),
+        ethers.BigNumber.from(1e9),
+        ethers.BigNumber.from(2e10),
+        parseEther('0.5'),
+      ]);
+
+      await Promise.all([
+        market.connect(owner).setInterestRateModel(jumpRateModel.address),
+        market.connect(owner).setMaxBorrowAmount(parseEther('2000')),
+      ]);
+
+      await connectInterestBNBMarket(market.address, alice)
+        .batch()
+        .addCollateral(parseEther('10'))
+        .borrow(alice.address, parseEther('1500'))
+        .send();
+
+      const model = createJumpRateModel(
+        await getJumpRateModelParameters(jumpRateModel)
+      );
+
+      const [low, kink, high] = projectRateCurve(model, [
+        0,
+        parseEther('0.5'),
+        parseEther('0.75'),
+      ]);
+
+      expect(low.interestRate).to.be.equal(1e8);
+      expect(kink.interestRate).to.be.equal(6e8);
+      expect(high.interestRate).to.be.equal(56e8);
+      expect(high.apr).to.be.equal(high.interestRate.mul(SECONDS_PER_YEAR));
+
+      const { totalLoan } = await getMarketState(market);
+
+      expect(model(totalLoan.elastic, parseEther('2000'))).to.be.equal(
+        await market.getInterestRate()
+      );
+
+      const points = simulateBorrowCost({
+        model,
+        debt: totalLoan.elastic,
+        totalDebt: totalLoan.elastic,
+        maxBorrowAmount: parseEther('2000'),
+        duration: 86_400 * 7,
+      });
+
+      expect(points).to.have.lengthOf(8);
+      expect(points[7].interestRate).to.be.gt(points[0].interestRate);
+
+      await advanceBlockAndTime(86_400, ethers);
+      await market.accrue();
+
+      // {accrue} is mined 1 second after the day passes.
+      expect((await market.totalLoan()).elastic).to.be.closeTo(
+        points[1].totalDebt,
+        parseEther('0.001')
+      );
+    });
+  });
+});
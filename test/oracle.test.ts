@@ -2,10 +2,13 @@ import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
 import { expect } from 'chai';
 import { ethers, network } from 'hardhat';
 
+import { getFeedHistory, getPendingFeedChanges } from '../lib';
 import {
   MockBigChainLinkFeedV2,
   MockBytesErrorChainLinkFeed,
+  MockChainLinkFeed,
   MockErrorChainLinkFeed,
+  MockOracleV1,
   MockTWAP,
   Oracle,
   TestOracleV2,
@@ -15,10 +18,17 @@ import {
   CAKE,
   CAKE_BNB_PRICE_FEED,
   CAKE_USD_PRICE_FEED,
+  PCS_FACTORY,
   WBNB,
   WBNB_CAKE_PAIR_LP_TOKEN,
 } from './lib/constants';
-import { deploy, deployUUPS, multiDeploy, upgrade } from './lib/test-utils';
+import {
+  advanceBlockAndTime,
+  deploy,
+  deployUUPS,
+  multiDeploy,
+  upgrade,
+} from './lib/test-utils';
 
 const { parseEther } = ethers.utils;
 
@@ -83,6 +93,7 @@ describe('Oracle', () => {
 
       expect(_owner).to.be.equal(owner.address);
       expect(_twap).to.be.equal(mockTWAP.address);
+      expect(await oracleV1.isLPFactory(PCS_FACTORY)).to.be.equal(true);
     });
   });
 
@@ -183,6 +194,17 @@ describe('Oracle', () => {
         TWAP_CAKE_BNB_PRICE.mul(parseEther('2.5')).div(parseEther('1'))
       );
     });
+    it('calls the TWAP if the token has no feed', async () => {
+      await oracleV1
+        .connect(owner)
+        .setFeed(CAKE, ethers.constants.AddressZero, 1);
+
+      expect(
+        await oracleV1.getTokenBNBPrice(CAKE, parseEther('2.5'))
+      ).to.be.equal(
+        TWAP_CAKE_BNB_PRICE.mul(parseEther('2.5')).div(parseEther('1'))
+      );
+    });
     it('calls the TWAP on a string error as a back up and properly returns the price in BNB', async () => {
       await oracleV1.connect(owner).setFeed(CAKE, mockErrorFeed.address, 1);
 
@@ -306,6 +328,509 @@ describe('Oracle', () => {
     });
   });
 
+  describe('timelocked feeds', () => {
+    const DELAY = 86_400;
+
+    beforeEach(async () => {
+      await oracleV1.connect(owner).setFeedDelay(DELAY);
+    });
+
+    it('reverts if it is not called by the owner', async () => {
+      await expect(oracleV1.connect(alice).setFeedDelay(0)).to.revertedWith(
+        'Ownable: caller is not the owner'
+      );
+      await expect(
+        oracleV1.connect(alice).proposeFeed(CAKE, dudUsdFeed, 0)
+      ).to.revertedWith('Ownable: caller is not the owner');
+      await expect(
+        oracleV1.connect(alice).executeFeed(CAKE, 0)
+      ).to.revertedWith('Ownable: caller is not the owner');
+      await expect(oracleV1.connect(alice).cancelFeed(CAKE, 0)).to.revertedWith(
+        'Ownable: caller is not the owner'
+      );
+    });
+    it('reverts if the delay is too long or the feed is set without a proposal', async () => {
+      await expect(
+        oracleV1.connect(owner).setFeedDelay(86_400 * 7 + 1)
+      ).to.revertedWith('Oracle: delay too long');
+      await expect(
+        oracleV1.connect(owner).setFeed(CAKE, dudUsdFeed, 0)
+      ).to.revertedWith('Oracle: feed is timelocked');
+      await expect(
+        oracleV1.connect(owner).executeFeed(CAKE, 0)
+      ).to.revertedWith('Oracle: no pending feed');
+      await expect(oracleV1.connect(owner).cancelFeed(CAKE, 0)).to.revertedWith(
+        'Oracle: no pending feed'
+      );
+    });
+    it('executes a feed change after the delay', async () => {
+      await expect(oracleV1.connect(owner).setFeedDelay(DELAY))
+        .to.emit(oracleV1, 'FeedDelay')
+        .withArgs(DELAY);
+
+      await expect(
+        oracleV1.connect(owner).proposeFeed(CAKE, dudUsdFeed, 0)
+      ).to.emit(oracleV1, 'ProposeFeed');
+
+      const [[change], { timestamp }] = await Promise.all([
+        getPendingFeedChanges(oracleV1),
+        ethers.provider.getBlock('latest'),
+      ]);
+
+      expect(change.asset).to.be.equal(CAKE);
+      expect(change.feedType).to.be.equal(0);
+      expect(change.feed).to.be.equal(dudUsdFeed);
+      expect(change.currentFeed).to.be.equal(CAKE_USD_PRICE_FEED);
+      expect(change.eta).to.be.equal(timestamp + DELAY);
+      expect(change.isReady).to.be.equal(false);
+
+      await expect(
+        oracleV1.connect(owner).executeFeed(CAKE, 0)
+      ).to.revertedWith('Oracle: feed is timelocked');
+
+      await advanceBlockAndTime(DELAY, ethers);
+
+      expect((await getPendingFeedChanges(oracleV1))[0].isReady).to.be.equal(
+        true
+      );
+
+      await expect(oracleV1.connect(owner).executeFeed(CAKE, 0))
+        .to.emit(oracleV1, 'FeedUpdate')
+        .withArgs(CAKE, 0, CAKE_USD_PRICE_FEED, dudUsdFeed);
+
+      expect(await oracleV1.getUSDFeeds(CAKE)).to.be.equal(dudUsdFeed);
+      expect(await oracleV1.getPendingFeeds()).to.have.lengthOf(0);
+
+      const history = await getFeedHistory(oracleV1, CAKE);
+
+      expect(history.map(({ feed }) => feed)).to.be.deep.equal([
+        CAKE_USD_PRICE_FEED,
+        CAKE_BNB_PRICE_FEED,
+        dudUsdFeed,
+      ]);
+      expect(history[2].previousFeed).to.be.equal(CAKE_USD_PRICE_FEED);
+    });
+    it('reverts if the delay is lowered without a proposal', async () => {
+      await expect(oracleV1.connect(alice).proposeFeedDelay(0)).to.revertedWith(
+        'Ownable: caller is not the owner'
+      );
+      await expect(oracleV1.connect(alice).executeFeedDelay()).to.revertedWith(
+        'Ownable: caller is not the owner'
+      );
+      await expect(oracleV1.connect(alice).cancelFeedDelay()).to.revertedWith(
+        'Ownable: caller is not the owner'
+      );
+      await expect(oracleV1.connect(owner).setFeedDelay(0)).to.revertedWith(
+        'Oracle: delay is timelocked'
+      );
+      await expect(
+        oracleV1.connect(owner).proposeFeedDelay(DELAY)
+      ).to.revertedWith('Oracle: delay is not lower');
+      await expect(oracleV1.connect(owner).executeFeedDelay()).to.revertedWith(
+        'Oracle: no pending delay'
+      );
+      await expect(oracleV1.connect(owner).cancelFeedDelay()).to.revertedWith(
+        'Oracle: no pending delay'
+      );
+    });
+    it('lowers the delay after the current delay', async () => {
+      await expect(oracleV1.connect(owner).proposeFeedDelay(0)).to.emit(
+        oracleV1,
+        'ProposeFeedDelay'
+      );
+
+      const { timestamp } = await ethers.provider.getBlock('latest');
+
+      expect(await oracleV1.pendingFeedDelay()).to.be.equal(0);
+      expect(await oracleV1.pendingFeedDelayEta()).to.be.equal(
+        timestamp + DELAY
+      );
+
+      await expect(oracleV1.connect(owner).executeFeedDelay()).to.revertedWith(
+        'Oracle: delay is timelocked'
+      );
+
+      await advanceBlockAndTime(DELAY, ethers);
+
+      await expect(oracleV1.connect(owner).executeFeedDelay())
+        .to.emit(oracleV1, 'FeedDelay')
+        .withArgs(0);
+
+      expect(await oracleV1.feedDelay()).to.be.equal(0);
+      expect(await oracleV1.pendingFeedDelayEta()).to.be.equal(0);
+    });
+    it('cancels the pending delay when it is cancelled or raised', async () => {
+      await oracleV1.connect(owner).proposeFeedDelay(3600);
+
+      await expect(oracleV1.connect(owner).cancelFeedDelay())
+        .to.emit(oracleV1, 'CancelFeedDelay')
+        .withArgs(3600);
+
+      expect(await oracleV1.pendingFeedDelayEta()).to.be.equal(0);
+
+      await oracleV1.connect(owner).proposeFeedDelay(3600);
+
+      await expect(oracleV1.connect(owner).setFeedDelay(DELAY * 2))
+        .to.emit(oracleV1, 'CancelFeedDelay')
+        .withArgs(3600)
+        .to.emit(oracleV1, 'FeedDelay')
+        .withArgs(DELAY * 2);
+
+      expect(await oracleV1.feedDelay()).to.be.equal(DELAY * 2);
+      expect(await oracleV1.pendingFeedDelayEta()).to.be.equal(0);
+    });
+    it('replaces and cancels the pending changes', async () => {
+      await Promise.all([
+        oracleV1.connect(owner).proposeFeed(CAKE, dudUsdFeed, 0),
+        oracleV1.connect(owner).proposeFeed(CAKE, dudBnBFeed, 1),
+        oracleV1.connect(owner).proposeFeed(WBNB, dudUsdFeed, 0),
+      ]);
+
+      await oracleV1.connect(owner).proposeFeed(CAKE, dudBnBFeed, 0);
+
+      expect(await oracleV1.getPendingFeeds()).to.have.lengthOf(3);
+      expect((await oracleV1.getPendingFeed(CAKE, 0)).feed).to.be.equal(
+        dudBnBFeed
+      );
+
+      await expect(oracleV1.connect(owner).cancelFeed(CAKE, 1))
+        .to.emit(oracleV1, 'CancelFeed')
+        .withArgs(CAKE, 1, dudBnBFeed);
+
+      expect((await oracleV1.getPendingFeed(CAKE, 1)).eta).to.be.equal(0);
+      expect(
+        (await oracleV1.getPendingFeeds()).map(({ asset }) => asset)
+      ).to.have.members([CAKE, WBNB]);
+      expect((await oracleV1.getPendingFeed(WBNB, 0)).feed).to.be.equal(
+        dudUsdFeed
+      );
+    });
+    it('reverts if a setting is set without a proposal', async () => {
+      const data = oracleV1.interface.encodeFunctionData('setHeartbeat', [
+        CAKE_BNB_PRICE_FEED,
+        3600,
+      ]);
+
+      await expect(
+        oracleV1.connect(alice).proposeSetting(data)
+      ).to.revertedWith('Ownable: caller is not the owner');
+      await expect(
+        oracleV1.connect(alice).executeSetting(data)
+      ).to.revertedWith('Ownable: caller is not the owner');
+      await expect(oracleV1.connect(alice).cancelSetting(data)).to.revertedWith(
+        'Ownable: caller is not the owner'
+      );
+      await expect(
+        oracleV1.connect(owner).setHeartbeat(CAKE_BNB_PRICE_FEED, 3600)
+      ).to.revertedWith('Oracle: setting is timelocked');
+      await expect(
+        oracleV1.connect(owner).setMaxDeviation(parseEther('0.1'), true)
+      ).to.revertedWith('Oracle: setting is timelocked');
+      await expect(
+        oracleV1.connect(owner).setLPFactory(PCS_FACTORY, false)
+      ).to.revertedWith('Oracle: setting is timelocked');
+      await expect(
+        oracleV1.connect(owner).setPricingStrategy(CAKE, 2)
+      ).to.revertedWith('Oracle: setting is timelocked');
+      await expect(
+        oracleV1
+          .connect(owner)
+          .proposeSetting(
+            oracleV1.interface.encodeFunctionData('setFeed', [
+              CAKE,
+              dudUsdFeed,
+              0,
+            ])
+          )
+      ).to.revertedWith('Oracle: invalid setting');
+      await expect(
+        oracleV1.connect(owner).proposeSetting('0x01')
+      ).to.revertedWith('Oracle: invalid setting');
+      await expect(
+        oracleV1.connect(owner).executeSetting(data)
+      ).to.revertedWith('Oracle: no pending setting');
+      await expect(oracleV1.connect(owner).cancelSetting(data)).to.revertedWith(
+        'Oracle: no pending setting'
+      );
+    });
+    it('executes the settings after the delay', async () => {
+      const settings = [
+        oracleV1.interface.encodeFunctionData('setHeartbeat', [
+          CAKE_BNB_PRICE_FEED,
+          3600,
+        ]),
+        oracleV1.interface.encodeFunctionData('setMaxDeviation', [
+          parseEther('0.1'),
+          true,
+        ]),
+        oracleV1.interface.encodeFunctionData('setLPFactory', [
+          PCS_FACTORY,
+          false,
+        ]),
+        // 2 means LP
+        oracleV1.interface.encodeFunctionData('setPricingStrategy', [
+          WBNB_CAKE_PAIR_LP_TOKEN,
+          2,
+        ]),
+      ];
+
+      await expect(oracleV1.connect(owner).proposeSetting(settings[0]))
+        .to.emit(oracleV1, 'ProposeSetting')
+        .withArgs(
+          ethers.utils.keccak256(settings[0]),
+          settings[0],
+          (await ethers.provider.getBlock('latest')).timestamp + 1 + DELAY
+        );
+
+      await Promise.all(
+        settings
+          .slice(1)
+          .map((data) => oracleV1.connect(owner).proposeSetting(data))
+      );
+
+      await expect(
+        oracleV1.connect(owner).executeSetting(settings[0])
+      ).to.revertedWith('Oracle: setting is timelocked');
+
+      await advanceBlockAndTime(DELAY, ethers);
+
+      await expect(oracleV1.connect(owner).executeSetting(settings[0]))
+        .to.emit(oracleV1, 'Heartbeat')
+        .withArgs(CAKE_BNB_PRICE_FEED, 3600);
+      await expect(oracleV1.connect(owner).executeSetting(settings[1]))
+        .to.emit(oracleV1, 'MaxDeviation')
+        .withArgs(parseEther('0.1'), true);
+      await expect(oracleV1.connect(owner).executeSetting(settings[2]))
+        .to.emit(oracleV1, 'LPFactory')
+        .withArgs(PCS_FACTORY, false);
+      await expect(oracleV1.connect(owner).executeSetting(settings[3]))
+        .to.emit(oracleV1, 'PricingStrategy')
+        .withArgs(WBNB_CAKE_PAIR_LP_TOKEN, 2);
+
+      const [heartbeat, maxDeviation, isLPFactory, strategy, eta] =
+        await Promise.all([
+          oracleV1.heartbeatOf(CAKE_BNB_PRICE_FEED),
+          oracleV1.maxDeviation(),
+          oracleV1.isLPFactory(PCS_FACTORY),
+          oracleV1.pricingStrategyOf(WBNB_CAKE_PAIR_LP_TOKEN),
+          oracleV1.settingEtaOf(ethers.utils.keccak256(settings[0])),
+        ]);
+
+      expect(heartbeat).to.be.equal(3600);
+      expect(maxDeviation).to.be.equal(parseEther('0.1'));
+      expect(isLPFactory).to.be.equal(false);
+      expect(strategy).to.be.equal(2);
+      expect(eta).to.be.equal(0);
+
+      await expect(
+        oracleV1.connect(owner).executeSetting(settings[0])
+      ).to.revertedWith('Oracle: no pending setting');
+    });
+    it('cancels a pending setting', async () => {
+      const data = oracleV1.interface.encodeFunctionData('setMaxDeviation', [
+        parseEther('0.1'),
+        true,
+      ]);
+
+      await oracleV1.connect(owner).proposeSetting(data);
+
+      await expect(oracleV1.connect(owner).cancelSetting(data))
+        .to.emit(oracleV1, 'CancelSetting')
+        .withArgs(ethers.utils.keccak256(data));
+
+      await advanceBlockAndTime(DELAY, ethers);
+
+      await expect(
+        oracleV1.connect(owner).executeSetting(data)
+      ).to.revertedWith('Oracle: no pending setting');
+      expect(await oracleV1.maxDeviation()).to.be.equal(0);
+    });
+  });
+
+  describe('function: setLPFactory', () => {
+    it('reverts if it is not called by the owner or the factory is the zero address', async () => {
+      await expect(
+        oracleV1.connect(alice).setLPFactory(PCS_FACTORY, false)
+      ).to.revertedWith('Ownable: caller is not the owner');
+      await expect(
+        oracleV1.connect(owner).setLPFactory(ethers.constants.AddressZero, true)
+      ).to.revertedWith('Oracle: no address zero');
+    });
+    it('prices the pairs of the registered factories as LP tokens', async () => {
+      expect(await oracleV1.isLPToken(WBNB_CAKE_PAIR_LP_TOKEN)).to.be.equal(
+        true
+      );
+      expect(await oracleV1.isLPToken(CAKE)).to.be.equal(false);
+
+      await expect(oracleV1.connect(owner).setLPFactory(PCS_FACTORY, false))
+        .to.emit(oracleV1, 'LPFactory')
+        .withArgs(PCS_FACTORY, false);
+
+      expect(await oracleV1.isLPFactory(PCS_FACTORY)).to.be.equal(false);
+      expect(await oracleV1.isLPToken(WBNB_CAKE_PAIR_LP_TOKEN)).to.be.equal(
+        false
+      );
+    });
+  });
+
+  describe('function: setPricingStrategy', () => {
+    it('reverts if it is not called by the owner', async () => {
+      await expect(
+        oracleV1.connect(alice).setPricingStrategy(CAKE, 1)
+      ).to.revertedWith('Ownable: caller is not the owner');
+    });
+    it('overrides the factory check', async () => {
+      await oracleV1.connect(owner).setLPFactory(PCS_FACTORY, false);
+
+      // 2 means LP
+      await expect(
+        oracleV1.connect(owner).setPricingStrategy(WBNB_CAKE_PAIR_LP_TOKEN, 2)
+      )
+        .to.emit(oracleV1, 'PricingStrategy')
+        .withArgs(WBNB_CAKE_PAIR_LP_TOKEN, 2);
+
+      expect(
+        await oracleV1.pricingStrategyOf(WBNB_CAKE_PAIR_LP_TOKEN)
+      ).to.be.equal(2);
+      expect(
+        await oracleV1.getUSDPrice(WBNB_CAKE_PAIR_LP_TOKEN, parseEther('1'))
+      ).to.be.equal(WBNB_CAKE_LP_USD_PRICE);
+
+      await oracleV1.connect(owner).setLPFactory(PCS_FACTORY, true);
+      // 1 means Token
+      await oracleV1
+        .connect(owner)
+        .setPricingStrategy(WBNB_CAKE_PAIR_LP_TOKEN, 1);
+
+      expect(await oracleV1.isLPToken(WBNB_CAKE_PAIR_LP_TOKEN)).to.be.equal(
+        false
+      );
+    });
+  });
+
+  describe('function: setHeartbeat', () => {
+    it('reverts if it is not called by the owner', async () => {
+      await expect(
+        oracleV1.connect(alice).setHeartbeat(CAKE_BNB_PRICE_FEED, 3600)
+      ).to.revertedWith('Ownable: caller is not the owner');
+    });
+    it('updates the heartbeat of a feed', async () => {
+      await expect(
+        oracleV1.connect(owner).setHeartbeat(CAKE_BNB_PRICE_FEED, 3600)
+      )
+        .to.emit(oracleV1, 'Heartbeat')
+        .withArgs(CAKE_BNB_PRICE_FEED, 3600);
+
+      expect(await oracleV1.heartbeatOf(CAKE_BNB_PRICE_FEED)).to.be.equal(3600);
+    });
+  });
+
+  describe('function: setMaxDeviation', () => {
+    it('reverts if it is not called by the owner', async () => {
+      await expect(
+        oracleV1.connect(alice).setMaxDeviation(parseEther('0.1'), true)
+      ).to.revertedWith('Ownable: caller is not the owner');
+    });
+    it('updates the maximum deviation', async () => {
+      await expect(
+        oracleV1.connect(owner).setMaxDeviation(parseEther('0.1'), true)
+      )
+        .to.emit(oracleV1, 'MaxDeviation')
+        .withArgs(parseEther('0.1'), true);
+
+      expect(await oracleV1.maxDeviation()).to.be.equal(parseEther('0.1'));
+      expect(await oracleV1.revertOnDeviation()).to.be.equal(true);
+    });
+  });
+
+  describe('Chainlink guards', () => {
+    let feed: MockChainLinkFeed;
+
+    beforeEach(async () => {
+      feed = await deploy('MockChainLinkFeed', [18, 'CAKE / BNB', 4]);
+
+      await Promise.all([
+        feed.setAnswer(CAKE_BNB_PRICE),
+        oracleV1.connect(owner).setFeed(CAKE, feed.address, 1),
+      ]);
+    });
+
+    it('falls back to the TWAP if the answer is not positive', async () => {
+      expect(
+        await oracleV1.getTokenBNBPrice(CAKE, parseEther('2'))
+      ).to.be.equal(CAKE_BNB_PRICE.mul(2));
+
+      await feed.setAnswer(0);
+
+      expect(
+        await oracleV1.getTokenBNBPrice(CAKE, parseEther('2'))
+      ).to.be.equal(TWAP_CAKE_BNB_PRICE.mul(2));
+
+      await feed.setAnswer(-1);
+
+      expect(
+        await oracleV1.getTokenBNBPrice(CAKE, parseEther('2'))
+      ).to.be.equal(TWAP_CAKE_BNB_PRICE.mul(2));
+    });
+    it('falls back to the TWAP if the round is incomplete', async () => {
+      await feed.setRoundData(10, 1_639_814_685, 9);
+
+      expect(
+        await oracleV1.getTokenBNBPrice(CAKE, parseEther('2'))
+      ).to.be.equal(TWAP_CAKE_BNB_PRICE.mul(2));
+
+      await feed.setRoundData(10, 0, 10);
+
+      expect(
+        await oracleV1.getTokenBNBPrice(CAKE, parseEther('2'))
+      ).to.be.equal(TWAP_CAKE_BNB_PRICE.mul(2));
+
+      await feed.setRoundData(10, 1_639_814_685, 10);
+
+      expect(
+        await oracleV1.getTokenBNBPrice(CAKE, parseEther('2'))
+      ).to.be.equal(CAKE_BNB_PRICE.mul(2));
+    });
+    it('falls back to the TWAP if the answer is older than the heartbeat', async () => {
+      const { timestamp } = await ethers.provider.getBlock('latest');
+
+      await Promise.all([
+        feed.setRoundData(10, timestamp - 100, 10),
+        oracleV1.connect(owner).setHeartbeat(feed.address, 50),
+      ]);
+
+      expect(
+        await oracleV1.getTokenBNBPrice(CAKE, parseEther('2'))
+      ).to.be.equal(TWAP_CAKE_BNB_PRICE.mul(2));
+
+      await oracleV1.connect(owner).setHeartbeat(feed.address, 3600);
+
+      expect(
+        await oracleV1.getTokenBNBPrice(CAKE, parseEther('2'))
+      ).to.be.equal(CAKE_BNB_PRICE.mul(2));
+    });
+    it('falls back to the TWAP or reverts if the answer is too far from the TWAP', async () => {
+      // Chainlink is ~13% below the TWAP
+      await oracleV1.connect(owner).setMaxDeviation(parseEther('0.15'), false);
+
+      expect(
+        await oracleV1.getTokenBNBPrice(CAKE, parseEther('2'))
+      ).to.be.equal(CAKE_BNB_PRICE.mul(2));
+
+      await oracleV1.connect(owner).setMaxDeviation(parseEther('0.1'), false);
+
+      expect(
+        await oracleV1.getTokenBNBPrice(CAKE, parseEther('2'))
+      ).to.be.equal(TWAP_CAKE_BNB_PRICE.mul(2));
+
+      await oracleV1.connect(owner).setMaxDeviation(parseEther('0.1'), true);
+
+      await expect(
+        oracleV1.getTokenBNBPrice(CAKE, parseEther('2'))
+      ).to.revertedWith('Oracle: price deviation');
+    });
+  });
+
   describe('Upgrade functionality', () => {
     it('reverts if it is called by a non-owner account', async () => {
       await oracleV1.connect(owner).transferOwnership(alice.address);
@@ -327,6 +852,56 @@ describe('Oracle', () => {
       // 18 decimals
       expect(price).to.be.equal(BNB_USD_PRICE.mul(2));
     });
+    it('registers the PCS factory of the first version of the oracle', async () => {
+      const oracle: MockOracleV1 = await deployUUPS('MockOracleV1', [
+        mockTWAP.address,
+      ]);
+
+      await Promise.all([
+        oracle.connect(owner).setFeed(CAKE, CAKE_USD_PRICE_FEED, 0),
+        oracle.connect(owner).setFeed(CAKE, CAKE_BNB_PRICE_FEED, 1),
+      ]);
+
+      const oracleV2: Oracle = await upgrade(oracle, 'Oracle');
+
+      expect(await oracleV2.isLPFactory(PCS_FACTORY)).to.be.equal(false);
+      expect(await oracleV2.getUSDFeeds(CAKE)).to.be.equal(CAKE_USD_PRICE_FEED);
+
+      await expect(
+        oracleV2.connect(alice).initializeV2(86_400)
+      ).to.revertedWith('Ownable: caller is not the owner');
+      await expect(oracleV2.connect(owner).initializeV2(0)).to.revertedWith(
+        'Oracle: no delay'
+      );
+      await expect(
+        oracleV2.connect(owner).initializeV2(86_400 * 7 + 1)
+      ).to.revertedWith('Oracle: delay too long');
+
+      await expect(oracleV2.connect(owner).initializeV2(86_400))
+        .to.emit(oracleV2, 'LPFactory')
+        .withArgs(PCS_FACTORY, true)
+        .to.emit(oracleV2, 'FeedDelay')
+        .withArgs(86_400);
+
+      await expect(
+        oracleV2.connect(owner).initializeV2(86_400)
+      ).to.revertedWith('Oracle: already initialized');
+
+      expect(await oracleV2.isLPFactory(PCS_FACTORY)).to.be.equal(true);
+      // The feeds set before the upgrade are timelocked.
+      expect(await oracleV2.feedDelay()).to.be.equal(86_400);
+      await expect(
+        oracleV2.connect(owner).setFeed(CAKE, dudUsdFeed, 0)
+      ).to.revertedWith('Oracle: feed is timelocked');
+      expect(
+        await oracleV2.getUSDPrice(WBNB_CAKE_PAIR_LP_TOKEN, parseEther('1'))
+      ).to.be.equal(WBNB_CAKE_LP_USD_PRICE);
+    });
+    it('does not migrate oracles deployed with the latest version', async () => {
+      await expect(
+        oracleV1.connect(owner).initializeV2(86_400)
+      ).to.revertedWith('Oracle: already initialized');
+    });
   });
 })
   // Increase the time out for the entire tests
@@ -4,6 +4,7 @@ import { ethers } from 'hardhat';
 
 import ERC20ABI from '../abi/erc20.json';
 import PCSRouterABI from '../abi/pcs-router.json';
+import { OracleKeeper } from '../lib';
 import {
   ERC20,
   PancakeOracle,
@@ -11,12 +12,15 @@ import {
   TestTPCSLibrary,
 } from '../typechain';
 import {
+  BTC,
+  BUSD,
   CAKE,
   CAKE_WHALE_ONE,
   PCS_ROUTER,
   WBNB,
   WBNB_CAKE_PAIR_LP_TOKEN,
 } from './lib/constants';
+import { IS_LOCAL } from './lib/local-bsc';
 import {
   advanceBlockAndTime,
   deploy,
@@ -34,6 +38,11 @@ const GRANULARITY = 4;
 
 const PERIOD_SIZE = WINDOW / GRANULARITY; // 6 hours
 
+const REWARD = ethers.utils.parseEther('0.01');
+
+// Keeps the test output clean.
+const logs: Array<string> = [];
+
 describe('PancakeOracle', () => {
   let oracle: PancakeOracle;
   const router = new ethers.Contract(PCS_ROUTER, PCSRouterABI, ethers.provider);
@@ -241,9 +250,9 @@ describe('PancakeOracle', () => {
       const cakeBNBPrice = await oracle.consult(CAKE, parseEther('100'), WBNB);
       const bnbCakePrice = await oracle.consult(WBNB, parseEther('1'), CAKE);
 
-      // Taken after the fact
+      // Taken after the fact. The local stand-in seeds the pair with the USD prices of CAKE and BNB.
       expect(cakeBNBPrice).to.be.closeTo(
-        parseEther('2.164'),
+        parseEther(IS_LOCAL ? '2.166' : '2.164'),
         parseEther('0.001')
       );
       // Taken after the fact
@@ -345,6 +354,176 @@ describe('PancakeOracle', () => {
     });
   });
 
+  describe('function: setRoute', () => {
+    it('reverts if it is not called by the owner', async () => {
+      const [, alice] = await ethers.getSigners();
+
+      await expect(
+        oracle.connect(alice).setRoute([CAKE, WBNB, BUSD])
+      ).to.revertedWith('Ownable: caller is not the owner');
+    });
+    it('reverts if the route is invalid', async () => {
+      await expect(oracle.connect(owner).setRoute([CAKE])).to.revertedWith(
+        'PO: invalid route'
+      );
+      await expect(
+        oracle.connect(owner).setRoute([CAKE, owner.address, BUSD])
+      ).to.revertedWith('PO: pair does not exist');
+    });
+    it('registers a route in both directions', async () => {
+      expect(await oracle.getRoute(CAKE, BUSD)).to.be.deep.equal([CAKE, BUSD]);
+
+      await expect(oracle.connect(owner).setRoute([CAKE, WBNB, BUSD]))
+        .to.emit(oracle, 'Route')
+        .withArgs(CAKE, BUSD, [CAKE, WBNB, BUSD]);
+
+      expect(await oracle.getRoute(CAKE, BUSD)).to.be.deep.equal([
+        CAKE,
+        WBNB,
+        BUSD,
+      ]);
+      expect(await oracle.getRoute(BUSD, CAKE)).to.be.deep.equal([
+        BUSD,
+        WBNB,
+        CAKE,
+      ]);
+
+      await oracle.connect(owner).setRoute([BUSD, CAKE]);
+
+      expect(await oracle.getRoute(CAKE, BUSD)).to.be.deep.equal([CAKE, BUSD]);
+      expect(await oracle.getRoute(BUSD, CAKE)).to.be.deep.equal([BUSD, CAKE]);
+    });
+  });
+
+  it('combines the TWAP of every pair of a route', async () => {
+    await oracle.connect(owner).setRoute([CAKE, WBNB, BUSD]);
+
+    await expect(oracle.updateRoute(CAKE, BUSD)).to.emit(oracle, 'Update');
+
+    await advanceBlockAndTime(PERIOD_SIZE + 1, ethers);
+
+    await oracle.updateRoute(CAKE, BUSD);
+
+    await advanceBlockAndTime(PERIOD_SIZE + 1, ethers);
+
+    await oracle.updateRoute(CAKE, BUSD);
+
+    await advanceBlockAndTime(PERIOD_SIZE + 1, ethers);
+
+    await oracle.updateRoute(CAKE, BUSD);
+
+    await advanceBlockAndTime(PERIOD_SIZE + 1, ethers);
+
+    const [cakeBUSDPrice, busdCakePrice, cakeBNBPrice] = await Promise.all([
+      oracle.consult(CAKE, parseEther('100'), BUSD),
+      oracle.consult(BUSD, parseEther('986'), CAKE),
+      oracle.consult(CAKE, parseEther('100'), WBNB),
+    ]);
+
+    // CAKE is ~9.86 USD
+    expect(cakeBUSDPrice).to.be.closeTo(parseEther('986'), parseEther('1'));
+    expect(busdCakePrice).to.be.closeTo(parseEther('100'), parseEther('0.1'));
+    expect(cakeBUSDPrice).to.be.equal(
+      await oracle.consult(WBNB, cakeBNBPrice, BUSD)
+    );
+  });
+
+  describe('keepers', () => {
+    let alice: SignerWithAddress;
+    let pairs: Array<string>;
+
+    beforeEach(async () => {
+      [, alice] = await ethers.getSigners();
+
+      await Promise.all([
+        oracle.connect(owner).addPair(CAKE, WBNB),
+        oracle.connect(owner).addPair(BUSD, WBNB),
+        oracle.connect(owner).setReward(REWARD),
+        owner.sendTransaction({ to: oracle.address, value: parseEther('1') }),
+      ]);
+
+      pairs = await oracle.getPairs();
+    });
+
+    it('reverts if a non-owner manages the pairs or the reward', async () => {
+      await expect(oracle.connect(alice).addPair(CAKE, WBNB)).to.revertedWith(
+        'Ownable: caller is not the owner'
+      );
+      await expect(
+        oracle.connect(alice).removePair(WBNB_CAKE_PAIR_LP_TOKEN)
+      ).to.revertedWith('Ownable: caller is not the owner');
+      await expect(oracle.connect(alice).setReward(0)).to.revertedWith(
+        'Ownable: caller is not the owner'
+      );
+      await expect(
+        oracle.connect(owner).addPair(owner.address, CAKE)
+      ).to.revertedWith('PO: pair does not exist');
+    });
+    it('registers the pairs to update', async () => {
+      expect(pairs).to.have.lengthOf(2);
+      expect(pairs).to.include(WBNB_CAKE_PAIR_LP_TOKEN);
+      expect(await oracle.reward()).to.be.equal(REWARD);
+
+      await expect(oracle.connect(owner).removePair(WBNB_CAKE_PAIR_LP_TOKEN))
+        .to.emit(oracle, 'RemovePair')
+        .withArgs(WBNB_CAKE_PAIR_LP_TOKEN);
+
+      expect(await oracle.getPairs()).to.not.include(WBNB_CAKE_PAIR_LP_TOKEN);
+    });
+    it('pays the reward for every new observation of a registered pair', async () => {
+      await oracle.update(CAKE, WBNB);
+
+      expect(await oracle.isDue(WBNB_CAKE_PAIR_LP_TOKEN)).to.be.equal(false);
+      expect(await oracle.getDuePairs()).to.be.deep.equal(
+        pairs.filter((pair) => pair !== WBNB_CAKE_PAIR_LP_TOKEN)
+      );
+
+      await oracle.update(BTC, WBNB);
+
+      await advanceBlockAndTime(PERIOD_SIZE + 1, ethers);
+
+      const btcPair = (await oracle.queryFilter(oracle.filters.Update()))
+        .map(({ args }) => args.pair)
+        .find((pair) => !pairs.includes(pair)) as string;
+
+      expect(await oracle.getDuePairs()).to.have.members(pairs);
+
+      // The BTC pair is updated but it is not registered
+      await expect(() =>
+        oracle.connect(alice).updateMany([...pairs, btcPair])
+      ).to.changeEtherBalance(alice, REWARD.mul(2));
+
+      expect(await oracle.getDuePairs()).to.have.lengthOf(0);
+
+      await expect(oracle.connect(alice).updateMany(pairs)).to.not.emit(
+        oracle,
+        'PayReward'
+      );
+    });
+    it('caps the reward to its balance', async () => {
+      await oracle.connect(owner).setReward(parseEther('0.8'));
+
+      await expect(oracle.connect(alice).updateMany(pairs))
+        .to.emit(oracle, 'PayReward')
+        .withArgs(alice.address, 2, parseEther('1'));
+
+      expect(await ethers.provider.getBalance(oracle.address)).to.be.equal(0);
+    });
+    it('updates the due pairs with a keeper', async () => {
+      const keeper = new OracleKeeper(oracle.connect(alice), {
+        log: (message) => logs.push(message),
+      });
+
+      const [transaction] = await keeper.run();
+
+      await expect(transaction)
+        .to.emit(oracle, 'PayReward')
+        .withArgs(alice.address, 2, REWARD.mul(2));
+
+      expect(await keeper.run()).to.have.lengthOf(0);
+    });
+  });
+
   describe('Upgrade functionality', () => {
     it('reverts if a non-owner account calls it', async () => {
       await oracle.connect(owner).renounceOwnership();
@@ -382,15 +561,15 @@ describe('PancakeOracle', () => {
         oracleV2.version(),
       ]);
 
-      // Taken after the fact
+      // Taken after the fact. The local stand-in seeds the pair with the USD prices of CAKE and BNB.
       expect(cakeBNBPrice).to.be.closeTo(
-        parseEther('2.16444'),
+        parseEther(IS_LOCAL ? '2.166' : '2.16444'),
         parseEther('0.001')
       );
-      // Taken after the fact
+      // Taken after the fact. Other suites trade in the local pair, so its price depends on the suites run before.
       expect(bnbCakePrice).to.be.closeTo(
-        parseEther('46.20115'),
-        parseEther('0.001')
+        parseEther(IS_LOCAL ? '46.16' : '46.20115'),
+        parseEther(IS_LOCAL ? '0.01' : '0.001')
       );
       expect(version).to.be.equal('V2');
     });
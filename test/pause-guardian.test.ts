@@ -0,0 +1,357 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+
+import {
+  CakeVault,
+  CasaDePapel,
+  Dinero,
+  DineroLeveragedVenusVault,
+  DineroVault,
+  InterestBNBMarket,
+  InterestToken,
+  MockERC20,
+  MockTWAP,
+  Oracle,
+  PauseGuardian,
+} from '../typechain';
+import { BURNER_ROLE, MINTER_ROLE } from './lib/constants';
+import { deploy, deployUUPS } from './lib/test-utils';
+
+const { parseEther } = ethers.utils;
+
+describe('PauseGuardian', () => {
+  let guardian: PauseGuardian;
+  let market: InterestBNBMarket;
+  let dinero: Dinero;
+  let oracle: Oracle;
+  let mockTWAP: MockTWAP;
+
+  let owner: SignerWithAddress;
+  let alice: SignerWithAddress;
+  let bob: SignerWithAddress;
+  let treasury: SignerWithAddress;
+
+  beforeEach(async () => {
+    [owner, alice, bob, treasury] = await ethers.getSigners();
+
+    [guardian, dinero, mockTWAP] = await Promise.all([
+      deployUUPS('PauseGuardian', []),
+      deployUUPS('Dinero', []),
+      deploy('MockTWAP'),
+    ]);
+
+    oracle = await deployUUPS('Oracle', [mockTWAP.address]);
+
+    market = await deployUUPS('InterestBNBMarket', [
+      dinero.address,
+      treasury.address,
+      oracle.address,
+      ethers.BigNumber.from(12e8),
+      parseEther('0.5'),
+      parseEther('0.1'),
+      ethers.constants.MaxUint256,
+    ]);
+
+    await Promise.all([
+      dinero.connect(owner).grantRole(MINTER_ROLE, market.address),
+      dinero.connect(owner).grantRole(BURNER_ROLE, market.address),
+      market.updateExchangeRate(),
+      market.connect(owner).setPauseGuardian(guardian.address),
+      guardian.connect(owner).addContract(market.address),
+      guardian.connect(owner).setGuardian(alice.address, true),
+    ]);
+  });
+
+  describe('function: initialize', () => {
+    it('reverts if you call it after deployment', async () => {
+      await expect(guardian.initialize()).to.revertedWith(
+        'Initializable: contract is already initialized'
+      );
+    });
+    it('sets the owner', async () => {
+      expect(await guardian.owner()).to.be.equal(owner.address);
+      expect(await guardian.paused()).to.be.equal(false);
+    });
+  });
+
+  describe('function: setGuardian', () => {
+    it('reverts if it is not called by the owner', async () => {
+      await expect(
+        guardian.connect(alice).setGuardian(bob.address, true)
+      ).to.revertedWith('Ownable: caller is not the owner');
+    });
+    it('reverts if the account is the zero address', async () => {
+      await expect(
+        guardian.connect(owner).setGuardian(ethers.constants.AddressZero, true)
+      ).to.revertedWith('PG: no zero address');
+    });
+    it('allows and disallows an account to pause', async () => {
+      await expect(guardian.connect(owner).setGuardian(bob.address, true))
+        .to.emit(guardian, 'Guardian')
+        .withArgs(bob.address, true);
+
+      expect(await guardian.guardians(bob.address)).to.be.equal(true);
+
+      await guardian.connect(owner).setGuardian(bob.address, false);
+
+      expect(await guardian.guardians(bob.address)).to.be.equal(false);
+    });
+  });
+
+  describe('function: setRegistrar', () => {
+    it('reverts if it is not called by the owner or the account is the zero address', async () => {
+      await expect(
+        guardian.connect(alice).setRegistrar(alice.address, true)
+      ).to.revertedWith('Ownable: caller is not the owner');
+      await expect(
+        guardian.connect(owner).setRegistrar(ethers.constants.AddressZero, true)
+      ).to.revertedWith('PG: no zero address');
+    });
+    it('lets a registrar add contracts, but not remove them', async () => {
+      await expect(guardian.connect(owner).setRegistrar(alice.address, true))
+        .to.emit(guardian, 'Registrar')
+        .withArgs(alice.address, true);
+
+      expect(await guardian.registrars(alice.address)).to.be.equal(true);
+
+      await expect(guardian.connect(alice).addContract(bob.address))
+        .to.emit(guardian, 'AddContract')
+        .withArgs(bob.address);
+      await expect(
+        guardian.connect(alice).removeContract(bob.address)
+      ).to.revertedWith('Ownable: caller is not the owner');
+
+      await guardian.connect(owner).setRegistrar(alice.address, false);
+
+      await expect(
+        guardian.connect(alice).addContract(alice.address)
+      ).to.revertedWith('PG: only registrar');
+    });
+  });
+
+  describe('function: addContract and removeContract', () => {
+    it('reverts if they are not called by the owner', async () => {
+      await expect(
+        guardian.connect(alice).addContract(bob.address)
+      ).to.revertedWith('PG: only registrar');
+      await expect(
+        guardian.connect(alice).removeContract(market.address)
+      ).to.revertedWith('Ownable: caller is not the owner');
+    });
+    it('reverts if the contract is already added or not added', async () => {
+      await expect(
+        guardian.connect(owner).addContract(market.address)
+      ).to.revertedWith('PG: already added');
+      await expect(
+        guardian.connect(owner).removeContract(bob.address)
+      ).to.revertedWith('PG: not added');
+    });
+    it('registers contracts', async () => {
+      await expect(guardian.connect(owner).addContract(bob.address))
+        .to.emit(guardian, 'AddContract')
+        .withArgs(bob.address);
+
+      expect(await guardian.getContracts()).to.deep.equal([
+        market.address,
+        bob.address,
+      ]);
+      expect(await guardian.isContract(bob.address)).to.be.equal(true);
+
+      await expect(guardian.connect(owner).removeContract(market.address))
+        .to.emit(guardian, 'RemoveContract')
+        .withArgs(market.address);
+
+      expect(await guardian.getContracts()).to.deep.equal([bob.address]);
+      expect(await guardian.isContract(market.address)).to.be.equal(false);
+    });
+  });
+
+  describe('function: pause and unpause', () => {
+    it('reverts if pause is not called by a guardian or the owner', async () => {
+      await expect(guardian.connect(bob).pause()).to.revertedWith(
+        'PG: only guardian'
+      );
+    });
+    it('reverts if unpause is not called by the owner', async () => {
+      await guardian.connect(alice).pause();
+
+      await expect(guardian.connect(alice).unpause()).to.revertedWith(
+        'Ownable: caller is not the owner'
+      );
+    });
+    it('reverts if it is already paused or not paused', async () => {
+      await expect(guardian.connect(owner).unpause()).to.revertedWith(
+        'PG: not paused'
+      );
+
+      await guardian.connect(owner).pause();
+
+      await expect(guardian.connect(alice).pause()).to.revertedWith(
+        'PG: already paused'
+      );
+    });
+    it('pauses only the registered contracts', async () => {
+      await expect(guardian.connect(alice).pause())
+        .to.emit(guardian, 'Paused')
+        .withArgs(alice.address);
+
+      expect(await guardian.isPaused(market.address)).to.be.equal(true);
+      expect(await guardian.isPaused(bob.address)).to.be.equal(false);
+
+      await expect(guardian.connect(owner).unpause())
+        .to.emit(guardian, 'Unpaused')
+        .withArgs(owner.address);
+
+      expect(await guardian.isPaused(market.address)).to.be.equal(false);
+    });
+  });
+
+  describe('markets', () => {
+    it('reverts if a non-owner sets the guardian', async () => {
+      await expect(
+        market.connect(alice).setPauseGuardian(bob.address)
+      ).to.revertedWith('Ownable: caller is not the owner');
+    });
+    it('disables borrows and collateral changes but not repays', async () => {
+      await market
+        .connect(alice)
+        .addCollateral(alice.address, { value: parseEther('10') });
+      await market.connect(alice).borrow(alice.address, parseEther('100'));
+
+      await guardian.connect(alice).pause();
+
+      await expect(
+        market
+          .connect(alice)
+          .addCollateral(alice.address, { value: parseEther('1') })
+      ).to.revertedWith('MKT: paused');
+      await expect(
+        market.connect(alice).borrow(alice.address, parseEther('1'))
+      ).to.revertedWith('MKT: paused');
+      await expect(
+        market.connect(alice).withdrawCollateral(alice.address, 1)
+      ).to.revertedWith('MKT: paused');
+
+      await expect(
+        market.connect(alice).repay(alice.address, parseEther('50'))
+      ).to.emit(market, 'Repay');
+
+      await guardian.connect(owner).unpause();
+
+      await expect(
+        market.connect(alice).borrow(alice.address, parseEther('1'))
+      ).to.emit(market, 'Borrow');
+    });
+    it('ignores the guardian if the market is not registered', async () => {
+      await guardian.connect(owner).removeContract(market.address);
+      await guardian.connect(owner).pause();
+
+      await expect(
+        market
+          .connect(alice)
+          .addCollateral(alice.address, { value: parseEther('1') })
+      ).to.emit(market, 'AddCollateral');
+    });
+  });
+
+  describe('vaults and farms', () => {
+    let dineroVault: DineroVault;
+    let casaDePapel: CasaDePapel;
+    let leveragedVault: DineroLeveragedVenusVault;
+    let cakeVault: CakeVault;
+    let interestToken: InterestToken;
+    let stableCoin: MockERC20;
+
+    beforeEach(async () => {
+      [dineroVault, cakeVault, interestToken, stableCoin] = await Promise.all([
+        deployUUPS('DineroVault', [dinero.address]),
+        deployUUPS('CakeVault', []),
+        deployUUPS('InterestToken', []),
+        deploy('MockERC20', ['Stable', 'STB', parseEther('1000')]),
+      ]);
+
+      [casaDePapel, leveragedVault] = await Promise.all([
+        deployUUPS('CasaDePapel', [
+          interestToken.address,
+          owner.address,
+          parseEther('1'),
+          await ethers.provider.getBlockNumber(),
+        ]),
+        deployUUPS('DineroLeveragedVenusVault', [
+          dinero.address,
+          bob.address,
+          treasury.address,
+        ]),
+      ]);
+
+      await Promise.all([
+        dinero.connect(owner).grantRole(MINTER_ROLE, dineroVault.address),
+        dinero.connect(owner).grantRole(BURNER_ROLE, dineroVault.address),
+        cakeVault.connect(owner).setMarket(owner.address),
+        cakeVault.connect(owner).setPauseGuardian(guardian.address),
+        guardian.connect(owner).addContract(cakeVault.address),
+        dineroVault
+          .connect(owner)
+          .addUnderlying(stableCoin.address, parseEther('1000')),
+        stableCoin
+          .connect(owner)
+          .approve(dineroVault.address, ethers.constants.MaxUint256),
+        dineroVault.connect(owner).setPauseGuardian(guardian.address),
+        casaDePapel.connect(owner).setPauseGuardian(guardian.address),
+        leveragedVault.connect(owner).setPauseGuardian(guardian.address),
+        guardian.connect(owner).addContract(dineroVault.address),
+        guardian.connect(owner).addContract(casaDePapel.address),
+        guardian.connect(owner).addContract(leveragedVault.address),
+      ]);
+    });
+
+    it('reverts if a non-owner sets the guardian', async () => {
+      await expect(
+        dineroVault.connect(alice).setPauseGuardian(bob.address)
+      ).to.revertedWith('Ownable: caller is not the owner');
+      await expect(
+        casaDePapel.connect(alice).setPauseGuardian(bob.address)
+      ).to.revertedWith('Ownable: caller is not the owner');
+      await expect(
+        leveragedVault.connect(alice).setPauseGuardian(bob.address)
+      ).to.revertedWith('Ownable: caller is not the owner');
+      await expect(
+        cakeVault.connect(alice).setPauseGuardian(bob.address)
+      ).to.revertedWith('Ownable: caller is not the owner');
+    });
+    it('pauses every registered contract in one transaction', async () => {
+      await dineroVault
+        .connect(owner)
+        .deposit(stableCoin.address, parseEther('10'));
+
+      await guardian.connect(alice).pause();
+
+      await expect(
+        dineroVault.connect(owner).deposit(stableCoin.address, parseEther('1'))
+      ).to.revertedWith('DV: paused');
+      await expect(
+        dineroVault.connect(owner).withdraw(stableCoin.address, parseEther('1'))
+      ).to.revertedWith('DV: paused');
+      await expect(casaDePapel.connect(owner).stake(1)).to.revertedWith(
+        'CP: paused'
+      );
+      await expect(
+        cakeVault.connect(owner).deposit(owner.address, owner.address, 1)
+      ).to.revertedWith('Vault: paused');
+      expect(await leveragedVault.paused()).to.be.equal(true);
+
+      // The owner cannot lift the guardian pause of the leveraged vault.
+      await expect(leveragedVault.connect(owner).unpause()).to.revertedWith(
+        'DV: guardian paused'
+      );
+
+      await guardian.connect(owner).unpause();
+
+      expect(await leveragedVault.paused()).to.be.equal(false);
+      await expect(
+        dineroVault.connect(owner).withdraw(stableCoin.address, parseEther('1'))
+      ).to.emit(dineroVault, 'Withdraw');
+    });
+  });
+});
@@ -0,0 +1,476 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+
+import PCSRouterABI from '../abi/pcs-router.json';
+import WBNBABI from '../abi/wbnb.json';
+import {
+  Dinero,
+  InterestBNBMarket,
+  MockERC20,
+  MockOracle,
+  ProtocolReserve,
+} from '../typechain';
+import {
+  BURNER_ROLE,
+  MINTER_ROLE,
+  PCS_ROUTER,
+  RESERVE_ROLE,
+  WBNB,
+} from './lib/constants';
+import {
+  advanceBlockAndTime,
+  advanceTime,
+  deploy,
+  deployUUPS,
+} from './lib/test-utils';
+
+const { parseEther } = ethers.utils;
+
+describe('ProtocolReserve', () => {
+  let reserve: ProtocolReserve;
+  let market: InterestBNBMarket;
+  let dinero: Dinero;
+  let mockOracle: MockOracle;
+
+  let owner: SignerWithAddress;
+  let alice: SignerWithAddress;
+  let bob: SignerWithAddress;
+  let treasury: SignerWithAddress;
+
+  beforeEach(async () => {
+    [owner, alice, bob, treasury] = await ethers.getSigners();
+
+    [dinero, mockOracle] = await Promise.all([
+      deployUUPS('Dinero', []),
+      deploy('MockOracle'),
+    ]);
+
+    [reserve, market] = await Promise.all([
+      deployUUPS('ProtocolReserve', [dinero.address]),
+      deployUUPS('InterestBNBMarket', [
+        dinero.address,
+        treasury.address,
+        mockOracle.address,
+        ethers.BigNumber.from(12e8),
+        parseEther('0.5'),
+        parseEther('0.1'),
+        ethers.constants.MaxUint256,
+      ]),
+    ]);
+
+    await mockOracle.__setBNBUSDPrice(parseEther('500'));
+
+    await Promise.all([
+      dinero.connect(owner).grantRole(MINTER_ROLE, owner.address),
+      dinero.connect(owner).grantRole(MINTER_ROLE, market.address),
+      dinero.connect(owner).grantRole(BURNER_ROLE, market.address),
+      dinero.connect(owner).grantRole(RESERVE_ROLE, reserve.address),
+      market.updateExchangeRate(),
+      market.connect(owner).setReserve(reserve.address, parseEther('0.2')),
+      reserve.connect(owner).addContract(market.address),
+    ]);
+  });
+
+  describe('function: initialize', () => {
+    it('reverts if you call it after deployment', async () => {
+      await expect(reserve.initialize(dinero.address)).to.revertedWith(
+        'Initializable: contract is already initialized'
+      );
+    });
+    it('sets the initial state', async () => {
+      expect(await reserve.owner()).to.be.equal(owner.address);
+      expect(await reserve.DINERO()).to.be.equal(dinero.address);
+    });
+  });
+
+  describe('function: setRegistrar', () => {
+    it('reverts if it is not called by the owner or the account is the zero address', async () => {
+      await expect(
+        reserve.connect(alice).setRegistrar(alice.address, true)
+      ).to.revertedWith('Ownable: caller is not the owner');
+      await expect(
+        reserve.connect(owner).setRegistrar(ethers.constants.AddressZero, true)
+      ).to.revertedWith('PR: no zero address');
+    });
+    it('lets a registrar add contracts, but not remove them', async () => {
+      await expect(reserve.connect(owner).setRegistrar(alice.address, true))
+        .to.emit(reserve, 'Registrar')
+        .withArgs(alice.address, true);
+
+      expect(await reserve.registrars(alice.address)).to.be.equal(true);
+
+      await expect(reserve.connect(alice).addContract(bob.address))
+        .to.emit(reserve, 'AddContract')
+        .withArgs(bob.address);
+      await expect(
+        reserve.connect(alice).removeContract(bob.address)
+      ).to.revertedWith('Ownable: caller is not the owner');
+
+      await reserve.connect(owner).setRegistrar(alice.address, false);
+
+      await expect(
+        reserve.connect(alice).addContract(alice.address)
+      ).to.revertedWith('PR: only registrar');
+    });
+  });
+
+  describe('function: addContract and removeContract', () => {
+    it('reverts if they are not called by the owner', async () => {
+      await expect(
+        reserve.connect(alice).addContract(bob.address)
+      ).to.revertedWith('PR: only registrar');
+      await expect(
+        reserve.connect(alice).removeContract(market.address)
+      ).to.revertedWith('Ownable: caller is not the owner');
+    });
+    it('reverts if the contract is already added or not added', async () => {
+      await expect(
+        reserve.connect(owner).addContract(market.address)
+      ).to.revertedWith('PR: already added');
+      await expect(
+        reserve.connect(owner).removeContract(bob.address)
+      ).to.revertedWith('PR: not added');
+    });
+    it('registers contracts', async () => {
+      await expect(reserve.connect(owner).addContract(bob.address))
+        .to.emit(reserve, 'AddContract')
+        .withArgs(bob.address);
+
+      expect(await reserve.getContracts()).to.deep.equal([
+        market.address,
+        bob.address,
+      ]);
+
+      await expect(reserve.connect(owner).removeContract(market.address))
+        .to.emit(reserve, 'RemoveContract')
+        .withArgs(market.address);
+
+      expect(await reserve.isContract(market.address)).to.be.equal(false);
+    });
+  });
+
+  describe('function: coverBadDebt and coverLoss', () => {
+    let stableCoin: MockERC20;
+
+    beforeEach(async () => {
+      stableCoin = await deploy('MockERC20', [
+        'Stable',
+        'STB',
+        parseEther('1000'),
+      ]);
+
+      await Promise.all([
+        reserve.connect(owner).addContract(alice.address),
+        dinero.connect(owner).mint(reserve.address, parseEther('100')),
+        stableCoin.connect(owner).transfer(reserve.address, parseEther('50')),
+      ]);
+    });
+
+    it('reverts if the caller is not registered', async () => {
+      await expect(reserve.connect(bob).coverBadDebt(1)).to.revertedWith(
+        'PR: not allowed'
+      );
+      await expect(
+        reserve.connect(bob).coverLoss(stableCoin.address, 1)
+      ).to.revertedWith('PR: not allowed');
+    });
+    it('burns up to its Dinero balance', async () => {
+      await expect(reserve.connect(alice).coverBadDebt(parseEther('60')))
+        .to.emit(reserve, 'CoverBadDebt')
+        .withArgs(alice.address, parseEther('60'));
+
+      await expect(reserve.connect(alice).coverBadDebt(parseEther('60')))
+        .to.emit(reserve, 'CoverBadDebt')
+        .withArgs(alice.address, parseEther('40'));
+
+      expect(await dinero.balanceOf(reserve.address)).to.be.equal(0);
+
+      await expect(
+        reserve.connect(alice).coverBadDebt(parseEther('60'))
+      ).to.not.emit(reserve, 'CoverBadDebt');
+    });
+    it('sends up to its underlying balance to the vault', async () => {
+      await expect(
+        reserve.connect(alice).coverLoss(stableCoin.address, parseEther('80'))
+      )
+        .to.emit(reserve, 'CoverLoss')
+        .withArgs(alice.address, stableCoin.address, parseEther('50'));
+
+      expect(await stableCoin.balanceOf(alice.address)).to.be.equal(
+        parseEther('50')
+      );
+      expect(await stableCoin.balanceOf(reserve.address)).to.be.equal(0);
+    });
+  });
+
+  describe('function: swap', () => {
+    it('reverts if it is not called by the owner or the path does not start with Dinero', async () => {
+      await expect(
+        reserve
+          .connect(alice)
+          .swap([dinero.address, WBNB], 1, 0, ethers.constants.MaxUint256)
+      ).to.revertedWith('Ownable: caller is not the owner');
+      await expect(
+        reserve
+          .connect(owner)
+          .swap([WBNB, dinero.address], 1, 0, ethers.constants.MaxUint256)
+      ).to.revertedWith('PR: not dinero');
+    });
+    it('sells Dinero in PCS', async () => {
+      const router = new ethers.Contract(PCS_ROUTER, PCSRouterABI, owner);
+      const wbnb = new ethers.Contract(WBNB, WBNBABI, owner);
+
+      await Promise.all([
+        dinero.connect(owner).mint(owner.address, parseEther('50000')),
+        dinero.connect(owner).mint(reserve.address, parseEther('500')),
+        dinero.connect(owner).approve(PCS_ROUTER, ethers.constants.MaxUint256),
+        wbnb.approve(PCS_ROUTER, ethers.constants.MaxUint256),
+        wbnb.deposit({ value: parseEther('100') }),
+      ]);
+
+      await router.addLiquidity(
+        WBNB,
+        dinero.address,
+        parseEther('100'),
+        parseEther('50000'),
+        0,
+        0,
+        owner.address,
+        ethers.constants.MaxUint256
+      );
+
+      await expect(
+        reserve
+          .connect(owner)
+          .swap(
+            [dinero.address, WBNB],
+            parseEther('500'),
+            parseEther('0.9'),
+            ethers.constants.MaxUint256
+          )
+      ).to.emit(reserve, 'Swap');
+
+      expect(await dinero.balanceOf(reserve.address)).to.be.equal(0);
+      expect(
+        (await wbnb.balanceOf(reserve.address)).gt(parseEther('0.9'))
+      ).to.be.equal(true);
+    });
+  });
+
+  describe('function: coverageRatioOf', () => {
+    it('returns how much of the loans of a market the reserve covers', async () => {
+      expect(await reserve.coverageRatioOf(market.address)).to.be.equal(
+        ethers.constants.MaxUint256
+      );
+
+      await market
+        .connect(alice)
+        .addCollateral(alice.address, { value: parseEther('2') });
+      await market.connect(alice).borrow(alice.address, parseEther('400'));
+
+      expect(await reserve.coverageRatioOf(market.address)).to.be.equal(0);
+
+      await dinero.connect(owner).mint(reserve.address, parseEther('100'));
+
+      const [totalDebt, ratio] = await Promise.all([
+        market.getTotalDebt(),
+        reserve.coverageRatioOf(market.address),
+      ]);
+
+      expect(ratio).to.be.equal(
+        parseEther('100').mul(parseEther('1')).div(totalDebt)
+      );
+    });
+    it('includes the interest the market has not accrued', async () => {
+      await market
+        .connect(alice)
+        .addCollateral(alice.address, { value: parseEther('2') });
+      await market.connect(alice).borrow(alice.address, parseEther('400'));
+
+      await dinero.connect(owner).mint(reserve.address, parseEther('100'));
+
+      await advanceBlockAndTime(31_556_952, ethers); // advance 1 year
+
+      const [{ elastic }, totalDebt, ratio] = await Promise.all([
+        market.totalLoan(),
+        market.getTotalDebt(),
+        reserve.coverageRatioOf(market.address),
+      ]);
+
+      expect(totalDebt.gt(elastic)).to.be.equal(true);
+      expect(ratio).to.be.equal(
+        parseEther('100').mul(parseEther('1')).div(totalDebt)
+      );
+      expect(
+        ratio.lt(parseEther('100').mul(parseEther('1')).div(elastic))
+      ).to.be.equal(true);
+    });
+  });
+
+  describe('markets', () => {
+    beforeEach(async () => {
+      await Promise.all([
+        market
+          .connect(alice)
+          .addCollateral(alice.address, { value: parseEther('2') }),
+        market
+          .connect(bob)
+          .addCollateral(bob.address, { value: parseEther('10') }),
+      ]);
+
+      await Promise.all([
+        market.connect(alice).borrow(alice.address, parseEther('499')),
+        market.connect(bob).borrow(bob.address, parseEther('100')),
+      ]);
+    });
+
+    it('reverts if the reserve is set by a non-owner or with a factor higher than 100%', async () => {
+      await expect(
+        market.connect(alice).setReserve(bob.address, 0)
+      ).to.revertedWith('Ownable: caller is not the owner');
+      await expect(
+        market.connect(owner).setReserve(bob.address, parseEther('1.01'))
+      ).to.revertedWith('MKT: too high');
+    });
+    it('reverts if the reserve factor is not 0 without a reserve', async () => {
+      await expect(
+        market
+          .connect(owner)
+          .setReserve(ethers.constants.AddressZero, parseEther('0.2'))
+      ).to.revertedWith('MKT: no reserve');
+
+      await expect(
+        market.connect(owner).setReserve(ethers.constants.AddressZero, 0)
+      )
+        .to.emit(market, 'Reserve')
+        .withArgs(ethers.constants.AddressZero, 0);
+    });
+    it('sets the reserve', async () => {
+      await expect(market.connect(owner).setReserve(bob.address, 0))
+        .to.emit(market, 'Reserve')
+        .withArgs(bob.address, 0);
+
+      expect(await market.reserve()).to.be.equal(bob.address);
+      expect(await market.reserveFactor()).to.be.equal(0);
+    });
+    it('sends the reserve factor of the earnings to the reserve', async () => {
+      await advanceTime(63_113_904, ethers); // advance 2 years
+
+      await expect(market.getEarnings())
+        .to.emit(market, 'GetEarnings')
+        .to.not.emit(market, 'CoverBadDebt');
+
+      const [reserveBalance, treasuryBalance] = await Promise.all([
+        dinero.balanceOf(reserve.address),
+        dinero.balanceOf(treasury.address),
+      ]);
+
+      expect(reserveBalance.gt(0)).to.be.equal(true);
+      expect(reserveBalance).to.be.equal(
+        reserveBalance.add(treasuryBalance).mul(2).div(10)
+      );
+    });
+    it('covers the bad debt the fees do not cover with the reserve', async () => {
+      await Promise.all([
+        dinero.connect(owner).mint(reserve.address, parseEther('1000')),
+        dinero.connect(owner).mint(owner.address, parseEther('1000')),
+      ]);
+
+      // Alice's collateral is now worth 200 USD for a debt of ~499 DNR.
+      await mockOracle.__setBNBUSDPrice(parseEther('100'));
+
+      await expect(
+        market
+          .connect(owner)
+          .liquidate(
+            [alice.address],
+            [parseEther('499')],
+            owner.address,
+            [],
+            0,
+            ethers.constants.MaxUint256
+          )
+      )
+        .to.emit(market, 'BadDebt')
+        .to.emit(market, 'CoverBadDebt')
+        .to.emit(reserve, 'CoverBadDebt');
+
+      const [badDebt, loan, reserveBalance] = await Promise.all([
+        market.badDebt(),
+        market.loan(),
+        dinero.balanceOf(reserve.address),
+      ]);
+
+      expect(badDebt).to.be.equal(0);
+      expect(loan.feesEarned).to.be.equal(0);
+      // The fees covered a small part of the bad debt.
+      expect(reserveBalance.gt(parseEther('680'))).to.be.equal(true);
+      expect(reserveBalance.lt(parseEther('700'))).to.be.equal(true);
+    });
+    it('charges the interest, the earnings and the bad debt burned by the reserve to the market', async () => {
+      await Promise.all([
+        dinero.connect(owner).mint(reserve.address, parseEther('1000')),
+        dinero.connect(owner).mint(owner.address, parseEther('1000')),
+      ]);
+
+      // The market {mintedOf} is its net supply until the burns of the interest bring it to zero. Then it overstates it.
+      const expectNetSupply = async (exact: boolean) => {
+        const [ownerMinted, marketMinted, reserveMinted, totalSupply] =
+          await Promise.all([
+            dinero.mintedOf(owner.address),
+            dinero.mintedOf(market.address),
+            dinero.mintedOf(reserve.address),
+            dinero.totalSupply(),
+          ]);
+
+        expect(reserveMinted).to.be.equal(0);
+        expect(ownerMinted).to.be.equal(parseEther('2000'));
+
+        if (exact) {
+          expect(ownerMinted.add(marketMinted)).to.be.equal(totalSupply);
+        } else {
+          expect(ownerMinted.add(marketMinted).gte(totalSupply)).to.be.equal(
+            true
+          );
+        }
+      };
+
+      await expectNetSupply(true);
+
+      await advanceTime(31_556_952, ethers); // advance 1 year
+
+      // Bob burns the principal and the interest of his loan.
+      await dinero.connect(owner).transfer(bob.address, parseEther('100'));
+      await market
+        .connect(bob)
+        .repay(bob.address, await market.userLoan(bob.address));
+
+      await expectNetSupply(true);
+
+      // Alice's collateral is now worth 200 USD for a debt of ~499 DNR.
+      await mockOracle.__setBNBUSDPrice(parseEther('100'));
+
+      await expect(
+        market
+          .connect(owner)
+          .liquidate(
+            [alice.address],
+            [parseEther('499')],
+            owner.address,
+            [],
+            0,
+            ethers.constants.MaxUint256
+          )
+      ).to.emit(reserve, 'CoverBadDebt');
+
+      // The liquidation burned more than the market has outstanding.
+      expect(await dinero.mintedOf(market.address)).to.be.equal(0);
+      await expectNetSupply(false);
+
+      await market.getEarnings();
+
+      await expectNetSupply(false);
+    });
+  });
+});